@@ -1,108 +1,25 @@
-figma.showUI(__html__, { width: 400, height: 600 });
+import type {
+    SerializedNode, SerializedReaction, SerializedTransition, NodeMetadata, SemanticHints, AccessibilityProps,
+    VisualContext, LayoutProps, GridTrack, StyleProps, TextProps, TextSegment, SerializedHyperlink, Rgb,
+} from './types';
+import {
+    LintFinding, LintFix, LINT_KEY, LINT_RULES, parseLintConfig, colorKey, lintDesign, applyFix,
+} from './lint';
 
-// --- Interfaces ---
+figma.showUI(__html__, { width: 400, height: 600 });
 
-interface SerializedNode {
-    id: string;
-    name: string;
-    type: string;
-    children?: SerializedNode[];
-    layout?: LayoutProps;
-    style?: StyleProps;
-    text?: TextProps;
-    metadata?: NodeMetadata;
-    semanticHints?: SemanticHints;
-    visualContext?: VisualContext;
-}
-
-interface NodeMetadata {
-    isComponent: boolean;
-    componentName?: string;
-    variantProperties?: Record<string, string>;
-    mainComponentId?: string;
-    depth: number;
-    siblingIndex: number;
-    totalSiblings: number;
-}
-
-interface SemanticHints {
-    likelyRole?: 'button' | 'input' | 'card' | 'list' | 'header' | 'avatar' | 'icon' | 'divider' | 'badge' | 'container' | 'text' | 'image';
-    isInteractive?: boolean;
-    isDecorative?: boolean;
-    confidence?: number;
-}
-
-interface VisualContext {
-    visualWeight: number;
-    hasBackground: boolean;
-    hasBorder: boolean;
-    hasShadow: boolean;
-    isOverlapping?: boolean;
-}
-
-interface LayoutProps {
-    width: number;
-    height: number;
-    x: number;
-    y: number;
-    rotation?: number;
-    layoutMode?: "NONE" | "HORIZONTAL" | "VERTICAL" | "GRID";
-    primaryAxisSizingMode?: "FIXED" | "AUTO";
-    counterAxisSizingMode?: "FIXED" | "AUTO";
-    primaryAxisAlignItems?: "MIN" | "MAX" | "CENTER" | "SPACE_BETWEEN";
-    counterAxisAlignItems?: "MIN" | "MAX" | "CENTER" | "BASELINE";
-    padding?: { top: number; right: number; bottom: number; left: number };
-    itemSpacing?: number;
-    constraints?: Constraints;
-    layoutGrow?: number;
-    layoutAlign?: "MIN" | "MAX" | "CENTER" | "STRETCH" | "INHERIT";
-    layoutWrap?: "NO_WRAP" | "WRAP";
-    layoutPositioning?: "AUTO" | "ABSOLUTE";
-    minWidth?: number;
-    maxWidth?: number;
-    minHeight?: number;
-    maxHeight?: number;
-}
-
-interface StyleProps {
-    fills?: any[];
-    strokes?: any[];
-    strokeWeight?: number;
-    strokeAlign?: "INSIDE" | "OUTSIDE" | "CENTER";
-    effects?: any[];
-    opacity?: number;
-    blendMode?: BlendMode;
-    cornerRadius?: number | { topLeft: number; topRight: number; bottomLeft: number; bottomRight: number };
-    clipsContent?: boolean;
-    isMask?: boolean;
-}
-
-interface TextProps {
-    characters: string;
-    fontSize: number;
-    fontName: FontName;
-    fontWeight: number;
-    textDecoration?: "NONE" | "UNDERLINE" | "STRIKETHROUGH";
-    textCase?: "ORIGINAL" | "UPPER" | "LOWER" | "TITLE" | "SMALL_CAPS" | "SMALL_CAPS_FORCED";
-    lineHeight?: LineHeight;
-    letterSpacing?: LetterSpacing;
-    textAlignHorizontal?: "LEFT" | "CENTER" | "RIGHT" | "JUSTIFIED";
-    textAlignVertical?: "TOP" | "CENTER" | "BOTTOM";
-    paragraphSpacing?: number;
-    paragraphIndent?: number;
-    styledSegments?: TextSegment[];
-}
-
-interface TextSegment {
-    characters: string;
-    start: number;
-    end: number;
-    fontSize: number;
-    fontName: FontName;
-    fontWeight: number;
-    fills?: any[];
+interface SerializeOptions {
+    skipContextImage?: boolean;
+    // Serialize only; no image or SVG uploads (icon children are still dropped, as on export)
+    skipAssets?: boolean;
 }
 
+// Style fields read per range of a text node
+const TEXT_SEGMENT_FIELDS: (keyof Omit<StyledTextSegment, 'characters' | 'start' | 'end'>)[] = [
+    'fontSize', 'fontName', 'fontWeight', 'fills', 'textDecoration', 'textCase',
+    'letterSpacing', 'lineHeight', 'hyperlink', 'listOptions', 'indentation',
+];
+
 // --- Semantic Analysis ---
 
 function analyzeSemanticRole(node: SceneNode, depth: number): SemanticHints {
@@ -207,25 +124,355 @@ function calculateVisualContext(node: SceneNode): VisualContext {
     return context;
 }
 
+// --- Accessibility ---
+
+// Plugin data key holding a designer's annotations as JSON: { label, hint, headingLevel, decorative }
+const ACCESSIBILITY_KEY = 'maxcompute:a11y';
+const NOTE_PATTERN = /^(label|hint|heading|decorative)\s*(?::\s*(.*))?$/i;
+// WCAG 2.5.5 / Material minimum tap target, in logical pixels
+const MIN_TAP_TARGET = 48;
+
+/**
+ * "label: Close menu", "hint: ...", "heading: 2" and "decorative" notes, one per line in
+ * component descriptions or separated by ';' in [brackets] of a layer name
+ */
+function parseAccessibilityNotes(text: string): AccessibilityProps {
+    const props: AccessibilityProps = {};
+    text.split(/[\n;]/).forEach(line => {
+        const match = line.trim().match(NOTE_PATTERN);
+        if (!match) return;
+        const key = match[1].toLowerCase();
+        const value = (match[2] || '').trim();
+        if (key === 'decorative') {
+            props.excluded = !/^(false|no)$/i.test(value);
+        } else if (key === 'heading') {
+            const level = parseInt(value, 10);
+            if (level >= 1 && level <= 6) props.headingLevel = level;
+        } else if (value) {
+            props[key as 'label' | 'hint'] = value;
+        }
+    });
+    return props;
+}
+
+/**
+ * Notes in a layer name: "Close [label: Close menu]", "H2 Section title", "Blob (decorative)"
+ */
+function accessibilityFromName(name: string): AccessibilityProps {
+    const props: AccessibilityProps = {};
+    const brackets = name.match(/\[([^\]]*)\]/g) || [];
+    brackets.forEach(group => Object.assign(props, parseAccessibilityNotes(group.slice(1, -1))));
+
+    const heading = name.match(/\b(?:h|heading\s?)([1-6])\b/i);
+    if (heading && props.headingLevel === undefined) props.headingLevel = parseInt(heading[1], 10);
+    if (/\bdecorative\b/i.test(name) && props.excluded === undefined) props.excluded = true;
+    return props;
+}
+
+/**
+ * Annotations of a node: its component's description, then its name, then the plugin data
+ * a designer set on it, each overriding the one before
+ */
+function extractAccessibility(node: SceneNode): AccessibilityProps | null {
+    const sources: AccessibilityProps[] = [];
+    const component = node.type === 'INSTANCE' ? node.mainComponent : node.type === 'COMPONENT' ? node : null;
+    if (component) {
+        if (component.parent && component.parent.type === 'COMPONENT_SET') {
+            sources.push(parseAccessibilityNotes(component.parent.description));
+        }
+        sources.push(parseAccessibilityNotes(component.description));
+    } else if (node.type === 'COMPONENT_SET') {
+        sources.push(parseAccessibilityNotes(node.description));
+    }
+    sources.push(accessibilityFromName(node.name));
+
+    const stored = node.getPluginData(ACCESSIBILITY_KEY);
+    if (stored) {
+        try {
+            const data = JSON.parse(stored);
+            const props: AccessibilityProps = {};
+            if (typeof data.label === 'string' && data.label) props.label = data.label;
+            if (typeof data.hint === 'string' && data.hint) props.hint = data.hint;
+            if (data.headingLevel >= 1 && data.headingLevel <= 6) props.headingLevel = data.headingLevel;
+            if (typeof data.decorative === 'boolean') props.excluded = data.decorative;
+            sources.push(props);
+        } catch (err) {
+            console.error(`[A11y] Ignoring invalid ${ACCESSIBILITY_KEY} data on "${node.name}"`);
+        }
+    }
+
+    const merged: AccessibilityProps = Object.assign({}, ...sources);
+    return Object.keys(merged).length > 0 ? merged : null;
+}
+
+interface ContrastCheck {
+    id: string;
+    name: string;
+    characters: string;
+    ratio: number;
+    required: number;
+}
+
+interface TapTargetCheck {
+    id: string;
+    name: string;
+    width: number;
+    height: number;
+}
+
+interface AccessibilityReport {
+    // Every text layer whose colors could be read; failing ones have ratio < required
+    contrast: ContrastCheck[];
+    smallTargets: TapTargetCheck[];
+    // Interactive nodes without text or a label, which screen readers cannot name
+    unlabeled: { id: string; name: string }[];
+}
+
+function blend(top: Rgb, alpha: number, bottom: Rgb): Rgb {
+    return {
+        r: top.r * alpha + bottom.r * (1 - alpha),
+        g: top.g * alpha + bottom.g * (1 - alpha),
+        b: top.b * alpha + bottom.b * (1 - alpha),
+    };
+}
+
+function relativeLuminance(color: Rgb): number {
+    const channel = (value: number) => (value <= 0.03928 ? value / 12.92 : Math.pow((value + 0.055) / 1.055, 2.4));
+    return 0.2126 * channel(color.r) + 0.7152 * channel(color.g) + 0.0722 * channel(color.b);
+}
+
+function contrastRatio(a: Rgb, b: Rgb): number {
+    const lighter = Math.max(relativeLuminance(a), relativeLuminance(b));
+    const darker = Math.min(relativeLuminance(a), relativeLuminance(b));
+    return (lighter + 0.05) / (darker + 0.05);
+}
+
+/**
+ * The color behind a node once its fills are painted over `below`; null when a gradient
+ * or image makes it unknown (until an opaque solid fill covers it again)
+ */
+function paintFills(below: Rgb | null, node: SerializedNode): Rgb | null {
+    const style = node.style || {};
+    const opacity = style.opacity !== undefined ? style.opacity : 1;
+    let color = below;
+    (style.fills || []).forEach(paint => {
+        if (!paint || paint.visible === false) return;
+        const alpha = (paint.opacity !== undefined ? paint.opacity : 1) * opacity;
+        if (alpha <= 0) return;
+        if (paint.type !== 'SOLID') {
+            color = null;
+        } else if (alpha >= 1 || color) {
+            color = blend(paint.color, alpha, color || paint.color);
+        }
+    });
+    return color;
+}
+
+function textColor(node: SerializedNode): { color: Rgb; alpha: number } | null {
+    const fills = (node.style && node.style.fills) || (node.text && node.text.styledSegments && node.text.styledSegments.length > 0 ? node.text.styledSegments[0].fills : null) || [];
+    const solid = fills.filter(paint => paint && paint.visible !== false && paint.type === 'SOLID').pop();
+    if (!solid) return null;
+    const opacity = node.style && node.style.opacity !== undefined ? node.style.opacity : 1;
+    return { color: solid.color, alpha: (solid.opacity !== undefined ? solid.opacity : 1) * opacity };
+}
+
+function contains(outer: LayoutProps | undefined, inner: LayoutProps | undefined): boolean {
+    if (!outer || !inner) return false;
+    return outer.x <= inner.x && outer.y <= inner.y
+        && outer.x + outer.width >= inner.x + inner.width && outer.y + outer.height >= inner.y + inner.height;
+}
+
+function containsText(node: SerializedNode): boolean {
+    if (node.visible === false) return false;
+    if (node.type === 'TEXT') return !!(node.text && node.text.characters.trim());
+    return (node.children || []).some(containsText);
+}
+
+/**
+ * WCAG AA contrast of every text layer against the fills behind it (its frames and the
+ * shapes it sits on), and interactive nodes that are under 48x48 or have nothing to announce
+ */
+function auditAccessibility(root: SerializedNode): AccessibilityReport {
+    const report: AccessibilityReport = { contrast: [], smallTargets: [], unlabeled: [] };
+    const white: Rgb = { r: 1, g: 1, b: 1 };
+
+    const walk = (node: SerializedNode, background: Rgb | null) => {
+        if (node.visible === false || (node.accessibility && node.accessibility.excluded)) return;
+        const layout = node.layout;
+
+        if (node.type === 'TEXT' && node.text) {
+            const foreground = textColor(node);
+            if (background && foreground && node.text.characters.trim()) {
+                const text = node.text;
+                const large = text.fontSize >= 24 || (text.fontSize >= 18.66 && text.fontWeight >= 700);
+                report.contrast.push({
+                    id: node.id,
+                    name: node.name,
+                    characters: text.characters.slice(0, 40),
+                    ratio: Math.round(contrastRatio(blend(foreground.color, foreground.alpha, background), background) * 100) / 100,
+                    required: large ? 3 : 4.5,
+                });
+            }
+            return;
+        }
+
+        const hints = node.semanticHints || {};
+        if (hints.isInteractive && layout) {
+            if (layout.width < MIN_TAP_TARGET || layout.height < MIN_TAP_TARGET) {
+                report.smallTargets.push({ id: node.id, name: node.name, width: Math.round(layout.width), height: Math.round(layout.height) });
+            }
+            if (hints.likelyRole !== 'input' && !containsText(node) && !(node.accessibility && node.accessibility.label)) {
+                report.unlabeled.push({ id: node.id, name: node.name });
+            }
+        }
+
+        const own = paintFills(background, node);
+        const children = node.children || [];
+        children.forEach((child, idx) => {
+            // Shapes drawn earlier that cover the child are behind it as well
+            let behind = own;
+            children.slice(0, idx).forEach(sibling => {
+                if (sibling.visible !== false && sibling.type !== 'TEXT' && contains(sibling.layout, child.layout)) {
+                    behind = paintFills(behind, sibling);
+                }
+            });
+            walk(child, behind);
+        });
+    };
+
+    walk(root, white);
+    return report;
+}
+
+// --- Design Lint ---
+
+/**
+ * Lint settings of the file, so everyone converting its frames uses the same rules
+ */
+function readLintConfig() {
+    return parseLintConfig(figma.root.getPluginData(LINT_KEY));
+}
+
+/**
+ * Local paint styles made of one solid color, by color, for fixing unstyled fills
+ */
+async function solidPaintStyles(): Promise<Map<string, { id: string; name: string }>> {
+    const styles = new Map<string, { id: string; name: string }>();
+    for (const style of await figma.getLocalPaintStylesAsync()) {
+        const paints = style.paints.filter(paint => paint.visible !== false);
+        if (paints.length === 1 && paints[0].type === 'SOLID') {
+            const key = colorKey(paints[0].color, paints[0].opacity ?? 1);
+            if (!styles.has(key)) styles.set(key, { id: style.id, name: style.name });
+        }
+    }
+    return styles;
+}
+
+/**
+ * Lint findings of a node with the file's settings
+ */
+async function lintNode(node: SceneNode): Promise<LintFinding[]> {
+    const serialized = await serializeNode(node, {}, 0, 0, 1, { skipContextImage: true, skipAssets: true });
+    return lintDesign(serialized, readLintConfig(), await solidPaintStyles());
+}
+
+/**
+ * Lint errors that stop the conversion of a node when the file blocks generation on them;
+ * read before anything is exported. Empty when the conversion may go ahead.
+ */
+async function blockingFindings(node: SceneNode): Promise<LintFinding[]> {
+    if (!readLintConfig().blockOnErrors) return [];
+    return (await lintNode(node)).filter(finding => finding.severity === 'error');
+}
+
 // --- Serialization Logic ---
 
 // Removed custom uint8ArrayToBase64 in favor of figma.base64Encode
 
 const pendingUploads = new Map<string, (filename: string | null) => void>();
 
-function uploadImage(id: string, name: string, data: string): Promise<string | null> {
+// Progress lines shown in the UI while converting, and forwarded to the server log
+function logToServer(message: string, logType: 'info' | 'error' = 'info') {
+    figma.ui.postMessage({ type: 'log-to-server', message, logType });
+}
+
+function uploadImage(id: string, name: string, data: string, format: 'png' | 'svg' = 'png'): Promise<string | null> {
     return new Promise((resolve) => {
         pendingUploads.set(id, resolve);
-        figma.ui.postMessage({ type: 'upload-req', id, name, data });
+        figma.ui.postMessage({ type: 'upload-req', id, name, data, format });
     });
 }
 
+// VECTOR and BOOLEAN_OPERATION nodes, plus icon-role containers of vectors, export as SVG
+const VECTOR_EXPORT_TYPES = ['VECTOR', 'BOOLEAN_OPERATION'];
+const ICON_CONTAINER_TYPES = ['FRAME', 'GROUP', 'COMPONENT', 'INSTANCE'];
+const ICON_SHAPE_TYPES = ['VECTOR', 'BOOLEAN_OPERATION', 'STAR', 'POLYGON', 'ELLIPSE', 'RECTANGLE', 'LINE'];
+
+// SVG uploads of the current conversion keyed by content hash, so identical icons upload once
+const svgUploads = new Map<string, Promise<string | null>>();
+
+// 32-bit FNV-1a, enough to spot identical SVG exports
+function hashBytes(bytes: Uint8Array): string {
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < bytes.length; i++) {
+        hash ^= bytes[i];
+        hash = Math.imul(hash, 0x01000193);
+    }
+    return ('0000000' + (hash >>> 0).toString(16)).slice(-8);
+}
+
+function hasImageFill(node: SceneNode): boolean {
+    return 'fills' in node && Array.isArray(node.fills) && node.fills.some(fill => fill.type === 'IMAGE');
+}
+
+// Icon-role containers qualify only when they hold nothing but vector shapes
+function isVectorIcon(node: SceneNode, hints: SemanticHints): boolean {
+    if (VECTOR_EXPORT_TYPES.indexOf(node.type) !== -1) return true;
+    if (hints.likelyRole !== 'icon' || ICON_CONTAINER_TYPES.indexOf(node.type) === -1) return false;
+    if (!('findAll' in node) || hasImageFill(node)) return false;
+
+    const descendants = node.findAll(() => true);
+    const hasShape = descendants.some(child => ICON_SHAPE_TYPES.indexOf(child.type) !== -1 && child.type !== 'RECTANGLE');
+    const onlyShapes = descendants.every(child =>
+        (ICON_SHAPE_TYPES.indexOf(child.type) !== -1 || ICON_CONTAINER_TYPES.indexOf(child.type) !== -1) && !hasImageFill(child)
+    );
+    return hasShape && onlyShapes;
+}
+
+async function exportSvgAsset(node: SceneNode, assets: Record<string, any>): Promise<boolean> {
+    try {
+        const bytes = await node.exportAsync({ format: 'SVG' });
+        const hash = hashBytes(bytes);
+        const safeName = node.name.replace(/[^a-zA-Z0-9]/g, '_').toLowerCase();
+
+        let upload = svgUploads.get(hash);
+        if (!upload) {
+            logToServer(`[Asset] Uploading SVG ${safeName} (${hash})...`);
+            upload = uploadImage(`${node.id}_svg`, safeName, figma.base64Encode(bytes), 'svg');
+            svgUploads.set(hash, upload);
+        }
+
+        const filename = await upload;
+        if (!filename) {
+            console.error(`[Asset] SVG upload failed for ${safeName}`);
+            return false;
+        }
+
+        assets[node.id] = { id: node.id, name: safeName, filename, format: 'svg', hash };
+        return true;
+    } catch (err) {
+        console.error(`[Asset] Failed to export SVG for "${node.name}":`, err);
+        return false;
+    }
+}
+
 async function serializeNode(
     node: SceneNode,
     assets: Record<string, any>,
     depth: number = 0,
     siblingIndex: number = 0,
-    totalSiblings: number = 1
+    totalSiblings: number = 1,
+    options: SerializeOptions = {}
 ): Promise<SerializedNode> {
     const serialized: SerializedNode = {
         id: node.id,
@@ -233,28 +480,32 @@ async function serializeNode(
         type: node.type,
     };
 
+    if (!node.visible) {
+        serialized.visible = false;
+    }
+
     // Root Node Context Image
-    if (depth === 0) {
+    if (depth === 0 && !options.skipContextImage) {
         try {
-            figma.ui.postMessage({ type: 'log-to-server', message: `[Context] Exporting root node "${node.name}"...`, logType: 'info' });
+            logToServer(`[Context] Exporting root node "${node.name}"...`);
 
             // Export at 1.5x
             const bytes = await node.exportAsync({ format: 'PNG', constraint: { type: 'SCALE', value: 1.5 } });
             const base64 = figma.base64Encode(bytes);
             const safeName = `context_${node.name.replace(/[^a-zA-Z0-9]/g, '_').toLowerCase()}`;
 
-            figma.ui.postMessage({ type: 'log-to-server', message: `[Context] Uploading ${base64.length} chars...`, logType: 'info' });
+            logToServer(`[Context] Uploading ${base64.length} chars...`);
 
             const filename = await uploadImage(node.id + '_context', safeName, base64);
 
             if (filename) {
                 (serialized as any).contextImageFilename = filename;
-                figma.ui.postMessage({ type: 'log-to-server', message: `[Context] Upload complete: ${filename}`, logType: 'info' });
+                logToServer(`[Context] Upload complete: ${filename}`);
             } else {
-                figma.ui.postMessage({ type: 'log-to-server', message: `[Context] Upload returned null`, logType: 'error' });
+                logToServer(`[Context] Upload returned null`, 'error');
             }
         } catch (err: any) {
-            figma.ui.postMessage({ type: 'log-to-server', message: `[Context] Export failed: ${err.message}`, logType: 'error' });
+            logToServer(`[Context] Export failed: ${err.message}`, 'error');
         }
     }
 
@@ -270,11 +521,38 @@ async function serializeNode(
         const instance = node as InstanceNode;
         serialized.metadata.mainComponentId = instance.mainComponent?.id;
         serialized.metadata.componentName = instance.mainComponent?.name;
+        serialized.metadata.componentProperties = serializeComponentProperties(instance.componentProperties);
+        if (instance.variantProperties) {
+            serialized.metadata.variantProperties = instance.variantProperties;
+        }
+    }
+
+    if (node.type === 'COMPONENT' && node.variantProperties) {
+        serialized.metadata.variantProperties = node.variantProperties;
+    }
+
+    // Which component properties drive this node's text, visibility or swapped instance
+    if ('componentPropertyReferences' in node && node.componentPropertyReferences) {
+        serialized.metadata.propertyReferences = { ...node.componentPropertyReferences };
     }
 
     // Semantic hints
     serialized.semanticHints = analyzeSemanticRole(node, depth);
 
+    // Accessibility annotations
+    const accessibility = extractAccessibility(node);
+    if (accessibility) {
+        serialized.accessibility = accessibility;
+    }
+
+    // Prototype links
+    if ('reactions' in node && node.reactions.length > 0) {
+        const reactions = await serializeReactions(node.reactions);
+        if (reactions.length > 0) {
+            serialized.reactions = reactions;
+        }
+    }
+
     // Visual context
     serialized.visualContext = calculateVisualContext(node);
 
@@ -289,8 +567,13 @@ async function serializeNode(
         serialized.text = await extractText(node);
     }
 
+    // Vector icons are exported whole as SVG; their children are not serialized
+    if (isVectorIcon(node, serialized.semanticHints) && (options.skipAssets || await exportSvgAsset(node, assets))) {
+        return serialized;
+    }
+
     // Image Export
-    if ('fills' in node) {
+    if ('fills' in node && !options.skipAssets) {
         const fills = node.fills;
         if (Array.isArray(fills)) {
             const hasImage = fills.some(fill => fill.type === 'IMAGE');
@@ -301,7 +584,7 @@ async function serializeNode(
                     const base64 = figma.base64Encode(bytes);
                     const safeName = node.name.replace(/[^a-zA-Z0-9]/g, '_').toLowerCase();
 
-                    console.log(`[Asset] Uploading ${safeName}...`);
+                    logToServer(`[Asset] Uploading ${safeName}...`);
                     const filename = await uploadImage(node.id, safeName, base64);
 
                     if (filename) {
@@ -326,7 +609,7 @@ async function serializeNode(
         const childCount = node.children.length;
         serialized.children = await Promise.all(
             node.children.map((child, idx) =>
-                serializeNode(child, assets, depth + 1, idx, childCount)
+                serializeNode(child, assets, depth + 1, idx, childCount, options)
             )
         );
     }
@@ -365,7 +648,28 @@ function extractLayout(node: SceneNode): LayoutProps {
         // Layout wrap (if available)
         if ("layoutWrap" in node) {
             layout.layoutWrap = node.layoutWrap;
+            if (node.layoutWrap === 'WRAP' && typeof node.counterAxisSpacing === 'number') {
+                layout.counterAxisSpacing = node.counterAxisSpacing;
+            }
         }
+
+        if (node.layoutMode === 'GRID') {
+            layout.gridRowCount = node.gridRowCount;
+            layout.gridColumnCount = node.gridColumnCount;
+            layout.gridRowGap = node.gridRowGap;
+            layout.gridColumnGap = node.gridColumnGap;
+            layout.gridRowSizes = node.gridRowSizes.map(serializeGridTrack);
+            layout.gridColumnSizes = node.gridColumnSizes.map(serializeGridTrack);
+        }
+    }
+
+    // Cell of a grid child
+    const parent = node.parent;
+    if (parent && "layoutMode" in parent && parent.layoutMode === 'GRID' && "gridRowSpan" in node) {
+        layout.gridRowAnchorIndex = node.gridRowAnchorIndex;
+        layout.gridColumnAnchorIndex = node.gridColumnAnchorIndex;
+        layout.gridRowSpan = node.gridRowSpan;
+        layout.gridColumnSpan = node.gridColumnSpan;
     }
 
     // Positioning
@@ -386,6 +690,10 @@ function extractLayout(node: SceneNode): LayoutProps {
     return layout;
 }
 
+function serializeGridTrack(track: GridTrackSize): GridTrack {
+    return track.value !== undefined ? { type: track.type, value: track.value } : { type: track.type };
+}
+
 function extractStyle(node: SceneNode): StyleProps {
     const style: StyleProps = {};
 
@@ -438,6 +746,13 @@ function extractStyle(node: SceneNode): StyleProps {
 
     if ("clipsContent" in node) style.clipsContent = node.clipsContent;
 
+    // Local style references, resolved to AppColors / AppShadows on the server
+    if ("fillStyleId" in node && typeof node.fillStyleId === 'string' && node.fillStyleId) {
+        style.fillStyleId = node.fillStyleId;
+    }
+    if ("strokeStyleId" in node && node.strokeStyleId) style.strokeStyleId = node.strokeStyleId;
+    if ("effectStyleId" in node && node.effectStyleId) style.effectStyleId = node.effectStyleId;
+
     return style;
 }
 
@@ -462,63 +777,134 @@ async function extractText(node: TextNode): Promise<TextProps> {
     if ("paragraphIndent" in node && node.paragraphIndent !== figma.mixed) {
         textProps.paragraphIndent = node.paragraphIndent;
     }
+    if (typeof node.textStyleId === 'string' && node.textStyleId) {
+        textProps.textStyleId = node.textStyleId;
+    }
 
-    // Extract styled text segments
-    const segments: TextSegment[] = [];
-    const length = node.characters.length;
+    // Sizing: auto width text must not wrap, truncated text ends in an ellipsis
+    textProps.textAutoResize = node.textAutoResize;
+    if (node.textTruncation === "ENDING") {
+        textProps.textTruncation = node.textTruncation;
+        if (node.maxLines) textProps.maxLines = node.maxLines;
+    }
 
-    if (length > 0) {
+    // Styled ranges: one call for the whole node instead of per-character range lookups
+    if (node.characters.length > 0) {
         try {
-            let currentPos = 0;
-            while (currentPos < length) {
-                const endPos = Math.min(currentPos + 1, length);
-
-                const fontSize = node.getRangeFontSize(currentPos, endPos);
-                const fontName = node.getRangeFontName(currentPos, endPos);
-                const fontWeight = node.getRangeFontWeight(currentPos, endPos);
-                const fills = node.getRangeFills(currentPos, endPos);
-
-                // Find extent of this style
-                let styleEnd = currentPos + 1;
-                for (let i = currentPos + 1; i < length; i++) {
-                    const nextFontSize = node.getRangeFontSize(i, i + 1);
-                    const nextFontName = node.getRangeFontName(i, i + 1);
-                    const nextFontWeight = node.getRangeFontWeight(i, i + 1);
-
-                    if (fontSize === nextFontSize &&
-                        fontName !== figma.mixed && nextFontName !== figma.mixed &&
-                        JSON.stringify(fontName) === JSON.stringify(nextFontName) &&
-                        fontWeight === nextFontWeight) {
-                        styleEnd = i + 1;
-                    } else {
-                        break;
-                    }
+            const segments: TextSegment[] = [];
+            for (const range of node.getStyledTextSegments(TEXT_SEGMENT_FIELDS)) {
+                const segment: TextSegment = {
+                    characters: range.characters,
+                    start: range.start,
+                    end: range.end,
+                    fontSize: range.fontSize,
+                    fontName: range.fontName,
+                    fontWeight: range.fontWeight,
+                    fills: range.fills.map(serializePaint),
+                    textDecoration: range.textDecoration,
+                    textCase: range.textCase,
+                    letterSpacing: range.letterSpacing,
+                    lineHeight: range.lineHeight,
+                };
+                if (range.hyperlink) {
+                    segment.hyperlink = await serializeHyperlink(range.hyperlink);
                 }
-
-                if (fontSize !== figma.mixed && fontName !== figma.mixed && fontWeight !== figma.mixed) {
-                    segments.push({
-                        characters: node.characters.substring(currentPos, styleEnd),
-                        start: currentPos,
-                        end: styleEnd,
-                        fontSize: fontSize as number,
-                        fontName: fontName as FontName,
-                        fontWeight: fontWeight as number,
-                        fills: fills !== figma.mixed ? (fills as Paint[]).map(serializePaint) : undefined,
-                    });
+                if (range.listOptions.type !== "NONE") {
+                    segment.listType = range.listOptions.type;
+                    segment.indentation = range.indentation;
                 }
+                segments.push(segment);
+            }
 
-                currentPos = styleEnd;
+            // A single range is the node's own style unless it carries a link or a list
+            if (segments.length > 1 || segments.some(segment => segment.hyperlink || segment.listType)) {
+                textProps.styledSegments = segments;
             }
         } catch (err) {
             console.log("Could not extract text segments:", err);
         }
     }
 
-    if (segments.length > 1) {
-        textProps.styledSegments = segments;
+    return textProps;
+}
+
+async function serializeHyperlink(hyperlink: HyperlinkTarget): Promise<SerializedHyperlink> {
+    const link: SerializedHyperlink = { type: hyperlink.type, value: hyperlink.value };
+    if (hyperlink.type === "NODE") {
+        let destination = await figma.getNodeByIdAsync(hyperlink.value);
+        // Frames may sit inside sections; the screen is the outermost frame
+        while (destination && destination.parent && ["PAGE", "DOCUMENT", "SECTION"].indexOf(destination.parent.type) === -1) {
+            destination = destination.parent;
+        }
+        if (destination) {
+            link.destinationId = destination.id;
+            link.destinationName = destination.name;
+        }
+    }
+    return link;
+}
+
+function serializeComponentProperties(properties: ComponentProperties): Record<string, { type: ComponentPropertyType; value: string | boolean }> {
+    const serialized: Record<string, { type: ComponentPropertyType; value: string | boolean }> = {};
+    for (const key of Object.keys(properties)) {
+        serialized[key] = { type: properties[key].type, value: properties[key].value };
     }
+    return serialized;
+}
 
-    return textProps;
+/**
+ * Navigation-related prototype actions with their destination frame's name (used for
+ * route and class names) and, for overlays, where the overlay opens
+ */
+async function serializeReactions(reactions: ReadonlyArray<Reaction>): Promise<SerializedReaction[]> {
+    const serialized: SerializedReaction[] = [];
+
+    for (const reaction of reactions) {
+        const trigger = reaction.trigger ? reaction.trigger.type : null;
+        const actions = reaction.actions || (reaction.action ? [reaction.action] : []);
+
+        for (const action of actions) {
+            if (action.type === 'BACK' || action.type === 'CLOSE') {
+                serialized.push({ trigger, action: action.type });
+            } else if (action.type === 'URL') {
+                serialized.push({ trigger, action: 'URL', url: action.url });
+            } else if (action.type === 'NODE' && action.destinationId) {
+                const entry: SerializedReaction = {
+                    trigger,
+                    action: action.navigation,
+                    destinationId: action.destinationId,
+                    transition: serializeTransition(action.transition),
+                };
+                const destination = await figma.getNodeByIdAsync(action.destinationId);
+                if (destination) {
+                    entry.destinationName = destination.name;
+                    if (action.navigation === 'OVERLAY' && 'overlayPositionType' in destination) {
+                        entry.overlayPosition = destination.overlayPositionType;
+                    }
+                }
+                serialized.push(entry);
+            }
+        }
+    }
+
+    return serialized;
+}
+
+function serializeTransition(transition: Transition | null): SerializedTransition | null {
+    if (!transition) return null;
+
+    const serialized: SerializedTransition = {
+        type: transition.type,
+        duration: transition.duration,
+        easing: { type: transition.easing.type },
+    };
+    if ('direction' in transition) {
+        serialized.direction = transition.direction;
+    }
+    if (transition.easing.easingFunctionCubicBezier) {
+        serialized.easing.bezier = transition.easing.easingFunctionCubicBezier;
+    }
+    return serialized;
 }
 
 function serializePaint(paint: Paint): any {
@@ -527,7 +913,8 @@ function serializePaint(paint: Paint): any {
             type: "SOLID",
             color: paint.color,
             opacity: paint.opacity ?? 1,
-            visible: paint.visible ?? true
+            visible: paint.visible ?? true,
+            variableId: paint.boundVariables?.color?.id
         };
     } else if (paint.type === "GRADIENT_LINEAR" || paint.type === "GRADIENT_RADIAL" || paint.type === "GRADIENT_ANGULAR" || paint.type === "GRADIENT_DIAMOND") {
         return {
@@ -569,8 +956,196 @@ function serializeEffect(effect: Effect): any {
     return null;
 }
 
+// --- Design Tokens ---
+
+interface DesignTokens {
+    paintStyles: { id: string; name: string; description: string; paints: any[] }[];
+    textStyles: {
+        id: string;
+        name: string;
+        description: string;
+        fontSize: number;
+        fontName: FontName;
+        lineHeight: LineHeight;
+        letterSpacing: LetterSpacing;
+        textDecoration: string;
+        textCase: string;
+    }[];
+    effectStyles: { id: string; name: string; description: string; effects: any[] }[];
+    variableCollections: {
+        id: string;
+        name: string;
+        defaultModeId: string;
+        modes: { modeId: string; name: string }[];
+        variables: {
+            id: string;
+            name: string;
+            description: string;
+            resolvedType: string;
+            valuesByMode: Record<string, any>;
+        }[];
+    }[];
+}
+
+async function extractDesignTokens(): Promise<DesignTokens> {
+    const paintStyles = await figma.getLocalPaintStylesAsync();
+    const textStyles = await figma.getLocalTextStylesAsync();
+    const effectStyles = await figma.getLocalEffectStylesAsync();
+    const collections = await figma.variables.getLocalVariableCollectionsAsync();
+    // Only color variables are mapped to Dart for now
+    const variables = await figma.variables.getLocalVariablesAsync('COLOR');
+
+    return {
+        paintStyles: paintStyles.map(style => ({
+            id: style.id,
+            name: style.name,
+            description: style.description,
+            paints: style.paints.map(serializePaint).filter(Boolean),
+        })),
+        textStyles: textStyles.map(style => ({
+            id: style.id,
+            name: style.name,
+            description: style.description,
+            fontSize: style.fontSize,
+            fontName: style.fontName,
+            lineHeight: style.lineHeight,
+            letterSpacing: style.letterSpacing,
+            textDecoration: style.textDecoration,
+            textCase: style.textCase,
+        })),
+        effectStyles: effectStyles.map(style => ({
+            id: style.id,
+            name: style.name,
+            description: style.description,
+            effects: style.effects.map(serializeEffect).filter(Boolean),
+        })),
+        variableCollections: collections.map(collection => ({
+            id: collection.id,
+            name: collection.name,
+            defaultModeId: collection.defaultModeId,
+            modes: collection.modes.map(mode => ({ modeId: mode.modeId, name: mode.name })),
+            variables: variables
+                .filter(variable => variable.variableCollectionId === collection.id)
+                .map(variable => ({
+                    id: variable.id,
+                    name: variable.name,
+                    description: variable.description,
+                    resolvedType: variable.resolvedType,
+                    valuesByMode: variable.valuesByMode,
+                })),
+        })),
+    };
+}
+
+// --- Components ---
+
+interface ComponentDefinition {
+    type: ComponentPropertyType;
+    defaultValue: string | boolean;
+    variantOptions?: string[];
+}
+
+interface SyncedComponent {
+    id: string;
+    name: string;
+    description: string;
+    definitions: Record<string, ComponentDefinition>;
+    data: SerializedNode;
+}
+
+/**
+ * Every local main component and component set in the file; variants are
+ * serialized as children of their set
+ */
+async function extractComponents(assets: Record<string, any>): Promise<SyncedComponent[]> {
+    await figma.loadAllPagesAsync();
+    const nodes = figma.root.findAllWithCriteria({ types: ['COMPONENT', 'COMPONENT_SET'] })
+        .filter(node => !(node.type === 'COMPONENT' && node.parent && node.parent.type === 'COMPONENT_SET'));
+
+    const components: SyncedComponent[] = [];
+    for (const node of nodes) {
+        const definitions: Record<string, ComponentDefinition> = {};
+        for (const key of Object.keys(node.componentPropertyDefinitions)) {
+            const definition = node.componentPropertyDefinitions[key];
+            definitions[key] = {
+                type: definition.type,
+                defaultValue: definition.defaultValue,
+                variantOptions: definition.variantOptions,
+            };
+        }
+
+        components.push({
+            id: node.id,
+            name: node.name,
+            description: node.description,
+            definitions,
+            data: await serializeNode(node, assets, 0, 0, 1, { skipContextImage: true }),
+        });
+    }
+    return components;
+}
+
+// --- Design Snapshots ---
+
+// Plugin data key holding the SerializedNode a node was last generated from
+const SNAPSHOT_KEY = 'maxcompute:snapshot';
+
+async function storeSnapshot(id: string, data: SerializedNode): Promise<void> {
+    const node = await figma.getNodeByIdAsync(id);
+    if (!node) return;
+
+    const snapshot: any = { ...data };
+    delete snapshot.contextImageFilename;
+    node.setPluginData(SNAPSHOT_KEY, JSON.stringify(snapshot));
+}
+
+// --- Responsive Screens ---
+
+// Plugin data key holding the breakpoint a frame was last tagged with
+const BREAKPOINT_KEY = 'maxcompute:breakpoint';
+const BREAKPOINT_NAMES = ['mobile', 'tablet', 'desktop'];
+
+/**
+ * Breakpoint tagged on the frame, otherwise guessed from its name ("Home / Tablet") or width
+ */
+function breakpointFor(node: SceneNode): string {
+    const stored = node.getPluginData(BREAKPOINT_KEY);
+    if (BREAKPOINT_NAMES.indexOf(stored) !== -1) return stored;
+
+    const name = node.name.toLowerCase();
+    if (/desktop|laptop|web/.test(name)) return 'desktop';
+    if (/tablet|ipad/.test(name)) return 'tablet';
+    if (/mobile|phone|android/.test(name)) return 'mobile';
+    return node.width >= 1024 ? 'desktop' : node.width >= 600 ? 'tablet' : 'mobile';
+}
+
+// --- Batch Conversion ---
+
+const BATCH_NODE_TYPES = ['FRAME', 'COMPONENT', 'COMPONENT_SET', 'INSTANCE'];
+
+/**
+ * Frames to convert in batch mode: the selected frames, or every top-level
+ * frame on the current page (frames inside sections included)
+ */
+function getBatchTargets(scope: 'selection' | 'page'): SceneNode[] {
+    const roots: readonly SceneNode[] = scope === 'page' ? figma.currentPage.children : figma.currentPage.selection;
+    const targets: SceneNode[] = [];
+
+    for (const node of roots) {
+        if (node.type === 'SECTION') {
+            targets.push(...node.children.filter(child => BATCH_NODE_TYPES.indexOf(child.type) !== -1 && child.visible));
+        } else if (BATCH_NODE_TYPES.indexOf(node.type) !== -1 && node.visible) {
+            targets.push(node);
+        }
+    }
+    return targets;
+}
+
 // --- Message Handling ---
 
+// Server token (see server/src/utils/security.js), saved per user rather than in the document
+const TOKEN_KEY = 'maxcompute:server-token';
+
 figma.ui.onmessage = async (msg) => {
     if (msg.type === 'upload-resp') {
         const resolve = pendingUploads.get(msg.id);
@@ -581,6 +1156,158 @@ figma.ui.onmessage = async (msg) => {
         return;
     }
 
+    if (msg.type === 'extract-tokens') {
+        try {
+            const tokens = await extractDesignTokens();
+            figma.ui.postMessage({ type: 'tokens-data', tokens });
+        } catch (err) {
+            console.error(err);
+            figma.ui.postMessage({ type: 'tokens-error', message: 'Failed to read local styles and variables. Check console.' });
+        }
+        return;
+    }
+
+    if (msg.type === 'sync-components') {
+        try {
+            svgUploads.clear();
+            const assets: Record<string, any> = {};
+            const components = await extractComponents(assets);
+            if (components.length === 0) {
+                figma.ui.postMessage({ type: 'components-error', message: 'No local components found in this file.' });
+                return;
+            }
+            figma.ui.postMessage({ type: 'components-data', components, assets });
+        } catch (err: any) {
+            console.error(err);
+            figma.ui.postMessage({ type: 'components-error', message: `Failed to read components: ${err.message}` });
+        }
+        return;
+    }
+
+    if (msg.type === 'store-snapshot') {
+        try {
+            await storeSnapshot(msg.id, msg.data);
+        } catch (err) {
+            console.error(`[Snapshot] Failed to store snapshot for ${msg.id}:`, err);
+        }
+        return;
+    }
+
+    if (msg.type === 'diff-selection') {
+        const selection = figma.currentPage.selection;
+        if (selection.length === 0) {
+            figma.ui.postMessage({ type: 'diff-error', message: 'Please select a generated frame.' });
+            return;
+        }
+
+        const node = selection[0];
+        const stored = node.getPluginData(SNAPSHOT_KEY);
+        if (!stored) {
+            figma.ui.postMessage({ type: 'diff-error', message: `"${node.name}" has not been generated yet, so there is nothing to compare.` });
+            return;
+        }
+
+        try {
+            const current = await serializeNode(node, {}, 0, 0, 1, { skipContextImage: true, skipAssets: true });
+            figma.ui.postMessage({ type: 'diff-data', id: node.id, name: node.name, previous: JSON.parse(stored), current });
+        } catch (err: any) {
+            console.error(err);
+            figma.ui.postMessage({ type: 'diff-error', message: `Failed to read "${node.name}": ${err.message}` });
+        }
+        return;
+    }
+
+    if (msg.type === 'history-selection') {
+        const selection = figma.currentPage.selection;
+        if (selection.length === 0) {
+            figma.ui.postMessage({ type: 'history-error', message: 'Please select a generated frame.' });
+            return;
+        }
+        figma.ui.postMessage({ type: 'history-node', id: selection[0].id, name: selection[0].name });
+        return;
+    }
+
+    if (msg.type === 'audit-selection') {
+        const selection = figma.currentPage.selection;
+        if (selection.length === 0) {
+            figma.ui.postMessage({ type: 'accessibility-error', message: 'Please select a frame to check.' });
+            return;
+        }
+
+        try {
+            const serialized = await serializeNode(selection[0], {}, 0, 0, 1, { skipContextImage: true, skipAssets: true });
+            figma.ui.postMessage({ type: 'accessibility-report', name: selection[0].name, report: auditAccessibility(serialized) });
+        } catch (err: any) {
+            console.error(err);
+            figma.ui.postMessage({ type: 'accessibility-error', message: `Failed to read "${selection[0].name}": ${err.message}` });
+        }
+        return;
+    }
+
+    if (msg.type === 'select-node') {
+        const node = await figma.getNodeByIdAsync(msg.id);
+        if (node && node.type !== 'DOCUMENT' && node.type !== 'PAGE') {
+            figma.currentPage.selection = [node as SceneNode];
+            figma.viewport.scrollAndZoomIntoView([node as SceneNode]);
+        }
+        return;
+    }
+
+    if (msg.type === 'get-token') {
+        figma.ui.postMessage({ type: 'token', token: (await figma.clientStorage.getAsync(TOKEN_KEY)) || '' });
+        return;
+    }
+
+    if (msg.type === 'save-token') {
+        await figma.clientStorage.setAsync(TOKEN_KEY, msg.token);
+        return;
+    }
+
+    if (msg.type === 'get-lint-config') {
+        figma.ui.postMessage({ type: 'lint-config', config: readLintConfig(), rules: LINT_RULES });
+        return;
+    }
+
+    if (msg.type === 'save-lint-config') {
+        figma.root.setPluginData(LINT_KEY, JSON.stringify(msg.config));
+        return;
+    }
+
+    if (msg.type === 'lint-selection') {
+        const selection = figma.currentPage.selection;
+        if (selection.length === 0) {
+            figma.ui.postMessage({ type: 'lint-error', message: 'Please select a frame to lint.' });
+            return;
+        }
+
+        try {
+            figma.ui.postMessage({ type: 'lint-report', rootId: selection[0].id, name: selection[0].name, findings: await lintNode(selection[0]) });
+        } catch (err: any) {
+            console.error(err);
+            figma.ui.postMessage({ type: 'lint-error', message: `Failed to read "${selection[0].name}": ${err.message}` });
+        }
+        return;
+    }
+
+    if (msg.type === 'fix-lint') {
+        let fixed = 0;
+        for (const { id, fix } of msg.fixes as { id: string; fix: LintFix }[]) {
+            try {
+                if (await applyFix(await figma.getNodeByIdAsync(id), fix)) fixed++;
+            } catch (err) {
+                console.error(`[Lint] Failed to fix ${id}:`, err);
+            }
+        }
+        figma.notify(`Fixed ${fixed} layer(s)`);
+
+        // Lint the frame again so the list shows what is left
+        const root = await figma.getNodeByIdAsync(msg.rootId);
+        if (root && root.type !== 'DOCUMENT' && root.type !== 'PAGE') {
+            figma.ui.postMessage({ type: 'lint-report', rootId: root.id, name: root.name, findings: await lintNode(root as SceneNode) });
+        }
+        return;
+    }
+
     if (msg.type === 'convert-selection') {
         const selection = figma.currentPage.selection;
         if (selection.length === 0) {
@@ -588,21 +1315,147 @@ figma.ui.onmessage = async (msg) => {
             return;
         }
 
+        if (selection.length > 1) {
+            figma.notify(`Converting "${selection[0].name}" only. Use batch conversion for all ${selection.length} selected frames.`);
+        }
+
         try {
+            const blocking = await blockingFindings(selection[0]);
+            if (blocking.length > 0) {
+                figma.ui.postMessage({ type: 'lint-blocked', id: selection[0].id, name: selection[0].name, findings: blocking });
+                return;
+            }
+
+            svgUploads.clear();
             const assets: Record<string, any> = {};
+            logToServer(`[Serialize] Reading "${selection[0].name}"...`);
             const serialized = await serializeNode(selection[0], assets, 0, 0, 1);
             const contextImage = (serialized as any).contextImageFilename;
+            logToServer(`[Serialize] Done, ${Object.keys(assets).length} asset(s) uploaded`);
 
             figma.ui.postMessage({
                 type: 'selection-data',
                 data: serialized,
                 assets: assets,
                 contextImage: contextImage,
+                accessibility: auditAccessibility(serialized),
+                lint: lintDesign(serialized, readLintConfig(), await solidPaintStyles()),
                 saveToFile: msg.saveToFile
             });
         } catch (err) {
             console.error(err);
             figma.ui.postMessage({ type: 'error', message: 'Failed to process selection. Check console.' });
         }
+        return;
+    }
+
+    if (msg.type === 'responsive-selection') {
+        const targets = getBatchTargets('selection');
+        if (targets.length < 2) {
+            figma.ui.postMessage({ type: 'responsive-error', message: 'Select the frames of one screen at two or more breakpoints (e.g. Mobile, Tablet, Desktop).' });
+            return;
+        }
+
+        figma.ui.postMessage({
+            type: 'responsive-frames',
+            frames: targets.map(node => ({ id: node.id, name: node.name, width: Math.round(node.width), breakpoint: breakpointFor(node) }))
+        });
+        return;
+    }
+
+    if (msg.type === 'convert-responsive') {
+        try {
+            svgUploads.clear();
+            const assets: Record<string, any> = {};
+            const variants: { name: string; figmaData: SerializedNode; contextImage: string | undefined }[] = [];
+
+            const nodes: SceneNode[] = [];
+            for (const frame of msg.frames) {
+                const node = await figma.getNodeByIdAsync(frame.id);
+                if (!node || node.type === 'DOCUMENT' || node.type === 'PAGE') {
+                    throw new Error(`Frame ${frame.id} no longer exists`);
+                }
+                nodes.push(node as SceneNode);
+            }
+            const blocking: LintFinding[] = [];
+            for (const node of nodes) {
+                blocking.push(...await blockingFindings(node));
+            }
+            if (blocking.length > 0) {
+                figma.ui.postMessage({ type: 'lint-blocked', id: nodes[0].id, name: nodes[0].name, findings: blocking });
+                return;
+            }
+
+            for (let i = 0; i < nodes.length; i++) {
+                const node = nodes[i];
+                const frame = msg.frames[i];
+                node.setPluginData(BREAKPOINT_KEY, frame.breakpoint);
+
+                logToServer(`[Serialize] Reading "${node.name}" (${frame.breakpoint})...`);
+                const serialized = await serializeNode(node, assets, 0, 0, 1);
+                variants.push({ name: frame.breakpoint, figmaData: serialized, contextImage: (serialized as any).contextImageFilename });
+            }
+            logToServer(`[Serialize] Done, ${variants.length} breakpoint(s), ${Object.keys(assets).length} asset(s) uploaded`);
+
+            const reports = variants.map(variant => auditAccessibility(variant.figmaData));
+            const accessibility: AccessibilityReport = {
+                contrast: ([] as ContrastCheck[]).concat(...reports.map(report => report.contrast)),
+                smallTargets: ([] as TapTargetCheck[]).concat(...reports.map(report => report.smallTargets)),
+                unlabeled: ([] as { id: string; name: string }[]).concat(...reports.map(report => report.unlabeled)),
+            };
+
+            const config = readLintConfig();
+            const styles = await solidPaintStyles();
+            const lint = ([] as LintFinding[]).concat(...variants.map(variant => lintDesign(variant.figmaData, config, styles)));
+
+            figma.ui.postMessage({ type: 'responsive-data', breakpoints: variants, assets, accessibility, lint, saveToFile: msg.saveToFile });
+        } catch (err: any) {
+            console.error(err);
+            figma.ui.postMessage({ type: 'error', message: `Failed to process breakpoint frames: ${err.message}` });
+        }
+        return;
+    }
+
+    if (msg.type === 'convert-batch') {
+        const targets = getBatchTargets(msg.scope);
+        if (targets.length === 0) {
+            const where = msg.scope === 'page' ? 'on this page' : 'in the selection';
+            figma.ui.postMessage({ type: 'error', message: `No frames found ${where}.` });
+            return;
+        }
+
+        figma.ui.postMessage({
+            type: 'batch-start',
+            items: targets.map(node => ({ id: node.id, name: node.name })),
+            saveToFile: msg.saveToFile
+        });
+
+        // Serialize one frame at a time; the UI starts converting each item as soon as it arrives
+        svgUploads.clear();
+        for (const node of targets) {
+            try {
+                const blocking = await blockingFindings(node);
+                if (blocking.length > 0) {
+                    figma.ui.postMessage({ type: 'batch-item-error', id: node.id, message: `Blocked by ${blocking.length} design lint error(s), e.g. ${blocking[0].message}` });
+                    continue;
+                }
+
+                const assets: Record<string, any> = {};
+                const serialized = await serializeNode(node, assets, 0, 0, 1);
+
+                figma.ui.postMessage({
+                    type: 'batch-item',
+                    id: node.id,
+                    data: serialized,
+                    assets: assets,
+                    contextImage: (serialized as any).contextImageFilename
+                });
+            } catch (err: any) {
+                console.error(err);
+                figma.ui.postMessage({ type: 'batch-item-error', id: node.id, message: `Serialization failed: ${err.message}` });
+            }
+        }
+
+        figma.ui.postMessage({ type: 'batch-serialized' });
     }
 };
\ No newline at end of file
@@ -0,0 +1,215 @@
+/**
+ * Design lint over serialized frames: the rules, the file's rule settings and the safe fixes
+ * a finding can apply. No Figma API calls here, so the rules can be tested outside Figma
+ * (see test_lint.js); code.ts reads the settings and nodes and hands them in.
+ */
+
+import type { SerializedNode, TextProps, Rgb } from './types';
+
+export type LintSeverity = 'error' | 'warning' | 'info';
+export type LintRule = 'auto-layout-group' | 'absolute-in-auto-layout' | 'default-name' | 'hidden-layer' | 'mixed-fonts' | 'unstyled-fill';
+
+// Safe changes a finding can apply to its layer
+export type LintFix = { kind: 'rename'; name: string } | { kind: 'fill-style'; styleId: string; styleName: string };
+
+export interface LintFinding {
+    id: string;
+    name: string;
+    rule: LintRule;
+    severity: LintSeverity;
+    message: string;
+    fix?: LintFix;
+}
+
+export interface LintConfig {
+    rules: Record<LintRule, LintSeverity | 'off'>;
+    // Conversions of frames with error findings stop before anything is exported
+    blockOnErrors: boolean;
+}
+
+// Layer a fix is applied to: any node found by ID; fill styles need a layer with fills
+export interface FixTarget {
+    type: string;
+    name: string;
+    setFillStyleIdAsync?: (styleId: string) => Promise<void>;
+}
+
+export const LINT_KEY = 'maxcompute:lint';
+const MAX_FONT_FAMILIES = 2;
+
+export const LINT_RULES: { id: LintRule; label: string; severity: LintSeverity }[] = [
+    { id: 'auto-layout-group', label: 'Groups instead of auto layout', severity: 'warning' },
+    { id: 'absolute-in-auto-layout', label: 'Absolute children in auto layout', severity: 'warning' },
+    { id: 'default-name', label: 'Default layer names', severity: 'warning' },
+    { id: 'hidden-layer', label: 'Hidden layers', severity: 'info' },
+    { id: 'mixed-fonts', label: 'Mixed font families', severity: 'warning' },
+    { id: 'unstyled-fill', label: 'Fills without a style', severity: 'info' },
+];
+
+// Names Figma gives new layers; text layers are named after their text instead
+const DEFAULT_NAME = /^(Frame|Group|Rectangle|Ellipse|Vector|Line|Arrow|Polygon|Star|Image|Section|Union|Subtract|Intersect|Exclude|Slice)( \d+)?$/;
+
+const ROLE_NAMES: Record<string, string> = {
+    button: 'Button', input: 'Input', card: 'Card', header: 'Header',
+    avatar: 'Avatar', icon: 'Icon', divider: 'Divider', badge: 'Badge',
+};
+
+/**
+ * Rule settings stored in the file (plugin data under LINT_KEY) over the defaults; unknown
+ * rules and severities are ignored
+ */
+export function parseLintConfig(stored: string | null): LintConfig {
+    const config: LintConfig = { rules: {} as LintConfig['rules'], blockOnErrors: false };
+    LINT_RULES.forEach(rule => { config.rules[rule.id] = rule.severity; });
+
+    if (stored) {
+        try {
+            const parsed = JSON.parse(stored);
+            LINT_RULES.forEach(rule => {
+                const severity = parsed.rules && parsed.rules[rule.id];
+                if (['off', 'info', 'warning', 'error'].indexOf(severity) !== -1) config.rules[rule.id] = severity;
+            });
+            config.blockOnErrors = parsed.blockOnErrors === true;
+        } catch (err) {
+            console.error('[Lint] Ignoring invalid lint settings:', err);
+        }
+    }
+    return config;
+}
+
+export function colorKey(color: Rgb, opacity: number): string {
+    return [color.r, color.g, color.b, opacity].map(value => Math.round(value * 255)).join(',');
+}
+
+function firstWords(node: SerializedNode): string | null {
+    if (node.visible === false) return null;
+    if (node.type === 'TEXT' && node.text) {
+        const words = node.text.characters.replace(/[^\w\s'-]/g, ' ').trim().split(/\s+/).slice(0, 3).join(' ');
+        return words || null;
+    }
+    for (const child of node.children || []) {
+        const words = firstWords(child);
+        if (words) return words;
+    }
+    return null;
+}
+
+/**
+ * A name that says what a default-named layer is, from its semantic role, image fill or
+ * layout and the first text inside it, e.g. "Sign in Button"; null when nothing tells
+ */
+function suggestName(node: SerializedNode): string | null {
+    const hints = node.semanticHints || { confidence: 0 };
+    if (hints.likelyRole && ROLE_NAMES[hints.likelyRole]) return ROLE_NAMES[hints.likelyRole];
+    const fills = (node.style && node.style.fills) || [];
+    if (fills.some(paint => paint && paint.visible !== false && paint.type === 'IMAGE')) return 'Image';
+
+    const layoutMode = node.layout && node.layout.layoutMode;
+    const kind = hints.isInteractive ? 'Button'
+        : layoutMode === 'HORIZONTAL' ? 'Row'
+            : layoutMode === 'VERTICAL' ? 'Column'
+                : layoutMode === 'GRID' ? 'Grid'
+                    : null;
+    if (!kind) return null;
+    const words = firstWords(node);
+    return words ? `${words} ${kind}` : kind;
+}
+
+function fontFamilies(text: TextProps): string[] {
+    const families: string[] = [];
+    (text.styledSegments && text.styledSegments.length > 0 ? text.styledSegments.map(segment => segment.fontName) : [text.fontName])
+        .forEach(fontName => {
+            if (fontName && families.indexOf(fontName.family) === -1) families.push(fontName.family);
+        });
+    return families;
+}
+
+/**
+ * Findings of the lint rules over a serialized frame. Layers inside instances come from
+ * their component and are linted there instead.
+ * @param styles - Local solid paint styles by colorKey, for the fill-style fix
+ */
+export function lintDesign(root: SerializedNode, config: LintConfig, styles: Map<string, { id: string; name: string }>): LintFinding[] {
+    const findings: LintFinding[] = [];
+    const texts: { node: SerializedNode; family: string }[] = [];
+
+    const report = (rule: LintRule, node: SerializedNode, message: string, fix?: LintFix) => {
+        const severity = config.rules[rule];
+        if (severity === 'off') return;
+        const finding: LintFinding = { id: node.id, name: node.name, rule, severity, message };
+        if (fix) finding.fix = fix;
+        findings.push(finding);
+    };
+
+    const walk = (node: SerializedNode, parent: SerializedNode | null) => {
+        if (node.visible === false) {
+            report('hidden-layer', node, `"${node.name}" is hidden and is left out of the generated code`);
+            return;
+        }
+
+        const layout = node.layout;
+        const parentMode = parent && parent.layout ? parent.layout.layoutMode : undefined;
+        if (parentMode && parentMode !== 'NONE' && layout && layout.layoutPositioning === 'ABSOLUTE') {
+            report('absolute-in-auto-layout', node, `"${node.name}" is absolutely positioned in auto layout, so it becomes a Stack overlay`);
+        }
+
+        const children = (node.children || []).filter(child => child.visible !== false);
+        if (node.type === 'GROUP' && children.length >= 2) {
+            report('auto-layout-group', node, `"${node.name}" is a group; a frame with auto layout becomes a Row or Column instead of fixed positions`);
+        }
+
+        if (node.type !== 'TEXT' && DEFAULT_NAME.test(node.name)) {
+            const name = suggestName(node);
+            report('default-name', node, `"${node.name}" has a default name${name ? `; rename it to "${name}"` : ''}`, name ? { kind: 'rename', name } : undefined);
+        }
+
+        const style = node.style || {};
+        const solids = (style.fills || []).filter(paint => paint && paint.visible !== false && paint.type === 'SOLID');
+        if (solids.length > 0 && !style.fillStyleId && !solids.some(paint => paint.variableId)) {
+            const match = solids.length === 1 ? styles.get(colorKey(solids[0].color, solids[0].opacity)) : undefined;
+            report('unstyled-fill', node, `"${node.name}" has a fill without a style or variable${match ? `; "${match.name}" has the same color` : ''}`,
+                match ? { kind: 'fill-style', styleId: match.id, styleName: match.name } : undefined);
+        }
+
+        if (node.type === 'TEXT' && node.text) {
+            const families = fontFamilies(node.text);
+            if (families.length > 1) {
+                report('mixed-fonts', node, `"${node.name}" mixes ${families.join(', ')}`);
+            }
+            texts.push({ node, family: families[0] });
+        }
+
+        if (node.type === 'INSTANCE') return;
+        (node.children || []).forEach(child => walk(child, node));
+    };
+    walk(root, null);
+
+    // Text in families beyond the most used ones
+    const counts: Record<string, number> = {};
+    texts.forEach(text => { counts[text.family] = (counts[text.family] || 0) + 1; });
+    const ranked = Object.keys(counts).sort((a, b) => counts[b] - counts[a]);
+    if (ranked.length > MAX_FONT_FAMILIES) {
+        const main = ranked.slice(0, MAX_FONT_FAMILIES);
+        texts.filter(text => main.indexOf(text.family) === -1).forEach(text => {
+            report('mixed-fonts', text.node, `"${text.node.name}" uses ${text.family}; the frame uses ${ranked.length} font families, mostly ${main.join(' and ')}`);
+        });
+    }
+    return findings;
+}
+
+/**
+ * Apply a finding's fix to its layer
+ * @returns false when the layer is gone, is the document or a page, or cannot take the fix
+ */
+export async function applyFix(node: FixTarget | null, fix: LintFix): Promise<boolean> {
+    if (!node || node.type === 'DOCUMENT' || node.type === 'PAGE') return false;
+    if (fix.kind === 'rename') {
+        node.name = fix.name;
+        return true;
+    }
+    if (fix.kind === 'fill-style' && node.setFillStyleIdAsync) {
+        await node.setFillStyleIdAsync(fix.styleId);
+        return true;
+    }
+    return false;
+}
@@ -0,0 +1,179 @@
+/**
+ * Shapes of the serialized Figma tree the plugin sends to the server. Shared by the
+ * serializer in code.ts and the design lint in lint.ts.
+ */
+
+export interface SerializedNode {
+    id: string;
+    name: string;
+    type: string;
+    children?: SerializedNode[];
+    layout?: LayoutProps;
+    style?: StyleProps;
+    text?: TextProps;
+    metadata?: NodeMetadata;
+    semanticHints?: SemanticHints;
+    visualContext?: VisualContext;
+    reactions?: SerializedReaction[];
+    accessibility?: AccessibilityProps;
+    visible?: boolean;
+}
+
+// One prototype action; a reaction with several actions becomes several entries
+export interface SerializedReaction {
+    trigger: Trigger['type'] | null;
+    action: Navigation | 'BACK' | 'CLOSE' | 'URL';
+    destinationId?: string;
+    destinationName?: string;
+    overlayPosition?: OverlayPositionType;
+    url?: string;
+    transition?: SerializedTransition | null;
+}
+
+export interface SerializedTransition {
+    type: Transition['type'];
+    direction?: DirectionalTransition['direction'];
+    duration: number;
+    easing: { type: Easing['type']; bezier?: EasingFunctionBezier };
+}
+
+export interface NodeMetadata {
+    isComponent: boolean;
+    componentName?: string;
+    variantProperties?: Record<string, string>;
+    mainComponentId?: string;
+    componentProperties?: Record<string, { type: ComponentPropertyType; value: string | boolean }>;
+    propertyReferences?: Record<string, string>;
+    depth: number;
+    siblingIndex: number;
+    totalSiblings: number;
+}
+
+export interface SemanticHints {
+    likelyRole?: 'button' | 'input' | 'card' | 'list' | 'header' | 'avatar' | 'icon' | 'divider' | 'badge' | 'container' | 'text' | 'image';
+    isInteractive?: boolean;
+    isDecorative?: boolean;
+    confidence?: number;
+}
+
+// Designer annotations for screen readers; excluded nodes are left out of the semantics tree
+export interface AccessibilityProps {
+    label?: string;
+    hint?: string;
+    headingLevel?: number;
+    excluded?: boolean;
+}
+
+export interface VisualContext {
+    visualWeight: number;
+    hasBackground: boolean;
+    hasBorder: boolean;
+    hasShadow: boolean;
+    isOverlapping?: boolean;
+}
+
+export interface LayoutProps {
+    width: number;
+    height: number;
+    x: number;
+    y: number;
+    rotation?: number;
+    layoutMode?: "NONE" | "HORIZONTAL" | "VERTICAL" | "GRID";
+    primaryAxisSizingMode?: "FIXED" | "AUTO";
+    counterAxisSizingMode?: "FIXED" | "AUTO";
+    primaryAxisAlignItems?: "MIN" | "MAX" | "CENTER" | "SPACE_BETWEEN";
+    counterAxisAlignItems?: "MIN" | "MAX" | "CENTER" | "BASELINE";
+    padding?: { top: number; right: number; bottom: number; left: number };
+    itemSpacing?: number;
+    constraints?: Constraints;
+    layoutGrow?: number;
+    layoutAlign?: "MIN" | "MAX" | "CENTER" | "STRETCH" | "INHERIT";
+    layoutWrap?: "NO_WRAP" | "WRAP";
+    // Gap between wrapped rows
+    counterAxisSpacing?: number;
+    layoutPositioning?: "AUTO" | "ABSOLUTE";
+    minWidth?: number;
+    maxWidth?: number;
+    minHeight?: number;
+    maxHeight?: number;
+    // GRID frames
+    gridRowCount?: number;
+    gridColumnCount?: number;
+    gridRowGap?: number;
+    gridColumnGap?: number;
+    gridRowSizes?: GridTrack[];
+    gridColumnSizes?: GridTrack[];
+    // Children of GRID frames: first cell (0-based) and cells covered
+    gridRowAnchorIndex?: number;
+    gridColumnAnchorIndex?: number;
+    gridRowSpan?: number;
+    gridColumnSpan?: number;
+}
+
+export interface GridTrack {
+    type: GridTrackSize['type'];
+    value?: number;
+}
+
+export interface StyleProps {
+    fills?: any[];
+    strokes?: any[];
+    strokeWeight?: number;
+    strokeAlign?: "INSIDE" | "OUTSIDE" | "CENTER";
+    effects?: any[];
+    opacity?: number;
+    blendMode?: BlendMode;
+    cornerRadius?: number | { topLeft: number; topRight: number; bottomLeft: number; bottomRight: number };
+    clipsContent?: boolean;
+    isMask?: boolean;
+    fillStyleId?: string;
+    strokeStyleId?: string;
+    effectStyleId?: string;
+}
+
+export interface TextProps {
+    characters: string;
+    fontSize: number;
+    fontName: FontName;
+    fontWeight: number;
+    textDecoration?: "NONE" | "UNDERLINE" | "STRIKETHROUGH";
+    textCase?: "ORIGINAL" | "UPPER" | "LOWER" | "TITLE" | "SMALL_CAPS" | "SMALL_CAPS_FORCED";
+    lineHeight?: LineHeight;
+    letterSpacing?: LetterSpacing;
+    textAlignHorizontal?: "LEFT" | "CENTER" | "RIGHT" | "JUSTIFIED";
+    textAlignVertical?: "TOP" | "CENTER" | "BOTTOM";
+    paragraphSpacing?: number;
+    paragraphIndent?: number;
+    textAutoResize?: "NONE" | "WIDTH_AND_HEIGHT" | "HEIGHT" | "TRUNCATE";
+    textTruncation?: "DISABLED" | "ENDING";
+    maxLines?: number;
+    styledSegments?: TextSegment[];
+    textStyleId?: string;
+}
+
+export interface TextSegment {
+    characters: string;
+    start: number;
+    end: number;
+    fontSize: number;
+    fontName: FontName;
+    fontWeight: number;
+    fills?: any[];
+    textDecoration: "NONE" | "UNDERLINE" | "STRIKETHROUGH";
+    textCase: "ORIGINAL" | "UPPER" | "LOWER" | "TITLE" | "SMALL_CAPS" | "SMALL_CAPS_FORCED";
+    letterSpacing: LetterSpacing;
+    lineHeight: LineHeight;
+    hyperlink?: SerializedHyperlink;
+    listType?: "ORDERED" | "UNORDERED";
+    indentation?: number;
+}
+
+export interface SerializedHyperlink {
+    type: "URL" | "NODE";
+    value: string;
+    // Top-level frame a NODE link points into, so the server can route to its screen
+    destinationId?: string;
+    destinationName?: string;
+}
+
+export type Rgb = { r: number; g: number; b: number };
@@ -0,0 +1,240 @@
+/**
+ * Batch queue tests: the script of src/ui.html runs in a VM with a stand-in DOM and fetch,
+ * and batch messages from code.ts are posted to it. Covers concurrency, which failures are
+ * retried, and that a failed save is retried without converting again.
+ *
+ * Usage: npm test
+ */
+const fs = require('fs');
+const path = require('path');
+const vm = require('vm');
+const assert = require('node:assert');
+const { test } = require('node:test');
+
+const html = fs.readFileSync(path.join(__dirname, 'src', 'ui.html'), 'utf8');
+const script = html.match(/<script>([\s\S]*)<\/script>/)[1];
+
+/**
+ * Enough of an element for the UI script: properties it sets are kept, children are collected
+ */
+function element(id = null) {
+    const el = {
+        id,
+        value: '',
+        checked: false,
+        disabled: false,
+        textContent: '',
+        innerHTML: '',
+        style: {},
+        dataset: {},
+        options: [],
+        children: [],
+        classList: { add() { }, remove() { }, toggle() { }, contains: () => false },
+        append(...children) { el.children.push(...children); },
+        appendChild(child) { el.children.push(child); return child; },
+        addEventListener() { },
+        removeEventListener() { },
+        setAttribute() { },
+        removeAttribute() { },
+        querySelector: () => element(),
+        querySelectorAll: () => [],
+        remove() { },
+        focus() { },
+        select() { },
+        setSelectionRange() { },
+        scrollIntoView() { },
+        getContext: () => null,
+    };
+    return el;
+}
+
+/**
+ * A fresh UI with a connected project. `server(endpoint, body, calls)` answers each request:
+ * return { status, body } or throw for a network error.
+ */
+function loadUi(server) {
+    const elements = {};
+    const calls = [];
+    const document = {
+        getElementById: id => elements[id] || (elements[id] = element(id)),
+        querySelector: () => element(),
+        querySelectorAll: () => [],
+        createElement: () => element(),
+        addEventListener() { },
+        body: element('body'),
+    };
+    const fetch = async (url, init) => {
+        const endpoint = url.replace(/^https?:\/\/[^/]+/, '');
+        const body = init && init.body ? JSON.parse(init.body) : null;
+        calls.push({ endpoint, body });
+        const { status = 200, body: response = {} } = await server(endpoint, body, calls);
+        return { ok: status < 400, status, json: async () => response };
+    };
+    const context = {
+        document,
+        fetch,
+        console: { log() { }, warn() { }, error() { }, info() { } },
+        parent: { postMessage() { } },
+        alert() { },
+        confirm: () => true,
+        // Retries wait no longer than a tick
+        setTimeout: fn => { setImmediate(fn); return 0; },
+        clearTimeout() { },
+        setInterval: () => 0,
+        clearInterval() { },
+        navigator: { clipboard: { writeText: async () => { } } },
+        TextDecoder,
+        TextEncoder,
+        URL,
+        Blob: class { },
+        AbortController,
+    };
+    context.window = context;
+    vm.createContext(context);
+    vm.runInContext(script, context);
+
+    document.getElementById('feature-select').value = 'auth';
+    document.getElementById('batch-save').checked = true;
+    context.setProjectConnected('/projects/shop');
+    calls.length = 0;
+
+    const post = pluginMessage => context.window.onmessage({ data: { pluginMessage } });
+    // `let batch` is script state, not a property of the context
+    const batch = () => vm.runInContext('batch', context);
+    return { context, elements, calls, post, batch };
+}
+
+// Let queued requests and retries run to the end
+async function settle() {
+    for (let i = 0; i < 200; i++) await new Promise(resolve => setImmediate(resolve));
+}
+
+const frame = id => ({ id, name: `Screen ${id}`, type: 'FRAME', children: [] });
+const converted = className => ({ status: 200, body: { code: `class ${className} {}`, source: { nodeId: '1' }, diagnostics: [] } });
+const saved = { status: 200, body: { status: 'created', filePath: '/projects/shop/lib/features/auth/a.dart' } };
+
+// Answers for the requests around a batch: features, providers and the route table
+function other(endpoint) {
+    if (endpoint === '/project/routes') return { status: 200, body: { routes: [] } };
+    return { status: 200, body: {} };
+}
+
+/**
+ * Run a batch of frames through the UI and return the finished items
+ */
+async function runBatch(ui, ids) {
+    ui.context.startBatch('selection');
+    await ui.post({ type: 'batch-start', items: ids.map(id => ({ id, name: `Screen ${id}` })) });
+    for (const id of ids) await ui.post({ type: 'batch-item', id, data: frame(id), assets: {} });
+    await ui.post({ type: 'batch-serialized' });
+    await settle();
+    return ids.map(id => ui.batch().byId[id]);
+}
+
+const count = (calls, endpoint) => calls.filter(call => call.endpoint === endpoint).length;
+
+test('frames are converted and saved, at most two at a time', async () => {
+    let active = 0;
+    let peak = 0;
+    const ui = loadUi(async endpoint => {
+        if (endpoint === '/convert') {
+            active++;
+            peak = Math.max(peak, active);
+            await new Promise(resolve => setImmediate(resolve));
+            active--;
+            return converted('Screen');
+        }
+        if (endpoint === '/file/save') return saved;
+        return other(endpoint);
+    });
+
+    const items = await runBatch(ui, ['1:1', '1:2', '1:3', '1:4']);
+    assert.deepStrictEqual(items.map(item => [item.state, item.status, item.attempts]), Array(4).fill(['done', 'Saved', 1]));
+    assert.strictEqual(peak, 2);
+    assert.strictEqual(count(ui.calls, '/convert'), 4);
+    assert.deepStrictEqual(ui.calls.filter(call => call.endpoint === '/file/save').map(call => call.body.fileName),
+        ['screen_1_1.dart', 'screen_1_2.dart', 'screen_1_3.dart', 'screen_1_4.dart']);
+    assert.match(ui.elements['batch-summary'].textContent, /All 4 screen\(s\) converted to lib\/features\/auth\//);
+});
+
+test('network errors and server failures are retried', async () => {
+    let converts = 0;
+    const ui = loadUi(async endpoint => {
+        if (endpoint === '/convert') {
+            converts++;
+            if (converts === 1) throw new TypeError('Failed to fetch');
+            if (converts === 2) return { status: 503, body: { error: 'Model overloaded' } };
+            return converted('Screen');
+        }
+        if (endpoint === '/file/save') return saved;
+        return other(endpoint);
+    });
+
+    const [item] = await runBatch(ui, ['1:1']);
+    assert.strictEqual(item.state, 'done');
+    assert.strictEqual(item.attempts, 3);
+    assert.strictEqual(converts, 3);
+});
+
+test('rejected requests fail at once and retries stop after the limit', async () => {
+    const ui = loadUi(async (endpoint, body) => {
+        if (endpoint === '/convert') {
+            return body.figmaData.id === '1:1'
+                ? { status: 400, body: { error: 'figmaData must be an object.' } }
+                : { status: 500, body: { error: 'Generation failed' } };
+        }
+        return other(endpoint);
+    });
+
+    const [rejected, failing] = await runBatch(ui, ['1:1', '1:2']);
+    assert.deepStrictEqual([rejected.state, rejected.attempts, rejected.error], ['failed', 1, 'figmaData must be an object.']);
+    assert.deepStrictEqual([failing.state, failing.attempts, failing.error], ['failed', 3, 'Generation failed']);
+    assert.strictEqual(count(ui.calls, '/convert'), 4);
+    assert.match(ui.elements['batch-summary'].textContent, /0 converted to lib\/features\/auth\/, 2 failed/);
+    assert.strictEqual(ui.elements['batch-retry'].style.display, 'block');
+});
+
+test('a failed save is retried without converting again', async () => {
+    let saves = 0;
+    const ui = loadUi(async endpoint => {
+        if (endpoint === '/convert') return converted('ScreenA');
+        if (endpoint === '/file/save') {
+            saves++;
+            return saves === 1 ? { status: 502, body: {} } : saved;
+        }
+        return other(endpoint);
+    });
+
+    const [item] = await runBatch(ui, ['1:1']);
+    assert.deepStrictEqual([item.state, item.status, item.attempts], ['done', 'Saved', 2]);
+    assert.strictEqual(count(ui.calls, '/convert'), 1);
+    assert.strictEqual(count(ui.calls, '/file/save'), 2);
+    assert.strictEqual(ui.calls.filter(call => call.endpoint === '/file/save')[1].body.content, 'class ScreenA {}');
+});
+
+test('Retry Failed saves converted screens and converts the rest', async () => {
+    let saveDown = true;
+    let convertDown = true;
+    const ui = loadUi(async (endpoint, body) => {
+        if (endpoint === '/convert') {
+            if (body.figmaData.id === '1:2' && convertDown) return { status: 500, body: { error: 'Generation failed' } };
+            return converted('Screen');
+        }
+        if (endpoint === '/file/save') return saveDown ? { status: 500, body: { error: 'Disk full' } } : saved;
+        return other(endpoint);
+    });
+
+    const [savedLater, convertedLater] = await runBatch(ui, ['1:1', '1:2']);
+    assert.deepStrictEqual([savedLater.state, convertedLater.state], ['failed', 'failed']);
+    assert.strictEqual(count(ui.calls, '/convert'), 4);
+
+    saveDown = false;
+    convertDown = false;
+    ui.calls.length = 0;
+    ui.elements['batch-retry'].onclick();
+    await settle();
+
+    assert.deepStrictEqual([savedLater.state, convertedLater.state], ['done', 'done']);
+    assert.deepStrictEqual(ui.calls.filter(call => call.endpoint === '/convert').map(call => call.body.figmaData.id), ['1:2']);
+    assert.strictEqual(count(ui.calls, '/file/save'), 2);
+});
@@ -0,0 +1,178 @@
+/**
+ * Design lint tests: each rule over serialized frames, the rule settings stored in the file
+ * and the safe fixes. src/lint.ts is bundled to dist/test/lint.js by `npm test` first.
+ *
+ * Usage: npm test
+ */
+const assert = require('node:assert');
+const { test, mock } = require('node:test');
+const { LINT_RULES, parseLintConfig, colorKey, lintDesign, applyFix } = require('./dist/test/lint');
+
+const defaults = parseLintConfig(null);
+const noStyles = new Map();
+
+const solid = (r, g, b, extra = {}) => ({ type: 'SOLID', color: { r, g, b }, opacity: 1, visible: true, ...extra });
+const text = (id, characters, family = 'Inter', extra = {}) => ({
+    id, name: characters, type: 'TEXT', text: { characters, fontName: { family, style: 'Regular' }, fontSize: 14 }, ...extra,
+});
+const frame = (id, name, children = [], extra = {}) => ({ id, name, type: 'FRAME', layout: { layoutMode: 'VERTICAL' }, children, ...extra });
+const rulesOf = findings => findings.map(finding => `${finding.rule}:${finding.id}`);
+
+test('the defaults come from LINT_RULES and stored settings override them', () => {
+    assert.deepStrictEqual(defaults, {
+        rules: {
+            'auto-layout-group': 'warning',
+            'absolute-in-auto-layout': 'warning',
+            'default-name': 'warning',
+            'hidden-layer': 'info',
+            'mixed-fonts': 'warning',
+            'unstyled-fill': 'info',
+        },
+        blockOnErrors: false,
+    });
+    assert.deepStrictEqual(Object.keys(defaults.rules), LINT_RULES.map(rule => rule.id));
+
+    const stored = parseLintConfig(JSON.stringify({
+        rules: { 'hidden-layer': 'off', 'default-name': 'error', 'mixed-fonts': 'fatal', 'made-up': 'error' },
+        blockOnErrors: true,
+    }));
+    assert.strictEqual(stored.rules['hidden-layer'], 'off');
+    assert.strictEqual(stored.rules['default-name'], 'error');
+    assert.strictEqual(stored.rules['mixed-fonts'], 'warning', 'unknown severities keep the default');
+    assert.strictEqual(stored.rules['made-up'], undefined);
+    assert.strictEqual(stored.blockOnErrors, true);
+    assert.strictEqual(parseLintConfig(JSON.stringify({ blockOnErrors: 'yes' })).blockOnErrors, false);
+
+    const error = mock.method(console, 'error', () => { });
+    assert.deepStrictEqual(parseLintConfig('{not json'), defaults);
+    assert.strictEqual(error.mock.callCount(), 1);
+    error.mock.restore();
+});
+
+test('a clean frame has no findings', () => {
+    const root = frame('1:1', 'Sign In', [
+        text('1:2', 'Welcome back'),
+        frame('1:3', 'Actions', [text('1:4', 'Sign in')], { style: { fills: [solid(0, 0, 0)], fillStyleId: 'S:ink' } }),
+    ]);
+    assert.deepStrictEqual(lintDesign(root, defaults, noStyles), []);
+});
+
+test('hidden layers are reported once, without their children', () => {
+    const root = frame('1:1', 'Screen', [
+        frame('1:2', 'Promo', [frame('1:3', 'Frame 1'), text('1:4', 'Sale')], { visible: false }),
+    ]);
+    const findings = lintDesign(root, defaults, noStyles);
+    assert.deepStrictEqual(rulesOf(findings), ['hidden-layer:1:2']);
+    assert.strictEqual(findings[0].severity, 'info');
+    assert.strictEqual(findings[0].message, '"Promo" is hidden and is left out of the generated code');
+});
+
+test('absolute children are reported only inside auto layout', () => {
+    const absolute = id => frame(id, `Badge ${id}`, [], { layout: { layoutPositioning: 'ABSOLUTE' } });
+    const root = frame('1:1', 'Screen', [
+        absolute('1:2'),
+        frame('1:3', 'Canvas', [absolute('1:4')], { layout: { layoutMode: 'NONE' } }),
+    ]);
+    assert.deepStrictEqual(rulesOf(lintDesign(root, defaults, noStyles)), ['absolute-in-auto-layout:1:2']);
+});
+
+test('groups of two or more visible layers are reported', () => {
+    const root = frame('1:1', 'Screen', [
+        { id: '1:2', name: 'Header', type: 'GROUP', children: [text('1:3', 'Title'), text('1:4', 'Subtitle')] },
+        { id: '1:5', name: 'Logo', type: 'GROUP', children: [text('1:6', 'Logo'), text('1:7', 'Old', 'Inter', { visible: false })] },
+    ]);
+    const findings = lintDesign(root, { ...defaults, rules: { ...defaults.rules, 'hidden-layer': 'off' } }, noStyles);
+    assert.deepStrictEqual(rulesOf(findings), ['auto-layout-group:1:2']);
+});
+
+test('default names get a rename fix when the layer tells what it is', () => {
+    const root = frame('1:1', 'Screen', [
+        frame('1:2', 'Frame 12', [text('1:3', 'Sign in now, please')], { layout: { layoutMode: 'HORIZONTAL' } }),
+        frame('1:4', 'Rectangle', [], { semanticHints: { likelyRole: 'avatar', confidence: 0.9 } }),
+        frame('1:5', 'Frame 3', [], { layout: {}, style: { fills: [{ type: 'IMAGE', visible: true }] } }),
+        frame('1:6', 'Group 2', [text('1:7', 'Buy')], { layout: {}, semanticHints: { isInteractive: true, confidence: 0.5 } }),
+        frame('1:8', 'Vector', [], { layout: {} }),
+        text('1:9', 'Frame'),
+        frame('1:10', 'Frame 1a', [text('1:11', 'Not a default name')]),
+    ]);
+    const findings = lintDesign(root, defaults, noStyles);
+    assert.deepStrictEqual(findings.map(finding => [finding.id, finding.fix && finding.fix.name]), [
+        ['1:2', 'Sign in now Row'],
+        ['1:4', 'Avatar'],
+        ['1:5', 'Image'],
+        ['1:6', 'Buy Button'],
+        ['1:8', undefined],
+    ]);
+    assert.strictEqual(findings[0].message, '"Frame 12" has a default name; rename it to "Sign in now Row"');
+    assert.strictEqual(findings[4].message, '"Vector" has a default name');
+    assert.strictEqual(findings[4].fix, undefined);
+});
+
+test('unstyled solid fills suggest the paint style with the same color', () => {
+    const styles = new Map([[colorKey({ r: 0.2, g: 0.4, b: 1 }, 1), { id: 'S:primary', name: 'Brand/Primary' }]]);
+    const root = frame('1:1', 'Screen', [
+        frame('1:2', 'Button', [], { style: { fills: [solid(0.2, 0.4, 1)] } }),
+        frame('1:3', 'Card', [], { style: { fills: [solid(1, 1, 1)] } }),
+        frame('1:4', 'Styled', [], { style: { fills: [solid(0.2, 0.4, 1)], fillStyleId: 'S:primary' } }),
+        frame('1:5', 'Bound', [], { style: { fills: [solid(0.2, 0.4, 1, { variableId: 'V:1' })] } }),
+        frame('1:6', 'Layered', [], { style: { fills: [solid(0.2, 0.4, 1), solid(0, 0, 0, { opacity: 0.5 })] } }),
+        frame('1:7', 'Faded', [], { style: { fills: [solid(0.2, 0.4, 1, { visible: false })] } }),
+    ]);
+    const findings = lintDesign(root, defaults, styles);
+    assert.deepStrictEqual(rulesOf(findings), ['unstyled-fill:1:2', 'unstyled-fill:1:3', 'unstyled-fill:1:6']);
+    assert.deepStrictEqual(findings[0].fix, { kind: 'fill-style', styleId: 'S:primary', styleName: 'Brand/Primary' });
+    assert.strictEqual(findings[0].message, '"Button" has a fill without a style or variable; "Brand/Primary" has the same color');
+    assert.strictEqual(findings[1].fix, undefined);
+    assert.strictEqual(findings[2].fix, undefined, 'several fills have no single style');
+});
+
+test('mixed fonts are reported within a text and beyond the two main families', () => {
+    const mixed = text('1:2', 'Hello world');
+    mixed.text.styledSegments = [{ fontName: { family: 'Inter', style: 'Regular' } }, { fontName: { family: 'Lora', style: 'Italic' } }];
+    const root = frame('1:1', 'Screen', [
+        mixed,
+        text('1:3', 'One'),
+        text('1:4', 'Two'),
+        text('1:5', 'Three', 'Roboto'),
+        text('1:6', 'Four', 'Roboto'),
+        text('1:7', 'Five', 'Comic Sans'),
+    ]);
+    const findings = lintDesign(root, defaults, noStyles);
+    assert.deepStrictEqual(rulesOf(findings), ['mixed-fonts:1:2', 'mixed-fonts:1:7']);
+    assert.strictEqual(findings[0].message, '"Hello world" mixes Inter, Lora');
+    assert.strictEqual(findings[1].message, '"Five" uses Comic Sans; the frame uses 3 font families, mostly Inter and Roboto');
+});
+
+test('layers inside instances are left to their component', () => {
+    const root = frame('1:1', 'Screen', [
+        { id: 'I1:2', name: 'Button', type: 'INSTANCE', children: [frame('I1:2;1:1', 'Frame 1', [], { style: { fills: [solid(1, 0, 0)] } })] },
+    ]);
+    assert.deepStrictEqual(lintDesign(root, defaults, noStyles), []);
+});
+
+test('rule settings turn findings off or change their severity', () => {
+    const root = frame('1:1', 'Frame 1', [text('1:2', 'Hidden', 'Inter', { visible: false })], { style: { fills: [solid(1, 1, 1)] } });
+    assert.deepStrictEqual(rulesOf(lintDesign(root, defaults, noStyles)), ['default-name:1:1', 'unstyled-fill:1:1', 'hidden-layer:1:2']);
+
+    const config = parseLintConfig(JSON.stringify({ rules: { 'default-name': 'error', 'hidden-layer': 'off', 'unstyled-fill': 'warning' } }));
+    const findings = lintDesign(root, config, noStyles);
+    assert.deepStrictEqual(findings.map(finding => `${finding.rule}:${finding.severity}`), ['default-name:error', 'unstyled-fill:warning']);
+});
+
+test('fixes rename layers and apply fill styles', async () => {
+    const layer = { type: 'FRAME', name: 'Frame 1', styles: [] };
+    layer.setFillStyleIdAsync = async styleId => { layer.styles.push(styleId); };
+
+    assert.strictEqual(await applyFix(layer, { kind: 'rename', name: 'Sign in Row' }), true);
+    assert.strictEqual(layer.name, 'Sign in Row');
+    assert.strictEqual(await applyFix(layer, { kind: 'fill-style', styleId: 'S:primary', styleName: 'Brand/Primary' }), true);
+    assert.deepStrictEqual(layer.styles, ['S:primary']);
+
+    const group = { type: 'GROUP', name: 'Group 1' };
+    assert.strictEqual(await applyFix(group, { kind: 'fill-style', styleId: 'S:primary', styleName: 'Brand/Primary' }), false);
+    assert.strictEqual(await applyFix(null, { kind: 'rename', name: 'Gone' }), false);
+
+    const page = { type: 'PAGE', name: 'Page 1' };
+    assert.strictEqual(await applyFix(page, { kind: 'rename', name: 'Screens' }), false);
+    assert.strictEqual(page.name, 'Page 1');
+});
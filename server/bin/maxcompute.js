@@ -0,0 +1,249 @@
+#!/usr/bin/env node
+/**
+ * Convert Figma REST exports to Flutter code without opening Figma, for CI and review bots.
+ * The node JSON is mapped onto the plugin's SerializedNode shape (see utils/figmaRest), then
+ * generated, checked and saved like a conversion from the plugin.
+ *
+ * Usage: maxcompute convert --input node.json [--image frame.png] [--project ./app --feature auth --out login_screen.dart]
+ */
+require('dotenv').config();
+const fs = require('fs');
+const path = require('path');
+const { parseArgs } = require('util');
+const ConversionService = require('../src/services/conversionService');
+const ProjectService = require('../src/services/projectService');
+const { selectRestNode, fromRestNode } = require('../src/utils/figmaRest');
+const { isSafeName } = require('../src/utils/security');
+
+const USAGE = `Usage: maxcompute convert --input <node.json> [options]
+
+Converts one frame of a Figma REST export (GET /v1/files/:key/nodes?ids=..., a whole
+file or a single node) to a Flutter widget.
+
+Input
+  --input <file>          Node JSON from the Figma REST API
+  --node <id>             Frame to convert (default: the only frame in the export)
+  --image <file>          PNG of the frame (GET /v1/images), the model's visual reference
+  --assets <dir>          Images and SVG icons named after their node ID (12-34.png, 12-35.svg)
+  --tokens <file>         Design tokens JSON, as the plugin's Sync Tokens sends them
+
+Output (prints the code when neither is given)
+  --project <dir>         Flutter project; the file is saved to lib/features/<feature>/<out>
+  --feature <name>        Feature folder (with --project)
+  --out <file>            File name (with --project) or path to write the code to
+  --force                 Overwrite hand edits instead of writing <file>.new.dart
+  --json                  Print the whole result as JSON
+
+Generation
+  --mode <ai|deterministic>                 Default: ai
+  --provider <name>  --model <name>         LLM provider and model (ai mode)
+  --widget-type <StatelessWidget|StatefulWidget>
+  --class-name <Name>     Default: from --out (login_screen.dart → LoginScreen)
+  --no-validate           Skip dart format / analyze
+  --visual-check          Render the widget and compare it with --image
+  --localize              Move text into lib/l10n/app_en.arb
+
+  --verbose               Show server logs
+  --help
+
+Exit status: 0 on success, 1 when conversion fails or the code has errors (it is not
+saved then), 2 on usage errors.`;
+
+const OPTIONS = {
+    input: { type: 'string' },
+    node: { type: 'string' },
+    image: { type: 'string' },
+    assets: { type: 'string' },
+    tokens: { type: 'string' },
+    project: { type: 'string' },
+    feature: { type: 'string' },
+    out: { type: 'string' },
+    force: { type: 'boolean', default: false },
+    json: { type: 'boolean', default: false },
+    mode: { type: 'string', default: 'ai' },
+    provider: { type: 'string' },
+    model: { type: 'string' },
+    'widget-type': { type: 'string', default: 'StatelessWidget' },
+    'class-name': { type: 'string' },
+    'no-validate': { type: 'boolean', default: false },
+    'visual-check': { type: 'boolean', default: false },
+    localize: { type: 'boolean', default: false },
+    verbose: { type: 'boolean', default: false },
+    help: { type: 'boolean', default: false },
+};
+
+class UsageError extends Error { }
+
+const status = message => process.stderr.write(`${message}\n`);
+
+/**
+ * @returns {Promise<number>} exit status
+ */
+async function main(argv) {
+    let args;
+    try {
+        args = parseArgs({ args: argv, options: OPTIONS, allowPositionals: true });
+    } catch (error) {
+        throw new UsageError(error.message);
+    }
+    const { values, positionals } = args;
+    if (values.help) {
+        process.stdout.write(`${USAGE}\n`);
+        return 0;
+    }
+    checkArguments(values, positionals);
+
+    // Service logs would mix with the code on stdout
+    console.log = values.verbose ? console.error : () => { };
+    console.warn = values.verbose ? console.warn : () => { };
+
+    const projectService = new ProjectService();
+    const uploads = [];
+    const upload = async (name, file, format) => {
+        const filename = await projectService.saveTempUpload(name, (await fs.promises.readFile(file)).toString('base64'), format);
+        uploads.push(path.join(projectService.uploadsDir, filename));
+        return filename;
+    };
+
+    try {
+        const json = JSON.parse(await fs.promises.readFile(values.input, 'utf8'));
+        const { node, context } = selectRestNode(json, values.node);
+
+        const assets = {};
+        const svgIds = new Set();
+        if (values.assets) {
+            for (const file of (await fs.promises.readdir(values.assets)).sort()) {
+                const format = path.extname(file).slice(1).toLowerCase();
+                const id = nodeIdOfFile(path.basename(file, path.extname(file)), context.nodes);
+                if (!id || (format !== 'png' && format !== 'svg')) continue;
+
+                const name = context.nodes.get(id).name.replace(/[^a-zA-Z0-9]/g, '_').toLowerCase();
+                assets[id] = { id, name, filename: await upload(name, path.join(values.assets, file), format), format };
+                if (format === 'svg') svgIds.add(id);
+            }
+        }
+
+        const figmaData = fromRestNode(node, context, { svgIds });
+        const contextImage = values.image
+            ? await upload(`context_${node.name.replace(/[^a-zA-Z0-9]/g, '_').toLowerCase()}`, values.image, 'png')
+            : undefined;
+        const projectPath = values.project ? path.resolve(values.project) : undefined;
+
+        const options = {
+            mode: values.mode,
+            widgetType: values['widget-type'],
+            validate: !values['no-validate'],
+            visualCheck: values['visual-check'],
+        };
+        const className = values['class-name'] || (values.out ? classNameOf(values.out) : null);
+        if (className) options.className = className;
+        if (values.localize) Object.assign(options, { localize: true, feature: values.feature || '' });
+        if (values.mode === 'ai') {
+            if (values.provider) options.provider = values.provider;
+            if (values.model) options.model = values.model;
+        }
+
+        const body = { figmaData, contextImage, assets, projectPath, options };
+        if (values.tokens) body.designTokens = JSON.parse(await fs.promises.readFile(values.tokens, 'utf8'));
+
+        const conversionService = new ConversionService({ projectService });
+        const invalid = conversionService.validateRequest(body);
+        if (invalid) throw new Error(invalid.error);
+
+        status(`Converting "${node.name}" (${node.id})...`);
+        const result = await conversionService.convert(body, { onProgress: (phase, message) => status(message) });
+
+        const errors = (result.diagnostics || []).filter(diagnostic => diagnostic.severity === 'error');
+        errors.forEach(diagnostic => status(`error ${diagnostic.line}:${diagnostic.column} ${diagnostic.message}`));
+        if (result.visual) {
+            status(result.visual.skipped ? `Visual check skipped: ${result.visual.skipped}` : `Visual check: ${(result.visual.similarity * 100).toFixed(1)}% similar`);
+        }
+
+        let saved = null;
+        if (errors.length > 0) {
+            status(`The generated code has ${errors.length} error(s); it was not saved.`);
+        } else if (projectPath) {
+            saved = await projectService.saveGeneratedFile(projectPath, values.feature, values.out, result.code, { source: result.source, force: values.force });
+            for (const companion of result.companions || []) {
+                await projectService.saveGeneratedFile(projectPath, values.feature, companion.fileName, companion.content, { source: result.source, force: values.force });
+            }
+            status(saved.status === 'conflict'
+                ? `${saved.filePath} has hand edits; the new version was written to ${saved.conflictPath}`
+                : `${saved.status[0].toUpperCase()}${saved.status.slice(1)}: ${saved.filePath}`);
+        } else if (values.out) {
+            await fs.promises.writeFile(values.out, result.code, 'utf8');
+            status(`Written: ${values.out}`);
+        }
+
+        if (values.json) {
+            process.stdout.write(`${JSON.stringify({ ...result, saved }, null, 2)}\n`);
+        } else if (!projectPath && !values.out) {
+            process.stdout.write(result.code.endsWith('\n') ? result.code : `${result.code}\n`);
+        }
+        return errors.length > 0 ? 1 : 0;
+    } finally {
+        // Assets were copied into the project during conversion
+        await Promise.all(uploads.map(file => fs.promises.rm(file, { force: true })));
+    }
+}
+
+/**
+ * @private
+ */
+function checkArguments(values, positionals) {
+    if (positionals.length !== 1 || positionals[0] !== 'convert') {
+        throw new UsageError(positionals.length === 0 ? 'Missing command.' : `Unknown command "${positionals.join(' ')}".`);
+    }
+    if (!values.input) {
+        throw new UsageError('Missing --input.');
+    }
+    if (!['ai', 'deterministic'].includes(values.mode)) {
+        throw new UsageError('--mode must be ai or deterministic.');
+    }
+    if (!['StatelessWidget', 'StatefulWidget'].includes(values['widget-type'])) {
+        throw new UsageError('--widget-type must be StatelessWidget or StatefulWidget.');
+    }
+    if (values.project && (!values.feature || !values.out)) {
+        throw new UsageError('--project needs --feature and --out.');
+    }
+    if (values.project && (!isSafeName(values.feature) || !isSafeName(values.out))) {
+        throw new UsageError('--feature and --out must be plain names inside the project (e.g. auth, login_screen.dart).');
+    }
+    if (values['visual-check'] && !values.image) {
+        throw new UsageError('--visual-check needs --image.');
+    }
+}
+
+/**
+ * Node ID of an exported file name; Figma URLs and exports write "12:34" as "12-34"
+ * @private
+ */
+function nodeIdOfFile(base, nodes) {
+    const candidates = [base, base.replace(/-/g, ':'), base.replace(/_/g, ':')];
+    return candidates.find(id => nodes.has(id)) || null;
+}
+
+/**
+ * login_screen.dart → LoginScreen, as the plugin names saved screens
+ * @private
+ */
+function classNameOf(file) {
+    const snake = path.basename(file).replace(/\.dart$/, '')
+        .replace(/([a-z0-9])([A-Z])/g, '$1_$2')
+        .replace(/[^a-zA-Z0-9]+/g, '_')
+        .replace(/^_+|_+$/g, '')
+        .toLowerCase();
+    const name = snake.split('_').map(word => word.charAt(0).toUpperCase() + word.slice(1)).join('');
+    return /^[A-Z]/.test(name) ? name : `Screen${name}`;
+}
+
+main(process.argv.slice(2))
+    .then(code => process.exit(code))
+    .catch(error => {
+        if (error instanceof UsageError) {
+            status(`${error.message}\n\n${USAGE}`);
+            process.exit(2);
+        }
+        status(`maxcompute: ${error.message}`);
+        process.exit(1);
+    });
@@ -0,0 +1,78 @@
+import 'package:flutter/material.dart';
+
+import 'icon_arrow.dart';
+
+enum AppButtonSize { medium, small }
+
+/// Figma component "Button".
+/// Primary call to action.
+/// Generated by Max Compute; re-sync components instead of editing by hand.
+class AppButton extends StatelessWidget {
+  const AppButton({
+    super.key,
+    this.size = AppButtonSize.medium,
+    this.label = 'Continue',
+    this.showIcon = true,
+    this.icon,
+  });
+
+  final AppButtonSize size;
+  final String label;
+  final bool showIcon;
+  final Widget? icon;
+
+  @override
+  Widget build(BuildContext context) {
+    if (size == AppButtonSize.small) {
+      return Container(
+        padding: EdgeInsets.symmetric(horizontal: 16, vertical: 6),
+        decoration: BoxDecoration(
+          color: Color(0xFF3366FF),
+          borderRadius: BorderRadius.circular(6),
+        ),
+        child: Row(
+          mainAxisSize: MainAxisSize.min,
+          mainAxisAlignment: MainAxisAlignment.center,
+          children: [
+            Text(
+              label,
+              style: TextStyle(
+                fontFamily: 'Inter',
+                fontSize: 14,
+                fontWeight: FontWeight.w600,
+                color: Color(0xFFFFFFFF),
+              ),
+            ),
+          ],
+        ),
+      );
+    }
+    return Container(
+      padding: EdgeInsets.symmetric(horizontal: 24, vertical: 12),
+      decoration: BoxDecoration(
+        color: Color(0xFF3366FF),
+        borderRadius: BorderRadius.circular(8),
+      ),
+      child: Row(
+        mainAxisSize: MainAxisSize.min,
+        mainAxisAlignment: MainAxisAlignment.center,
+        children: [
+          Text(
+            label.toUpperCase(),
+            style: TextStyle(
+              fontFamily: 'Inter',
+              fontSize: 16,
+              fontWeight: FontWeight.w600,
+              color: Color(0xFFFFFFFF),
+            ),
+          ),
+          SizedBox(width: 8),
+          Visibility(
+            visible: showIcon,
+            child: icon ?? const IconArrow(),
+          ),
+        ],
+      ),
+    );
+  }
+}
@@ -0,0 +1,12 @@
+import 'package:flutter/material.dart';
+
+/// Figma component "Icon/Arrow".
+/// Generated by Max Compute; re-sync components instead of editing by hand.
+class IconArrow extends StatelessWidget {
+  const IconArrow({super.key});
+
+  @override
+  Widget build(BuildContext context) {
+    return SizedBox(width: 16, height: 16);
+  }
+}
@@ -0,0 +1,28 @@
+import 'package:flutter/material.dart';
+
+import '../../shared/widgets/app_button.dart';
+
+class GeneratedWidget extends StatelessWidget {
+  const GeneratedWidget({super.key});
+
+  @override
+  Widget build(BuildContext context) {
+    return Container(
+      width: 360,
+      height: 200,
+      padding: EdgeInsets.all(24),
+      decoration: BoxDecoration(color: Color(0xFFFFFFFF)),
+      child: Column(
+        children: [
+          const AppButton(label: 'Pay now'),
+          SizedBox(height: 16),
+          const AppButton(
+            size: AppButtonSize.small,
+            label: 'Cancel',
+            showIcon: false,
+          ),
+        ],
+      ),
+    );
+  }
+}
@@ -0,0 +1,31 @@
+import 'package:flutter_bloc/flutter_bloc.dart';
+
+/// Submission status of the SignupScreen form.
+class SignupScreenFormState {
+  const SignupScreenFormState({this.isSubmitting = false, this.error});
+
+  final bool isSubmitting;
+  final String? error;
+}
+
+/// Submits the SignupScreen form. Provide it above the screen:
+/// `BlocProvider(create: (_) => SignupScreenFormCubit(), child: const SignupScreen())`.
+class SignupScreenFormCubit extends Cubit<SignupScreenFormState> {
+  SignupScreenFormCubit() : super(const SignupScreenFormState());
+
+  Future<void> submit({
+    required String name,
+    required String email,
+    required String phone,
+    required String password,
+    required String referralCode,
+  }) async {
+    emit(const SignupScreenFormState(isSubmitting: true));
+    try {
+      // TODO: send the form to your backend.
+      emit(const SignupScreenFormState());
+    } catch (error) {
+      emit(SignupScreenFormState(error: error.toString()));
+    }
+  }
+}
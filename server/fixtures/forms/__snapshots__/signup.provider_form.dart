@@ -0,0 +1,31 @@
+import 'package:flutter/foundation.dart';
+
+/// Submits the SignupScreen form. Provide it above the screen:
+/// `ChangeNotifierProvider(create: (_) => SignupScreenFormNotifier(), child: const SignupScreen())`.
+class SignupScreenFormNotifier extends ChangeNotifier {
+  bool _isSubmitting = false;
+  String? _error;
+
+  bool get isSubmitting => _isSubmitting;
+  String? get error => _error;
+
+  Future<void> submit({
+    required String name,
+    required String email,
+    required String phone,
+    required String password,
+    required String referralCode,
+  }) async {
+    _isSubmitting = true;
+    _error = null;
+    notifyListeners();
+    try {
+      // TODO: send the form to your backend.
+    } catch (error) {
+      _error = error.toString();
+    } finally {
+      _isSubmitting = false;
+      notifyListeners();
+    }
+  }
+}
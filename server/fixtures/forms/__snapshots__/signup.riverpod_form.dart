@@ -0,0 +1,34 @@
+import 'package:flutter_riverpod/flutter_riverpod.dart';
+
+/// Submission status of the SignupScreen form.
+class SignupScreenFormState {
+  const SignupScreenFormState({this.isSubmitting = false, this.error});
+
+  final bool isSubmitting;
+  final String? error;
+}
+
+/// Submits the SignupScreen form; the app needs a ProviderScope above it.
+class SignupScreenFormNotifier extends Notifier<SignupScreenFormState> {
+  @override
+  SignupScreenFormState build() => const SignupScreenFormState();
+
+  Future<void> submit({
+    required String name,
+    required String email,
+    required String phone,
+    required String password,
+    required String referralCode,
+  }) async {
+    state = const SignupScreenFormState(isSubmitting: true);
+    try {
+      // TODO: send the form to your backend.
+      state = const SignupScreenFormState();
+    } catch (error) {
+      state = SignupScreenFormState(error: error.toString());
+    }
+  }
+}
+
+final signupScreenFormProvider =
+    NotifierProvider<SignupScreenFormNotifier, SignupScreenFormState>(SignupScreenFormNotifier.new);
@@ -0,0 +1,12 @@
+```dart
+import 'package:flutter/material.dart';
+
+class GeneratedWidget extends StatelessWidget {
+  const GeneratedWidget({super.key});
+
+  @override
+  Widget build(BuildContext context) {
+    return const Placeholder();
+  }
+}
+```
@@ -0,0 +1,199 @@
+import 'package:flutter/gestures.dart';
+import 'package:flutter/material.dart';
+import 'package:url_launcher/url_launcher.dart';
+
+import '../../l10n/app_localizations.dart';
+
+class DashboardScreen extends StatelessWidget {
+  const DashboardScreen({super.key});
+
+  @override
+  Widget build(BuildContext context) {
+    return Container(
+      width: 375,
+      height: 640,
+      padding: EdgeInsets.all(24),
+      decoration: BoxDecoration(color: Color(0xFFF7F7FA)),
+      child: Column(
+        crossAxisAlignment: CrossAxisAlignment.start,
+        children: [
+          SizedBox(
+            width: 375,
+            child: Padding(
+              padding: EdgeInsets.symmetric(horizontal: 16, vertical: 12),
+              child: Column(
+                mainAxisSize: MainAxisSize.min,
+                crossAxisAlignment: CrossAxisAlignment.start,
+                children: [
+                  Text(
+                    AppLocalizations.of(context)!.homeWelcomeBackHeader('Sarah'),
+                    style: TextStyle(
+                      fontFamily: 'Inter',
+                      fontSize: 24,
+                      fontWeight: FontWeight.w700,
+                      color: Color(0xFF1A1A1F),
+                    ),
+                    softWrap: false,
+                  ),
+                  SizedBox(height: 8),
+                  Text(
+                    AppLocalizations.of(context)!.homeSubtitleHeader(3),
+                    style: TextStyle(
+                      fontFamily: 'Inter',
+                      fontSize: 14,
+                      color: Color(0xFF1A1A1F),
+                    ),
+                    softWrap: false,
+                  ),
+                ],
+              ),
+            ),
+          ),
+          SizedBox(height: 8),
+          Container(
+            width: 327,
+            padding: EdgeInsets.symmetric(horizontal: 16, vertical: 12),
+            decoration: BoxDecoration(
+              color: Color(0xFFFFFFFF),
+              borderRadius: BorderRadius.circular(12),
+            ),
+            child: Column(
+              mainAxisSize: MainAxisSize.min,
+              crossAxisAlignment: CrossAxisAlignment.start,
+              children: [
+                Text(
+                  AppLocalizations.of(context)!.homeLabelCard,
+                  style: TextStyle(
+                    fontFamily: 'Inter',
+                    fontSize: 14,
+                    color: Color(0xFF1A1A1F),
+                  ),
+                  softWrap: false,
+                ),
+                SizedBox(height: 8),
+                Text(
+                  '\$1,250.00',
+                  style: TextStyle(
+                    fontFamily: 'Inter',
+                    fontSize: 28,
+                    fontWeight: FontWeight.w700,
+                    color: Color(0xFF1A1A1F),
+                  ),
+                  softWrap: false,
+                ),
+              ],
+            ),
+          ),
+          SizedBox(height: 8),
+          Container(
+            width: 327,
+            padding: EdgeInsets.symmetric(horizontal: 16, vertical: 12),
+            decoration: BoxDecoration(
+              color: Color(0xFFF2F2F5),
+              borderRadius: BorderRadius.circular(8),
+            ),
+            child: Column(
+              mainAxisSize: MainAxisSize.min,
+              crossAxisAlignment: CrossAxisAlignment.start,
+              children: [
+                Text(
+                  AppLocalizations.of(context)!.homePlaceholderInput,
+                  style: TextStyle(
+                    fontFamily: 'Inter',
+                    fontSize: 14,
+                    color: Color(0xFF1A1A1F),
+                  ),
+                  softWrap: false,
+                ),
+              ],
+            ),
+          ),
+          SizedBox(height: 8),
+          Text.rich(
+            TextSpan(
+              children: [
+                TextSpan(
+                  text: AppLocalizations.of(context)!.homeNeedHelpReadThe,
+                  style: TextStyle(
+                    fontFamily: 'Inter',
+                    fontSize: 13,
+                    color: Color(0xFF666673),
+                  ),
+                ),
+                TextSpan(
+                  text: AppLocalizations.of(context)!.homeFaq,
+                  style: TextStyle(
+                    fontFamily: 'Inter',
+                    fontSize: 13,
+                    color: Color(0xFF17A1FA),
+                    decoration: TextDecoration.underline,
+                  ),
+                  recognizer: TapGestureRecognizer()..onTap = () => launchUrl(Uri.parse('https://example.com/faq')),
+                ),
+                TextSpan(
+                  text: AppLocalizations.of(context)!.homeOrContactSupport,
+                  style: TextStyle(
+                    fontFamily: 'Inter',
+                    fontSize: 13,
+                    color: Color(0xFF666673),
+                  ),
+                ),
+              ],
+            ),
+            style: TextStyle(
+              fontFamily: 'Inter',
+              fontSize: 13,
+              color: Color(0xFF1A1A1F),
+            ),
+            softWrap: false,
+          ),
+          SizedBox(height: 8),
+          Container(
+            height: 48,
+            padding: EdgeInsets.symmetric(horizontal: 16, vertical: 12),
+            decoration: BoxDecoration(
+              color: Color(0xFF17A1FA),
+              borderRadius: BorderRadius.circular(8),
+            ),
+            child: Row(
+              mainAxisSize: MainAxisSize.min,
+              crossAxisAlignment: CrossAxisAlignment.start,
+              children: [
+                Text(
+                  AppLocalizations.of(context)!.authSignOutButton,
+                  style: TextStyle(
+                    fontFamily: 'Inter',
+                    fontSize: 14,
+                    fontWeight: FontWeight.w600,
+                    color: Color(0xFF1A1A1F),
+                  ),
+                  softWrap: false,
+                ),
+              ],
+            ),
+          ),
+          SizedBox(height: 8),
+          Text(
+            AppLocalizations.of(context)!.homeVersion,
+            style: TextStyle(
+              fontFamily: 'Inter',
+              fontSize: 14,
+              color: Color(0xFF1A1A1F),
+            ),
+            softWrap: false,
+          ),
+          SizedBox(height: 8),
+          Text(
+            '{year} Max Compute',
+            style: TextStyle(
+              fontFamily: 'Inter',
+              fontSize: 14,
+              color: Color(0xFF1A1A1F),
+            ),
+            softWrap: false,
+          ),
+        ],
+      ),
+    );
+  }
+}
@@ -0,0 +1,48 @@
+import 'package:flutter/material.dart';
+import 'package:go_router/go_router.dart';
+
+import '../../features/auth/login_screen.dart';
+import '../../features/shop/cart_sheet.dart';
+import '../../features/shop/home.dart';
+
+/// Routes for the screens generated from Figma, animated like their prototype links.
+/// Generated by Max Compute and rewritten whenever screens are saved; pass it to
+/// `MaterialApp.router(routerConfig: appRouter)`.
+final appRouter = GoRouter(
+  initialLocation: '/home',
+  routes: [
+    GoRoute(
+      path: '/home',
+      pageBuilder: (context, state) => CustomTransitionPage<void>(
+        key: state.pageKey,
+        transitionDuration: const Duration(milliseconds: 200),
+        transitionsBuilder: (context, animation, secondaryAnimation, child) => FadeTransition(
+          opacity: CurvedAnimation(
+            parent: animation,
+            curve: const Cubic(0.4, 0, 0.2, 1),
+          ),
+          child: child,
+        ),
+        child: const Home(),
+      ),
+    ),
+    GoRoute(
+      path: '/login-screen',
+      pageBuilder: (context, state) => CustomTransitionPage<void>(
+        key: state.pageKey,
+        transitionDuration: const Duration(milliseconds: 300),
+        transitionsBuilder: (context, animation, secondaryAnimation, child) => SlideTransition(
+          position: Tween<Offset>(begin: const Offset(1, 0), end: Offset.zero).animate(
+            CurvedAnimation(parent: animation, curve: Curves.easeOut),
+          ),
+          child: child,
+        ),
+        child: const LoginScreen(),
+      ),
+    ),
+    GoRoute(
+      path: '/cart-sheet',
+      builder: (context, state) => const CartSheet(),
+    ),
+  ],
+);
@@ -0,0 +1,266 @@
+import 'package:flutter/material.dart';
+
+class ResponsiveScreen extends StatelessWidget {
+  const ResponsiveScreen({super.key});
+
+  @override
+  Widget build(BuildContext context) {
+    return LayoutBuilder(
+      builder: (context, constraints) {
+        if (constraints.maxWidth >= 1024) {
+          return _buildDesktop(context);
+        }
+        if (constraints.maxWidth >= 600) {
+          return _buildTablet(context);
+        }
+        return _buildMobile(context);
+      },
+    );
+  }
+
+  Widget _buildMobile(BuildContext context) {
+    return Container(
+      decoration: BoxDecoration(color: Color(0xFFF7F7F7)),
+      child: Column(
+        crossAxisAlignment: CrossAxisAlignment.start,
+        children: [
+          SizedBox(
+            width: double.infinity,
+            child: _buildHeader(context),
+          ),
+          SizedBox(height: 16),
+          SizedBox(width: double.infinity, child: _buildHero(context)),
+          SizedBox(height: 16),
+          _buildFooter(context),
+        ],
+      ),
+    );
+  }
+
+  Widget _buildTablet(BuildContext context) {
+    return Container(
+      decoration: BoxDecoration(color: Color(0xFFF7F7F7)),
+      child: Column(
+        crossAxisAlignment: CrossAxisAlignment.start,
+        children: [
+          SizedBox(
+            width: double.infinity,
+            child: _buildHeader(context),
+          ),
+          SizedBox(height: 16),
+          SizedBox(width: double.infinity, child: _buildHero(context)),
+          SizedBox(height: 16),
+          _buildFooter(context),
+        ],
+      ),
+    );
+  }
+
+  Widget _buildDesktop(BuildContext context) {
+    return Container(
+      decoration: BoxDecoration(color: Color(0xFFF7F7F7)),
+      child: Column(
+        crossAxisAlignment: CrossAxisAlignment.start,
+        children: [
+          SizedBox(
+            width: double.infinity,
+            child: _buildHeader(context),
+          ),
+          SizedBox(height: 16),
+          SizedBox(
+            width: double.infinity,
+            child: Container(
+              height: 400,
+              clipBehavior: Clip.antiAlias,
+              decoration: BoxDecoration(color: Color(0xFF18A0FB)),
+              child: Stack(
+                children: [
+                  Positioned(
+                    left: 16,
+                    top: 16,
+                    right: 16,
+                    bottom: 16,
+                    child: Opacity(
+                      opacity: 0.2,
+                      child: Container(
+                        decoration: BoxDecoration(
+                          color: Color(0xFFFFFFFF),
+                          borderRadius: BorderRadius.circular(12),
+                        ),
+                      ),
+                    ),
+                  ),
+                  Positioned(
+                    left: 32,
+                    top: 32,
+                    child: Text(
+                      'Build faster',
+                      style: TextStyle(
+                        fontFamily: 'Inter',
+                        fontSize: 48,
+                        fontWeight: FontWeight.w700,
+                        color: Color(0xFF1A1A1A),
+                      ),
+                    ),
+                  ),
+                  Positioned(
+                    top: 24,
+                    right: 24,
+                    child: Container(
+                      width: 48,
+                      height: 24,
+                      decoration: BoxDecoration(
+                        color: Color(0xFFFFC700),
+                        borderRadius: BorderRadius.circular(12),
+                      ),
+                    ),
+                  ),
+                  Positioned.fill(
+                    child: Align(
+                      alignment: FractionalOffset(0.5, 0.6667),
+                      child: FractionallySizedBox(
+                        widthFactor: 0.5,
+                        heightFactor: 0.25,
+                        child: Container(
+                          decoration: BoxDecoration(color: Color(0xFFFFFFFF)),
+                        ),
+                      ),
+                    ),
+                  ),
+                ],
+              ),
+            ),
+          ),
+          SizedBox(height: 16),
+          _buildFooter(context),
+        ],
+      ),
+    );
+  }
+
+  Widget _buildHeader(BuildContext context) {
+    return Container(
+      height: 56,
+      padding: EdgeInsets.symmetric(horizontal: 16),
+      decoration: BoxDecoration(color: Color(0xFFFFFFFF)),
+      child: Row(
+        mainAxisAlignment: MainAxisAlignment.spaceBetween,
+        children: [
+          Text(
+            'Acme',
+            style: TextStyle(
+              fontFamily: 'Inter',
+              fontSize: 20,
+              fontWeight: FontWeight.w700,
+              color: Color(0xFF1A1A1A),
+            ),
+          ),
+          Text(
+            'Menu',
+            style: TextStyle(
+              fontFamily: 'Inter',
+              fontSize: 14,
+              color: Color(0xFF1A1A1A),
+            ),
+          ),
+        ],
+      ),
+    );
+  }
+
+  Widget _buildHero(BuildContext context) {
+    return Container(
+      height: 240,
+      clipBehavior: Clip.antiAlias,
+      decoration: BoxDecoration(color: Color(0xFF18A0FB)),
+      child: Stack(
+        children: [
+          Positioned(
+            left: 16,
+            top: 16,
+            right: 16,
+            bottom: 16,
+            child: Opacity(
+              opacity: 0.2,
+              child: Container(
+                decoration: BoxDecoration(
+                  color: Color(0xFFFFFFFF),
+                  borderRadius: BorderRadius.circular(12),
+                ),
+              ),
+            ),
+          ),
+          Positioned(
+            left: 32,
+            top: 32,
+            child: Text(
+              'Build faster',
+              style: TextStyle(
+                fontFamily: 'Inter',
+                fontSize: 28,
+                fontWeight: FontWeight.w700,
+                color: Color(0xFF1A1A1A),
+              ),
+            ),
+          ),
+          Positioned(
+            top: 24,
+            right: 24,
+            child: Container(
+              width: 48,
+              height: 24,
+              decoration: BoxDecoration(
+                color: Color(0xFFFFC700),
+                borderRadius: BorderRadius.circular(12),
+              ),
+            ),
+          ),
+          Positioned.fill(
+            child: Align(
+              alignment: FractionalOffset(0.5, 0.6667),
+              child: FractionallySizedBox(
+                widthFactor: 0.5,
+                heightFactor: 0.25,
+                child: Container(
+                  decoration: BoxDecoration(color: Color(0xFFFFFFFF)),
+                ),
+              ),
+            ),
+          ),
+        ],
+      ),
+    );
+  }
+
+  Widget _buildFooter(BuildContext context) {
+    return ConstrainedBox(
+      constraints: BoxConstraints(maxWidth: 480),
+      child: Padding(
+        padding: EdgeInsets.all(8),
+        child: Row(
+          mainAxisSize: MainAxisSize.min,
+          crossAxisAlignment: CrossAxisAlignment.start,
+          children: [
+            Text(
+              '© Acme',
+              style: TextStyle(
+                fontFamily: 'Inter',
+                fontSize: 12,
+                color: Color(0xFF1A1A1A),
+              ),
+            ),
+            SizedBox(width: 8),
+            Text(
+              'Terms',
+              style: TextStyle(
+                fontFamily: 'Inter',
+                fontSize: 12,
+                color: Color(0xFF1A1A1A),
+              ),
+            ),
+          ],
+        ),
+      ),
+    );
+  }
+}
@@ -0,0 +1,128 @@
+import 'package:flutter/material.dart';
+
+class GeneratedWidget extends StatelessWidget {
+  const GeneratedWidget({super.key});
+
+  static const _tagItems = [
+    (color: Color(0xFF1763F2), label: 'All', labelColor: Color(0xFFFFFFFF)),
+    (color: Color(0xFFEDF0F5), label: 'Coffee', labelColor: Color(0xFF333340)),
+    (color: Color(0xFFEDF0F5), label: 'Tea', labelColor: Color(0xFF333340)),
+    (color: Color(0xFFEDF0F5), label: 'Pastries', labelColor: Color(0xFF333340)),
+  ];
+  static const _productCardItems = [
+    (swatchColor: Color(0xFF5C4033), title: 'Espresso', price: '\$3.00'),
+    (swatchColor: Color(0xFFD9C2A8), title: 'Flat White', price: '\$4.20'),
+    (swatchColor: Color(0xFF99C273), title: 'Matcha Latte', price: '\$5.10'),
+    (swatchColor: Color(0xFFEDCC8C), title: 'Croissant', price: '\$3.80'),
+  ];
+
+  @override
+  Widget build(BuildContext context) {
+    return Container(
+      width: 375,
+      height: 520,
+      padding: EdgeInsets.all(16),
+      decoration: BoxDecoration(color: Color(0xFFF7F7FA)),
+      child: Column(
+        crossAxisAlignment: CrossAxisAlignment.start,
+        children: [
+          SizedBox(
+            width: double.infinity,
+            child: Wrap(
+              spacing: 8,
+              runSpacing: 8,
+              children: [
+                for (final item in _tagItems)
+                  Container(
+                    padding: EdgeInsets.symmetric(horizontal: 12, vertical: 6),
+                    decoration: BoxDecoration(
+                      color: item.color,
+                      borderRadius: BorderRadius.circular(16),
+                    ),
+                    child: Row(
+                      mainAxisSize: MainAxisSize.min,
+                      children: [
+                        Text(
+                          item.label,
+                          style: TextStyle(
+                            fontFamily: 'Inter',
+                            fontSize: 14,
+                            color: item.labelColor,
+                          ),
+                        ),
+                      ],
+                    ),
+                  ),
+              ],
+            ),
+          ),
+          SizedBox(height: 16),
+          SizedBox(
+            width: double.infinity,
+            child: SizedBox(
+              height: 372,
+              child: GridView.builder(
+                shrinkWrap: true,
+                physics: const NeverScrollableScrollPhysics(),
+                padding: EdgeInsets.zero,
+                gridDelegate: const SliverGridDelegateWithFixedCrossAxisCount(
+                  crossAxisCount: 2,
+                  mainAxisSpacing: 12,
+                  crossAxisSpacing: 12,
+                  mainAxisExtent: 180,
+                ),
+                itemCount: _productCardItems.length,
+                itemBuilder: (context, index) {
+                  final item = _productCardItems[index];
+                  return Container(
+                    width: 165.5,
+                    height: 180,
+                    padding: EdgeInsets.all(12),
+                    decoration: BoxDecoration(
+                      color: Color(0xFFFFFFFF),
+                      borderRadius: BorderRadius.circular(12),
+                    ),
+                    child: Column(
+                      crossAxisAlignment: CrossAxisAlignment.start,
+                      children: [
+                        SizedBox(
+                          width: double.infinity,
+                          child: Container(
+                            height: 96,
+                            decoration: BoxDecoration(
+                              color: item.swatchColor,
+                              borderRadius: BorderRadius.circular(8),
+                            ),
+                          ),
+                        ),
+                        SizedBox(height: 8),
+                        Text(
+                          item.title,
+                          style: TextStyle(
+                            fontFamily: 'Inter',
+                            fontSize: 14,
+                            fontWeight: FontWeight.w600,
+                            color: Color(0xFF1A1A1A),
+                          ),
+                        ),
+                        SizedBox(height: 8),
+                        Text(
+                          item.price,
+                          style: TextStyle(
+                            fontFamily: 'Inter',
+                            fontSize: 14,
+                            color: Color(0xFF666673),
+                          ),
+                        ),
+                      ],
+                    ),
+                  );
+                },
+              ),
+            ),
+          ),
+        ],
+      ),
+    );
+  }
+}
@@ -0,0 +1,99 @@
+import 'package:flutter/material.dart';
+
+class GeneratedWidget extends StatelessWidget {
+  const GeneratedWidget({super.key});
+
+  @override
+  Widget build(BuildContext context) {
+    return Container(
+      width: 375,
+      height: 200,
+      clipBehavior: Clip.antiAlias,
+      decoration: BoxDecoration(color: Color(0xFF18A0FB)),
+      child: Stack(
+        children: [
+          Positioned(
+            left: 24,
+            top: 104,
+            child: SizedBox(width: 64, height: 64, child: const Placeholder()),
+          ),
+          Positioned(
+            left: 104,
+            top: 114,
+            child: Opacity(
+              opacity: 0.9,
+              child: SizedBox(
+                width: 160,
+                height: 44,
+                child: Stack(
+                  clipBehavior: Clip.none,
+                  children: [
+                    Positioned(
+                      left: 0,
+                      top: 0,
+                      child: Text.rich(
+                        TextSpan(
+                          children: [
+                            TextSpan(
+                              text: 'Ada',
+                              style: TextStyle(
+                                fontFamily: 'Inter',
+                                fontSize: 18,
+                                fontWeight: FontWeight.w700,
+                                color: Color(0xFFFFFFFF),
+                              ),
+                            ),
+                            TextSpan(
+                              text: "'s profile",
+                              style: TextStyle(
+                                fontFamily: 'Inter',
+                                fontSize: 18,
+                                color: Color(0xFFFFFFFF),
+                              ),
+                            ),
+                          ],
+                        ),
+                        style: TextStyle(
+                          fontFamily: 'Inter',
+                          fontSize: 18,
+                          fontWeight: FontWeight.w500,
+                          fontStyle: FontStyle.italic,
+                          color: Color(0xFFFFFFFF),
+                        ),
+                      ),
+                    ),
+                    Positioned(
+                      left: 0,
+                      top: 36,
+                      child: Container(width: 160, height: 1, color: Color(0x80FFFFFF)),
+                    ),
+                  ],
+                ),
+              ),
+            ),
+          ),
+          Positioned(
+            left: 335,
+            top: 16,
+            child: Transform.rotate(
+              angle: -0.7854,
+              child: Padding(
+                padding: EdgeInsets.symmetric(horizontal: 8, vertical: 4),
+                child: Row(
+                  mainAxisSize: MainAxisSize.min,
+                  children: [
+                    Container(
+                      width: 8,
+                      height: 16,
+                      decoration: BoxDecoration(color: Color(0xFFFFFFFF)),
+                    ),
+                  ],
+                ),
+              ),
+            ),
+          ),
+        ],
+      ),
+    );
+  }
+}
@@ -0,0 +1,126 @@
+import 'package:flutter/material.dart';
+
+class GeneratedWidget extends StatelessWidget {
+  const GeneratedWidget({super.key});
+
+  @override
+  Widget build(BuildContext context) {
+    return Container(
+      width: 375,
+      height: 220,
+      padding: EdgeInsets.all(16),
+      decoration: BoxDecoration(color: Color(0xFFFFFFFF)),
+      child: Column(
+        crossAxisAlignment: CrossAxisAlignment.start,
+        children: [
+          SizedBox(
+            width: 343,
+            height: 48,
+            child: Row(
+              children: [
+                Tooltip(
+                  message: 'Go back',
+                  excludeFromSemantics: true,
+                  child: MergeSemantics(
+                    child: Semantics(
+                      label: 'Go back',
+                      button: true,
+                      child: GestureDetector(
+                        behavior: HitTestBehavior.opaque,
+                        onTap: () => Navigator.pop(context),
+                        child: SizedBox(
+                          width: 48,
+                          height: 48,
+                          child: Stack(
+                            clipBehavior: Clip.none,
+                            children: [
+                              Positioned(
+                                left: 16,
+                                top: 23,
+                                child: Container(
+                                  width: 16,
+                                  height: 2,
+                                  decoration: BoxDecoration(color: Color(0xFF1A1A1A)),
+                                ),
+                              ),
+                            ],
+                          ),
+                        ),
+                      ),
+                    ),
+                  ),
+                ),
+                SizedBox(width: 8),
+                Semantics(
+                  header: true,
+                  headingLevel: 1,
+                  child: Text(
+                    'Settings',
+                    style: TextStyle(
+                      fontFamily: 'Inter',
+                      fontSize: 22,
+                      fontWeight: FontWeight.w700,
+                      color: Color(0xFF1A1A1A),
+                    ),
+                    softWrap: false,
+                  ),
+                ),
+              ],
+            ),
+          ),
+          SizedBox(height: 12),
+          ExcludeSemantics(
+            child: Container(
+              width: 343,
+              height: 1,
+              decoration: BoxDecoration(color: Color(0xFFE6E6E6)),
+            ),
+          ),
+          SizedBox(height: 12),
+          Container(
+            width: 343,
+            height: 96,
+            padding: EdgeInsets.all(12),
+            decoration: BoxDecoration(
+              color: Color(0xFFF5F5FA),
+              borderRadius: BorderRadius.circular(12),
+            ),
+            child: Row(
+              children: [
+                Semantics(
+                  label: 'Profile photo',
+                  image: true,
+                  child: SizedBox(width: 56, height: 56, child: const Placeholder()),
+                ),
+                SizedBox(width: 12),
+                Semantics(
+                  hint: 'Your current subscription',
+                  child: Text(
+                    'Pro plan · renews monthly',
+                    style: TextStyle(
+                      fontFamily: 'Inter',
+                      fontSize: 14,
+                      color: Color(0xFF666673),
+                    ),
+                    softWrap: false,
+                  ),
+                ),
+                SizedBox(width: 12),
+                ExcludeSemantics(
+                  child: Container(
+                    width: 8,
+                    height: 8,
+                    decoration: BoxDecoration(
+                      color: Color(0xFFFFCC33),
+                      shape: BoxShape.circle,
+                    ),
+                  ),
+                ),
+              ],
+            ),
+          ),
+        ],
+      ),
+    );
+  }
+}
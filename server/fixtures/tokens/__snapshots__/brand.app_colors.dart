@@ -0,0 +1,90 @@
+import 'package:flutter/material.dart';
+
+/// Colors and gradients from Figma paint styles and color variables.
+/// Generated by Max Compute; re-sync design tokens instead of editing by hand.
+class AppColors {
+  AppColors._();
+
+  /// Main actions and links
+  static const Color brandPrimary500 = Color(0xFF3366FF);
+
+  static const Color brandPrimary5002 = Color(0x801A4DE6);
+
+  static const Color defaultToken = Color(0xFF808080);
+
+  static const Color color500 = Color(0xFF000000);
+
+  /// Screen background
+  static const Color surface = Color(0xFFFFFFFF);
+
+  static const Color onSurface = Color(0xFF1A1A1F);
+
+  /// No dark value yet, so the light one is used
+  static const Color accent = Color(0xFFFF9900);
+
+  static const Color gray900 = Color(0xFF1A1A1F);
+
+  static const Color ink = Color(0xFF1A1A1F);
+
+  static const Color white = Color(0xFFFFFFFF);
+
+  /// Top of the landing page
+  static const LinearGradient heroGradient = LinearGradient(
+    begin: Alignment(-1, 0),
+    end: Alignment(1, 0),
+    colors: [Color(0xFF3366FF), Color(0xFF9933CC)],
+    stops: [0, 1],
+  );
+}
+
+/// Color variables that change between Figma modes (Light, Dark).
+/// Read them with `AppColorTokens.of(context)`.
+class AppColorTokens extends ThemeExtension<AppColorTokens> {
+  const AppColorTokens({
+    required this.surface,
+    required this.onSurface,
+    required this.accent,
+  });
+
+  final Color surface;
+  final Color onSurface;
+  final Color accent;
+
+  static const AppColorTokens light = AppColorTokens(
+    surface: Color(0xFFFFFFFF),
+    onSurface: Color(0xFF1A1A1F),
+    accent: Color(0xFFFF9900),
+  );
+
+  static const AppColorTokens dark = AppColorTokens(
+    surface: Color(0xFF121217),
+    onSurface: Color(0xFFFFFFFF),
+    accent: Color(0xFFFF9900),
+  );
+
+  static AppColorTokens of(BuildContext context) =>
+      Theme.of(context).extension<AppColorTokens>()!;
+
+  @override
+  AppColorTokens copyWith({
+    Color? surface,
+    Color? onSurface,
+    Color? accent,
+  }) {
+    return AppColorTokens(
+      surface: surface ?? this.surface,
+      onSurface: onSurface ?? this.onSurface,
+      accent: accent ?? this.accent,
+    );
+  }
+
+  @override
+  AppColorTokens lerp(ThemeExtension<AppColorTokens>? other, double t) {
+    if (other is! AppColorTokens) return this;
+    return AppColorTokens(
+      surface: Color.lerp(surface, other.surface, t)!,
+      onSurface: Color.lerp(onSurface, other.onSurface, t)!,
+      accent: Color.lerp(accent, other.accent, t)!,
+    );
+  }
+}
@@ -0,0 +1,17 @@
+import 'package:flutter/material.dart';
+
+/// Drop shadows from Figma effect styles.
+/// Generated by Max Compute; re-sync design tokens instead of editing by hand.
+class AppShadows {
+  AppShadows._();
+
+  /// Cards and sheets
+  static const List<BoxShadow> elevationCard = [
+    BoxShadow(
+      color: Color(0x40000000),
+      offset: Offset(0, 4),
+      blurRadius: 8,
+      spreadRadius: 2,
+    ),
+  ];
+}
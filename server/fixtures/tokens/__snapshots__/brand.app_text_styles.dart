@@ -0,0 +1,37 @@
+import 'package:flutter/material.dart';
+
+/// Text styles from Figma local text styles.
+/// Generated by Max Compute; re-sync design tokens instead of editing by hand.
+class AppTextStyles {
+  AppTextStyles._();
+
+  static const TextStyle heading1 = TextStyle(
+    fontFamily: 'Inter',
+    fontSize: 32,
+    fontWeight: FontWeight.w700,
+    height: 1.25,
+    letterSpacing: -0.64,
+  );
+
+  /// Same slot as Heading 1, so it stays out of the TextTheme
+  static const TextStyle heading1Alt = TextStyle(
+    fontFamily: 'Inter',
+    fontSize: 30,
+    fontWeight: FontWeight.w600,
+  );
+
+  static const TextStyle bodyLarge = TextStyle(fontFamily: 'Inter', fontSize: 18, height: 1.5);
+
+  static const TextStyle bodyRegular = TextStyle(fontFamily: 'Inter', fontSize: 16);
+
+  static const TextStyle labelLink = TextStyle(
+    fontFamily: 'Inter',
+    fontSize: 14,
+    fontWeight: FontWeight.w500,
+    fontStyle: FontStyle.italic,
+    letterSpacing: 0.5,
+    decoration: TextDecoration.underline,
+  );
+
+  static const TextStyle caption = TextStyle(fontFamily: 'Inter', fontSize: 12);
+}
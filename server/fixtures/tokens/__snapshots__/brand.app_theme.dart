@@ -0,0 +1,33 @@
+import 'package:flutter/material.dart';
+
+import 'app_colors.dart';
+import 'app_text_styles.dart';
+
+/// ThemeData built from the synced Figma design tokens.
+/// Generated by Max Compute; re-sync design tokens instead of editing by hand.
+class AppTheme {
+  AppTheme._();
+
+  static ThemeData light() => _build(Brightness.light, AppColorTokens.light);
+
+  static ThemeData dark() => _build(Brightness.dark, AppColorTokens.dark);
+
+  static ThemeData _build(Brightness brightness, AppColorTokens colorTokens) {
+    return ThemeData(
+      useMaterial3: true,
+      brightness: brightness,
+      colorScheme: ColorScheme.fromSeed(
+        seedColor: AppColors.brandPrimary500,
+        brightness: brightness,
+      ),
+      textTheme: TextTheme(
+        headlineLarge: AppTextStyles.heading1,
+        bodyLarge: AppTextStyles.bodyLarge,
+        bodyMedium: AppTextStyles.bodyRegular,
+        labelLarge: AppTextStyles.labelLink,
+        labelSmall: AppTextStyles.caption,
+      ),
+      extensions: <ThemeExtension<dynamic>>[colorTokens],
+    );
+  }
+}
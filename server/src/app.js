@@ -0,0 +1,411 @@
+const express = require('express');
+const cors = require('cors');
+const GeminiService = require('./services/geminiService');
+const ProjectService = require('./services/projectService');
+const DeterministicGenerator = require('./services/deterministicGenerator');
+const ThemeService = require('./services/themeService');
+const ComponentService = require('./services/componentService');
+const ValidationService = require('./services/validationService');
+const RouterService = require('./services/routerService');
+const VisualService = require('./services/visualService');
+const LocalizationService = require('./services/localizationService');
+const ConversionService = require('./services/conversionService');
+const HistoryService = require('./services/historyService');
+const { ProviderRegistry } = require('./services/providers');
+const { buildTokenIndex } = require('./utils/designTokens');
+const { diffNodes } = require('./utils/nodeDiff');
+const { openEventStream } = require('./utils/eventStream');
+const { PACKAGE_NAME, loadSecurityConfig, corsOptions, requireToken } = require('./utils/security');
+const { validateBody, PROJECT_PATH, NAME, UPLOAD, NODE, ASSETS } = require('./utils/requestSchema');
+
+// Per-install auth token and project roots (~/.maxcompute/config.json)
+const security = loadSecurityConfig();
+const checkBody = schema => validateBody(schema, security);
+
+const app = express();
+app.use(cors(corsOptions()));
+app.use(express.json({ limit: '50mb' }));
+
+// --- Logging Middleware ---
+app.use((req, res, next) => {
+    const start = Date.now();
+    const { method, url } = req;
+    console.log(`[Server] ${method} ${url} - Started`);
+
+    // Log body summary (avoid logging huge base64 strings)
+    if (req.body) {
+        const bodyKeys = Object.keys(req.body);
+        const summary = bodyKeys.map(key => {
+            const val = req.body[key];
+            if (typeof val === 'string' && val.length > 100) {
+                return `${key}: <string length ${val.length}>`;
+            }
+            return `${key}: ${JSON.stringify(val)}`;
+        }).join(', ');
+        console.log(`[Server] Params: { ${summary} }`);
+    }
+
+    res.on('finish', () => {
+        const duration = Date.now() - start;
+        console.log(`[Server] ${method} ${url} - ${res.statusCode} (${duration}ms)`);
+    });
+
+    next();
+});
+
+// Every route writes to disk or spends API quota, so every route needs the token
+app.use(requireToken(security));
+
+// Initialize Services
+const providerRegistry = new ProviderRegistry();
+const projectService = new ProjectService();
+const geminiService = new GeminiService(providerRegistry, { uploadsDir: projectService.uploadsDir });
+const deterministicGenerator = new DeterministicGenerator();
+const themeService = new ThemeService();
+const componentService = new ComponentService(deterministicGenerator);
+const validationService = new ValidationService();
+const routerService = new RouterService(projectService);
+const visualService = new VisualService({ uploadsDir: projectService.uploadsDir });
+const localizationService = new LocalizationService(projectService);
+const historyService = new HistoryService(projectService);
+const conversionService = new ConversionService({
+    providerRegistry,
+    geminiService,
+    projectService,
+    deterministicGenerator,
+    componentService,
+    validationService,
+    routerService,
+    visualService,
+    localizationService,
+    historyService,
+});
+
+// --- Project Endpoints ---
+
+app.post('/project/validate', checkBody({ path: PROJECT_PATH }), async (req, res) => {
+    try {
+        const { path } = req.body;
+        const isValid = await projectService.validateProject(path);
+        res.json({ isValid });
+    } catch (error) {
+        res.status(500).json({ error: error.message });
+    }
+});
+
+app.post('/project/create', checkBody({
+    parentPath: PROJECT_PATH,
+    projectName: { type: 'string', pattern: PACKAGE_NAME, message: 'must be a Dart package name: lowercase letters, digits and "_", starting with a letter.' },
+}), async (req, res) => {
+    try {
+        const { parentPath, projectName } = req.body;
+        const fullPath = await projectService.createProject(parentPath, projectName);
+        res.json({ path: fullPath });
+    } catch (error) {
+        res.status(500).json({ error: error.message });
+    }
+});
+
+app.post('/project/features', checkBody({ projectPath: PROJECT_PATH }), async (req, res) => {
+    try {
+        const { projectPath } = req.body;
+        const features = await projectService.getFeatures(projectPath);
+        res.json({ features });
+    } catch (error) {
+        res.status(500).json({ error: error.message });
+    }
+});
+
+app.post('/project/feature', checkBody({ projectPath: PROJECT_PATH, featureName: NAME }), async (req, res) => {
+    try {
+        const { projectPath, featureName } = req.body;
+        await projectService.createFeature(projectPath, featureName);
+        res.json({ success: true });
+    } catch (error) {
+        res.status(500).json({ error: error.message });
+    }
+});
+
+/**
+ * Save generated code into lib/features/<feature>/<file>
+ * Hand edits outside protected regions are never overwritten unless force is set;
+ * the new output is written alongside as <file>.new.dart and a diff is returned
+ * historyId (from /convert) records the saved file on that generation, for rollbacks
+ */
+app.post('/file/save', checkBody({
+    projectPath: PROJECT_PATH,
+    featureName: NAME,
+    fileName: NAME,
+    content: { type: 'string' },
+    source: { type: 'object', optional: true },
+    force: { type: 'boolean', optional: true },
+    historyId: { ...NAME, optional: true },
+}), async (req, res) => {
+    try {
+        const { projectPath, featureName, fileName, content, source, force, historyId } = req.body;
+        const result = await projectService.saveGeneratedFile(projectPath, featureName, fileName, content, { source, force });
+        if (historyId && source && source.nodeId && result.status !== 'conflict') {
+            const saved = { projectPath, featureName, fileName, filePath: result.filePath, status: result.status };
+            // The file is saved either way
+            await historyService.markSaved(source.nodeId, historyId, saved).catch(() => { });
+        }
+        res.json(result);
+    } catch (error) {
+        res.status(500).json({ error: error.message });
+    }
+});
+
+/**
+ * Sync Design Tokens - Writes AppColors / AppTextStyles / AppShadows / AppTheme
+ * into lib/core/theme from the plugin's local styles and variables
+ */
+app.post('/project/theme', checkBody({ projectPath: PROJECT_PATH, tokens: { type: 'object' } }), async (req, res) => {
+    try {
+        const { projectPath, tokens } = req.body;
+        const { files, index } = await themeService.writeTheme(projectPath, tokens);
+        res.json({
+            files,
+            counts: {
+                colors: index.colors.length + index.gradients.length,
+                textStyles: index.textStyles.length,
+                shadows: index.shadows.length,
+                modes: index.modes,
+            },
+        });
+    } catch (error) {
+        res.status(500).json({ error: error.message });
+    }
+});
+
+/**
+ * Sync Components - Writes one widget per Figma main component into lib/shared/widgets
+ * and a manifest that later /convert calls use to emit instances as widget calls
+ */
+app.post('/project/components', checkBody({
+    projectPath: PROJECT_PATH,
+    components: { type: 'array', items: { type: 'object', fields: { id: { type: 'string' }, name: { type: 'string' }, data: NODE } } },
+    assets: ASSETS,
+    designTokens: { type: 'object', optional: true },
+}), async (req, res) => {
+    try {
+        const { projectPath, components, assets, designTokens } = req.body;
+        const { assetMap, files: assetFiles } = await projectService.importAssets(projectPath, assets);
+        const tokenIndex = designTokens ? buildTokenIndex(designTokens) : null;
+        const { files, manifest } = await componentService.syncComponents(projectPath, components, { tokenIndex, assetMap });
+
+        res.json({
+            files: [...files, ...assetFiles],
+            widgets: manifest.components.map(entry => ({ id: entry.id, name: entry.name, className: entry.className, file: entry.file })),
+        });
+    } catch (error) {
+        res.status(500).json({ error: error.message });
+    }
+});
+
+/**
+ * Sync Routes - Registers saved screens and rewrites lib/core/router/app_router.dart,
+ * a go_router table whose routes animate like the prototype links between them
+ */
+app.post('/project/routes', checkBody({
+    projectPath: PROJECT_PATH,
+    screens: { type: 'array', items: { type: 'object', fields: { id: { type: 'string' }, featureName: NAME, fileName: NAME } } },
+}), async (req, res) => {
+    try {
+        const { projectPath, screens } = req.body;
+        const { file, manifest } = await routerService.syncRoutes(projectPath, screens);
+        res.json({
+            file,
+            routes: manifest.screens.map(entry => ({ id: entry.id, name: entry.name, path: entry.path, className: entry.className })),
+        });
+    } catch (error) {
+        res.status(500).json({ error: error.message });
+    }
+});
+
+/**
+ * Upload Image - Saves to temp directory (format: 'png' default, or 'svg' for vector icons)
+ * Returns unique filename that will be used later to copy to project assets
+ */
+app.post('/upload-image', checkBody({
+    name: { type: 'string' },
+    data: { type: 'string' },
+    format: { type: 'string', oneOf: ['png', 'svg'], optional: true },
+}), async (req, res) => {
+    try {
+        const { name, data, format = 'png' } = req.body;
+        const filename = await projectService.saveTempUpload(name, data, format);
+        res.json({ filename });
+    } catch (error) {
+        console.error('[Server] Upload Error:', error);
+        res.status(500).json({ error: error.message });
+    }
+});
+
+// Body of /convert and /convert/stream; ConversionService.validateRequest checks how the options fit together
+const CONVERT_SCHEMA = {
+    projectPath: { ...PROJECT_PATH, optional: true },
+    contextImage: UPLOAD,
+    figmaData: { ...NODE, optional: true },
+    options: { type: 'object', optional: true, fields: { feature: { type: 'string', optional: true }, className: { type: 'string', optional: true }, cache: { type: 'boolean', optional: true } } },
+    assets: ASSETS,
+    designTokens: { type: 'object', optional: true },
+    regenerate: { type: 'object', optional: true, fields: { featureName: NAME, fileName: NAME, changes: { type: 'array', optional: true } } },
+    breakpoints: { type: 'array', optional: true, items: { type: 'object', fields: { figmaData: { ...NODE, optional: true }, contextImage: UPLOAD } } },
+};
+
+/**
+ * Convert UI Screenshot to Flutter Code
+ * Uses context image as primary visual reference
+ * Optional: Include Figma data for precise measurements (fonts, colors, spacing, border radius)
+ * Optional: Copies uploaded assets into the project when projectPath is provided
+ * Optional: options.mode = 'deterministic' skips Gemini and emits code from figmaData rules
+ */
+app.post('/convert', checkBody(CONVERT_SCHEMA), async (req, res) => {
+    try {
+        const invalid = conversionService.validateRequest(req.body);
+        if (invalid) {
+            return res.status(invalid.status).json({ error: invalid.error });
+        }
+
+        res.json(await conversionService.convert(req.body));
+    } catch (error) {
+        console.error('[Server] Error converting:', error);
+        res.status(500).json({ error: error.message || 'Internal Server Error' });
+    }
+});
+
+// Same as /convert, as server-sent events: progress, chunk (model output as it arrives), done or error.
+// Closing the connection cancels the upstream model request.
+app.post('/convert/stream', checkBody(CONVERT_SCHEMA), async (req, res) => {
+    const invalid = conversionService.validateRequest(req.body);
+    if (invalid) {
+        return res.status(invalid.status).json({ error: invalid.error });
+    }
+
+    const send = openEventStream(res);
+    const controller = new AbortController();
+    res.on('close', () => {
+        if (!res.writableEnded) {
+            console.log('[Server] Client disconnected, cancelling generation');
+            controller.abort();
+        }
+    });
+
+    try {
+        const result = await conversionService.convert(req.body, {
+            signal: controller.signal,
+            onProgress: (phase, message, extra) => send('progress', { phase, message, ...extra }),
+            onChunk: text => send('chunk', { text }),
+        });
+        send('done', result);
+    } catch (error) {
+        if (controller.signal.aborted) {
+            console.log('[Server] Generation cancelled');
+        } else {
+            console.error('[Server] Error converting:', error);
+            send('error', { error: error.message || 'Internal Server Error' });
+        }
+    } finally {
+        res.end();
+    }
+});
+
+// LLM providers the Generate tab can choose from
+app.post('/providers', checkBody({}), (req, res) => {
+    res.json({ defaultProvider: providerRegistry.defaultProvider, providers: providerRegistry.list() });
+});
+
+// Structured diff between the design snapshot from the last generation and the current design
+app.post('/diff', checkBody({ previous: NODE, current: NODE }), (req, res) => {
+    const { previous, current } = req.body;
+    try {
+        res.json({ changes: diffNodes(previous, current) });
+    } catch (error) {
+        console.error('[Server] Error diffing nodes:', error);
+        res.status(500).json({ error: error.message });
+    }
+});
+
+// --- Generation History ---
+
+// Generations of a node, newest first
+app.post('/history', checkBody({ nodeId: { type: 'string' } }), async (req, res) => {
+    try {
+        res.json({ entries: await historyService.list(req.body.nodeId) });
+    } catch (error) {
+        res.status(500).json({ error: error.message });
+    }
+});
+
+// One generation with its code, prompts, options and design
+app.post('/history/entry', checkBody({ nodeId: { type: 'string' }, id: NAME }), async (req, res) => {
+    try {
+        const entry = await historyService.get(req.body.nodeId, req.body.id);
+        if (!entry) {
+            return res.status(404).json({ error: `No generation ${req.body.id} for node ${req.body.nodeId}.` });
+        }
+        res.json(entry);
+    } catch (error) {
+        res.status(500).json({ error: error.message });
+    }
+});
+
+// Code diff between two generations of a node; against defaults to the newest
+app.post('/history/diff', checkBody({ nodeId: { type: 'string' }, id: NAME, against: { ...NAME, optional: true } }), async (req, res) => {
+    try {
+        const { nodeId, id, against } = req.body;
+        const result = await historyService.diff(nodeId, id, against);
+        if (!result) {
+            return res.status(404).json({ error: `Both generations must be in the history of node ${nodeId}.` });
+        }
+        res.json(result);
+    } catch (error) {
+        res.status(500).json({ error: error.message });
+    }
+});
+
+/**
+ * Roll a project file back to an earlier generation
+ * Saved like /file/save: hand edits outside protected regions are kept unless force is set
+ */
+app.post('/history/restore', checkBody({
+    nodeId: { type: 'string' },
+    id: NAME,
+    projectPath: PROJECT_PATH,
+    featureName: NAME,
+    fileName: NAME,
+    force: { type: 'boolean', optional: true },
+}), async (req, res) => {
+    try {
+        const { nodeId, id, projectPath, featureName, fileName, force } = req.body;
+        const result = await historyService.restore(nodeId, id, { projectPath, featureName, fileName, force });
+        if (!result) {
+            return res.status(404).json({ error: `No generation ${id} for node ${nodeId}.` });
+        }
+        res.json(result);
+    } catch (error) {
+        res.status(500).json({ error: error.message });
+    }
+});
+
+// Optional: Cleanup endpoint for old temp files
+// History entries keep their own copies of context images; those no entry uses are removed
+app.post('/cleanup', checkBody({}), async (req, res) => {
+    try {
+        await projectService.cleanupTempUploads(24); // Clean files older than 24 hours
+        await historyService.cleanup();
+        res.json({ success: true });
+    } catch (error) {
+        res.status(500).json({ error: error.message });
+    }
+});
+
+// Debug Logging Endpoint
+app.post('/log', checkBody({ message: { type: 'string' }, type: { type: 'string', optional: true } }), (req, res) => {
+    const { message, type } = req.body;
+    const prefix = type === 'error' ? '[Plugin Error]' : '[Plugin Log]';
+    console.log(`${prefix} ${message}`);
+    res.json({ success: true });
+});
+
+module.exports = { app, security, providerRegistry };
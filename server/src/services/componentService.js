@@ -0,0 +1,75 @@
+const fs = require('fs');
+const path = require('path');
+const DeterministicGenerator = require('./deterministicGenerator');
+const { buildComponentManifest, buildComponentIndex } = require('../utils/componentManifest');
+
+const WIDGETS_DIR = ['lib', 'shared', 'widgets'];
+const MANIFEST_PATH = ['.max_compute', 'components.json'];
+
+class ComponentService {
+    constructor(generator = new DeterministicGenerator()) {
+        this.generator = generator;
+    }
+
+    /**
+     * Generate one widget per Figma main component into lib/shared/widgets
+     * and record them in .max_compute/components.json for later screen conversions
+     * @param {string} projectPath - Flutter project root
+     * @param {Object[]} components - Payload from the plugin's sync-components message
+     * @param {Object} options
+     * @param {Object} options.tokenIndex - Optional design token index (see utils/designTokens)
+     * @param {Object} options.assetMap - Optional { nodeId: 'assets/...' } of assets copied into the project
+     * @returns {Promise<{files: string[], manifest: Object}>}
+     */
+    async syncComponents(projectPath, components, options = {}) {
+        try {
+            const manifest = buildComponentManifest(components);
+            const componentIndex = buildComponentIndex(manifest);
+            const widgetsDir = path.join(projectPath, ...WIDGETS_DIR);
+            await fs.promises.mkdir(widgetsDir, { recursive: true });
+
+            const written = [];
+            for (const entry of manifest.components) {
+                const component = components.find(c => c.id === entry.id);
+                const code = this.generator.generateComponent(component.data, entry, {
+                    tokenIndex: options.tokenIndex,
+                    assetMap: options.assetMap,
+                    componentIndex,
+                    widgetsImportPath: '',
+                });
+
+                const filePath = path.join(widgetsDir, entry.file);
+                await fs.promises.writeFile(filePath, code, 'utf8');
+                written.push(filePath);
+            }
+
+            const manifestPath = path.join(projectPath, ...MANIFEST_PATH);
+            await fs.promises.mkdir(path.dirname(manifestPath), { recursive: true });
+            await fs.promises.writeFile(manifestPath, JSON.stringify(manifest, null, 2) + '\n', 'utf8');
+
+            console.log(`[ComponentService] ${written.length} component widget(s) written`);
+            return { files: written, manifest };
+        } catch (error) {
+            console.error('Sync Components Error:', error);
+            throw error;
+        }
+    }
+
+    /**
+     * Read the component manifest of a project, or null if components were never synced
+     */
+    async loadManifest(projectPath) {
+        if (!projectPath) return null;
+        try {
+            const content = await fs.promises.readFile(path.join(projectPath, ...MANIFEST_PATH), 'utf8');
+            return JSON.parse(content);
+        } catch (error) {
+            if (error.code !== 'ENOENT') {
+                console.warn(`[ComponentService] Ignoring unreadable component manifest: ${error.message}`);
+            }
+            return null;
+        }
+    }
+}
+
+module.exports = ComponentService;
@@ -0,0 +1,404 @@
+const GeminiService = require('./geminiService');
+const ProjectService = require('./projectService');
+const DeterministicGenerator = require('./deterministicGenerator');
+const ComponentService = require('./componentService');
+const ValidationService = require('./validationService');
+const RouterService = require('./routerService');
+const VisualService = require('./visualService');
+const LocalizationService = require('./localizationService');
+const { ProviderRegistry } = require('./providers');
+const { buildTokenIndex } = require('../utils/designTokens');
+const { buildComponentIndex } = require('../utils/componentManifest');
+const { hashNode } = require('../utils/hash');
+const { normalizeBreakpoints } = require('../utils/breakpoints');
+const { buildRouteIndex, collectReactions, collectTextLinks } = require('../utils/navigation');
+const { STATE_MANAGEMENT, stateManagementOf, collectForm, buildFormState } = require('../utils/forms');
+
+/**
+ * One conversion from a /convert request body to checked Flutter code: assets, design tokens,
+ * shared widgets, routes, form state and strings are prepared, then the code is generated
+ * (by a model or the deterministic generator), validated and optionally compared with the
+ * context image. Used by the /convert routes and the maxcompute CLI.
+ * With a history service, every conversion is recorded and identical AI requests are answered
+ * from the history instead of the model.
+ */
+class ConversionService {
+    /**
+     * @param {Object} services - Instances to share with the caller; missing ones are created,
+     *   except historyService (no history without it)
+     */
+    constructor(services = {}) {
+        this.providerRegistry = services.providerRegistry || new ProviderRegistry();
+        this.projectService = services.projectService || new ProjectService();
+        this.geminiService = services.geminiService || new GeminiService(this.providerRegistry, { uploadsDir: this.projectService.uploadsDir });
+        this.deterministicGenerator = services.deterministicGenerator || new DeterministicGenerator();
+        this.componentService = services.componentService || new ComponentService(this.deterministicGenerator);
+        this.validationService = services.validationService || new ValidationService();
+        this.routerService = services.routerService || new RouterService(this.projectService);
+        this.visualService = services.visualService || new VisualService({ uploadsDir: this.projectService.uploadsDir });
+        this.localizationService = services.localizationService || new LocalizationService(this.projectService);
+        this.historyService = services.historyService || null;
+    }
+
+    /**
+     * Generate, validate and check one screen. The body must have passed validateRequest.
+     * @param {Object} body - /convert request body
+     * @param {Object} hooks
+     * @param {AbortSignal} hooks.signal - Cancels model requests
+     * @param {Function} hooks.onProgress - (phase, message, extra) as each step starts
+     * @param {Function} hooks.onChunk - Model output as it arrives; without it the model is not streamed
+     * @returns {Promise<Object>} code, diagnostics, visual, assetMap, files, source, navigation,
+     *   companions, localization, estimates and history (the /convert response)
+     */
+    async convert(body, { signal, onProgress = () => { }, onChunk = null } = {}) {
+        const { contextImage, figmaData, options } = body;
+
+        const request = this.historyService ? this.historyService.requestKey(body) : null;
+        const cached = request && request.nodeId && this.isCacheable(body)
+            ? await this.historyService.findCached(request.nodeId, request.key)
+            : null;
+
+        // Also on a history hit: the project may have lost the assets, strings or packages
+        // the reused code refers to since the entry was generated
+        onProgress('assets', 'Copying assets into the project...');
+        const { isDeterministic, generatorOptions, assetMap, files, source, navigation, companions, localization } = await this.prepare(body, {
+            reusedAssets: cached ? cached.result.assetMap : undefined,
+        });
+
+        if (cached) {
+            console.log(`[ConversionService] Serving ${request.nodeId} from history entry ${cached.id}`);
+            onProgress('cache', `Reusing the ${cached.model || cached.provider} output from ${cached.createdAt}...`);
+            if (onChunk) onChunk(cached.result.code);
+            return { ...cached.result, assetMap, files, localization, history: { id: cached.id, cached: true } };
+        }
+
+        let code;
+        const estimates = [];
+        const requests = [];
+        if (isDeterministic) {
+            console.log('[ConversionService] Generating Flutter code deterministically...');
+            code = this.generateDeterministic(figmaData, generatorOptions);
+            if (onChunk) onChunk(code);
+        } else {
+            const providerName = (options && options.provider) || this.providerRegistry.defaultProvider;
+            console.log('[ConversionService] Generating Flutter code from screenshot...');
+            onProgress('generate', `Waiting for ${providerName}...`);
+
+            const onEstimate = estimate => {
+                estimates.push(estimate);
+                onProgress('prompt', `Sending ${estimate.className} (~${estimate.tokens} tokens, ${estimate.images} image(s))...`, { estimate });
+            };
+            const onRequest = description => requests.push(description);
+            if (onChunk) {
+                const stream = this.geminiService.streamCodeFromImage(contextImage, { ...generatorOptions, onEstimate, onRequest, signal });
+                let result = await stream.next();
+                while (!result.done) {
+                    onChunk(result.value);
+                    result = await stream.next();
+                }
+                code = result.value;
+            } else {
+                code = await this.geminiService.generateCodeFromImage(contextImage, { ...generatorOptions, onEstimate, onRequest, signal });
+            }
+        }
+
+        if (!options || options.validate !== false) {
+            onProgress('validate', 'Checking the generated code...');
+        }
+        const validated = await this.validateGenerated(code, body, {
+            isDeterministic,
+            generatorOptions,
+            companions,
+            signal,
+            onProgress: message => onProgress('repair', message),
+        });
+
+        if (options && options.visualCheck) {
+            onProgress('visual', 'Rendering and comparing with the design...');
+        }
+        const { validation, visual } = await this.checkVisual(validated, body, {
+            isDeterministic,
+            generatorOptions,
+            companions,
+            signal,
+            onProgress: message => onProgress('refine', message),
+        });
+
+        console.log('[ConversionService] Code generation complete');
+        const result = { ...validation, visual, assetMap, files, source, navigation, companions, localization, estimates };
+        return { ...result, history: await this.recordHistory(request, body, result, requests) };
+    }
+
+    /**
+     * Whether an identical earlier request may answer this one. Only model output is reused:
+     * deterministic output is cheap and follows generator changes, and focused regeneration
+     * works from the file as it is saved now. options.cache = false asks for a new generation.
+     */
+    isCacheable({ options, regenerate }) {
+        if (!options || options.mode === 'deterministic' || options.cache === false) {
+            return false;
+        }
+        return !(regenerate && regenerate.changes && regenerate.changes.length > 0);
+    }
+
+    /**
+     * Store the conversion in the history. A conversion is not failed over its history entry.
+     * @returns {Promise<{id: string, cached: boolean}|null>}
+     */
+    async recordHistory(request, body, result, requests) {
+        if (!request || !request.nodeId) {
+            return null;
+        }
+        try {
+            const entry = await this.historyService.record({ request, body, result, requests });
+            return { id: entry.id, cached: false };
+        } catch (error) {
+            console.error('[ConversionService] History not recorded:', error);
+            return null;
+        }
+    }
+
+    /**
+     * Problems with a /convert request body, checked before convert
+     * @returns {{status: number, error: string}|null}
+     */
+    validateRequest({ contextImage, figmaData, options, breakpoints }) {
+        const isDeterministic = options && options.mode === 'deterministic';
+
+        const useProvider = options && options.useProvider;
+        if (useProvider !== undefined && useProvider !== false && !stateManagementOf(useProvider)) {
+            return { status: 400, error: `useProvider must be one of: ${Object.keys(STATE_MANAGEMENT).join(', ')}.` };
+        }
+
+        if (breakpoints) {
+            try {
+                normalizeBreakpoints(breakpoints);
+            } catch (error) {
+                return { status: 400, error: error.message };
+            }
+        } else if (isDeterministic && !figmaData) {
+            return { status: 400, error: 'Missing figmaData in request body.' };
+        }
+
+        if (!isDeterministic) {
+            const providerName = (options && options.provider) || this.providerRegistry.defaultProvider;
+            if (!this.providerRegistry.has(providerName)) {
+                return { status: 400, error: `Unknown provider "${providerName}".` };
+            }
+
+            const configError = this.providerRegistry.configurationError(providerName);
+            if (configError) {
+                return { status: 500, error: `Server configuration error: ${configError}` };
+            }
+
+            const { temperature, timeout, repairRounds, tokenBudget } = options || {};
+            if (temperature !== undefined && !(typeof temperature === 'number' && temperature >= 0 && temperature <= 2)) {
+                return { status: 400, error: 'temperature must be a number between 0 and 2.' };
+            }
+            if (timeout !== undefined && !(Number.isInteger(timeout) && timeout > 0)) {
+                return { status: 400, error: 'timeout must be a positive number of milliseconds.' };
+            }
+            if (repairRounds !== undefined && !(Number.isInteger(repairRounds) && repairRounds >= 0 && repairRounds <= 5)) {
+                return { status: 400, error: 'repairRounds must be an integer between 0 and 5.' };
+            }
+            if (tokenBudget !== undefined && !(Number.isInteger(tokenBudget) && tokenBudget > 0)) {
+                return { status: 400, error: 'tokenBudget must be a positive integer.' };
+            }
+
+            if (this.providerRegistry.requiresImage(providerName)) {
+                if (breakpoints && breakpoints.some(bp => !bp.contextImage)) {
+                    return { status: 400, error: 'Every breakpoint needs a contextImage.' };
+                }
+                if (!breakpoints && !contextImage) {
+                    return { status: 400, error: 'Missing contextImage in request body.' };
+                }
+            }
+        }
+        return null;
+    }
+
+    /**
+     * Copies the assets into the project and collects the options either generator needs
+     * @param {Object} reuse
+     * @param {Object} reuse.reusedAssets - assetMap of a history entry whose code is reused; its
+     *   assets are copied to the same paths
+     */
+    async prepare({ contextImage, figmaData, options, assets, projectPath, designTokens, regenerate, breakpoints }, { reusedAssets } = {}) {
+        // Synced design tokens let both generators reference AppColors / AppTextStyles by name
+        const tokenIndex = designTokens ? buildTokenIndex(designTokens) : null;
+        const isDeterministic = options && options.mode === 'deterministic';
+
+        // Copy image fills into assets/images/ before generating so the code can reference them
+        const { assetMap, files } = await this.projectService.importAssets(projectPath, assets, reusedAssets);
+        if (files.length > 0) {
+            console.log(`[ConversionService] ${files.length} asset(s) written to project`);
+        }
+
+        // Responsive screens: one frame per breakpoint, smallest first
+        const layouts = breakpoints ? normalizeBreakpoints(breakpoints) : null;
+
+        // Recorded in the saved file's header so regeneration can tell design changes from hand edits.
+        // A responsive screen is identified by its smallest frame and hashed over all of them.
+        let source = figmaData ? { nodeId: figmaData.id, hash: hashNode(figmaData) } : null;
+        if (layouts) {
+            source = { nodeId: layouts[0].figmaData.id, hash: hashNode(layouts.map(layout => layout.figmaData)) };
+        }
+
+        // Synced components turn instances into calls to the shared widgets
+        const componentIndex = buildComponentIndex(await this.componentService.loadManifest(projectPath));
+        // Registered screens give prototype links their route paths and overlay imports
+        const routeIndex = buildRouteIndex(await this.routerService.loadManifest(projectPath));
+
+        // Prototype links, returned so the plugin can register them with /project/routes
+        const roots = layouts ? layouts.map(layout => layout.figmaData) : [figmaData];
+        const navigation = [].concat(...roots.map(collectReactions));
+        const textLinks = [].concat(...roots.map(collectTextLinks));
+        if (projectPath && (navigation.some(reaction => reaction.action === 'NAVIGATE') || textLinks.some(link => link.type === 'NODE'))) {
+            await this.routerService.addDependency(projectPath);
+        }
+        if (projectPath && textLinks.some(link => link.type === 'URL')) {
+            await this.routerService.addDependency(projectPath, 'url_launcher');
+        }
+
+        // Stateful forms submit through a state class saved next to the screen (options.useProvider)
+        const pattern = options && options.widgetType === 'StatefulWidget' ? stateManagementOf(options.useProvider) : null;
+        const form = pattern ? collectForm(roots.filter(Boolean), { componentIndex }) : null;
+        const companions = form
+            ? [buildFormState(form, options.className || 'GeneratedWidget', pattern)].map(({ fileName, content }) => ({ fileName, content }))
+            : [];
+        if (projectPath && companions.length > 0) {
+            const { package: name, version } = STATE_MANAGEMENT[pattern];
+            await this.projectService.updatePubspec(projectPath, { assetFolders: [], dependencies: { [name]: version } });
+        }
+
+        // Text moves into lib/l10n/app_en.arb and is read through AppLocalizations (options.localize);
+        // keys start with the feature the screen is saved in (options.feature)
+        const strings = options && options.localize
+            ? await this.localizationService.syncStrings(projectPath, roots.filter(Boolean), {
+                feature: options.feature || (regenerate && regenerate.featureName) || '',
+                componentIndex,
+            })
+            : null;
+        const localization = strings ? { file: strings.file, added: strings.added, generated: strings.generated } : null;
+
+        const generatorOptions = { ...options, tokenIndex, assetMap, componentIndex, routeIndex, stringIndex: strings ? strings.index : null };
+        if (layouts) {
+            generatorOptions.breakpoints = layouts;
+            console.log(`[ConversionService] Responsive screen: ${layouts.map(layout => layout.name).join(', ')}`);
+        }
+        if (isDeterministic) {
+            return { isDeterministic, generatorOptions, assetMap, files, source, navigation, companions, localization };
+        }
+
+        console.log(`[ConversionService] Converting UI from context image: ${contextImage}`);
+        console.log(`[ConversionService] Options:`, options);
+        console.log(`[ConversionService] Figma data provided:`, !!figmaData);
+
+        // Prepare enhanced options with Figma data if available
+        if (figmaData) {
+            generatorOptions.figmaData = figmaData;
+            console.log('[ConversionService] Including Figma data for precise measurements');
+        }
+
+        // Focused regeneration: apply the design diff to the previously saved code instead of a full rewrite
+        if (regenerate && regenerate.changes && regenerate.changes.length > 0) {
+            const previousCode = await this.projectService.readGeneratedCode(projectPath, regenerate.featureName, regenerate.fileName);
+            if (previousCode) {
+                generatorOptions.changes = regenerate.changes;
+                generatorOptions.previousCode = previousCode;
+                console.log(`[ConversionService] Focused regeneration of ${regenerate.fileName}: ${regenerate.changes.length} change(s)`);
+            } else {
+                console.log(`[ConversionService] ${regenerate.fileName} not found, falling back to full generation`);
+            }
+        }
+
+        return { isDeterministic, generatorOptions, assetMap, files, source, navigation, companions, localization };
+    }
+
+    /**
+     * Rule-based generation: one frame, or one widget switching between breakpoint frames
+     */
+    generateDeterministic(figmaData, generatorOptions) {
+        return generatorOptions.breakpoints
+            ? this.deterministicGenerator.generateResponsive(generatorOptions.breakpoints, generatorOptions)
+            : this.deterministicGenerator.generateCode(figmaData, generatorOptions);
+    }
+
+    /**
+     * Format and analyze generated code (dart SDK or the built-in check) and, for AI output,
+     * send analyzer errors back to the model for up to options.repairRounds rounds.
+     * Skipped when options.validate is false. Companion files (the form state class) are
+     * written next to the code so its import resolves.
+     * @returns {Promise<{code: string, diagnostics: Object[]|null, validator: string|null, repairRounds: number}>}
+     */
+    async validateGenerated(code, { projectPath, options, regenerate }, { isDeterministic, generatorOptions, companions, signal, onProgress }) {
+        if (options && options.validate === false) {
+            return { code, diagnostics: null, validator: null, repairRounds: 0 };
+        }
+
+        const repair = isDeterministic ? null : (source, errors) => this.geminiService.repairCode(source, errors, { ...generatorOptions, signal });
+        const result = await this.validationService.validateAndRepair(code, {
+            projectPath,
+            fileName: (regenerate && regenerate.fileName) || 'generated.dart',
+            companions,
+            repair,
+            maxRounds: options && options.repairRounds !== undefined ? options.repairRounds : undefined,
+            onProgress,
+        });
+
+        const errors = result.diagnostics.filter(diagnostic => diagnostic.severity === 'error').length;
+        console.log(`[ConversionService] Validation (${result.tool}): ${result.diagnostics.length} diagnostic(s), ${errors} error(s), ${result.repairRounds} repair round(s)`);
+        return { code: result.code, diagnostics: result.diagnostics, validator: result.tool, repairRounds: result.repairRounds };
+    }
+
+    /**
+     * Render the validated code in the project and compare it with the context image
+     * (options.visualCheck). In AI mode, up to options.refineRounds rounds send the differences
+     * back to the model; refined code is validated again before it is rendered.
+     * A check that cannot run or fails is reported in visual.skipped instead of failing the conversion.
+     * @returns {Promise<{validation: Object, visual: Object|null}>} validation of the code that was kept
+     */
+    async checkVisual(validation, body, { isDeterministic, generatorOptions, companions, signal, onProgress }) {
+        const { projectPath, contextImage, figmaData, options, breakpoints } = body;
+        if (!options || !options.visualCheck) {
+            return { validation, visual: null };
+        }
+        if (breakpoints) {
+            return { validation, visual: { skipped: 'Responsive screens are not checked visually yet.' } };
+        }
+        if ((validation.diagnostics || []).some(diagnostic => diagnostic.severity === 'error')) {
+            return { validation, visual: { skipped: 'The code has errors, so it cannot be rendered.' } };
+        }
+
+        const validations = new Map([[validation.code, validation]]);
+        const refine = isDeterministic ? null : async (code, visual) => {
+            const refined = await this.geminiService.refineCode(code, visual, { ...generatorOptions, contextImage, signal });
+            const result = await this.validateGenerated(refined, body, { isDeterministic, generatorOptions, companions, signal, onProgress });
+            validations.set(result.code, result);
+            return result.code;
+        };
+
+        try {
+            const layout = (figmaData && figmaData.layout) || {};
+            const { code, visual } = await this.visualService.verifyAndRefine(validation.code, {
+                projectPath,
+                contextImage,
+                width: layout.width,
+                height: layout.height,
+                companions,
+                refine,
+                maxRounds: options.refineRounds,
+                target: options.minSimilarity,
+                onProgress,
+            });
+            console.log(`[ConversionService] Visual check: ${visual.skipped || `${(visual.similarity * 100).toFixed(1)}% similar, ${visual.refineRounds} refine round(s)`}`);
+            return { validation: validations.get(code), visual };
+        } catch (error) {
+            if (signal && signal.aborted) throw error;
+            console.error('[ConversionService] Visual check failed:', error);
+            return { validation, visual: { skipped: `Visual check failed: ${error.message}` } };
+        }
+    }
+}
+
+module.exports = ConversionService;
@@ -0,0 +1,1499 @@
+const { call, list, raw, binary, closure, collectionFor, str, num, color, render } = require('../utils/dartBuilder');
+const { propertyType } = require('../utils/componentManifest');
+const { toIdentifier } = require('../utils/designTokens');
+const { tapReaction, destinationOf, linkTarget, isBottomSheet, curveOf, durationOf } = require('../utils/navigation');
+const { visiblePaints, buildGradient, buildBoxShadows, buildTextStyle, applyTextCase, spanTexts } = require('../utils/flutterStyles');
+const { STATE_MANAGEMENT, stateManagementOf, collectForm, firstText, buildFormState, submitCall } = require('../utils/forms');
+const { lookupExpr } = require('../utils/localization');
+const { semanticsOf, applySemantics, hasText, isImage } = require('../utils/accessibility');
+const { WRAP_ALIGNMENT, WRAP_CROSS_ALIGNMENT, isGrid, isWrap, uniformGrid } = require('../utils/gridLayout');
+const { isRepeated, buildItemTemplate, buildDataList } = require('../utils/itemTemplates');
+
+const MAIN_AXIS_ALIGNMENT = {
+    MIN: 'MainAxisAlignment.start',
+    CENTER: 'MainAxisAlignment.center',
+    MAX: 'MainAxisAlignment.end',
+    SPACE_BETWEEN: 'MainAxisAlignment.spaceBetween',
+};
+
+const CROSS_AXIS_ALIGNMENT = {
+    MIN: 'CrossAxisAlignment.start',
+    CENTER: 'CrossAxisAlignment.center',
+    MAX: 'CrossAxisAlignment.end',
+    BASELINE: 'CrossAxisAlignment.baseline',
+};
+
+const TEXT_ALIGN = {
+    CENTER: 'TextAlign.center',
+    RIGHT: 'TextAlign.right',
+    JUSTIFIED: 'TextAlign.justify',
+};
+
+// Figma image scale mode → BoxFit
+const IMAGE_FIT = {
+    FILL: 'BoxFit.cover',
+    CROP: 'BoxFit.cover',
+    FIT: 'BoxFit.contain',
+    TILE: 'BoxFit.none',
+};
+
+const STROKE_ALIGN = {
+    INSIDE: 'BorderSide.strokeAlignInside',
+    CENTER: 'BorderSide.strokeAlignCenter',
+    OUTSIDE: 'BorderSide.strokeAlignOutside',
+};
+
+// Node types whose children share the parent's coordinate space in Figma
+const TRANSPARENT_GROUP_TYPES = ['GROUP', 'BOOLEAN_OPERATION'];
+const SHAPE_TYPES = ['VECTOR', 'STAR', 'POLYGON', 'BOOLEAN_OPERATION'];
+
+// Token class → theme file written by ThemeService
+const THEME_IMPORTS = {
+    AppColors: 'app_colors.dart',
+    AppColorTokens: 'app_colors.dart',
+    AppTextStyles: 'app_text_styles.dart',
+    AppShadows: 'app_shadows.dart',
+};
+
+/**
+ * Rule-based SerializedNode → Flutter emitter.
+ * Produces the same output for the same input and never calls a model.
+ */
+class DeterministicGenerator {
+
+    /**
+     * Generate Flutter code from a serialized Figma tree
+     * @param {Object} figmaData - Root SerializedNode produced by the plugin
+     * @param {Object} options - Generation options
+     * @param {string} options.widgetType - 'StatelessWidget' or 'StatefulWidget'
+     * @param {string} options.className - Name of the generated widget class
+     * @param {Object} options.tokenIndex - Optional design token index (see utils/designTokens)
+     * @param {Object} options.assetMap - Optional { nodeId: 'assets/images/x.png' } of assets copied into the project
+     * @param {Object} options.componentIndex - Optional shared widget index (see utils/componentManifest)
+     * @param {string} options.widgetsImportPath - Relative path to lib/shared/widgets (default: '../../shared/widgets')
+     * @param {Object} options.routeIndex - Optional registered screens for prototype links (see utils/navigation)
+     * @param {boolean|string} options.useProvider - Stateful forms submit through a state class:
+     *   'provider' (or true), 'riverpod' or 'bloc' (see utils/forms)
+     * @param {Object} options.stringIndex - Optional localized strings (see utils/localization); their
+     *   text is read from AppLocalizations
+     * @param {string} options.l10nImportPath - Relative path to lib/l10n (default: '../../l10n')
+     * @returns {string} Generated Flutter code
+     */
+    generateCode(figmaData, options = {}) {
+        console.log('[DeterministicGenerator] generateCode started');
+
+        if (!figmaData) {
+            throw new Error('Figma data is required for deterministic generation');
+        }
+
+        const { widgetType = 'StatelessWidget', className = 'GeneratedWidget' } = options;
+        const ctx = this._createContext(options, null);
+        ctx.scrollKeys = this._scrollKeys([figmaData]);
+        ctx.form = this._collectForm([figmaData], widgetType, className, ctx);
+
+        const body = this._wrapForm(this._buildNode(figmaData, ctx, null), ctx);
+        const code = this._buildWidgetClass(className, widgetType, body, ctx);
+
+        console.log('[DeterministicGenerator] Code generation completed successfully');
+        return code;
+    }
+
+    /**
+     * Generate one widget from several breakpoint frames of the same screen. A LayoutBuilder
+     * picks the layout for the available width; subtrees that come out the same in several
+     * layouts become builder methods shared by them.
+     * @param {Object[]} breakpoints - Output of utils/breakpoints.normalizeBreakpoints, smallest first
+     * @param {Object} options - Same options as generateCode
+     * @returns {string} Generated Flutter code
+     */
+    generateResponsive(breakpoints, options = {}) {
+        console.log(`[DeterministicGenerator] generateResponsive started: ${breakpoints.map(bp => bp.name).join(', ')}`);
+
+        if (!breakpoints || breakpoints.length === 0) {
+            throw new Error('Breakpoint frames are required for responsive generation');
+        }
+
+        const { widgetType = 'StatelessWidget', className = 'GeneratedWidget' } = options;
+        const layoutOptions = { ...options, fluidRoot: true };
+
+        // First pass: render every container once to find what the layouts have in common
+        const roots = breakpoints.map(breakpoint => breakpoint.figmaData);
+        const probe = this._createContext(layoutOptions, null);
+        probe.scrollKeys = this._scrollKeys(roots);
+        probe.form = this._collectForm(roots, widgetType, className, probe);
+        probe.renders = new Map();
+        breakpoints.forEach((breakpoint, index) => {
+            probe.layout = index;
+            this._buildNode(breakpoint.figmaData, probe, null);
+        });
+
+        const ctx = this._createContext(layoutOptions, null);
+        ctx.scrollKeys = this._scrollKeys(roots);
+        ctx.form = this._collectForm(roots, widgetType, className, ctx);
+        const names = new Set();
+        const layouts = breakpoints.map(breakpoint => ({
+            ...breakpoint,
+            method: `_${toIdentifier(`build ${breakpoint.name}`, names)}`,
+        }));
+        ctx.shared = { sources: this._findSharedSubtrees(probe.renders), methods: new Map(), names };
+        layouts.forEach(layout => {
+            layout.body = this._buildNode(layout.figmaData, ctx, null);
+        });
+
+        const branches = layouts.slice().reverse().map(layout => (layout.minWidth > 0
+            ? `        if (constraints.maxWidth >= ${layout.minWidth}) {\n          return ${layout.method}(context);\n        }`
+            : `        return ${layout.method}(context);`));
+        const body = this._wrapForm(raw(`LayoutBuilder(\n      builder: (context, constraints) {\n${branches.join('\n')}\n      },\n    )`), ctx);
+
+        const members = [
+            ...layouts.map(layout => this._buildMethod(layout.method, layout.body)),
+            ...[...ctx.shared.methods.values()].map(method => this._buildMethod(method.name, method.widget)),
+        ];
+        const code = this._buildWidgetClass(className, widgetType, body, ctx, members);
+
+        console.log(`[DeterministicGenerator] Responsive code generated: ${layouts.length} layout(s), ${ctx.shared.methods.size} shared section(s)`);
+        return code;
+    }
+
+    /**
+     * Generate the shared widget for a Figma main component or component set
+     * @param {Object} componentData - Serialized COMPONENT or COMPONENT_SET node
+     * @param {Object} entry - Manifest entry for the component (see utils/componentManifest)
+     * @param {Object} options - Same options as generateCode, except widgetType and className
+     * @returns {string} Generated Flutter code
+     */
+    generateComponent(componentData, entry, options = {}) {
+        console.log(`[DeterministicGenerator] generateComponent started: ${entry.className}`);
+
+        const ctx = this._createContext(options, entry);
+        const variants = componentData.type === 'COMPONENT_SET'
+            ? (componentData.children || []).filter(child => child.type === 'COMPONENT')
+            : [componentData];
+        if (variants.length === 0) {
+            throw new Error(`Component set "${entry.name}" has no variants`);
+        }
+
+        // The default variant is the unconditional return; the others are guarded by their variant values
+        const axes = entry.properties.filter(p => p.type === 'VARIANT');
+        const valuesOf = variant => (variant.metadata && variant.metadata.variantProperties) || {};
+        const defaultVariant = variants.find(variant =>
+            axes.every(axis => valuesOf(variant)[axis.key] === axis.defaultValue)
+        ) || variants[0];
+
+        const branches = variants
+            .filter(variant => variant !== defaultVariant)
+            .map(variant => ({
+                condition: axes
+                    .filter(axis => axis.values[valuesOf(variant)[axis.key]])
+                    .map(axis => `${axis.name} == ${axis.enumName}.${axis.values[valuesOf(variant)[axis.key]]}`)
+                    .join(' && '),
+                body: this._buildNode(variant, ctx, null),
+            }))
+            .filter(branch => branch.condition);
+        branches.push({ condition: null, body: this._buildNode(defaultVariant, ctx, null) });
+
+        const code = this._buildComponentClass(entry, branches, ctx);
+        console.log(`[DeterministicGenerator] Component generated: ${entry.className}`);
+        return code;
+    }
+
+    /**
+     * @private
+     */
+    _createContext(options, component) {
+        return {
+            imports: new Set(['package:flutter/material.dart']),
+            tokens: options.tokenIndex || null,
+            components: options.componentIndex || null,
+            routes: options.routeIndex || null,
+            // Shared widgets take their text as parameters from the screens
+            strings: component ? null : options.stringIndex || null,
+            scrollKeys: new Map(),
+            // Const item lists of repeated grid and wrap items: name → { records, items }
+            dataLists: new Map(),
+            dataNames: new Set(),
+            component,
+            options: {
+                ...options,
+                widgetsImportPath: options.widgetsImportPath !== undefined ? options.widgetsImportPath : '../../shared/widgets',
+                l10nImportPath: options.l10nImportPath !== undefined ? options.l10nImportPath : '../../l10n',
+            },
+        };
+    }
+
+    /**
+     * Inputs and submit button of a stateful screen, or null: stateless screens keep
+     * their inputs as drawn in Figma
+     * @private
+     */
+    _collectForm(roots, widgetType, className, ctx) {
+        if (widgetType !== 'StatefulWidget') return null;
+        const form = collectForm(roots, { componentIndex: ctx.components });
+        if (!form) return null;
+
+        form.className = className;
+        form.pattern = stateManagementOf(ctx.options.useProvider);
+        // Tap handler of the submit button's prototype link, run once the form is valid
+        form.onSubmit = null;
+        if (form.pattern) {
+            ctx.imports.add(STATE_MANAGEMENT[form.pattern].import);
+            ctx.imports.add(buildFormState(form, className, form.pattern).fileName);
+        }
+        return form;
+    }
+
+    /**
+     * `Form(key: _formKey, child: ...)` around the screen when it has a form
+     * @private
+     */
+    _wrapForm(body, ctx) {
+        if (!ctx.form) return body;
+        // Raw source is indented for the top of build(); it moves one level in
+        const child = body.kind === 'raw' ? raw(body.source.replace(/\n/g, '\n  ')) : body;
+        return call('Form', { key: raw('_formKey'), child });
+    }
+
+    /**
+     * dart: and package: imports first, then relative ones, as dart format/lints expect
+     * @private
+     */
+    _buildImports(ctx) {
+        const uris = [...ctx.imports].sort();
+        return [
+            uris.filter(uri => /^(dart|package):/.test(uri)),
+            uris.filter(uri => !/^(dart|package):/.test(uri)),
+        ]
+            .filter(group => group.length > 0)
+            .map(group => group.map(uri => `import '${uri}';`).join('\n'))
+            .join('\n\n');
+    }
+
+    /**
+     * Wrap the root widget expression in a widget class with imports
+     * @param {string[]} members - Extra methods placed after build()
+     * @private
+     */
+    _buildWidgetClass(className, widgetType, body, ctx, members = []) {
+        const imports = this._buildImports(ctx);
+        // A stateless screen can only hold its scroll targets' keys statically
+        const keyField = widgetType === 'StatefulWidget' ? 'final' : 'static final';
+        const keys = [...ctx.scrollKeys.values()].map(name => `  ${keyField} ${name} = GlobalKey();`);
+        const form = ctx.form ? this._buildFormMembers(ctx.form) : { fields: [], dispose: [], methods: [] };
+        const dataLists = [...ctx.dataLists].map(([name, { items }]) => buildDataList(name, items));
+        const fields = [...dataLists, ...form.fields, ...keys];
+        const build = [
+            ...(fields.length > 0 ? [...fields, ''] : []),
+            ...(form.dispose.length > 0 ? [...form.dispose, ''] : []),
+            '  @override',
+            '  Widget build(BuildContext context) {',
+            `    return ${render(body, 2)};`,
+            '  }',
+            ...[...members, ...form.methods].map(member => `\n${member}`),
+        ].join('\n');
+
+        if (widgetType === 'StatefulWidget') {
+            // Riverpod forms read their notifier through `ref`
+            const state = ctx.form && ctx.form.pattern === 'riverpod' ? 'ConsumerState' : 'State';
+            return `${imports}
+
+class ${className} extends ${state === 'State' ? 'StatefulWidget' : 'ConsumerStatefulWidget'} {
+  const ${className}({super.key});
+
+  @override
+  ${state}<${className}> createState() => _${className}State();
+}
+
+class _${className}State extends ${state}<${className}> {
+${build}
+}
+`;
+        }
+
+        return `${imports}
+
+class ${className} extends StatelessWidget {
+  const ${className}({super.key});
+
+${build}
+}
+`;
+    }
+
+    /**
+     * Form key, controllers and password visibility flags, their disposal, the submit
+     * handler and one validator method per kind of field
+     * @private
+     */
+    _buildFormMembers(form) {
+        const fields = [
+            '  final _formKey = GlobalKey<FormState>();',
+            ...form.fields.map(field => `  final ${field.controller} = TextEditingController();`),
+            ...form.fields.filter(field => field.obscureFlag).map(field => `  bool ${field.obscureFlag} = true;`),
+        ];
+        const dispose = [
+            '  @override',
+            '  void dispose() {',
+            ...form.fields.map(field => `    ${field.controller}.dispose();`),
+            '    super.dispose();',
+            '  }',
+        ];
+
+        const submit = ['    if (!_formKey.currentState!.validate()) return;'];
+        if (form.pattern) {
+            submit.push(`    ${render(submitCall(form, form.className, form.pattern), 2)};`);
+            if (form.onSubmit) submit.push('    if (!mounted) return;');
+        }
+        if (form.onSubmit) {
+            submit.push(`    ${render(form.onSubmit.body, 2)};`);
+        } else if (!form.pattern) {
+            submit.push(`    // TODO: submit ${form.fields.map(field => `${field.controller}.text`).join(', ')}.`);
+        }
+        // Without a submit button the form is only validated as the user types
+        const methods = form.submit.size === 0 ? [] : [[
+            form.pattern ? '  Future<void> _submit() async {' : '  void _submit() {',
+            ...submit,
+            '  }',
+        ].join('\n')];
+
+        const validators = [];
+        form.fields.forEach(field => {
+            if (field.validator && validators.indexOf(field.validator) === -1) validators.push(field.validator);
+        });
+        validators.forEach(validator => methods.push([
+            `  String? ${validator.method}(String? value) {`,
+            ...validator.body.map(line => `    ${line}`),
+            '    return null;',
+            '  }',
+        ].join('\n')));
+
+        return { fields, dispose, methods };
+    }
+
+    /**
+     * Shared widget class: one enum per variant axis, one field per component property
+     * @private
+     */
+    _buildComponentClass(entry, branches, ctx) {
+        const imports = this._buildImports(ctx);
+        const { className, properties } = entry;
+
+        const enums = properties
+            .filter(p => p.type === 'VARIANT')
+            .map(p => {
+                const values = Object.values(p.values);
+                const inline = `enum ${p.enumName} { ${values.join(', ')} }`;
+                return inline.length <= 80 ? inline : `enum ${p.enumName} {\n${values.map(v => `  ${v},`).join('\n')}\n}`;
+            });
+
+        const docs = [`/// Figma component "${entry.name}".`];
+        (entry.description || '').split('\n').filter(Boolean).forEach(line => docs.push(`/// ${line.trim()}`));
+        docs.push('/// Generated by Max Compute; re-sync components instead of editing by hand.');
+
+        const constructor = properties.length === 0
+            ? `  const ${className}({super.key});`
+            : [
+                `  const ${className}({`,
+                '    super.key,',
+                ...properties.map(p => {
+                    const defaultValue = this._propertyDefault(p);
+                    return defaultValue ? `    this.${p.name} = ${defaultValue},` : `    this.${p.name},`;
+                }),
+                '  });',
+            ].join('\n');
+        const fields = properties.map(p => `  final ${propertyType(p)} ${p.name};`);
+
+        const build = ['  @override', '  Widget build(BuildContext context) {'];
+        branches.forEach(branch => {
+            if (branch.condition) {
+                build.push(`    if (${branch.condition}) {`, `      return ${render(branch.body, 3)};`, '    }');
+            } else {
+                build.push(`    return ${render(branch.body, 2)};`);
+            }
+        });
+        build.push('  }');
+
+        return [
+            imports,
+            ...enums.map(e => `\n${e}`),
+            '',
+            ...docs,
+            `class ${className} extends StatelessWidget {`,
+            constructor,
+            ...(fields.length > 0 ? ['', ...fields] : []),
+            '',
+            ...build,
+            '}',
+            '',
+        ].join('\n');
+    }
+
+    /**
+     * @private
+     */
+    _buildMethod(name, widget) {
+        return [`  Widget ${name}(BuildContext context) {`, `    return ${render(widget, 2)};`, '  }'].join('\n');
+    }
+
+    /**
+     * Node IDs whose subtree renders the same in more than one layout, keyed to that source.
+     * A subtree inside a shared ancestor is only listed when more layouts use it than the ancestor.
+     * @param {Map} renders - nodeId → { source, layout, parentId } from the first pass
+     * @private
+     */
+    _findSharedSubtrees(renders) {
+        const layoutsBySource = new Map();
+        renders.forEach(({ source, layout }) => {
+            if (!layoutsBySource.has(source)) layoutsBySource.set(source, new Set());
+            layoutsBySource.get(source).add(layout);
+        });
+        const sharedIn = id => {
+            const entry = renders.get(id);
+            return entry ? layoutsBySource.get(entry.source).size : 0;
+        };
+
+        const sources = new Map();
+        renders.forEach(({ source, parentId }, id) => {
+            const count = sharedIn(id);
+            if (count < 2) return;
+
+            for (let ancestor = parentId; renders.has(ancestor); ancestor = renders.get(ancestor).parentId) {
+                if (sharedIn(ancestor) === count) return;
+            }
+            sources.set(id, source);
+        });
+        return sources;
+    }
+
+    /**
+     * Call to the builder method of a shared subtree, creating the method the first time
+     * @private
+     */
+    _buildSharedCall(node, source, ctx, parent) {
+        const { methods, names } = ctx.shared;
+        if (!methods.has(source)) {
+            const name = `_${toIdentifier(`build ${node.name}`, names, 'section')}`;
+            methods.set(source, { name, widget: null });
+            methods.get(source).widget = this._buildNodeWidget(node, ctx, parent);
+        }
+        return raw(`${methods.get(source).name}(context)`);
+    }
+
+    /**
+     * @private
+     */
+    _propertyDefault(property) {
+        if (property.type === 'TEXT') return render(str(property.defaultValue || ''));
+        if (property.type === 'BOOLEAN') return String(property.defaultValue !== false);
+        if (property.type === 'VARIANT') return `${property.enumName}.${property.values[property.defaultValue]}`;
+        return null;
+    }
+
+    /**
+     * Build the widget for a node, without parent-specific wrappers (Expanded, Positioned)
+     * @param {Object} node - SerializedNode
+     * @param {Object} ctx - Generation context
+     * @param {Object|null} parent - Parent SerializedNode, null for the root
+     * @private
+     */
+    _buildNode(node, ctx, parent) {
+        const sharedSource = ctx.shared && ctx.shared.sources.get(node.id);
+        if (sharedSource) {
+            return this._buildSharedCall(node, sharedSource, ctx, parent);
+        }
+
+        const widget = this._buildNodeWidget(node, ctx, parent);
+        // Item templates name the values they lift after their layer (see utils/itemTemplates)
+        widget.layer = node.name;
+        // First pass of generateResponsive: remember how each container rendered
+        if (ctx.renders && parent && (node.children || []).length > 0) {
+            ctx.renders.set(node.id, { source: render(widget), layout: ctx.layout, parentId: parent.id });
+        }
+        return widget;
+    }
+
+    /**
+     * @private
+     */
+    _buildNodeWidget(node, ctx, parent) {
+        const assetPath = (ctx.options.assetMap || {})[node.id];
+        const instanceOf = this._componentFor(node, ctx);
+        const field = ctx.form && ctx.form.byNode.get(node.id);
+        let widget;
+
+        if (instanceOf) {
+            widget = this._buildInstance(node, instanceOf, ctx);
+        } else if (field) {
+            widget = this._buildFormField(node, field, ctx, parent);
+        } else if (assetPath && assetPath.endsWith('.svg')) {
+            widget = this._buildSvg(node, assetPath, ctx, parent);
+        } else if (node.type === 'TEXT' && node.text) {
+            widget = this._buildText(node, ctx, parent);
+        } else if (this._hasImageFill(node)) {
+            widget = this._buildImage(node, ctx, parent);
+        } else if (node.type === 'LINE') {
+            widget = this._buildLine(node);
+        } else {
+            widget = this._buildBox(node, ctx, parent);
+        }
+
+        // Inside a shared widget, instance-swap slots fall back to the default instance
+        const swap = this._boundProperty(node, 'mainComponent', ctx);
+        if (swap && swap.type === 'INSTANCE_SWAP') {
+            widget = binary(raw(swap.name), '??', widget);
+        }
+
+        widget = this._applySizeLimits(node, widget);
+        widget = this._applyTransforms(node, widget);
+        const onTap = this._tapHandler(node, ctx);
+        widget = this._applyReaction(node, widget, ctx, onTap);
+        widget = applySemantics(widget, semanticsOf(node, instanceOf), {
+            tapped: !!onTap,
+            iconOnly: !hasText(node),
+            image: !!assetPath || isImage(node),
+        });
+
+        const visible = this._boundProperty(node, 'visible', ctx);
+        if (visible && visible.type === 'BOOLEAN') {
+            widget = call('Visibility', { visible: raw(visible.name), child: widget });
+        }
+        return widget;
+    }
+
+    /**
+     * Shared widget entry for an instance, unless we are generating that component itself
+     * @private
+     */
+    _componentFor(node, ctx) {
+        if (node.type !== 'INSTANCE' || !ctx.components || !node.metadata) return null;
+        const entry = ctx.components.lookup[node.metadata.mainComponentId];
+        return entry && entry !== ctx.component ? entry : null;
+    }
+
+    /**
+     * Instances of synced components become `PrimaryButton(label: ..., variant: ...)`;
+     * only properties that differ from the component defaults are passed
+     * @private
+     */
+    _buildInstance(node, entry, ctx) {
+        ctx.imports.add(this._widgetImport(entry, ctx));
+        const values = node.metadata.componentProperties || {};
+        const named = {};
+
+        entry.properties.forEach(property => {
+            const value = values[property.key] && values[property.key].value;
+            if (value === undefined || value === property.defaultValue) return;
+
+            if (property.type === 'TEXT') {
+                named[property.name] = str(value);
+            } else if (property.type === 'BOOLEAN') {
+                named[property.name] = raw(String(value));
+            } else if (property.type === 'VARIANT' && property.values[value]) {
+                named[property.name] = raw(`${property.enumName}.${property.values[value]}`);
+            } else if (property.type === 'INSTANCE_SWAP' && ctx.components.lookup[value]) {
+                const swapped = ctx.components.lookup[value];
+                ctx.imports.add(this._widgetImport(swapped, ctx));
+                named[property.name] = call(swapped.className);
+            }
+        });
+
+        return call(`const ${entry.className}`, named);
+    }
+
+    /**
+     * @private
+     */
+    _widgetImport(entry, ctx) {
+        const base = ctx.options.widgetsImportPath;
+        return base ? `${base}/${entry.file}` : entry.file;
+    }
+
+    /**
+     * Component property bound to a node field ('characters', 'visible', 'mainComponent')
+     * while generating a shared widget
+     * @private
+     */
+    _boundProperty(node, field, ctx) {
+        if (!ctx.component || !node.metadata || !node.metadata.propertyReferences) return null;
+        const key = node.metadata.propertyReferences[field];
+        return key ? ctx.component.properties.find(p => p.key === key) || null : null;
+    }
+
+    /**
+     * Hidden nodes are skipped unless a boolean component property can show them
+     * @private
+     */
+    _isRendered(node, ctx) {
+        return node.visible !== false || !!this._boundProperty(node, 'visible', ctx);
+    }
+
+    /**
+     * Frames, groups, rectangles and shapes: decoration + padding + layout children
+     * @private
+     */
+    _buildBox(node, ctx, parent) {
+        const layout = node.layout || {};
+        const style = node.style || {};
+        const isFlex = layout.layoutMode === 'HORIZONTAL' || layout.layoutMode === 'VERTICAL';
+        const children = SHAPE_TYPES.includes(node.type)
+            ? []
+            : (node.children || []).filter(child => this._isRendered(child, ctx));
+        // Grids a GridView cannot draw keep their Figma positions in a Stack
+        const grid = isGrid(layout)
+            ? uniformGrid(layout, children.filter(c => !c.layout || c.layout.layoutPositioning !== 'ABSOLUTE'))
+            : null;
+        const padding = isFlex || grid ? this._buildPadding(layout.padding) : null;
+        const hasAbsoluteChildren = children.some(c => c.layout && c.layout.layoutPositioning === 'ABSOLUTE');
+
+        let child = null;
+        if (children.length > 0) {
+            const innerPadding = hasAbsoluteChildren ? padding : null;
+            if (grid) {
+                child = this._buildGrid(node, grid, children, ctx, innerPadding);
+            } else if (isWrap(layout)) {
+                child = this._buildWrap(node, children, ctx, innerPadding);
+            } else if (isFlex) {
+                child = this._buildFlex(node, children, ctx, innerPadding);
+            } else {
+                child = this._buildStack(node, children, ctx);
+            }
+        }
+
+        // Absolute children are positioned relative to the frame, so padding moves inside the Stack
+        const containerPadding = hasAbsoluteChildren ? null : padding;
+        const decoration = this._buildDecoration(node, ctx);
+        // Breakpoint layouts fill the width LayoutBuilder gives them instead of the frame's size
+        const { width, height } = !parent && ctx.options.fluidRoot ? {} : this._resolveSize(node, parent);
+        const clipBehavior = style.clipsContent && children.length > 0 && decoration ? raw('Clip.antiAlias') : undefined;
+
+        if (decoration) {
+            return call('Container', {
+                width: width !== undefined ? num(width) : undefined,
+                height: height !== undefined ? num(height) : undefined,
+                padding: containerPadding,
+                clipBehavior,
+                decoration,
+                child,
+            });
+        }
+
+        let widget = child;
+        if (containerPadding) {
+            widget = call('Padding', { padding: containerPadding, child: widget });
+        }
+        if (width !== undefined || height !== undefined) {
+            return call('SizedBox', {
+                width: width !== undefined ? num(width) : undefined,
+                height: height !== undefined ? num(height) : undefined,
+                child: widget,
+            });
+        }
+        return widget || raw('const SizedBox.shrink()');
+    }
+
+    /**
+     * Auto layout → Row / Column with spacing, Expanded and absolute overlays
+     * @private
+     */
+    _buildFlex(node, children, ctx, innerPadding) {
+        const layout = node.layout;
+        const isRow = layout.layoutMode === 'HORIZONTAL';
+        const spacing = layout.itemSpacing || 0;
+        const flowChildren = children.filter(c => !c.layout || c.layout.layoutPositioning !== 'ABSOLUTE');
+
+        const items = [];
+        flowChildren.forEach((child, idx) => {
+            if (idx > 0 && spacing > 0 && layout.primaryAxisAlignItems !== 'SPACE_BETWEEN') {
+                items.push(call('SizedBox', isRow ? { width: num(spacing) } : { height: num(spacing) }));
+            }
+            items.push(this._buildFlexChild(child, node, ctx, isRow));
+        });
+
+        const crossAxis = layout.counterAxisAlignItems || 'MIN';
+        const flex = call(isRow ? 'Row' : 'Column', {
+            mainAxisSize: layout.primaryAxisSizingMode === 'AUTO' ? raw('MainAxisSize.min') : undefined,
+            mainAxisAlignment: layout.primaryAxisAlignItems && layout.primaryAxisAlignItems !== 'MIN'
+                ? raw(MAIN_AXIS_ALIGNMENT[layout.primaryAxisAlignItems])
+                : undefined,
+            crossAxisAlignment: crossAxis !== 'CENTER' ? raw(CROSS_AXIS_ALIGNMENT[crossAxis]) : undefined,
+            textBaseline: crossAxis === 'BASELINE' ? raw('TextBaseline.alphabetic') : undefined,
+            children: list(items),
+        });
+        return this._withOverlays(node, flex, children, ctx, innerPadding);
+    }
+
+    /**
+     * Wrapped auto layout → Wrap with spacing between items and runSpacing between rows
+     * @private
+     */
+    _buildWrap(node, children, ctx, innerPadding) {
+        const layout = node.layout;
+        const flowChildren = children.filter(c => !c.layout || c.layout.layoutPositioning !== 'ABSOLUTE');
+        const items = this._buildItems(flowChildren, node, ctx);
+
+        let elements;
+        if (items.dataList) {
+            elements = list([collectionFor('item', raw(items.dataList), items.template)]);
+        } else if (items.template) {
+            elements = call('List.generate', {}, [num(flowChildren.length), closure('index', items.template)]);
+        } else {
+            elements = list(items.widgets);
+        }
+
+        const alignment = layout.primaryAxisAlignItems || 'MIN';
+        const crossAxis = layout.counterAxisAlignItems || 'MIN';
+        const wrap = call('Wrap', {
+            spacing: layout.itemSpacing > 0 ? num(layout.itemSpacing) : undefined,
+            runSpacing: layout.counterAxisSpacing > 0 ? num(layout.counterAxisSpacing) : undefined,
+            alignment: alignment !== 'MIN' ? raw(WRAP_ALIGNMENT[alignment]) : undefined,
+            crossAxisAlignment: crossAxis !== 'MIN' ? raw(WRAP_CROSS_ALIGNMENT[crossAxis]) : undefined,
+            children: elements,
+        });
+        return this._withOverlays(node, wrap, children, ctx, innerPadding);
+    }
+
+    /**
+     * Grid auto layout → GridView sized by its content, with a fixed column count or, when
+     * every column has the same fixed width, as many columns of that width as fit
+     * @param {Object} grid - Output of utils/gridLayout.uniformGrid
+     * @private
+     */
+    _buildGrid(node, grid, children, ctx, innerPadding) {
+        const spacing = {
+            mainAxisSpacing: grid.rowGap > 0 ? num(grid.rowGap) : undefined,
+            crossAxisSpacing: grid.columnGap > 0 ? num(grid.columnGap) : undefined,
+            mainAxisExtent: grid.cellHeight > 0 ? num(grid.cellHeight) : undefined,
+        };
+        const gridDelegate = grid.columnWidth
+            ? call('const SliverGridDelegateWithMaxCrossAxisExtent', { maxCrossAxisExtent: num(grid.columnWidth), ...spacing })
+            : call('const SliverGridDelegateWithFixedCrossAxisCount', { crossAxisCount: num(grid.columns), ...spacing });
+        // The frame sets the grid's size; the screen scrolls, not the grid
+        const view = {
+            shrinkWrap: raw('true'),
+            physics: raw('const NeverScrollableScrollPhysics()'),
+            padding: raw('EdgeInsets.zero'),
+            gridDelegate,
+        };
+
+        const items = this._buildItems(grid.children, node, ctx);
+        let widget;
+        if (items.dataList) {
+            widget = call('GridView.builder', {
+                ...view,
+                itemCount: raw(`${items.dataList}.length`),
+                itemBuilder: closure('context, index', items.template, [`final item = ${items.dataList}[index];`]),
+            });
+        } else if (items.template) {
+            widget = call('GridView.builder', {
+                ...view,
+                itemCount: num(grid.children.length),
+                itemBuilder: closure('context, index', items.template),
+            });
+        } else {
+            widget = call('GridView', { ...view, children: list(items.widgets) });
+        }
+        return this._withOverlays(node, widget, children, ctx, innerPadding);
+    }
+
+    /**
+     * Widgets of the items of a grid or wrap. Repeated instances of one component share an
+     * item template over a const list of the values that differ between them; shared widgets
+     * have no place for the list, so their items stay written out.
+     * @returns {{widgets: Object[], template: Object|null, dataList: string|null}} the template
+     *   reads the current item as `item`; dataList is null when the items are all the same
+     * @private
+     */
+    _buildItems(nodes, parent, ctx) {
+        const widgets = nodes.map(node => this._buildNode(node, ctx, parent));
+        const items = !ctx.component && isRepeated(nodes) ? buildItemTemplate(widgets) : null;
+        if (!items) return { widgets, template: null, dataList: null };
+        if (items.fields.length === 0) return { widgets, template: items.template, dataList: null };
+
+        // Breakpoint layouts showing the same items share one list
+        const records = buildDataList('', items);
+        const existing = [...ctx.dataLists.keys()].find(name => ctx.dataLists.get(name).records === records);
+        const entry = this._componentFor(nodes[0], ctx);
+        const label = entry ? entry.name : nodes[0].metadata.componentName || nodes[0].name;
+        const dataList = existing || `_${toIdentifier(`${label} items`, ctx.dataNames)}`;
+        ctx.dataLists.set(dataList, { records, items });
+        return { widgets, template: items.template, dataList };
+    }
+
+    /**
+     * Absolute children of an auto layout frame, drawn over its flow in a Stack
+     * @private
+     */
+    _withOverlays(node, flow, children, ctx, innerPadding) {
+        const absoluteChildren = children.filter(c => c.layout && c.layout.layoutPositioning === 'ABSOLUTE');
+        if (absoluteChildren.length === 0) {
+            return flow;
+        }
+
+        const content = innerPadding ? call('Padding', { padding: innerPadding, child: flow }) : flow;
+        return call('Stack', {
+            clipBehavior: this._stackClip(node),
+            children: list([content, ...absoluteChildren.map(child => this._buildPositioned(child, node, ctx))]),
+        });
+    }
+
+    /**
+     * @private
+     */
+    _buildFlexChild(child, parent, ctx, isRow) {
+        const layout = child.layout || {};
+        let widget = this._buildNode(child, ctx, parent);
+
+        if (layout.layoutGrow && layout.layoutGrow > 0) {
+            return call('Expanded', {
+                flex: layout.layoutGrow !== 1 ? num(layout.layoutGrow) : undefined,
+                child: widget,
+            });
+        }
+        if (layout.layoutAlign === 'STRETCH' && !isRow) {
+            widget = call('SizedBox', { width: raw('double.infinity'), child: widget });
+        }
+        return widget;
+    }
+
+    /**
+     * Non auto-layout containers → Stack + Positioned
+     * @private
+     */
+    _buildStack(node, children, ctx) {
+        return call('Stack', {
+            clipBehavior: this._stackClip(node),
+            children: list(children.map(child => this._buildPositioned(child, node, ctx))),
+        });
+    }
+
+    /**
+     * Stack child placed according to its Figma constraints: MIN pins left/top, MAX pins
+     * right/bottom, STRETCH pins both sides and SCALE sizes it as a fraction of the parent
+     * @private
+     */
+    _buildPositioned(child, parent, ctx) {
+        const layout = child.layout || {};
+        const parentLayout = parent.layout || {};
+        const { horizontal = 'MIN', vertical = 'MIN' } = layout.constraints || {};
+        // Children of groups are expressed in the group's parent coordinate space
+        const offsetX = TRANSPARENT_GROUP_TYPES.includes(parent.type) ? parentLayout.x || 0 : 0;
+        const offsetY = TRANSPARENT_GROUP_TYPES.includes(parent.type) ? parentLayout.y || 0 : 0;
+
+        const left = (layout.x || 0) - offsetX;
+        const top = (layout.y || 0) - offsetY;
+        const right = (parentLayout.width || 0) - left - (layout.width || 0);
+        const bottom = (parentLayout.height || 0) - top - (layout.height || 0);
+        const widget = this._buildNode(child, ctx, parent);
+
+        if (horizontal === 'SCALE' || vertical === 'SCALE') {
+            return this._buildScaled(widget, layout, parentLayout, { left, top, horizontal, vertical });
+        }
+
+        return call('Positioned', {
+            left: horizontal !== 'MAX' ? num(left) : undefined,
+            top: vertical !== 'MAX' ? num(top) : undefined,
+            right: horizontal === 'MAX' || horizontal === 'STRETCH' ? num(right) : undefined,
+            bottom: vertical === 'MAX' || vertical === 'STRETCH' ? num(bottom) : undefined,
+            child: widget,
+        });
+    }
+
+    /**
+     * SCALE constraint: keep the child's relative position and its size as a fraction of the parent
+     * @private
+     */
+    _buildScaled(widget, layout, parentLayout, { left, top, horizontal, vertical }) {
+        const width = layout.width || 0;
+        const height = layout.height || 0;
+        const parentWidth = parentLayout.width || 0;
+        const parentHeight = parentLayout.height || 0;
+        const ratio = value => raw(String(Number(value.toFixed(4))));
+        const offset = (start, size, parentSize) => ratio(parentSize > size ? start / (parentSize - size) : 0);
+        const scales = constraint => constraint === 'SCALE' || constraint === 'STRETCH';
+
+        return call('Positioned.fill', {
+            child: call('Align', {
+                alignment: call('FractionalOffset', {}, [offset(left, width, parentWidth), offset(top, height, parentHeight)]),
+                child: call('FractionallySizedBox', {
+                    widthFactor: scales(horizontal) && parentWidth > 0 ? ratio(width / parentWidth) : undefined,
+                    heightFactor: scales(vertical) && parentHeight > 0 ? ratio(height / parentHeight) : undefined,
+                    child: widget,
+                }),
+            }),
+        });
+    }
+
+    /**
+     * @private
+     */
+    _stackClip(node) {
+        return node.style && node.style.clipsContent ? undefined : raw('Clip.none');
+    }
+
+    /**
+     * Decide which dimensions are fixed, honouring auto layout sizing modes
+     * @private
+     */
+    _resolveSize(node, parent) {
+        const layout = node.layout || {};
+        let width = layout.width;
+        let height = layout.height;
+
+        if (layout.layoutMode === 'HORIZONTAL') {
+            if (layout.primaryAxisSizingMode === 'AUTO') width = undefined;
+            if (layout.counterAxisSizingMode === 'AUTO') height = undefined;
+        } else if (layout.layoutMode === 'VERTICAL') {
+            if (layout.primaryAxisSizingMode === 'AUTO') height = undefined;
+            if (layout.counterAxisSizingMode === 'AUTO') width = undefined;
+        }
+
+        const parentMode = parent && parent.layout ? parent.layout.layoutMode : null;
+        const inFlow = layout.layoutPositioning !== 'ABSOLUTE';
+        if (inFlow && parentMode === 'HORIZONTAL' && layout.layoutGrow > 0) width = undefined;
+        if (inFlow && parentMode === 'VERTICAL' && layout.layoutGrow > 0) height = undefined;
+        if (inFlow && parentMode === 'VERTICAL' && layout.layoutAlign === 'STRETCH') width = undefined;
+
+        // Stretched and scaled Stack children take their size from the parent (see _buildPositioned)
+        const inStack = parent && (!inFlow || (parentMode !== 'HORIZONTAL' && parentMode !== 'VERTICAL'));
+        const constraints = layout.constraints || {};
+        if (inStack && (constraints.horizontal === 'STRETCH' || constraints.horizontal === 'SCALE')) width = undefined;
+        if (inStack && (constraints.vertical === 'STRETCH' || constraints.vertical === 'SCALE')) height = undefined;
+
+        return { width, height };
+    }
+
+    /**
+     * @private
+     */
+    _buildPadding(padding) {
+        if (!padding) return null;
+        const { top = 0, right = 0, bottom = 0, left = 0 } = padding;
+        if (top === 0 && right === 0 && bottom === 0 && left === 0) return null;
+
+        if (top === right && right === bottom && bottom === left) {
+            return call('EdgeInsets.all', {}, [num(top)]);
+        }
+        if (top === bottom && left === right) {
+            return call('EdgeInsets.symmetric', {
+                horizontal: left !== 0 ? num(left) : undefined,
+                vertical: top !== 0 ? num(top) : undefined,
+            });
+        }
+        return call('EdgeInsets.only', {
+            left: left !== 0 ? num(left) : undefined,
+            top: top !== 0 ? num(top) : undefined,
+            right: right !== 0 ? num(right) : undefined,
+            bottom: bottom !== 0 ? num(bottom) : undefined,
+        });
+    }
+
+    /**
+     * StyleProps → BoxDecoration (fills, strokes, corner radius, drop shadows)
+     * @private
+     */
+    _buildDecoration(node, ctx) {
+        const style = node.style || {};
+        const layout = node.layout || {};
+        const fills = visiblePaints(style.fills).filter(p => p.type !== 'IMAGE');
+        const topFill = fills[fills.length - 1];
+
+        let fillColor;
+        let gradient;
+        if (topFill && topFill.type === 'SOLID') {
+            fillColor = this._paintColor(topFill, style.fillStyleId, ctx);
+        } else if (topFill) {
+            const token = this._token(ctx, style.fillStyleId, 'gradient');
+            gradient = token ? raw(token.ref) : buildGradient(topFill);
+        }
+
+        const stroke = visiblePaints(style.strokes).find(p => p.type === 'SOLID');
+        const border = stroke && style.strokeWeight > 0
+            ? call('Border.all', {
+                color: this._paintColor(stroke, style.strokeStyleId, ctx),
+                width: style.strokeWeight !== 1 ? num(style.strokeWeight) : undefined,
+                strokeAlign: style.strokeAlign && style.strokeAlign !== 'INSIDE' ? raw(STROKE_ALIGN[style.strokeAlign]) : undefined,
+            })
+            : undefined;
+
+        const shadowToken = this._token(ctx, style.effectStyleId, 'shadow');
+        const shadows = shadowToken ? [] : buildBoxShadows(style.effects);
+        const boxShadow = shadowToken ? raw(shadowToken.ref) : (shadows.length > 0 ? list(shadows) : undefined);
+
+        let shape;
+        let borderRadius;
+        if (node.type === 'ELLIPSE') {
+            if (layout.width === layout.height) {
+                shape = raw('BoxShape.circle');
+            } else {
+                borderRadius = call('BorderRadius.all', {}, [
+                    call('Radius.elliptical', {}, [num(layout.width / 2), num(layout.height / 2)]),
+                ]);
+            }
+        } else {
+            borderRadius = this._buildBorderRadius(style.cornerRadius);
+        }
+
+        if (!fillColor && !gradient && !border && !boxShadow) {
+            return null;
+        }
+
+        return call('BoxDecoration', {
+            color: fillColor,
+            gradient,
+            border,
+            borderRadius,
+            shape,
+            boxShadow,
+        });
+    }
+
+    /**
+     * Solid paint → token reference when bound to a variable or style, literal otherwise
+     * @private
+     */
+    _paintColor(paint, styleId, ctx) {
+        const token = this._token(ctx, paint.variableId, 'color') || this._token(ctx, styleId, 'color');
+        if (!token) {
+            return color(paint.color, paint.opacity);
+        }
+        if (paint.opacity !== undefined && paint.opacity < 1) {
+            return raw(`${token.ref}.withOpacity(${render(num(paint.opacity))})`);
+        }
+        return raw(token.ref);
+    }
+
+    /**
+     * Look up a design token by Figma style/variable ID and register its import
+     * @private
+     */
+    _token(ctx, id, kind) {
+        if (!id || !ctx.tokens) return null;
+        const token = ctx.tokens.lookup[id];
+        if (!token || token.kind !== kind) return null;
+
+        const file = THEME_IMPORTS[token.ref.split('.')[0]];
+        if (file) ctx.imports.add(`${ctx.options.themeImportPath || '../../core/theme'}/${file}`);
+        return token;
+    }
+
+    /**
+     * @private
+     */
+    _buildBorderRadius(cornerRadius) {
+        if (!cornerRadius) return undefined;
+        if (typeof cornerRadius === 'number') {
+            return call('BorderRadius.circular', {}, [num(cornerRadius)]);
+        }
+        const corner = value => (value ? call('Radius.circular', {}, [num(value)]) : undefined);
+        return call('BorderRadius.only', {
+            topLeft: corner(cornerRadius.topLeft),
+            topRight: corner(cornerRadius.topRight),
+            bottomLeft: corner(cornerRadius.bottomLeft),
+            bottomRight: corner(cornerRadius.bottomRight),
+        });
+    }
+
+    /**
+     * @private
+     */
+    _buildText(node, ctx, parent) {
+        const text = node.text;
+        const fills = node.style ? node.style.fills : null;
+        const style = this._textStyle(text, node.style || {}, ctx);
+        const textAlign = TEXT_ALIGN[text.textAlignHorizontal] ? raw(TEXT_ALIGN[text.textAlignHorizontal]) : undefined;
+        const named = { style, textAlign, ...this._textOverflow(node) };
+
+        let widget;
+        const bound = this._boundProperty(node, 'characters', ctx);
+        if (bound && bound.type === 'TEXT') {
+            widget = call('Text', named, [this._applyTextCaseExpr(bound.name, text.textCase)]);
+        } else if (text.styledSegments && text.styledSegments.length > 0) {
+            widget = call('Text.rich', named, [call('TextSpan', { children: list(this._buildTextSpans(node, fills, ctx)) })]);
+        } else {
+            widget = call('Text', named, [this._localized(node.id, ctx) || str(applyTextCase(text.characters, text.textCase))]);
+        }
+        return this._sizeText(node, widget, parent);
+    }
+
+    /**
+     * One TextSpan per styled range; list items get their bullet or number and
+     * hyperlinks a TapGestureRecognizer
+     * @private
+     */
+    _buildTextSpans(node, fills, ctx) {
+        const text = node.text;
+        const characters = spanTexts(text);
+
+        return text.styledSegments.map((segment, idx) => call('TextSpan', {
+            text: this._localized(`${node.id}#${idx}`, ctx) || str(characters[idx]),
+            style: buildTextStyle({ ...text, ...segment }, segment.fills || fills),
+            recognizer: segment.hyperlink ? this._linkRecognizer(segment.hyperlink, ctx) : undefined,
+        }));
+    }
+
+    /**
+     * `TapGestureRecognizer()..onTap = ...` for a text link. Links to frames are left to the
+     * screens inside shared widgets, like prototype links (see _tapHandler).
+     * @private
+     */
+    _linkRecognizer(hyperlink, ctx) {
+        const target = hyperlink.type === 'NODE' && ctx.component ? null : linkTarget(hyperlink, ctx.routes);
+        if (!target) return undefined;
+        ctx.imports.add('package:flutter/gestures.dart');
+        ctx.imports.add(target.package);
+        return raw(`TapGestureRecognizer()..onTap = ${render(closure('', target.onTap))}`);
+    }
+
+    /**
+     * Auto width text stays on one line; truncated text ends in an ellipsis after its
+     * line limit, or after the lines that fit a fixed-size box
+     * @private
+     */
+    _textOverflow(node) {
+        const text = node.text;
+        if (text.textAutoResize === 'WIDTH_AND_HEIGHT') {
+            return { softWrap: raw('false') };
+        }
+        if (text.textAutoResize !== 'TRUNCATE' && text.textTruncation !== 'ENDING') {
+            return {};
+        }
+
+        let maxLines = text.maxLines;
+        const height = node.layout && node.layout.height;
+        if (!maxLines && height) {
+            const fontSize = text.fontSize || 14;
+            const lineHeight = text.lineHeight || {};
+            let linePx = fontSize * 1.2;
+            if (lineHeight.unit === 'PIXELS') linePx = lineHeight.value;
+            if (lineHeight.unit === 'PERCENT') linePx = fontSize * lineHeight.value / 100;
+            maxLines = Math.max(1, Math.floor(height / linePx));
+        }
+        return {
+            maxLines: maxLines ? num(maxLines) : undefined,
+            overflow: raw('TextOverflow.ellipsis'),
+        };
+    }
+
+    /**
+     * Fixed-width text wraps at the width set in Figma and fixed-size text keeps its
+     * height; auto width and auto height leave that dimension to the text
+     * @private
+     */
+    _sizeText(node, widget, parent) {
+        const mode = node.text.textAutoResize;
+        if (mode !== 'NONE' && mode !== 'HEIGHT' && mode !== 'TRUNCATE') return widget;
+
+        const { width, height } = this._resolveSize(node, parent);
+        const fixedHeight = mode === 'HEIGHT' ? undefined : height;
+        if (width === undefined && fixedHeight === undefined) return widget;
+        return call('SizedBox', {
+            width: width !== undefined ? num(width) : undefined,
+            height: fixedHeight !== undefined ? num(fixedHeight) : undefined,
+            child: widget,
+        });
+    }
+
+    /**
+     * Text style token (plus fill color) when the node uses a local text style, literal TextStyle otherwise
+     * @private
+     */
+    _textStyle(text, style, ctx) {
+        const fill = visiblePaints(style.fills).find(p => p.type === 'SOLID');
+        const fillColor = fill && (fill.variableId || style.fillStyleId)
+            ? this._paintColor(fill, style.fillStyleId, ctx)
+            : undefined;
+
+        const token = this._token(ctx, text.textStyleId, 'textStyle');
+        if (!token) {
+            return buildTextStyle(text, style.fills, fillColor ? { color: fillColor } : {});
+        }
+        const colorExpr = fillColor || (fill ? color(fill.color, fill.opacity) : null);
+        return colorExpr
+            ? raw(`${token.ref}.copyWith(color: ${render(colorExpr)})`)
+            : raw(token.ref);
+    }
+
+    /**
+     * Text case for a String field; title case has no Dart one-liner and is left as typed
+     * @private
+     */
+    _applyTextCaseExpr(field, textCase) {
+        if (textCase === 'UPPER') return raw(`${field}.toUpperCase()`);
+        if (textCase === 'LOWER') return raw(`${field}.toLowerCase()`);
+        return raw(field);
+    }
+
+    /**
+     * AppLocalizations lookup for a text node (or `id#span` range) extracted to the ARB file,
+     * or null to keep the text as a literal
+     * @private
+     */
+    _localized(id, ctx) {
+        const entry = ctx.strings && ctx.strings.lookup[id];
+        if (!entry) return null;
+        ctx.imports.add(`${ctx.options.l10nImportPath}/app_localizations.dart`);
+        return lookupExpr(entry);
+    }
+
+    /**
+     * Image fills become Image.asset when the asset was copied into the project,
+     * otherwise their space is reserved with a Placeholder
+     * @private
+     */
+    _buildImage(node, ctx, parent) {
+        const { width, height } = this._resolveSize(node, parent);
+        const assetPath = (ctx.options.assetMap || {})[node.id];
+        const sized = {
+            width: width !== undefined ? num(width) : undefined,
+            height: height !== undefined ? num(height) : undefined,
+        };
+
+        if (!assetPath) {
+            return call('SizedBox', { ...sized, child: raw('const Placeholder()') });
+        }
+
+        const paint = visiblePaints(node.style.fills).find(p => p.type === 'IMAGE');
+        const image = call('Image.asset', {
+            ...sized,
+            fit: raw(IMAGE_FIT[paint.scaleMode] || 'BoxFit.cover'),
+            repeat: paint.scaleMode === 'TILE' ? raw('ImageRepeat.repeat') : undefined,
+        }, [str(assetPath)]);
+
+        if (node.type === 'ELLIPSE') {
+            return call('ClipOval', { child: image });
+        }
+        const borderRadius = this._buildBorderRadius(node.style.cornerRadius);
+        return borderRadius ? call('ClipRRect', { borderRadius, child: image }) : image;
+    }
+
+    /**
+     * Vector icons exported by the plugin as SVG files under assets/icons
+     * @private
+     */
+    _buildSvg(node, assetPath, ctx, parent) {
+        const { width, height } = this._resolveSize(node, parent);
+        ctx.imports.add('package:flutter_svg/flutter_svg.dart');
+        return call('SvgPicture.asset', {
+            width: width !== undefined ? num(width) : undefined,
+            height: height !== undefined ? num(height) : undefined,
+        }, [str(assetPath)]);
+    }
+
+    /**
+     * @private
+     */
+    _buildLine(node) {
+        const style = node.style || {};
+        const layout = node.layout || {};
+        const stroke = visiblePaints(style.strokes).find(p => p.type === 'SOLID');
+        const thickness = style.strokeWeight || 1;
+        const isVertical = layout.width === 0 && layout.height > 0;
+
+        return call('Container', {
+            width: num(isVertical ? thickness : layout.width),
+            height: num(isVertical ? layout.height : thickness),
+            color: stroke ? color(stroke.color, stroke.opacity) : undefined,
+        });
+    }
+
+    /**
+     * Min/max width and height set on auto layout frames become BoxConstraints
+     * @private
+     */
+    _applySizeLimits(node, widget) {
+        const layout = node.layout || {};
+        const limit = value => (typeof value === 'number' && value > 0 ? num(value) : undefined);
+        const constraints = {
+            minWidth: limit(layout.minWidth),
+            maxWidth: limit(layout.maxWidth),
+            minHeight: limit(layout.minHeight),
+            maxHeight: limit(layout.maxHeight),
+        };
+        if (Object.keys(constraints).every(key => constraints[key] === undefined)) return widget;
+        return call('ConstrainedBox', { constraints: call('BoxConstraints', constraints), child: widget });
+    }
+
+    /**
+     * Input frame → TextFormField with the frame's fill, stroke, corner radius and padding.
+     * The placeholder text becomes the hint; icons on either side become prefix and suffix
+     * icons, and password fields get a visibility toggle instead of the suffix.
+     * @private
+     */
+    _buildFormField(node, field, ctx, parent) {
+        const style = node.style || {};
+        const layout = node.layout || {};
+        const placeholder = firstText(node);
+        const children = (node.children || []).filter(child => this._isRendered(child, ctx));
+        const textIndex = children.findIndex(child => child === placeholder || firstText(child) === placeholder);
+        const before = textIndex === -1 ? [] : children.slice(0, textIndex);
+        const after = textIndex === -1 ? [] : children.slice(textIndex + 1);
+
+        const fill = visiblePaints(style.fills).filter(p => p.type === 'SOLID').pop();
+        const stroke = visiblePaints(style.strokes).find(p => p.type === 'SOLID');
+        const borderSide = stroke && style.strokeWeight > 0
+            ? call('BorderSide', {
+                color: this._paintColor(stroke, style.strokeStyleId, ctx),
+                width: style.strokeWeight !== 1 ? num(style.strokeWeight) : undefined,
+            })
+            : raw('BorderSide.none');
+        const border = call('OutlineInputBorder', {
+            borderRadius: this._buildBorderRadius(style.cornerRadius) || raw('BorderRadius.zero'),
+            borderSide,
+        });
+
+        let suffixIcon = after.length > 0 ? this._buildNode(after[0], ctx, node) : undefined;
+        if (field.obscureFlag) {
+            suffixIcon = call('IconButton', {
+                icon: call('Icon', {}, [raw(`${field.obscureFlag} ? Icons.visibility_off : Icons.visibility`)]),
+                onPressed: closure('', call('setState', {}, [raw(`() => ${field.obscureFlag} = !${field.obscureFlag}`)])),
+            });
+        }
+
+        const isLast = ctx.form.fields[ctx.form.fields.length - 1] === field;
+        const isFlex = layout.layoutMode === 'HORIZONTAL' || layout.layoutMode === 'VERTICAL';
+        const hintText = placeholder ? applyTextCase(placeholder.text.characters, placeholder.text.textCase) : null;
+        const widget = call('TextFormField', {
+            controller: raw(field.controller),
+            obscureText: field.obscureFlag ? raw(field.obscureFlag) : undefined,
+            keyboardType: field.keyboardType ? raw(field.keyboardType) : undefined,
+            textInputAction: raw(isLast ? 'TextInputAction.done' : 'TextInputAction.next'),
+            onFieldSubmitted: isLast && ctx.form.submit.size > 0 ? closure('_', raw('_submit()')) : undefined,
+            // Typed text takes the placeholder's font in the theme's text color
+            style: placeholder ? this._textStyle(placeholder.text, {}, ctx) : undefined,
+            decoration: call('InputDecoration', {
+                hintText: hintText ? this._localized(placeholder.id, ctx) || str(hintText) : undefined,
+                hintStyle: placeholder ? this._textStyle(placeholder.text, placeholder.style || {}, ctx) : undefined,
+                prefixIcon: before.length > 0 ? this._buildNode(before[0], ctx, node) : undefined,
+                suffixIcon,
+                filled: fill ? raw('true') : undefined,
+                fillColor: fill ? this._paintColor(fill, style.fillStyleId, ctx) : undefined,
+                isDense: raw('true'),
+                contentPadding: isFlex ? this._buildPadding(layout.padding) : undefined,
+                border,
+                enabledBorder: stroke ? border : undefined,
+            }),
+            validator: field.validator ? raw(field.validator.method) : undefined,
+        });
+
+        // The height is left to the field so validation messages have room
+        const { width } = this._resolveSize(node, parent);
+        return width !== undefined ? call('SizedBox', { width: num(width), child: widget }) : widget;
+    }
+
+    /**
+     * Opacity and rotation wrap the finished widget
+     * @private
+     */
+    _applyTransforms(node, widget) {
+        const style = node.style || {};
+        const layout = node.layout || {};
+        let result = widget;
+
+        if (style.opacity !== undefined && style.opacity < 1) {
+            result = call('Opacity', { opacity: num(style.opacity), child: result });
+        }
+        if (layout.rotation) {
+            // Figma rotates counter-clockwise in degrees, Flutter clockwise in radians
+            result = call('Transform.rotate', { angle: raw(String(Number((-layout.rotation * Math.PI / 180).toFixed(4)))), child: result });
+        }
+        return result;
+    }
+
+    /**
+     * Prototype links: scroll targets get their GlobalKey, and tapped nodes run
+     * the link's navigation from a GestureDetector
+     * @param {Object|null} onTap - Output of _tapHandler
+     * @private
+     */
+    _applyReaction(node, widget, ctx, onTap) {
+        let result = widget;
+        const key = ctx.scrollKeys.get(node.id);
+        if (key) {
+            result = call('KeyedSubtree', { key: raw(key), child: result });
+        }
+        if (!onTap) return result;
+        return call('GestureDetector', { behavior: raw('HitTestBehavior.opaque'), onTap, child: result });
+    }
+
+    /**
+     * What a tap on the node runs, or null
+     * @private
+     */
+    _tapHandler(node, ctx) {
+        // Shared widgets are used on many screens, so their links are left to the screens
+        const reaction = ctx.component ? null : tapReaction(node);
+        let onTap = reaction && this._buildTapHandler(reaction, ctx);
+        // The submit button validates the form before its link runs
+        if (ctx.form && ctx.form.submit.has(node.id)) {
+            if (onTap && !ctx.form.onSubmit) ctx.form.onSubmit = onTap;
+            onTap = raw('_submit');
+        }
+        return onTap || null;
+    }
+
+    /**
+     * NAVIGATE → context.go, OVERLAY → bottom sheet or dialog, BACK / CLOSE → Navigator.pop,
+     * SCROLL_TO → Scrollable.ensureVisible (only for targets on the same screen)
+     * @private
+     */
+    _buildTapHandler(reaction, ctx) {
+        if (reaction.action === 'BACK' || reaction.action === 'CLOSE') {
+            return closure('', call('Navigator.pop', {}, [raw('context')]));
+        }
+
+        if (reaction.action === 'SCROLL_TO') {
+            const key = ctx.scrollKeys.get(reaction.destinationId);
+            if (!key) return null;
+            const transition = reaction.transition;
+            const curve = transition && curveOf(transition.easing);
+            return closure('', call('Scrollable.ensureVisible', {
+                duration: transition ? raw(`const Duration(milliseconds: ${durationOf(transition)})`) : undefined,
+                curve: curve ? raw(curve) : undefined,
+            }, [raw(`${key}.currentContext!`)]));
+        }
+
+        const destination = destinationOf(reaction, ctx.routes);
+        if (reaction.action === 'NAVIGATE') {
+            ctx.imports.add('package:go_router/go_router.dart');
+            return closure('', call('context.go', {}, [str(destination.path)]));
+        }
+
+        ctx.imports.add(destination.importPath);
+        const overlay = isBottomSheet(reaction)
+            ? call('showModalBottomSheet<void>', { context: raw('context'), builder: closure('context', raw(`const ${destination.className}()`)) })
+            : call('showDialog<void>', { context: raw('context'), builder: closure('context', raw(`const Dialog(child: ${destination.className}())`)) });
+        return closure('', overlay);
+    }
+
+    /**
+     * GlobalKey field names for the nodes that SCROLL_TO links on these frames scroll to
+     * @private
+     */
+    _scrollKeys(roots) {
+        const nodes = new Map();
+        const walk = node => {
+            nodes.set(node.id, node);
+            (node.children || []).forEach(walk);
+        };
+        roots.forEach(walk);
+
+        const names = new Set();
+        const keys = new Map();
+        nodes.forEach(node => {
+            const reaction = tapReaction(node);
+            const target = reaction && reaction.action === 'SCROLL_TO' && nodes.get(reaction.destinationId);
+            if (target && !keys.has(target.id)) {
+                keys.set(target.id, `_${toIdentifier(`${target.name} key`, names, 'section')}`);
+            }
+        });
+        return keys;
+    }
+
+    /**
+     * @private
+     */
+    _hasImageFill(node) {
+        return visiblePaints(node.style && node.style.fills).some(p => p.type === 'IMAGE');
+    }
+}
+
+module.exports = DeterministicGenerator;
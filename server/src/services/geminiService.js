@@ -1,13 +1,41 @@
-const { GoogleGenAI } = require('@google/genai');
 const fs = require('fs');
 const path = require('path');
-
+const { describeTokens } = require('../utils/designTokens');
+const { buildAssetInstruction, buildChangeInstruction, buildBreakpointInstruction, buildRepairInstruction, buildRefineInstruction, buildPartInstruction, buildPlaceholderInstruction } = require('../utils/promptBuilder');
+const { describeComponents } = require('../utils/componentManifest');
+const { describeNavigation } = require('../utils/navigation');
+const { STATE_MANAGEMENT, stateManagementOf, describeForm } = require('../utils/forms');
+const { describeStrings } = require('../utils/localization');
+const { describeAccessibility } = require('../utils/accessibility');
+const { compactNode, estimateTokens } = require('../utils/compactNode');
+const { splitTree, stitchParts, pinnedNodes } = require('../utils/promptParts');
+const { ProviderRegistry } = require('./providers');
+
+const DEFAULT_TEMPERATURE = 0.1; // Low temperature for consistent code generation
+const DEFAULT_TIMEOUT = 180000;
+// Largest compact Figma JSON sent in one request, in estimated tokens; larger frames are split
+const DEFAULT_TOKEN_BUDGET = 12000;
+
+// How to read the compact Figma JSON (utils/compactNode)
+const COMPACT_FORMAT_NOTE = `### Compact Format
+- Fields at their default are left out: opacity 1, rotation 0, no padding or spacing, layoutMode NONE, MIN alignment, visible
+- layout.x and layout.y are only given outside auto layout flow (children of frames without auto layout, or absolutely positioned)
+- Hidden layers and decorative layers without text are not listed; do not add them
+- A node with \`sameAs\` is another instance of that node's component: build it the same way with its own \`texts\` (in order), \`componentProperties\` and \`layout\`; reuse one widget for both`;
+
+/**
+ * Builds the screenshot-to-Flutter prompts and runs them through the selected LLM provider
+ * (Gemini by default; see services/providers)
+ */
 class GeminiService {
-    constructor(apiKey) {
-        if (!apiKey) {
-            throw new Error('Gemini API Key is required');
-        }
-        this.ai = new GoogleGenAI({ apiKey });
+    /**
+     * @param {ProviderRegistry} providers
+     * @param {Object} options
+     * @param {string} options.uploadsDir - Where the context images were uploaded (default: server/uploads)
+     */
+    constructor(providers = new ProviderRegistry(), options = {}) {
+        this.providers = providers;
+        this.uploadsDir = options.uploadsDir || path.join(__dirname, '../../uploads');
     }
 
     /**
@@ -15,79 +43,292 @@ class GeminiService {
      * @param {string} contextImage - Filename of the uploaded context image
      * @param {Object} options - Generation options
      * @param {string} options.widgetType - Type of Flutter widget (default: 'StatelessWidget')
-     * @param {boolean} options.useProvider - Whether to use Provider pattern
+     * @param {boolean|string} options.useProvider - State management for stateful screens:
+     *   'provider' (or true), 'riverpod' or 'bloc'; forms submit through the state class of utils/forms
+     * @param {string} options.className - Name of the generated widget class (default: 'GeneratedWidget')
      * @param {Object} options.figmaData - Optional Figma JSON for precise measurements
+     * @param {Object} options.tokenIndex - Optional design token index (see utils/designTokens)
+     * @param {Object} options.assetMap - Optional { nodeId: 'assets/images/x.png' } of assets copied into the project
+     * @param {Object} options.componentIndex - Optional shared widget index (see utils/componentManifest)
+     * @param {Object} options.stringIndex - Optional localized strings (see utils/localization)
+     * @param {Object[]} options.changes - Optional design changes (see utils/nodeDiff) to apply to options.previousCode
+     * @param {string} options.previousCode - Code generated from the previous design revision
+     * @param {Object[]} options.breakpoints - Optional breakpoint frames (see utils/breakpoints), each with
+     *   its own figmaData and contextImage, for one responsive widget instead of a single frame
+     * @param {string} options.provider - LLM provider name (default: LLM_PROVIDER or 'gemini')
+     * @param {string} options.model - Model ID (default: the provider's default model)
+     * @param {number} options.temperature - Sampling temperature (default: 0.1)
+     * @param {number} options.timeout - Request timeout in ms (default: 180000)
+     * @param {number} options.tokenBudget - Largest Figma JSON of one request in estimated tokens
+     *   (default: 12000); subtrees of larger frames are generated as separate widgets
+     * @param {Function} options.onEstimate - Called with the size of each request before it is sent:
+     *   { className, tokens, figmaTokens, uncompactedTokens, images }
+     * @param {Function} options.onRequest - Called with each request before it is sent:
+     *   { className, provider, model, systemInstruction, prompt }
+     * @param {AbortSignal} options.signal - Aborts the upstream request
      * @returns {Promise<string>} Generated Flutter code
      */
     async generateCodeFromImage(contextImage, options = {}) {
         console.log('[GeminiService] generateCodeFromImage started');
-        
-        if (!contextImage) {
-            throw new Error('Context image is required for code generation');
-        }
 
         try {
-            const { widgetType = 'StatelessWidget', useProvider = false, figmaData = null } = options;
+            const codes = [];
+            for (const partOptions of this._planParts(options)) {
+                const { provider, request, estimate } = await this._buildRequest(contextImage, partOptions);
+                if (options.onEstimate) options.onEstimate(estimate);
+                if (options.onRequest) options.onRequest(describeRequest(provider, request, estimate));
+
+                console.log(`[GeminiService] Sending request to ${provider.name} (${request.model})...`);
+                const output = await provider.generate(request);
+                await this._record(provider, request, output);
+                codes.push(this._cleanCode(output));
+            }
 
-            // Build system instruction for image-to-Flutter conversion
-            const systemInstruction = this._buildSystemInstruction(widgetType, useProvider);
+            console.log('[GeminiService] Code generation completed successfully');
+            return stitchParts(codes.pop(), codes);
 
-            // Build user prompt with optional Figma data context
-            const userPrompt = this._buildUserPrompt(figmaData);
+        } catch (error) {
+            console.error("[GeminiService] Error during code generation:", error);
+            throw error;
+        }
+    }
 
-            // Load and encode the image
-            const imageData = await this._loadImage(contextImage);
-            
-            if (figmaData) {
-                console.log('[GeminiService] Including Figma data for precise measurements');
-            }
+    /**
+     * Same as generateCodeFromImage, but yields raw model output as it arrives, one part
+     * after the other. The generator's return value is the cleaned, stitched code.
+     * @returns {AsyncGenerator<string, string>}
+     */
+    async *streamCodeFromImage(contextImage, options = {}) {
+        console.log('[GeminiService] streamCodeFromImage started');
 
-            // Prepare multimodal content
-            const parts = [
-                { text: userPrompt },
-                {
-                    inlineData: {
-                        mimeType: "image/png",
-                        data: imageData
-                    }
+        try {
+            const codes = [];
+            for (const partOptions of this._planParts(options)) {
+                const { provider, request, estimate } = await this._buildRequest(contextImage, partOptions);
+                if (options.onEstimate) options.onEstimate(estimate);
+                if (options.onRequest) options.onRequest(describeRequest(provider, request, estimate));
+                if (codes.length > 0) yield '\n\n';
+
+                console.log(`[GeminiService] Streaming request to ${provider.name} (${request.model})...`);
+                let output = '';
+                for await (const chunk of provider.stream(request)) {
+                    output += chunk;
+                    yield chunk;
                 }
-            ];
-
-            // Use gemini-2.0-flash-exp for multimodal support
-            const modelId = "gemini-2.5-pro";
-
-            console.log('[GeminiService] Sending request to Gemini API...');
-            const response = await this.ai.models.generateContent({
-                model: modelId,
-                config: {
-                    systemInstruction: systemInstruction,
-                    temperature: 0.1, // Low temperature for consistent code generation
-                },
-                contents: [{ role: 'user', parts: parts }],
-            });
-
-            let code = response.text;
-
-            // Clean up code fences if present
-            if (code) {
-                code = code.replace(/```dart/g, '').replace(/```/g, '').trim();
+                await this._record(provider, request, output);
+                codes.push(this._cleanCode(output));
             }
 
-            console.log('[GeminiService] Code generation completed successfully');
-            return code;
+            console.log('[GeminiService] Code streaming completed successfully');
+            return stitchParts(codes.pop(), codes);
 
         } catch (error) {
-            console.error("[GeminiService] Error during code generation:", error);
+            console.error("[GeminiService] Error during code streaming:", error);
             throw error;
         }
     }
 
+    /**
+     * Ask the model to fix analyzer errors in code it generated (see services/validationService)
+     * @param {string} code - Generated Dart source
+     * @param {Object[]} diagnostics - Errors to fix
+     * @param {Object} options - Same provider, model and widget options as the generation
+     * @returns {Promise<string>} Corrected Flutter code
+     */
+    async repairCode(code, diagnostics, options = {}) {
+        console.log(`[GeminiService] repairCode started (${diagnostics.length} diagnostic(s))`);
+
+        try {
+            const provider = this.providers.get(options.provider || this.providers.defaultProvider);
+            const { widgetType = 'StatelessWidget', useProvider = false, className = 'GeneratedWidget' } = options;
+
+            const request = {
+                systemInstruction: this._buildSystemInstruction(widgetType, useProvider, className),
+                prompt: buildRepairInstruction(code, diagnostics),
+                images: [],
+                model: options.model || provider.defaultModel,
+                temperature: options.temperature !== undefined ? options.temperature : DEFAULT_TEMPERATURE,
+                timeout: options.timeout || DEFAULT_TIMEOUT,
+                signal: options.signal,
+            };
+
+            const output = await provider.generate(request);
+            await this._record(provider, request, output);
+
+            console.log('[GeminiService] Code repair completed');
+            return this._cleanCode(output);
+
+        } catch (error) {
+            console.error("[GeminiService] Error during code repair:", error);
+            throw error;
+        }
+    }
+
+    /**
+     * Ask the model to bring its code closer to the design after a visual check (see services/visualService)
+     * @param {string} code - Generated Dart source
+     * @param {Object} visual - Similarity, regions and base64 heatmap of the last check
+     * @param {Object} options - Same provider, model and widget options as the generation, plus contextImage
+     * @returns {Promise<string>} Refined Flutter code
+     */
+    async refineCode(code, visual, options = {}) {
+        console.log(`[GeminiService] refineCode started (${(visual.similarity * 100).toFixed(1)}% similar)`);
+
+        try {
+            const provider = this.providers.get(options.provider || this.providers.defaultProvider);
+            const { widgetType = 'StatelessWidget', useProvider = false, className = 'GeneratedWidget' } = options;
+
+            const request = {
+                systemInstruction: this._buildSystemInstruction(widgetType, useProvider, className),
+                prompt: buildRefineInstruction(code, visual),
+                images: [
+                    { mimeType: 'image/png', data: await this._loadImage(options.contextImage) },
+                    { mimeType: 'image/png', data: visual.heatmap },
+                ],
+                model: options.model || provider.defaultModel,
+                temperature: options.temperature !== undefined ? options.temperature : DEFAULT_TEMPERATURE,
+                timeout: options.timeout || DEFAULT_TIMEOUT,
+                signal: options.signal,
+            };
+
+            const output = await provider.generate(request);
+            await this._record(provider, request, output);
+
+            console.log('[GeminiService] Code refinement completed');
+            return this._cleanCode(output);
+
+        } catch (error) {
+            console.error("[GeminiService] Error during code refinement:", error);
+            throw error;
+        }
+    }
+
+    /**
+     * Options of each request of a generation. A frame whose compact Figma JSON is over
+     * options.tokenBudget is split: its largest subtrees are generated first as private
+     * widgets, then the frame with those subtrees replaced by the widgets. Form fields and
+     * scroll targets stay in the screen, whose State holds their controllers and keys.
+     * Responsive screens and focused regeneration always work on the whole screen.
+     * @returns {Object[]} Options for _buildRequest, the screen's own last
+     * @private
+     */
+    _planParts(options) {
+        const { figmaData = null, breakpoints = null, changes = null, previousCode = null, tokenIndex = null, className = 'GeneratedWidget' } = options;
+        if (!figmaData || breakpoints || (changes && previousCode)) return [options];
+
+        const budget = options.tokenBudget || DEFAULT_TOKEN_BUDGET;
+        const { root, parts } = splitTree(figmaData, {
+            budget,
+            measure: node => estimateTokens(JSON.stringify(compactNode(node, { tokenIndex }))),
+            pinned: pinnedNodes(figmaData, options),
+            names: new Set([className]),
+        });
+        if (parts.length === 0) return [options];
+
+        console.log(`[GeminiService] "${figmaData.name}" is over the ${budget} token budget; generating ${parts.map(part => part.className).join(', ')} separately`);
+        return [
+            ...parts.map(part => ({ ...options, figmaData: part.node, className: part.className, widgetType: 'StatelessWidget', useProvider: false, part: true })),
+            { ...options, figmaData: root },
+        ];
+    }
+
+    /**
+     * Provider and provider request (prompts, image, model settings) for a generation,
+     * and the estimated size of the request
+     * @private
+     */
+    async _buildRequest(contextImage, options) {
+        const provider = this.providers.get(options.provider || this.providers.defaultProvider);
+        const { widgetType = 'StatelessWidget', useProvider = false, className = 'GeneratedWidget', tokenIndex = null, assetMap = {}, componentIndex = null, changes = null, previousCode = null, breakpoints = null, routeIndex = null, stringIndex = null } = options;
+
+        // Responsive screens send one screenshot and Figma tree per breakpoint instead
+        const contextImages = breakpoints ? breakpoints.map(bp => bp.contextImage) : [contextImage];
+        const figmaData = breakpoints ? null : options.figmaData || null;
+        if (contextImages.some(image => !image) && this.providers.requiresImage(provider.name)) {
+            throw new Error('Context image is required for code generation');
+        }
+
+        // Build system instruction for image-to-Flutter conversion
+        const systemInstruction = this._buildSystemInstruction(widgetType, useProvider, className);
+
+        // Build user prompt with optional Figma data context
+        let userPrompt = this._buildUserPrompt(figmaData, tokenIndex, assetMap, componentIndex, changes, previousCode);
+        const breakpointSection = buildBreakpointInstruction(breakpoints, tokenIndex);
+        if (breakpointSection) userPrompt += `\n${breakpointSection}`;
+        const roots = breakpoints ? breakpoints.map(bp => bp.figmaData) : [figmaData].filter(Boolean);
+        // Parts of a split frame (see _planParts)
+        if (options.part) userPrompt += `\n\n${buildPartInstruction(figmaData, className)}`;
+        const placeholderSection = buildPlaceholderInstruction(roots);
+        if (placeholderSection) userPrompt += `\n\n${placeholderSection}`;
+        const navigationSection = describeNavigation(roots, routeIndex);
+        if (navigationSection) userPrompt += `\n\n${navigationSection}`;
+        const formSection = describeForm(roots, { widgetType, className, useProvider, componentIndex });
+        if (formSection) userPrompt += `\n\n${formSection}`;
+        const stringsSection = describeStrings(stringIndex);
+        if (stringsSection) userPrompt += `\n\n${stringsSection}`;
+        const accessibilitySection = describeAccessibility(roots, { componentIndex });
+        if (accessibilitySection) userPrompt += `\n\n${accessibilitySection}`;
+
+        // Load and encode the images
+        const images = [];
+        for (const image of contextImages.filter(Boolean)) {
+            images.push({ mimeType: 'image/png', data: await this._loadImage(image) });
+        }
+
+        if (figmaData) {
+            console.log('[GeminiService] Including Figma data for precise measurements');
+        }
+
+        const figmaTokens = roots.reduce((sum, root) => sum + estimateTokens(JSON.stringify(compactNode(root, { tokenIndex }))), 0);
+        const estimate = {
+            className,
+            tokens: estimateTokens(systemInstruction) + estimateTokens(userPrompt),
+            figmaTokens,
+            // The pretty-printed tree that was sent before the compact format
+            uncompactedTokens: roots.reduce((sum, root) => sum + estimateTokens(JSON.stringify(root, null, 2)), 0),
+            images: images.length,
+        };
+        console.log(`[GeminiService] ${className}: ~${estimate.tokens} prompt tokens (Figma JSON ~${figmaTokens}, ~${estimate.uncompactedTokens} uncompacted), ${images.length} image(s)`);
+
+        const request = {
+            systemInstruction,
+            prompt: userPrompt,
+            images,
+            model: options.model || provider.defaultModel,
+            temperature: options.temperature !== undefined ? options.temperature : DEFAULT_TEMPERATURE,
+            timeout: options.timeout || DEFAULT_TIMEOUT,
+            signal: options.signal,
+        };
+        return { provider, request, estimate };
+    }
+
+    /**
+     * Save real provider output for the fixture provider when recording is enabled
+     * @private
+     */
+    async _record(provider, request, output) {
+        const recorder = provider.name === 'fixture' ? null : this.providers.recorder();
+        if (recorder && output) {
+            await recorder.record(request, output);
+        }
+    }
+
+    /**
+     * Strip code fences the model wrapped around the code
+     * @private
+     */
+    _cleanCode(output) {
+        if (!output) return output;
+        return output.replace(/```dart/g, '').replace(/```/g, '').trim();
+    }
+
     /**
      * Load and encode image from uploads directory
      * @private
      */
     async _loadImage(filename) {
-        const imagePath = path.join(__dirname, '../../uploads', filename);
+        // basename keeps a crafted filename from reading outside the uploads directory
+        const imagePath = path.join(this.uploadsDir, path.basename(filename));
         
         try {
             const imageBuffer = await fs.promises.readFile(imagePath);
@@ -104,7 +345,14 @@ class GeminiService {
      * Build system instruction for the LLM
      * @private
      */
-    _buildSystemInstruction(widgetType, useProvider) {
+    _buildSystemInstruction(widgetType, useProvider, className = 'GeneratedWidget') {
+        const pattern = widgetType === 'StatefulWidget' ? stateManagementOf(useProvider) : null;
+        // Riverpod state is read through `ref`, which only Consumer widgets have
+        const baseClass = pattern === 'riverpod' ? 'ConsumerStatefulWidget' : widgetType;
+        const stateRule = pattern
+            ? `- Manage state with ${STATE_MANAGEMENT[pattern].package} (import '${STATE_MANAGEMENT[pattern].import}'); keep controllers and other UI-only state in the State class`
+            : '- Keep UI state in the widget (`setState`); do not add a state management package';
+
         return `You are a Senior Flutter Engineer specializing in converting UI designs to production-ready Flutter code.
 
 ## YOUR TASK
@@ -124,6 +372,7 @@ Analyze the provided UI screenshot and generate pixel-perfect Flutter code that
 - **Horizontal layouts** → Use \`Row\` with appropriate \`MainAxisAlignment\`
 - **Vertical layouts** → Use \`Column\` with appropriate \`MainAxisAlignment\`
 - **Overlapping elements** → Use \`Stack\` with \`Positioned\`
+- **Wrapping rows and grids** → Use \`Wrap\` with \`spacing\`/\`runSpacing\`, or \`GridView\` with a \`SliverGridDelegate\`; build repeated cards from one item widget over a data list
 - **Scrollable content** → Use \`SingleChildScrollView\`, \`ListView\`, or \`GridView\`
 - **Flexible sizing** → Use \`Expanded\` or \`Flexible\` where appropriate
 
@@ -148,7 +397,7 @@ Analyze the provided UI screenshot and generate pixel-perfect Flutter code that
 
 ### 6. Component Recognition
 - **Buttons** → \`ElevatedButton\`, \`TextButton\`, \`OutlinedButton\`, or \`IconButton\`
-- **Input fields** → \`TextField\` with \`InputDecoration\`
+- **Input fields** → \`TextFormField\` with \`InputDecoration\` inside a \`Form\` (stateful widgets), \`TextField\` otherwise
 - **Cards** → \`Card\` widget with elevation
 - **Images** → \`Image.asset\`, \`Image.network\`, or \`CircleAvatar\`
 - **Icons** → \`Icon\` widget or custom SVG
@@ -157,7 +406,8 @@ Analyze the provided UI screenshot and generate pixel-perfect Flutter code that
 ## CODE QUALITY STANDARDS
 
 ### Structure
-- Generate a \`${widgetType}\` named \`GeneratedWidget\`
+- Generate a \`${baseClass}\` named \`${className}\`
+${stateRule}
 - Break complex UIs into private methods (\`_buildHeader()\`, \`_buildCard()\`, etc.)
 - Extract very complex sections into separate widget classes
 
@@ -168,6 +418,7 @@ Analyze the provided UI screenshot and generate pixel-perfect Flutter code that
 - ✅ Use \`Padding\` for padding only
 - ✅ Use \`Container\` ONLY when decoration or constraints are needed
 - ✅ Prefer \`EdgeInsets.only\` over \`EdgeInsets.fromLTRB\`
+- ✅ Give tappable widgets button semantics (\`MergeSemantics\` + \`Semantics(button: true)\`) and icon-only ones a \`Tooltip\`; wrap purely decorative shapes in \`ExcludeSemantics\`
 - ❌ NO \`Container(padding: ...)\` without decoration
 - ❌ NO hardcoded magic numbers without context
 - ❌ NO unused variables or imports
@@ -181,7 +432,7 @@ Analyze the provided UI screenshot and generate pixel-perfect Flutter code that
 ## OUTPUT REQUIREMENTS
 
 **Return ONLY raw Dart code:**
-- Start with: \`class GeneratedWidget extends ${widgetType} {\`
+- Start with: \`class ${className} extends ${baseClass} {\`
 - NO markdown code fences (\`\`\`dart\`)
 - NO explanatory text before or after the code
 - NO comments (unless critical for understanding)
@@ -200,14 +451,30 @@ Analyze the provided UI screenshot and generate pixel-perfect Flutter code that
      * Build user prompt for image analysis with optional Figma data
      * @private
      */
-    _buildUserPrompt(figmaData = null) {
+    _buildUserPrompt(figmaData = null, tokenIndex = null, assetMap = {}, componentIndex = null, changes = null, previousCode = null) {
         let prompt = `Please analyze the UI screenshot provided and generate production-ready Flutter code that recreates this design with pixel-perfect accuracy.`;
         
         if (figmaData) {
-            prompt += `\n\n## FIGMA DESIGN DATA (Use for Precise Measurements)\n\nI'm providing the Figma design data below. Use this JSON to extract EXACT values for:\n\n### Typography\n- **Font sizes** (fontSize property)\n- **Font weights** (fontWeight property)\n- **Line heights** (lineHeight property)\n- **Letter spacing** (letterSpacing property)\n\n### Colors & Fills\n- **Solid colors** (fills array with type: "SOLID", color: {r, g, b} in 0-1 range)\n- **Gradients** (fills array with type: "GRADIENT_LINEAR" or "GRADIENT_RADIAL")\n  - Extract gradientStops array: [{color: {r, g, b}, position: 0-1}]\n  - Extract gradientHandlePositions for angle/direction\n  - Convert to Flutter LinearGradient or RadialGradient\n\n### Layout & Spacing\n- **Border radius** (cornerRadius, topLeftRadius, topRightRadius, bottomLeftRadius, bottomRightRadius)\n- **Spacing** (itemSpacing, padding properties)\n- **Stroke widths** (strokeWeight property)\n- **Opacity** (opacity property)\n\n### Effects (Shadows)\n- **Box shadows** (effects array with type: "DROP_SHADOW" or "INNER_SHADOW")\n  - Extract offset: {x, y} → Offset(x, y)\n  - Extract radius (blur) → blurRadius\n  - Extract spread → spreadRadius\n  - Extract color: {r, g, b, a} → Color with alpha\n  - Multiple shadows → multiple BoxShadow in list\n\n**CRITICAL:** When you see these properties in the Figma data, use the EXACT values. Do not approximate.\n\n### Gradient Conversion Examples:\n\`\`\`\nFigma GRADIENT_LINEAR:\n{\n  type: "GRADIENT_LINEAR",\n  gradientStops: [\n    {color: {r: 0.2, g: 0.4, b: 0.8}, position: 0},\n    {color: {r: 0.8, g: 0.2, b: 0.4}, position: 1}\n  ]\n}\n\nFlutter:\nLinearGradient(\n  colors: [Color(0xFF3366CC), Color(0xFFCC3366)],\n  stops: [0.0, 1.0],\n  begin: Alignment.topLeft,\n  end: Alignment.bottomRight,\n)\n\`\`\`\n\n### Shadow Conversion Examples:\n\`\`\`\nFigma DROP_SHADOW:\n{\n  type: "DROP_SHADOW",\n  offset: {x: 0, y: 4},\n  radius: 8,\n  spread: 2,\n  color: {r: 0, g: 0, b: 0, a: 0.25}\n}\n\nFlutter:\nBoxShadow(\n  offset: Offset(0, 4),\n  blurRadius: 8.0,\n  spreadRadius: 2.0,\n  color: Color(0x40000000),  // 0.25 alpha = 0x40\n)\n\`\`\`\n\nFigma Design JSON:\n\`\`\`json\n${JSON.stringify(figmaData, null, 2)}\n\`\`\`\n\n`;
+            prompt += `\n\n## FIGMA DESIGN DATA (Use for Precise Measurements)\n\nI'm providing the Figma design data below. Use this JSON to extract EXACT values for:\n\n### Typography\n- **Font sizes** (fontSize property)\n- **Font weights** (fontWeight property)\n- **Line heights** (lineHeight property)\n- **Letter spacing** (letterSpacing property)\n\n### Colors & Fills\n- **Solid colors** (fills array with type: "SOLID", color: "#RRGGBB")\n- **Gradients** (fills array with type: "GRADIENT_LINEAR" or "GRADIENT_RADIAL")\n  - Extract gradientStops array: [{color: "#RRGGBB", position: 0-1}]\n  - Extract gradientHandlePositions for angle/direction\n  - Convert to Flutter LinearGradient or RadialGradient\n\n### Layout & Spacing\n- **Border radius** (cornerRadius, topLeftRadius, topRightRadius, bottomLeftRadius, bottomRightRadius)\n- **Spacing** (itemSpacing, padding properties)\n- **Stroke widths** (strokeWeight property)\n- **Opacity** (opacity property)\n\n### Effects (Shadows)\n- **Box shadows** (effects array with type: "DROP_SHADOW" or "INNER_SHADOW")\n  - Extract offset: {x, y} → Offset(x, y)\n  - Extract radius (blur) → blurRadius\n  - Extract spread → spreadRadius\n  - Extract color: "#RRGGBBAA" → Color with alpha (0xAARRGGBB)\n  - Multiple shadows → multiple BoxShadow in list\n\n**CRITICAL:** When you see these properties in the Figma data, use the EXACT values. Do not approximate.\n\n### Gradient Conversion Examples:\n\`\`\`\nFigma GRADIENT_LINEAR:\n{\n  type: "GRADIENT_LINEAR",\n  gradientStops: [\n    {color: "#3366CC", position: 0},\n    {color: "#CC3366", position: 1}\n  ]\n}\n\nFlutter:\nLinearGradient(\n  colors: [Color(0xFF3366CC), Color(0xFFCC3366)],\n  stops: [0.0, 1.0],\n  begin: Alignment.topLeft,\n  end: Alignment.bottomRight,\n)\n\`\`\`\n\n### Shadow Conversion Examples:\n\`\`\`\nFigma DROP_SHADOW:\n{\n  type: "DROP_SHADOW",\n  offset: {x: 0, y: 4},\n  radius: 8,\n  spread: 2,\n  color: "#00000040"\n}\n\nFlutter:\nBoxShadow(\n  offset: Offset(0, 4),\n  blurRadius: 8.0,\n  spreadRadius: 2.0,\n  color: Color(0x40000000),  // 0.25 alpha = 0x40\n)\n\`\`\`\n\n${COMPACT_FORMAT_NOTE}\n\nFigma Design JSON:\n\`\`\`json\n${JSON.stringify(compactNode(figmaData, { tokenIndex }))}\n\`\`\`\n\n`;
         }
         
         prompt += `\n\nFocus on:\n- Accurate layout structure from the visual\n- EXACT spacing, padding, and dimensions from Figma data (if provided)\n- EXACT colors and gradients from Figma data (if provided)\n- EXACT typography (sizes, weights, line heights) from Figma data (if provided)\n- EXACT border radius from Figma data (if provided)\n- EXACT box shadows from Figma data (if provided)\n- Appropriate Flutter widgets\n\nGenerate clean, well-structured code that follows Flutter best practices.`;
+
+        if (tokenIndex) {
+            const tokenSection = describeTokens(tokenIndex);
+            if (tokenSection) prompt += `\n\n${tokenSection}`;
+        }
+
+        const componentSection = describeComponents(componentIndex);
+        if (componentSection) prompt += `\n\n${componentSection}`;
+
+        const assetSection = buildAssetInstruction(assetMap);
+        if (assetSection) {
+            prompt += `\n${assetSection}\nThese files already exist in the project and are registered in pubspec.yaml. Use the listed widget with these exact paths for the matching nodes instead of placeholders or redrawing vectors.`;
+        }
+
+        const changeSection = buildChangeInstruction(changes, previousCode);
+        if (changeSection) prompt += `\n${changeSection}`;
         
         return prompt;
     }
@@ -230,4 +497,13 @@ Analyze the provided UI screenshot and generate pixel-perfect Flutter code that
     }
 }
 
+/**
+ * What options.onRequest gets: the prompts and model, without the images
+ * @private
+ */
+function describeRequest(provider, request, estimate) {
+    const { systemInstruction, prompt, model } = request;
+    return { className: estimate.className, provider: provider.name, model, systemInstruction, prompt };
+}
+
 module.exports = GeminiService;
@@ -0,0 +1,300 @@
+const fs = require('fs');
+const os = require('os');
+const path = require('path');
+const crypto = require('crypto');
+const ProjectService = require('./projectService');
+const { stableStringify, hashContent } = require('../utils/hash');
+const { normalizeBreakpoints } = require('../utils/breakpoints');
+const { unifiedDiff } = require('../utils/lineDiff');
+
+// Generations kept per node; the oldest is dropped when a new one is recorded
+const MAX_ENTRIES = 20;
+
+/**
+ * Generations per Figma node: the /convert result, the request it came from (model, prompts,
+ * options, design and context image) and the project files it was saved to. Identical AI
+ * requests are answered from here, and earlier generations can be compared and written back.
+ *
+ * Entries are stored as <historyDir>/<node>/<entry id>.json. Context images are copied to
+ * <historyDir>/images under a hash of their content, since /cleanup removes the uploads.
+ */
+class HistoryService {
+    /**
+     * @param {ProjectService} projectService - Restores write through it; its uploadsDir holds the context images
+     * @param {Object} options
+     * @param {string} options.historyDir - Default: history/ next to the server config (MAXCOMPUTE_HOME or ~/.maxcompute)
+     * @param {number} options.maxEntries - Generations kept per node (default: 20)
+     */
+    constructor(projectService = new ProjectService(), options = {}) {
+        this.projectService = projectService;
+        this.historyDir = options.historyDir || path.join(process.env.MAXCOMPUTE_HOME || path.join(os.homedir(), '.maxcompute'), 'history');
+        this.maxEntries = options.maxEntries || MAX_ENTRIES;
+    }
+
+    /**
+     * Node and cache key of a /convert request body. The key covers the serialized tree (every
+     * breakpoint frame of a responsive screen), the options, design tokens, asset node IDs, target
+     * project and file. Upload file names and options.cache are left out; they differ on every click.
+     * @returns {{nodeId: string|null, nodeName: string|null, key: string}}
+     */
+    requestKey({ figmaData, breakpoints, options, designTokens, assets, projectPath, regenerate }) {
+        const layouts = breakpoints ? normalizeBreakpoints(breakpoints) : null;
+        const root = layouts ? layouts[0].figmaData : figmaData;
+        const { cache, ...keyOptions } = options || {};
+
+        const key = hashContent(stableStringify({
+            design: layouts ? layouts.map(({ name, figmaData: tree }) => ({ name, tree })) : figmaData || null,
+            options: keyOptions,
+            designTokens: designTokens || null,
+            assets: Object.keys(assets || {}).sort().map(id => [id, assets[id].format || 'png']),
+            projectPath: projectPath || null,
+            regenerate: regenerate || null,
+        }));
+        return { nodeId: root ? root.id : null, nodeName: root ? root.name : null, key };
+    }
+
+    /**
+     * Newest AI generation of the node for the same request key whose code has no errors
+     * @returns {Promise<Object|null>} entry
+     */
+    async findCached(nodeId, key) {
+        const entries = await this._readEntries(nodeId);
+        return entries.find(entry => entry.key === key && entry.mode === 'ai' && errorCount(entry.result) === 0) || null;
+    }
+
+    /**
+     * Store a finished conversion and drop the node's oldest entries beyond maxEntries
+     * @param {Object} conversion
+     * @param {Object} conversion.request - From requestKey
+     * @param {Object} conversion.body - /convert request body
+     * @param {Object} conversion.result - /convert response
+     * @param {Object[]} conversion.requests - Model requests of the generation: { className, provider, model, systemInstruction, prompt }
+     * @returns {Promise<Object>} entry summary
+     */
+    async record({ request, body, result, requests = [] }) {
+        try {
+            const { nodeId, nodeName, key } = request;
+            const options = body.options || {};
+            const contextImages = await this._keepImages(body.breakpoints ? body.breakpoints.map(bp => bp.contextImage) : [body.contextImage]);
+            const entry = {
+                id: `${Date.now().toString(36)}-${crypto.randomBytes(3).toString('hex')}`,
+                nodeId,
+                nodeName,
+                key,
+                createdAt: new Date().toISOString(),
+                mode: options.mode === 'deterministic' ? 'deterministic' : 'ai',
+                provider: requests.length > 0 ? requests[0].provider : null,
+                model: requests.length > 0 ? requests[0].model : null,
+                options,
+                prompts: requests.map(({ className, systemInstruction, prompt }) => ({ className, systemInstruction, prompt })),
+                contextImages,
+                // Lets a restore put back the What Changed? snapshot of the generation
+                design: body.breakpoints ? normalizeBreakpoints(body.breakpoints).map(layout => layout.figmaData) : body.figmaData,
+                result,
+                saved: [],
+            };
+
+            const nodeDir = this._nodeDir(nodeId);
+            await fs.promises.mkdir(nodeDir, { recursive: true });
+            await fs.promises.writeFile(path.join(nodeDir, `${entry.id}.json`), JSON.stringify(entry), 'utf8');
+            console.log(`[HistoryService] Recorded ${entry.id} for ${nodeId}`);
+
+            const stale = (await this._readEntries(nodeId)).slice(this.maxEntries);
+            await Promise.all(stale.map(old => fs.promises.rm(path.join(nodeDir, `${old.id}.json`), { force: true })));
+            return summarize(entry);
+        } catch (error) {
+            console.error('[HistoryService] Record Error:', error);
+            throw error;
+        }
+    }
+
+    /**
+     * Generations of a node, newest first, without code, prompts and design
+     * @returns {Promise<Object[]>}
+     */
+    async list(nodeId) {
+        return (await this._readEntries(nodeId)).map(summarize);
+    }
+
+    /**
+     * @returns {Promise<Object|null>} full entry, or null when the node has no such entry
+     */
+    async get(nodeId, id) {
+        return (await this._readEntries(nodeId)).find(entry => entry.id === id) || null;
+    }
+
+    /**
+     * Unified diff of a generation's code against another one of the node (default: the newest)
+     * @returns {Promise<{from: Object, to: Object, diff: string}|null>} null when either entry is missing
+     */
+    async diff(nodeId, id, againstId = null) {
+        const entries = await this._readEntries(nodeId);
+        const from = entries.find(entry => entry.id === id);
+        const to = againstId ? entries.find(entry => entry.id === againstId) : entries[0];
+        if (!from || !to) return null;
+
+        const diff = unifiedDiff(from.result.code, to.result.code, { oldName: from.id, newName: to.id });
+        return { from: summarize(from), to: summarize(to), diff };
+    }
+
+    /**
+     * Note where a generation was saved, so it can be rolled back to later
+     * @param {Object} saved - { projectPath, featureName, fileName, filePath, status }
+     */
+    async markSaved(nodeId, id, saved) {
+        try {
+            const entry = await this.get(nodeId, id);
+            if (!entry) return null;
+            entry.saved.push({ ...saved, savedAt: new Date().toISOString() });
+            await fs.promises.writeFile(path.join(this._nodeDir(nodeId), `${id}.json`), JSON.stringify(entry), 'utf8');
+            return summarize(entry);
+        } catch (error) {
+            console.error('[HistoryService] Mark Saved Error:', error);
+            throw error;
+        }
+    }
+
+    /**
+     * Write a generation (and its companion files) back into the project, like a save from the
+     * plugin: hand edits outside protected regions are kept unless force is set.
+     * @param {Object} target - { projectPath, featureName, fileName, force }
+     * @returns {Promise<Object|null>} saveGeneratedFile result, or null when there is no such entry
+     */
+    async restore(nodeId, id, { projectPath, featureName, fileName, force = false }) {
+        try {
+            const entry = await this.get(nodeId, id);
+            if (!entry) return null;
+
+            const { code, source, companions } = entry.result;
+            const saveOptions = { source, force, skipSameDesign: false };
+            const saved = await this.projectService.saveGeneratedFile(projectPath, featureName, fileName, code, saveOptions);
+            for (const companion of companions || []) {
+                await this.projectService.saveGeneratedFile(projectPath, featureName, companion.fileName, companion.content, saveOptions);
+            }
+            if (saved.status !== 'conflict') {
+                await this.markSaved(nodeId, id, { projectPath, featureName, fileName, filePath: saved.filePath, status: saved.status, restored: true });
+            }
+            console.log(`[HistoryService] Restored ${id} to ${saved.filePath} (${saved.status})`);
+            return saved;
+        } catch (error) {
+            console.error('[HistoryService] Restore Error:', error);
+            throw error;
+        }
+    }
+
+    /**
+     * Delete stored context images no entry refers to any more
+     */
+    async cleanup() {
+        try {
+            const used = new Set();
+            const nodeDirs = await fs.promises.readdir(this.historyDir).catch(() => []);
+            for (const dir of nodeDirs.filter(name => name !== 'images')) {
+                for (const entry of await this._readDir(path.join(this.historyDir, dir))) {
+                    (entry.contextImages || []).forEach(image => used.add(image));
+                }
+            }
+
+            const imagesDir = path.join(this.historyDir, 'images');
+            const images = await fs.promises.readdir(imagesDir).catch(() => []);
+            const unused = images.filter(image => !used.has(image));
+            await Promise.all(unused.map(image => fs.promises.rm(path.join(imagesDir, image), { force: true })));
+            if (unused.length > 0) {
+                console.log(`[HistoryService] Removed ${unused.length} unused context image(s)`);
+            }
+        } catch (error) {
+            console.error('[HistoryService] Cleanup Error:', error);
+            throw error;
+        }
+    }
+
+    /**
+     * Node IDs like "12:34" or "I1:2;3:4" as a directory name
+     * @private
+     */
+    _nodeDir(nodeId) {
+        return path.join(this.historyDir, String(nodeId).replace(/[^A-Za-z0-9_-]/g, '-'));
+    }
+
+    /**
+     * Entries of a node, newest first
+     * @private
+     */
+    async _readEntries(nodeId) {
+        // Different IDs can share a directory name, so entries are matched on their nodeId
+        const entries = await this._readDir(this._nodeDir(nodeId));
+        return entries.filter(entry => entry.nodeId === nodeId);
+    }
+
+    /**
+     * @private
+     */
+    async _readDir(dir) {
+        const files = await fs.promises.readdir(dir).catch(() => []);
+        const entries = [];
+        for (const file of files.filter(name => name.endsWith('.json'))) {
+            try {
+                entries.push(JSON.parse(await fs.promises.readFile(path.join(dir, file), 'utf8')));
+            } catch (error) {
+                console.error(`[HistoryService] Skipping unreadable entry ${file}:`, error.message);
+            }
+        }
+        return entries.sort((a, b) => (a.createdAt === b.createdAt ? b.id.localeCompare(a.id) : b.createdAt.localeCompare(a.createdAt)));
+    }
+
+    /**
+     * Copy uploaded context images into the history; identical images are stored once
+     * @returns {Promise<string[]>} stored file names, in the order given
+     * @private
+     */
+    async _keepImages(filenames) {
+        const imagesDir = path.join(this.historyDir, 'images');
+        const kept = [];
+        for (const filename of filenames.filter(Boolean)) {
+            try {
+                // basename keeps a crafted filename from reading outside the uploads directory
+                const content = await fs.promises.readFile(path.join(this.projectService.uploadsDir, path.basename(filename)));
+                const name = `${crypto.createHash('sha256').update(content).digest('hex').slice(0, 16)}.png`;
+                await fs.promises.mkdir(imagesDir, { recursive: true });
+                await fs.promises.writeFile(path.join(imagesDir, name), content, { flag: 'wx' }).catch(error => {
+                    if (error.code !== 'EEXIST') throw error;
+                });
+                kept.push(name);
+            } catch (error) {
+                console.warn(`[HistoryService] Context image ${filename} not kept:`, error.message);
+            }
+        }
+        return kept;
+    }
+}
+
+/**
+ * @private
+ */
+function errorCount(result) {
+    return (result.diagnostics || []).filter(diagnostic => diagnostic.severity === 'error').length;
+}
+
+/**
+ * What the plugin lists for an entry
+ * @private
+ */
+function summarize(entry) {
+    const { id, nodeId, nodeName, createdAt, mode, provider, model, contextImages, saved, result } = entry;
+    return {
+        id,
+        nodeId,
+        nodeName,
+        createdAt,
+        mode,
+        provider,
+        model,
+        contextImages,
+        saved,
+        lines: result.code.split('\n').length,
+        errors: errorCount(result),
+        similarity: result.visual && result.visual.similarity !== undefined ? result.visual.similarity : null,
+    };
+}
+
+module.exports = HistoryService;
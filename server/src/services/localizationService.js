@@ -0,0 +1,116 @@
+const fs = require('fs');
+const path = require('path');
+const { execFile } = require('child_process');
+const ProjectService = require('./projectService');
+const { buildStringIndex, mergeArb } = require('../utils/localization');
+
+const L10N_DIR = ['lib', 'l10n'];
+const TEMPLATE_ARB = 'app_en.arb';
+const OUTPUT_FILE = 'app_localizations.dart';
+
+class LocalizationService {
+    /**
+     * @param {ProjectService} projectService
+     * @param {Object} options
+     * @param {string} options.flutterPath - flutter executable for gen-l10n (default: FLUTTER_PATH or 'flutter')
+     */
+    constructor(projectService = new ProjectService(), options = {}) {
+        this.projectService = projectService;
+        this.flutterPath = options.flutterPath || process.env.FLUTTER_PATH || 'flutter';
+        this.timeout = options.timeout || 120000;
+        // Last sync per project; batch conversions run side by side and share one ARB file
+        this.pending = new Map();
+    }
+
+    /**
+     * Extract the text of a screen into lib/l10n/app_en.arb and set the project up for
+     * flutter gen-l10n. AppLocalizations is regenerated when the Flutter SDK is installed,
+     * so the screen's lookups resolve before it is validated. Without a project the keys
+     * are only computed.
+     * @param {string} projectPath - Flutter project root (optional)
+     * @param {Object[]} roots - SerializedNode frames of the screen
+     * @param {Object} options
+     * @param {string} options.feature - Feature folder of the screen, the first part of each key
+     * @param {Object} options.componentIndex - Optional shared widget index (see utils/componentManifest)
+     * @returns {Promise<{index: Object, file: string|null, added: string[], generated: boolean}>}
+     *   index is the stringIndex option of the generators (see utils/localization)
+     */
+    async syncStrings(projectPath, roots, options = {}) {
+        const previous = this.pending.get(projectPath) || Promise.resolve();
+        const run = previous.catch(() => { }).then(() => this._syncStrings(projectPath, roots, options));
+        this.pending.set(projectPath, run);
+        try {
+            return await run;
+        } finally {
+            if (this.pending.get(projectPath) === run) this.pending.delete(projectPath);
+        }
+    }
+
+    /**
+     * @private
+     */
+    async _syncStrings(projectPath, roots, { feature = '', componentIndex = null }) {
+        try {
+            const arb = await this.loadArb(projectPath);
+            const index = buildStringIndex(roots, { feature, arb, componentIndex });
+            const added = index.added.map(entry => entry.key);
+            if (!projectPath || Object.keys(index.lookup).length === 0) {
+                return { index, file: null, added, generated: false };
+            }
+
+            const l10nDir = path.join(projectPath, ...L10N_DIR);
+            const file = path.join(l10nDir, TEMPLATE_ARB);
+            if (added.length > 0 || !arb) {
+                await fs.promises.mkdir(l10nDir, { recursive: true });
+                await fs.promises.writeFile(file, JSON.stringify(mergeArb(arb, index.added), null, 2) + '\n', 'utf8');
+            }
+            await this.projectService.ensureLocalization(projectPath);
+
+            const outdated = added.length > 0 || !fs.existsSync(path.join(l10nDir, OUTPUT_FILE));
+            const generated = outdated ? await this._generate(projectPath) : false;
+
+            console.log(`[LocalizationService] ${added.length} string(s) added to ${TEMPLATE_ARB}${generated ? ', AppLocalizations regenerated' : ''}`);
+            return { index, file, added, generated };
+        } catch (error) {
+            console.error('Sync Strings Error:', error);
+            throw error;
+        }
+    }
+
+    /**
+     * Read the template ARB file of a project, or null if there is none yet.
+     * An ARB file that is not valid JSON is an error rather than being overwritten.
+     */
+    async loadArb(projectPath) {
+        if (!projectPath) return null;
+        let content;
+        try {
+            content = await fs.promises.readFile(path.join(projectPath, ...L10N_DIR, TEMPLATE_ARB), 'utf8');
+        } catch (error) {
+            if (error.code === 'ENOENT') return null;
+            throw error;
+        }
+        try {
+            return JSON.parse(content);
+        } catch (error) {
+            throw new Error(`lib/l10n/${TEMPLATE_ARB} is not valid JSON (${error.message}); fix it before extracting more strings.`);
+        }
+    }
+
+    /**
+     * Run flutter gen-l10n; false when the SDK is missing or generation fails
+     * @private
+     */
+    _generate(projectPath) {
+        return new Promise(resolve => {
+            execFile(this.flutterPath, ['gen-l10n'], { cwd: projectPath, timeout: this.timeout }, (error, stdout, stderr) => {
+                if (error) {
+                    console.warn(`[LocalizationService] flutter gen-l10n did not run: ${(stderr || error.message).trim().split('\n').pop()}`);
+                }
+                resolve(!error);
+            });
+        });
+    }
+}
+
+module.exports = LocalizationService;
@@ -1,11 +1,40 @@
 const fs = require('fs');
 const path = require('path');
-const { exec } = require('child_process');
+const crypto = require('crypto');
+const { buildGeneratedFile, parseGeneratedFile, extractGeneratedCode, hasUserEdits } = require('../utils/generatedFile');
+const { unifiedDiff } = require('../utils/lineDiff');
+const { PACKAGE_NAME, isSafeName, isInside } = require('../utils/security');
+const { execFile } = require('child_process');
 const util = require('util');
-const execPromise = util.promisify(exec);
+const execFilePromise = util.promisify(execFile);
+
+// Added to pubspec.yaml when SVG icons are imported
+const FLUTTER_SVG_VERSION = '^2.0.10';
+
+// Asset paths an earlier import may hand back for reuse: one file in assets/images or assets/icons
+const REUSABLE_ASSET_PATH = /^assets\/(images|icons)\/[A-Za-z0-9_][A-Za-z0-9_.-]*$/;
+
+// flutter gen-l10n settings: AppLocalizations is generated next to the ARB files in lib/l10n
+const L10N_CONFIG = [
+    'arb-dir: lib/l10n',
+    'template-arb-file: app_en.arb',
+    'output-localization-file: app_localizations.dart',
+    'synthetic-package: false',
+    '',
+].join('\n');
 
 class ProjectService {
 
+    /**
+     * @param {Object} options
+     * @param {string} options.uploadsDir - Temp upload directory (default: server/uploads)
+     * @param {string} options.flutterPath - flutter executable for `flutter create` (default: FLUTTER_PATH or 'flutter')
+     */
+    constructor(options = {}) {
+        this.uploadsDir = options.uploadsDir || path.join(__dirname, '../../uploads');
+        this.flutterPath = options.flutterPath || process.env.FLUTTER_PATH || 'flutter';
+    }
+
     async validateProject(projectPath) {
         console.log(`[ProjectService] validateProject: ${projectPath}`);
         try {
@@ -21,6 +50,10 @@ class ProjectService {
 
     async createProject(parentPath, projectName) {
         try {
+            if (!PACKAGE_NAME.test(projectName)) {
+                throw new Error(`Invalid project name "${projectName}": use lowercase letters, digits and "_", starting with a letter`);
+            }
+
             // Ensure parent directory exists
             await fs.promises.access(parentPath);
 
@@ -34,8 +67,8 @@ class ProjectService {
                 if (e.code !== 'ENOENT') throw e;
             }
 
-            // Run flutter create
-            await execPromise(`flutter create ${projectName}`, { cwd: parentPath });
+            // Run flutter create (no shell, so the name is passed as one argument)
+            await execFilePromise(this.flutterPath, ['create', projectName], { cwd: parentPath });
 
             // Create features directory structure
             const featuresPath = path.join(fullPath, 'lib', 'features');
@@ -67,9 +100,10 @@ class ProjectService {
                 return [];
             }
 
+            // Dot-directories hold the scratch copies of the validation and visual checks
             const entries = await fs.promises.readdir(featuresPath, { withFileTypes: true });
             return entries
-                .filter(dirent => dirent.isDirectory())
+                .filter(dirent => dirent.isDirectory() && !dirent.name.startsWith('.'))
                 .map(dirent => dirent.name);
         } catch (error) {
             console.error('Get Features Error:', error);
@@ -79,7 +113,7 @@ class ProjectService {
 
     async createFeature(projectPath, featureName) {
         try {
-            const featurePath = path.join(projectPath, 'lib', 'features', featureName);
+            const featurePath = this._featurePath(projectPath, featureName);
             await fs.promises.mkdir(featurePath, { recursive: true });
             return featureName;
         } catch (error) {
@@ -88,38 +122,109 @@ class ProjectService {
         }
     }
 
-    async saveFile(projectPath, featureName, fileName, content) {
+    /**
+     * Saves generated code with a source header and protected regions.
+     * Existing protected region contents are carried over; if the developer edited code
+     * outside them, the new output goes to <file>.new.dart with a diff instead.
+     * @param {Object} options
+     * @param {Object} options.source - { nodeId, hash } returned by /convert
+     * @param {boolean} options.force - Overwrite even when the file has hand edits
+     * @param {boolean} options.skipSameDesign - Leave a hand-edited file alone when its design hash matches
+     *   (default: true); restores turn it off, since the earlier code itself is what was asked for
+     * @returns {Promise<{status: 'created'|'updated'|'unchanged'|'conflict', filePath: string, conflictPath?: string, diff?: string}>}
+     */
+    async saveGeneratedFile(projectPath, featureName, fileName, code, options = {}) {
+        const { source = {}, force = false, skipSameDesign = true } = options;
         try {
-            const featurePath = path.join(projectPath, 'lib', 'features', featureName);
-
-            // Ensure feature exists
+            const featurePath = this._featurePath(projectPath, featureName);
+            const filePath = this._featurePath(projectPath, featureName, fileName);
             await fs.promises.mkdir(featurePath, { recursive: true });
 
-            const filePath = path.join(featurePath, fileName);
-            await fs.promises.writeFile(filePath, content, 'utf8');
+            const conflictPath = filePath.replace(/(\.dart)?$/, '.new.dart');
+            const existing = await fs.promises.readFile(filePath, 'utf8').catch(error => {
+                if (error.code === 'ENOENT') return null;
+                throw error;
+            });
+
+            if (existing === null) {
+                await fs.promises.writeFile(filePath, buildGeneratedFile(code, source), 'utf8');
+                console.log(`[ProjectService] Generated file created: ${filePath}`);
+                return { status: 'created', filePath };
+            }
 
-            console.log(`[ProjectService] File saved: ${filePath}`);
-            return filePath;
+            const previous = parseGeneratedFile(existing);
+            const content = buildGeneratedFile(code, source, previous.regions);
+
+            if (force || !hasUserEdits(existing)) {
+                await fs.promises.rm(conflictPath, { force: true });
+                if (content === existing) {
+                    return { status: 'unchanged', filePath };
+                }
+                await fs.promises.writeFile(filePath, content, 'utf8');
+                console.log(`[ProjectService] Generated file updated: ${filePath}`);
+                return { status: 'updated', filePath };
+            }
+
+            // Hand-edited and the design did not change: nothing new to offer
+            if (skipSameDesign && previous.header && source.hash && previous.header.sourceHash === source.hash) {
+                console.log(`[ProjectService] Design unchanged, keeping hand-edited file: ${filePath}`);
+                return { status: 'unchanged', filePath };
+            }
+
+            await fs.promises.writeFile(conflictPath, content, 'utf8');
+            const diff = unifiedDiff(existing, content, { oldName: fileName, newName: path.basename(conflictPath) });
+            console.log(`[ProjectService] Hand edits detected, new output written to: ${conflictPath}`);
+            return { status: 'conflict', filePath, conflictPath, diff };
         } catch (error) {
-            console.error('Save File Error:', error);
+            console.error('Save Generated File Error:', error);
             throw error;
         }
     }
 
+    /**
+     * Reads back the generator output a saved file was written from (no header or protected regions)
+     * @returns {Promise<string|null>} null when the file does not exist
+     */
+    async readGeneratedCode(projectPath, featureName, fileName) {
+        try {
+            const filePath = this._featurePath(projectPath, featureName, fileName);
+            const content = await fs.promises.readFile(filePath, 'utf8');
+            return extractGeneratedCode(content);
+        } catch (error) {
+            if (error.code === 'ENOENT') return null;
+            console.error('Read Generated File Error:', error);
+            throw error;
+        }
+    }
+
+    /**
+     * lib/features/<feature>[/<file>]; names that would leave that folder are rejected
+     * @private
+     */
+    _featurePath(projectPath, featureName, fileName) {
+        const names = fileName === undefined ? [featureName] : [featureName, fileName];
+        const featuresPath = path.join(projectPath, 'lib', 'features');
+        const target = path.join(featuresPath, ...names);
+        if (!names.every(isSafeName) || !isInside(target, featuresPath)) {
+            throw new Error(`Invalid feature or file name: ${names.join('/')}`);
+        }
+        return target;
+    }
+
     /**
      * Saves uploaded image to temp directory
      * Returns unique filename
      */
-    async saveTempUpload(name, data) {
+    async saveTempUpload(name, data, format = 'png') {
         try {
-            const uploadsDir = path.join(__dirname, '../../uploads');
+            const uploadsDir = this.uploadsDir;
             await fs.promises.mkdir(uploadsDir, { recursive: true });
 
             // Generate unique filename to avoid collisions
             const timestamp = Date.now();
             const randomSuffix = Math.random().toString(36).substring(2, 8);
             const safeName = name.replace(/[^a-zA-Z0-9-_]/g, '_');
-            const filename = `${safeName}_${timestamp}_${randomSuffix}.png`;
+            const filename = `${safeName}_${timestamp}_${randomSuffix}.${format}`;
             const filePath = path.join(uploadsDir, filename);
 
             const buffer = Buffer.from(data, 'base64');
@@ -135,20 +240,22 @@ class ProjectService {
     }
 
     /**
-     * Copies assets from temp uploads to project's assets/images folder
+     * Copies assets from temp uploads to the project's assets/images (PNG) or assets/icons (SVG) folder
      * Returns assetMap: { nodeId: 'assets/images/filename.png' }
+     * @param {Object} reusedPaths - nodeId → asset path of an earlier import; those assets keep
+     *   that path, so code generated back then still finds them
      */
     
-    async saveAssets(projectPath, assets) {
+    async saveAssets(projectPath, assets, reusedPaths = {}) {
         try {
-            const assetsDir = path.join(projectPath, 'assets', 'images');
-            await fs.promises.mkdir(assetsDir, { recursive: true });
-            const uploadsDir = path.join(__dirname, '../../uploads');
+            const uploadsDir = this.uploadsDir;
+            const iconsDir = path.join(projectPath, 'assets', 'icons');
+            let knownIcons = null;
 
             const assetMap = {};
 
             for (const [nodeId, asset] of Object.entries(assets)) {
-                // Asset structure: { id, name, filename }
+                // Asset structure: { id, name, filename, format? }
                 // filename is the temp file in /uploads directory
 
                 if (!asset.filename) {
@@ -157,32 +264,29 @@ class ProjectService {
                 }
 
                 // Use the original name but sanitize it
-                const safeName = asset.name.replace(/[^a-zA-Z0-9-_]/g, '_');
-
-                // Keep it unique by using part of the temp filename's suffix
-                const tempParts = asset.filename.split('_');
-                const uniqueSuffix = tempParts.length > 1 ? `_${tempParts[tempParts.length - 1].replace('.png', '')}` : '';
-
-                const destFileName = `${safeName}${uniqueSuffix}.png`;
-                const destPath = path.join(assetsDir, destFileName);
+                const safeName = (asset.name || nodeId).replace(/[^a-zA-Z0-9-_]/g, '_');
 
                 // Copy from temp uploads to project assets
-                const srcPath = path.join(uploadsDir, asset.filename);
+                // basename keeps a crafted filename from reading outside the uploads directory
+                const srcPath = path.join(uploadsDir, path.basename(asset.filename));
 
                 try {
-                    await fs.promises.copyFile(srcPath, destPath);
-                    console.log(`[ProjectService] Asset copied: ${asset.filename} -> ${destFileName}`);
-
                     // Map nodeId to Flutter asset path
-                    assetMap[nodeId] = `assets/images/${destFileName}`;
-
-                    // Optional: Delete temp file after successful copy
-                    try {
-                        await fs.promises.unlink(srcPath);
-                    } catch (e) {
-                        // Ignore deletion errors
+                    // Temp files are left for cleanupTempUploads so retried conversions can copy them again
+                    const reusedPath = reusedPaths[nodeId];
+                    if (typeof reusedPath === 'string' && REUSABLE_ASSET_PATH.test(reusedPath)) {
+                        await fs.promises.mkdir(path.join(projectPath, path.dirname(reusedPath)), { recursive: true });
+                        await fs.promises.copyFile(srcPath, path.join(projectPath, reusedPath));
+                        assetMap[nodeId] = reusedPath;
+                    } else if (asset.format === 'svg') {
+                        if (!knownIcons) knownIcons = await this._indexIcons(iconsDir);
+                        const destFileName = await this._copyIcon(srcPath, iconsDir, safeName, knownIcons);
+                        assetMap[nodeId] = `assets/icons/${destFileName}`;
+                    } else {
+                        const destFileName = await this._copyImage(srcPath, path.join(projectPath, 'assets', 'images'), safeName, asset.filename);
+                        assetMap[nodeId] = `assets/images/${destFileName}`;
                     }
-
+                    console.log(`[ProjectService] Asset copied: ${asset.filename} -> ${assetMap[nodeId]}`);
                 } catch (e) {
                     console.error(`[ProjectService] Failed to copy asset ${asset.filename}:`, e.message);
                     // Continue with other assets even if one fails
@@ -198,61 +302,224 @@ class ProjectService {
     }
 
     /**
-     * Updates pubspec.yaml to register assets/images/ folder
+     * @private
      */
-    async updatePubspec(projectPath) {
-        try {
-            const pubspecPath = path.join(projectPath, 'pubspec.yaml');
-            let content = await fs.promises.readFile(pubspecPath, 'utf8');
+    async _copyImage(srcPath, imagesDir, safeName, tempFilename) {
+        await fs.promises.mkdir(imagesDir, { recursive: true });
 
-            // Check if assets/images/ is already registered
-            if (content.includes('assets/images/')) {
-                console.log('[ProjectService] pubspec.yaml already includes assets/images/');
-                return;
+        // Keep it unique by using part of the temp filename's suffix
+        const tempParts = tempFilename.split('_');
+        const uniqueSuffix = tempParts.length > 1 ? `_${tempParts[tempParts.length - 1].replace('.png', '')}` : '';
+
+        const destFileName = `${safeName}${uniqueSuffix}.png`;
+        await fs.promises.copyFile(srcPath, path.join(imagesDir, destFileName));
+        return destFileName;
+    }
+
+    /**
+     * Content hash → file name of the SVGs already in assets/icons
+     * @private
+     */
+    async _indexIcons(iconsDir) {
+        const known = new Map();
+        const files = await fs.promises.readdir(iconsDir).catch(() => []);
+        for (const file of files.filter(f => f.endsWith('.svg')).sort()) {
+            const content = await fs.promises.readFile(path.join(iconsDir, file));
+            const hash = crypto.createHash('sha1').update(content).digest('hex');
+            if (!known.has(hash)) known.set(hash, file);
+        }
+        return known;
+    }
+
+    /**
+     * Identical icons share one file: an SVG whose content is already in assets/icons reuses that file
+     * @private
+     */
+    async _copyIcon(srcPath, iconsDir, safeName, knownIcons) {
+        const content = await fs.promises.readFile(srcPath);
+        const hash = crypto.createHash('sha1').update(content).digest('hex');
+        if (knownIcons.has(hash)) return knownIcons.get(hash);
+
+        await fs.promises.mkdir(iconsDir, { recursive: true });
+        const taken = new Set(knownIcons.values());
+        let destFileName = `${safeName}.svg`;
+        if (taken.has(destFileName) || fs.existsSync(path.join(iconsDir, destFileName))) {
+            destFileName = `${safeName}_${hash.slice(0, 8)}.svg`;
+        }
+
+        await fs.promises.writeFile(path.join(iconsDir, destFileName), content);
+        knownIcons.set(hash, destFileName);
+        return destFileName;
+    }
+
+    /**
+     * Copies uploaded assets into the project and registers them in pubspec.yaml
+     * Returns { assetMap: { nodeId: 'assets/images/filename.png' }, files: [absolute paths written] }
+     * @param {Object} reusedPaths - See saveAssets
+     */
+    async importAssets(projectPath, assets, reusedPaths = {}) {
+        if (!projectPath || !assets || Object.keys(assets).length === 0) {
+            return { assetMap: {}, files: [] };
+        }
+
+        const assetMap = await this.saveAssets(projectPath, assets, reusedPaths);
+        const assetPaths = Array.from(new Set(Object.values(assetMap)));
+
+        if (assetPaths.length > 0) {
+            const hasIcons = assetPaths.some(assetPath => assetPath.startsWith('assets/icons/'));
+            const hasImages = assetPaths.some(assetPath => assetPath.startsWith('assets/images/'));
+            await this.updatePubspec(projectPath, {
+                assetFolders: [hasImages && 'assets/images/', hasIcons && 'assets/icons/'].filter(Boolean),
+                dependencies: hasIcons ? { flutter_svg: FLUTTER_SVG_VERSION } : {},
+            });
+        }
+
+        const files = assetPaths.map(assetPath => path.join(projectPath, assetPath));
+        return { assetMap, files };
+    }
+
+    /**
+     * Set up flutter gen-l10n for localized screens, leaving what is already there alone:
+     * flutter_localizations and intl in pubspec.yaml, `generate: true` under flutter:, and l10n.yaml
+     * @param {string} projectPath - Flutter project root
+     */
+    async ensureLocalization(projectPath) {
+        await this.updatePubspec(projectPath, {
+            assetFolders: [],
+            dependencies: { flutter_localizations: { sdk: 'flutter' }, intl: 'any' },
+            flutterSettings: { generate: 'true' },
+        });
+
+        try {
+            await fs.promises.writeFile(path.join(projectPath, 'l10n.yaml'), L10N_CONFIG, { encoding: 'utf8', flag: 'wx' });
+            console.log('[ProjectService] l10n.yaml created');
+        } catch (error) {
+            if (error.code !== 'EEXIST') {
+                console.error('Create l10n.yaml Error:', error);
             }
+        }
+    }
 
+    /**
+     * Updates pubspec.yaml to register asset folders (default: assets/images/) and add missing dependencies
+     * @param {string} projectPath - Flutter project root
+     * @param {Object} options
+     * @param {string[]} options.assetFolders - Folders to list under flutter: assets:
+     * @param {Object} options.dependencies - { package: versionConstraint } to add under dependencies:;
+     *   SDK packages take { sdk: 'flutter' } instead of a version
+     * @param {Object} options.flutterSettings - { key: value } to set under flutter: when missing
+     */
+    async updatePubspec(projectPath, options = {}) {
+        const { assetFolders = ['assets/images/'], dependencies = {}, flutterSettings = {} } = options;
+        try {
+            const pubspecPath = path.join(projectPath, 'pubspec.yaml');
+            const content = await fs.promises.readFile(pubspecPath, 'utf8');
             const lines = content.split('\n');
-            const flutterIndex = lines.findIndex(line => line.trim() === 'flutter:');
-
-            if (flutterIndex === -1) {
-                // No flutter section, add it at the end
-                lines.push('');
-                lines.push('flutter:');
-                lines.push('  assets:');
-                lines.push('    - assets/images/');
-            } else {
-                // Find if assets section exists
-                const assetsIndex = lines.findIndex((line, idx) =>
-                    idx > flutterIndex && line.trim().startsWith('assets:')
-                );
-
-                if (assetsIndex === -1) {
-                    // No assets section, add it after flutter:
-                    lines.splice(flutterIndex + 1, 0, '  assets:', '    - assets/images/');
-                } else {
-                    // Assets section exists, add our path
-                    // Find the indentation of the assets section
-                    const assetsLine = lines[assetsIndex];
-                    const indent = assetsLine.match(/^\s*/)[0] + '  ';
-                    lines.splice(assetsIndex + 1, 0, `${indent}- assets/images/`);
-                }
+
+            assetFolders.forEach(folder => this._addPubspecAssetFolder(lines, folder));
+            Object.entries(dependencies).forEach(([name, version]) => this._addPubspecDependency(lines, name, version));
+            Object.entries(flutterSettings).forEach(([key, value]) => this._addPubspecFlutterSetting(lines, key, value));
+
+            const updated = lines.join('\n');
+            if (updated === content) {
+                console.log('[ProjectService] pubspec.yaml already up to date');
+                return;
             }
 
-            content = lines.join('\n');
-            await fs.promises.writeFile(pubspecPath, content, 'utf8');
-            console.log('[ProjectService] pubspec.yaml updated with assets/images/');
+            await fs.promises.writeFile(pubspecPath, updated, 'utf8');
+            console.log(`[ProjectService] pubspec.yaml updated with ${[...assetFolders, ...Object.keys(dependencies), ...Object.keys(flutterSettings)].join(', ')}`);
         } catch (error) {
             console.error('Update Pubspec Error:', error);
             // Don't fail the whole process if pubspec update fails
         }
     }
 
+    /**
+     * @private
+     */
+    _addPubspecAssetFolder(lines, folder) {
+        if (lines.some(line => line.trim() === `- ${folder}`)) return;
+
+        // Only the top-level flutter: section; the indented one under dependencies is the SDK entry
+        const flutterIndex = lines.findIndex(line => line.trimEnd() === 'flutter:');
+
+        if (flutterIndex === -1) {
+            // No flutter section, add it at the end
+            lines.push('', 'flutter:', '  assets:', `    - ${folder}`);
+            return;
+        }
+
+        // Find if assets section exists
+        const sectionEnd = this._sectionEnd(lines, flutterIndex);
+        const assetsIndex = lines.findIndex((line, idx) =>
+            idx > flutterIndex && idx < sectionEnd && line.trim().startsWith('assets:')
+        );
+
+        if (assetsIndex === -1) {
+            // No assets section, add it after flutter:
+            lines.splice(flutterIndex + 1, 0, '  assets:', `    - ${folder}`);
+        } else {
+            // Assets section exists, add our path with the indentation of the assets section
+            const indent = lines[assetsIndex].match(/^\s*/)[0] + '  ';
+            lines.splice(assetsIndex + 1, 0, `${indent}- ${folder}`);
+        }
+    }
+
+    /**
+     * @private
+     */
+    _addPubspecDependency(lines, name, version) {
+        const entry = typeof version === 'object' ? [`  ${name}:`, `    sdk: ${version.sdk}`] : [`  ${name}: ${version}`];
+        const dependenciesIndex = lines.findIndex(line => line.trimEnd() === 'dependencies:');
+        if (dependenciesIndex === -1) {
+            lines.push('', 'dependencies:', ...entry);
+            return;
+        }
+
+        const sectionEnd = this._sectionEnd(lines, dependenciesIndex);
+        const exists = lines.some((line, idx) =>
+            idx > dependenciesIndex && idx < sectionEnd && line.trim().startsWith(`${name}:`)
+        );
+        if (exists) return;
+
+        // Insert after the last non-blank line of the section so trailing blank lines stay in place
+        let insertAt = sectionEnd;
+        while (insertAt > dependenciesIndex + 1 && lines[insertAt - 1].trim() === '') insertAt--;
+        lines.splice(insertAt, 0, ...entry);
+    }
+
+    /**
+     * @private
+     */
+    _addPubspecFlutterSetting(lines, key, value) {
+        const flutterIndex = lines.findIndex(line => line.trimEnd() === 'flutter:');
+        if (flutterIndex === -1) {
+            // Keep the file's final newline
+            const end = lines[lines.length - 1] === '' ? lines.length - 1 : lines.length;
+            lines.splice(end, 0, '', 'flutter:', `  ${key}: ${value}`);
+            return;
+        }
+
+        const sectionEnd = this._sectionEnd(lines, flutterIndex);
+        const exists = lines.some((line, idx) => idx > flutterIndex && idx < sectionEnd && /^\s{2}\S/.test(line) && line.trim().startsWith(`${key}:`));
+        if (!exists) lines.splice(flutterIndex + 1, 0, `  ${key}: ${value}`);
+    }
+
+    /**
+     * Index of the next top-level key after a section header (or lines.length)
+     * @private
+     */
+    _sectionEnd(lines, headerIndex) {
+        const end = lines.findIndex((line, idx) => idx > headerIndex && /^\S/.test(line) && !line.startsWith('#'));
+        return end === -1 ? lines.length : end;
+    }
+
     /**
      * Cleanup old temp uploads (optional maintenance method)
      */
     async cleanupTempUploads(maxAgeHours = 24) {
         try {
-            const uploadsDir = path.join(__dirname, '../../uploads');
+            const uploadsDir = this.uploadsDir;
             const files = await fs.promises.readdir(uploadsDir);
             const now = Date.now();
             const maxAge = maxAgeHours * 60 * 60 * 1000;
@@ -0,0 +1,71 @@
+const fs = require('fs');
+const path = require('path');
+const { hashContent } = require('../../utils/hash');
+
+/**
+ * Replays recorded model output from disk, for CI and offline work.
+ * A response is looked up as, in order:
+ *   <fixturesDir>/<prompt hash>.dart  (recorded for exactly this prompt)
+ *   <fixturesDir>/<model>.dart        (pick a fixture by passing its name as the model)
+ *   <fixturesDir>/default.dart
+ */
+class FixtureProvider {
+    constructor({ fixturesDir = path.join(__dirname, '../../../fixtures/llm') } = {}) {
+        this.name = 'fixture';
+        this.defaultModel = 'default';
+        this.fixturesDir = fixturesDir;
+    }
+
+    /**
+     * Key a recording is stored under: the hash of the full prompt
+     */
+    static promptKey({ systemInstruction = '', prompt = '' }) {
+        return hashContent(`${systemInstruction}\n\n${prompt}`);
+    }
+
+    /**
+     * @param {Object} request - See providers/index.js for the request shape
+     * @returns {Promise<string>} Recorded output
+     */
+    async generate(request) {
+        const candidates = [FixtureProvider.promptKey(request)];
+        if (request.model) candidates.push(path.basename(request.model).replace(/\.dart$/, ''));
+        candidates.push('default');
+
+        for (const name of candidates) {
+            try {
+                const output = await fs.promises.readFile(path.join(this.fixturesDir, `${name}.dart`), 'utf8');
+                console.log(`[FixtureProvider] Replaying ${name}.dart`);
+                return output;
+            } catch (error) {
+                if (error.code !== 'ENOENT') throw error;
+            }
+        }
+        throw new Error(`No fixture found in ${this.fixturesDir} for ${candidates.map(name => `${name}.dart`).join(', ')}`);
+    }
+
+    /**
+     * Replays the recording line by line
+     * @returns {AsyncGenerator<string>}
+     */
+    async *stream(request) {
+        const output = await this.generate(request);
+        for (const line of output.match(/[^\n]*\n|[^\n]+$/g) || []) {
+            if (request.signal && request.signal.aborted) throw new Error(`${this.name} request was cancelled`);
+            yield line;
+        }
+    }
+
+    /**
+     * Store a real provider's output under the prompt hash so the fixture provider replays it
+     */
+    async record(request, output) {
+        await fs.promises.mkdir(this.fixturesDir, { recursive: true });
+        const filePath = path.join(this.fixturesDir, `${FixtureProvider.promptKey(request)}.dart`);
+        await fs.promises.writeFile(filePath, output, 'utf8');
+        console.log(`[FixtureProvider] Recorded ${filePath}`);
+        return filePath;
+    }
+}
+
+module.exports = FixtureProvider;
@@ -0,0 +1,62 @@
+const { GoogleGenAI } = require('@google/genai');
+const { requestSignal, describeAbort } = require('./request');
+
+/**
+ * Google Gemini through the @google/genai SDK
+ */
+class GeminiProvider {
+    constructor({ apiKey, defaultModel = 'gemini-2.5-pro' } = {}) {
+        if (!apiKey) {
+            throw new Error('Gemini API Key is required');
+        }
+        this.name = 'gemini';
+        this.defaultModel = defaultModel;
+        this.ai = new GoogleGenAI({ apiKey });
+    }
+
+    /**
+     * @param {Object} request - See providers/index.js for the request shape
+     * @returns {Promise<string>} Raw model output
+     */
+    async generate(request) {
+        const signal = requestSignal(request);
+        try {
+            const response = await this.ai.models.generateContent(this._params(request, signal));
+            return response.text || '';
+        } catch (error) {
+            throw describeAbort(error, signal, this.name, request.timeout);
+        }
+    }
+
+    /**
+     * @returns {AsyncGenerator<string>} Text chunks as the model produces them
+     */
+    async *stream(request) {
+        const signal = requestSignal(request);
+        try {
+            const chunks = await this.ai.models.generateContentStream(this._params(request, signal));
+            for await (const chunk of chunks) {
+                if (chunk.text) yield chunk.text;
+            }
+        } catch (error) {
+            throw describeAbort(error, signal, this.name, request.timeout);
+        }
+    }
+
+    /**
+     * @private
+     */
+    _params({ systemInstruction, prompt, images = [], model, temperature }, signal) {
+        const parts = [
+            { text: prompt },
+            ...images.map(image => ({ inlineData: { mimeType: image.mimeType, data: image.data } })),
+        ];
+        return {
+            model: model || this.defaultModel,
+            config: { systemInstruction, temperature, abortSignal: signal },
+            contents: [{ role: 'user', parts }],
+        };
+    }
+}
+
+module.exports = GeminiProvider;
@@ -0,0 +1,99 @@
+/**
+ * LLM providers behind one interface:
+ *   generate(request) → Promise<string>
+ *   stream(request)   → AsyncGenerator<string>
+ * where request = { systemInstruction, prompt, images: [{ mimeType, data (base64) }],
+ *                   model, temperature, timeout (ms), signal (AbortSignal) }
+ */
+
+const GeminiProvider = require('./geminiProvider');
+const OpenAICompatibleProvider = require('./openAICompatibleProvider');
+const FixtureProvider = require('./fixtureProvider');
+
+const PROVIDERS = {
+    gemini: {
+        label: 'Gemini',
+        requiresImage: true,
+        configurationError: env => (env.GEMINI_API_KEY ? null : 'GEMINI_API_KEY missing.'),
+        create: env => new GeminiProvider({ apiKey: env.GEMINI_API_KEY, defaultModel: env.GEMINI_MODEL }),
+    },
+    openai: {
+        label: 'OpenAI-compatible',
+        requiresImage: true,
+        configurationError: () => null,
+        create: env => new OpenAICompatibleProvider({
+            baseUrl: env.OPENAI_BASE_URL,
+            apiKey: env.OPENAI_API_KEY,
+            defaultModel: env.OPENAI_MODEL,
+        }),
+    },
+    fixture: {
+        label: 'Fixture replay',
+        requiresImage: false,
+        configurationError: () => null,
+        create: env => new FixtureProvider({ fixturesDir: env.LLM_FIXTURES_DIR }),
+    },
+};
+
+/**
+ * Creates providers on first use from environment settings
+ */
+class ProviderRegistry {
+    constructor(env = process.env) {
+        this.env = env;
+        this.defaultProvider = env.LLM_PROVIDER || 'gemini';
+        this.instances = new Map();
+    }
+
+    has(name) {
+        return Object.prototype.hasOwnProperty.call(PROVIDERS, name);
+    }
+
+    requiresImage(name) {
+        return PROVIDERS[name].requiresImage;
+    }
+
+    /**
+     * @returns {string|null} Why the provider cannot be used, or null when it can
+     */
+    configurationError(name) {
+        return PROVIDERS[name].configurationError(this.env);
+    }
+
+    get(name = this.defaultProvider) {
+        if (!this.has(name)) {
+            throw new Error(`Unknown LLM provider "${name}". Available: ${Object.keys(PROVIDERS).join(', ')}`);
+        }
+        if (!this.instances.has(name)) {
+            const error = this.configurationError(name);
+            if (error) throw new Error(`Server configuration error: ${error}`);
+            this.instances.set(name, PROVIDERS[name].create(this.env));
+        }
+        return this.instances.get(name);
+    }
+
+    /**
+     * Provider summary for the plugin's Generate tab
+     */
+    list() {
+        return Object.keys(PROVIDERS).map(name => {
+            const error = this.configurationError(name);
+            return {
+                name,
+                label: PROVIDERS[name].label,
+                defaultModel: error ? null : this.get(name).defaultModel,
+                configured: !error,
+                error,
+            };
+        });
+    }
+
+    /**
+     * Recorder for real provider output when LLM_RECORD_FIXTURES is set, otherwise null
+     */
+    recorder() {
+        return this.env.LLM_RECORD_FIXTURES ? this.get('fixture') : null;
+    }
+}
+
+module.exports = { ProviderRegistry, GeminiProvider, OpenAICompatibleProvider, FixtureProvider };
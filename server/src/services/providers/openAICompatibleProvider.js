@@ -0,0 +1,95 @@
+const { requestSignal, describeAbort } = require('./request');
+
+/**
+ * Any server implementing the OpenAI chat completions API: OpenAI itself,
+ * or a local llama.cpp / Ollama / LM Studio server
+ */
+class OpenAICompatibleProvider {
+    constructor({ baseUrl = 'http://localhost:11434/v1', apiKey = null, defaultModel = 'llava' } = {}) {
+        this.name = 'openai';
+        this.baseUrl = baseUrl.replace(/\/+$/, '');
+        this.apiKey = apiKey;
+        this.defaultModel = defaultModel;
+    }
+
+    /**
+     * @param {Object} request - See providers/index.js for the request shape
+     * @returns {Promise<string>} Raw model output
+     */
+    async generate(request) {
+        const signal = requestSignal(request);
+        try {
+            const response = await this._post(request, false, signal);
+            const body = await response.json();
+            const choice = body.choices && body.choices[0];
+            return (choice && choice.message && choice.message.content) || '';
+        } catch (error) {
+            throw describeAbort(error, signal, this.name, request.timeout);
+        }
+    }
+
+    /**
+     * Reads the server-sent `data:` events of a streamed completion
+     * @returns {AsyncGenerator<string>} Text chunks as the model produces them
+     */
+    async *stream(request) {
+        const signal = requestSignal(request);
+        try {
+            const response = await this._post(request, true, signal);
+            const decoder = new TextDecoder();
+            let buffer = '';
+
+            for await (const bytes of response.body) {
+                buffer += decoder.decode(bytes, { stream: true });
+                const lines = buffer.split('\n');
+                buffer = lines.pop();
+
+                for (const line of lines) {
+                    const data = line.replace(/^data: ?/, '').trim();
+                    if (!line.startsWith('data:') || !data) continue;
+                    if (data === '[DONE]') return;
+
+                    const choice = JSON.parse(data).choices[0];
+                    if (choice && choice.delta && choice.delta.content) yield choice.delta.content;
+                }
+            }
+        } catch (error) {
+            throw describeAbort(error, signal, this.name, request.timeout);
+        }
+    }
+
+    /**
+     * @private
+     */
+    async _post({ systemInstruction, prompt, images = [], model, temperature }, stream, signal) {
+        const content = [
+            { type: 'text', text: prompt },
+            ...images.map(image => ({ type: 'image_url', image_url: { url: `data:${image.mimeType};base64,${image.data}` } })),
+        ];
+        const headers = { 'Content-Type': 'application/json' };
+        if (this.apiKey) headers.Authorization = `Bearer ${this.apiKey}`;
+
+        const response = await fetch(`${this.baseUrl}/chat/completions`, {
+            method: 'POST',
+            headers,
+            signal,
+            body: JSON.stringify({
+                model: model || this.defaultModel,
+                temperature,
+                stream,
+                messages: [
+                    { role: 'system', content: systemInstruction },
+                    { role: 'user', content },
+                ],
+            }),
+        });
+
+        if (!response.ok) {
+            const text = await response.text();
+            throw new Error(`${this.name} request failed (${response.status}): ${text.slice(0, 500)}`);
+        }
+        return response;
+    }
+}
+
+module.exports = OpenAICompatibleProvider;
@@ -0,0 +1,26 @@
+/**
+ * Helpers shared by the LLM providers for per-request timeouts and cancellation.
+ */
+
+/**
+ * Signal that aborts on the request's timeout (ms) or when the caller's own signal aborts
+ */
+function requestSignal({ timeout, signal } = {}) {
+    const signals = [];
+    if (signal) signals.push(signal);
+    if (timeout) signals.push(AbortSignal.timeout(timeout));
+    return signals.length > 0 ? AbortSignal.any(signals) : undefined;
+}
+
+/**
+ * Replace the generic abort error with one saying whether the request timed out or was cancelled
+ */
+function describeAbort(error, signal, providerName, timeout) {
+    if (!signal || !signal.aborted) return error;
+    if (signal.reason && signal.reason.name === 'TimeoutError') {
+        return new Error(`${providerName} request timed out after ${timeout / 1000}s`);
+    }
+    return new Error(`${providerName} request was cancelled`);
+}
+
+module.exports = { requestSignal, describeAbort };
@@ -0,0 +1,153 @@
+const fs = require('fs');
+const path = require('path');
+const ProjectService = require('./projectService');
+const { call, list, str, render } = require('../utils/dartBuilder');
+const { screenNames, buildRoute } = require('../utils/navigation');
+
+const ROUTER_DIR = ['lib', 'core', 'router'];
+const ROUTER_FILE = 'app_router.dart';
+const MANIFEST_PATH = ['.max_compute', 'routes.json'];
+
+// Added to pubspec.yaml when the route table is written, or when generated screens
+// navigate or open text links
+const DEPENDENCIES = {
+    go_router: '^14.2.0',
+    url_launcher: '^6.3.0',
+};
+
+class RouterService {
+    constructor(projectService = new ProjectService()) {
+        this.projectService = projectService;
+    }
+
+    /**
+     * Register saved screens and rewrite lib/core/router/app_router.dart with a go_router
+     * route per screen. Each route animates like the prototype links that open it.
+     * @param {string} projectPath - Flutter project root
+     * @param {Object[]} screens - [{ id, name, featureName, fileName, className, navigation }] where
+     *   navigation is the reactions list returned by /convert
+     * @returns {Promise<{file: string, manifest: Object}>}
+     */
+    async syncRoutes(projectPath, screens) {
+        try {
+            const manifest = this.mergeScreens(await this.loadManifest(projectPath), screens);
+
+            const routerDir = path.join(projectPath, ...ROUTER_DIR);
+            await fs.promises.mkdir(routerDir, { recursive: true });
+            const file = path.join(routerDir, ROUTER_FILE);
+            await fs.promises.writeFile(file, this.buildRouterFile(manifest), 'utf8');
+
+            const manifestPath = path.join(projectPath, ...MANIFEST_PATH);
+            await fs.promises.mkdir(path.dirname(manifestPath), { recursive: true });
+            await fs.promises.writeFile(manifestPath, JSON.stringify(manifest, null, 2) + '\n', 'utf8');
+
+            await this.addDependency(projectPath);
+
+            console.log(`[RouterService] ${manifest.screens.length} route(s) written`);
+            return { file, manifest };
+        } catch (error) {
+            console.error('Sync Routes Error:', error);
+            throw error;
+        }
+    }
+
+    /**
+     * Add go_router (or url_launcher) to pubspec.yaml; generated screens that navigate import it
+     */
+    async addDependency(projectPath, name = 'go_router') {
+        await this.projectService.updatePubspec(projectPath, { assetFolders: [], dependencies: { [name]: DEPENDENCIES[name] } });
+    }
+
+    /**
+     * Read the route manifest of a project, or null if no screens were registered
+     */
+    async loadManifest(projectPath) {
+        if (!projectPath) return null;
+        try {
+            const content = await fs.promises.readFile(path.join(projectPath, ...MANIFEST_PATH), 'utf8');
+            return JSON.parse(content);
+        } catch (error) {
+            if (error.code !== 'ENOENT') {
+                console.warn(`[RouterService] Ignoring unreadable route manifest: ${error.message}`);
+            }
+            return null;
+        }
+    }
+
+    /**
+     * Add or replace screens in the manifest. A screen saved again keeps its route path;
+     * a different frame saved over the same file replaces the old entry.
+     * @returns {Object} { version, screens: [{ id, name, path, feature, file, className, links }] }
+     */
+    mergeScreens(manifest, screens) {
+        let entries = manifest && Array.isArray(manifest.screens) ? manifest.screens : [];
+
+        screens.forEach(screen => {
+            const names = screenNames(path.basename(screen.fileName || screen.name || '', '.dart'));
+            const replaces = entry => entry.id === screen.id || (entry.feature === screen.featureName && entry.file === screen.fileName);
+            const previous = entries.find(entry => entry.id === screen.id);
+            const at = entries.findIndex(replaces);
+            const others = entries.filter(entry => !replaces(entry));
+
+            let routePath = previous ? previous.path : names.path;
+            let counter = 2;
+            while (others.some(entry => entry.path === routePath)) routePath = `${names.path}-${counter++}`;
+
+            const entry = {
+                id: screen.id,
+                name: screen.name,
+                path: routePath,
+                feature: screen.featureName,
+                file: screen.fileName,
+                className: screen.className || names.className,
+                // Only links to other screens shape the route table
+                links: (screen.navigation || [])
+                    .filter(reaction => (reaction.action === 'NAVIGATE' || reaction.action === 'OVERLAY') && reaction.destinationId)
+                    .map(reaction => ({ destinationId: reaction.destinationId, action: reaction.action, transition: reaction.transition || null })),
+            };
+
+            others.splice(at === -1 ? others.length : at, 0, entry);
+            entries = others;
+        });
+
+        return { version: 1, screens: entries };
+    }
+
+    /**
+     * Dart source of app_router.dart for a manifest
+     */
+    buildRouterFile(manifest) {
+        const screens = manifest.screens;
+        const linked = new Set();
+        const incoming = {};
+        screens.forEach(screen => screen.links.forEach(link => {
+            linked.add(link.destinationId);
+            if (link.action === 'NAVIGATE' && !(link.destinationId in incoming)) incoming[link.destinationId] = link.transition;
+        }));
+
+        const routes = screens.map(screen => buildRoute(screen, incoming[screen.id]));
+        // Start on the first screen that no link opens, as a page or an overlay
+        const start = screens.find(screen => !linked.has(screen.id)) || screens[0];
+        const router = call('GoRouter', {
+            initialLocation: start ? str(start.path) : undefined,
+            routes: list(routes),
+        });
+
+        const usesMaterial = Object.keys(incoming).some(id => incoming[id] && screens.some(screen => screen.id === id));
+        const packages = [usesMaterial && 'package:flutter/material.dart', 'package:go_router/go_router.dart'].filter(Boolean);
+        const screenImports = [...new Set(screens.map(screen => `../../features/${screen.feature}/${screen.file}`))].sort();
+
+        return [
+            ...packages.map(uri => `import '${uri}';`),
+            ...(screenImports.length > 0 ? ['', ...screenImports.map(uri => `import '${uri}';`)] : []),
+            '',
+            '/// Routes for the screens generated from Figma, animated like their prototype links.',
+            '/// Generated by Max Compute and rewritten whenever screens are saved; pass it to',
+            '/// `MaterialApp.router(routerConfig: appRouter)`.',
+            `final appRouter = ${render(router)};`,
+            '',
+        ].join('\n');
+    }
+}
+
+module.exports = RouterService;
@@ -0,0 +1,241 @@
+const fs = require('fs');
+const path = require('path');
+const { call, list, raw, color, render } = require('../utils/dartBuilder');
+const { buildGradient, buildBoxShadows, buildTextStyle } = require('../utils/flutterStyles');
+const { buildTokenIndex, toIdentifier } = require('../utils/designTokens');
+
+const THEME_DIR = ['lib', 'core', 'theme'];
+
+// Text style name hints → TextTheme slot, first match wins per slot.
+// Words may be split by spaces or the separators of Figma style names ("Body/Large").
+const TEXT_THEME_SLOTS = [
+    [/display/i, 'displayLarge'],
+    [/\bh1\b|heading[\s/_-]*1|headline[\s/_-]*l/i, 'headlineLarge'],
+    [/\bh2\b|heading[\s/_-]*2|headline[\s/_-]*m/i, 'headlineMedium'],
+    [/\bh3\b|heading[\s/_-]*3|headline[\s/_-]*s/i, 'headlineSmall'],
+    [/title/i, 'titleLarge'],
+    [/body[\s/_-]*l/i, 'bodyLarge'],
+    [/body[\s/_-]*s/i, 'bodySmall'],
+    [/body/i, 'bodyMedium'],
+    [/button|label/i, 'labelLarge'],
+    [/caption/i, 'labelSmall'],
+];
+
+class ThemeService {
+
+    /**
+     * Write app_colors.dart, app_text_styles.dart, app_shadows.dart and app_theme.dart
+     * into lib/core/theme of the project
+     * @param {string} projectPath - Flutter project root
+     * @param {Object} tokens - Payload from the plugin's extract-tokens message
+     * @returns {Promise<{files: string[], index: Object}>}
+     */
+    async writeTheme(projectPath, tokens) {
+        try {
+            const index = buildTokenIndex(tokens);
+            const themeDir = path.join(projectPath, ...THEME_DIR);
+            await fs.promises.mkdir(themeDir, { recursive: true });
+
+            const files = {
+                'app_colors.dart': this.buildColorsFile(index),
+                'app_text_styles.dart': this.buildTextStylesFile(index),
+                'app_shadows.dart': this.buildShadowsFile(index),
+                'app_theme.dart': this.buildThemeFile(index),
+            };
+
+            const written = [];
+            for (const [fileName, content] of Object.entries(files)) {
+                const filePath = path.join(themeDir, fileName);
+                await fs.promises.writeFile(filePath, content, 'utf8');
+                written.push(filePath);
+            }
+
+            console.log(`[ThemeService] Theme written: ${index.colors.length} colors, ${index.textStyles.length} text styles, ${index.shadows.length} shadows`);
+            return { files: written, index };
+        } catch (error) {
+            console.error('Write Theme Error:', error);
+            throw error;
+        }
+    }
+
+    buildColorsFile(index) {
+        const lines = [
+            "import 'package:flutter/material.dart';",
+            '',
+            '/// Colors and gradients from Figma paint styles and color variables.',
+            '/// Generated by Max Compute; re-sync design tokens instead of editing by hand.',
+            'class AppColors {',
+            '  AppColors._();',
+        ];
+
+        index.colors.forEach(token => {
+            lines.push('', ...this._docLines(token.description));
+            lines.push(`  static const Color ${token.name} = ${render(color(token.color, token.opacity), 1)};`);
+        });
+        index.gradients.forEach(token => {
+            const gradient = buildGradient(token.paint);
+            lines.push('', ...this._docLines(token.description));
+            lines.push(`  static const ${gradient.name} ${token.name} = ${render(gradient, 1)};`);
+        });
+        lines.push('}');
+
+        const modeAware = index.colors.filter(token => token.modes);
+        if (modeAware.length > 0) {
+            lines.push('', ...this._buildColorTokensExtension(modeAware, index.modes));
+        }
+
+        return lines.join('\n') + '\n';
+    }
+
+    /**
+     * ThemeExtension holding one value per Figma mode for mode-aware color variables
+     * @private
+     */
+    _buildColorTokensExtension(tokens, modes) {
+        const modeNames = new Set();
+        const lines = [
+            `/// Color variables that change between Figma modes (${modes.join(', ')}).`,
+            '/// Read them with `AppColorTokens.of(context)`.',
+            'class AppColorTokens extends ThemeExtension<AppColorTokens> {',
+            '  const AppColorTokens({',
+            ...tokens.map(token => `    required this.${token.name},`),
+            '  });',
+            '',
+            ...tokens.map(token => `  final Color ${token.name};`),
+        ];
+
+        modes.forEach(mode => {
+            const instance = call('AppColorTokens', Object.fromEntries(
+                tokens.map(token => [token.name, color(token.modes[mode] || token.color)])
+            ));
+            lines.push('', `  static const AppColorTokens ${toIdentifier(mode, modeNames, 'mode')} = ${render(instance, 1)};`);
+        });
+
+        lines.push(
+            '',
+            '  static AppColorTokens of(BuildContext context) =>',
+            '      Theme.of(context).extension<AppColorTokens>()!;',
+            '',
+            '  @override',
+            '  AppColorTokens copyWith({',
+            ...tokens.map(token => `    Color? ${token.name},`),
+            '  }) {',
+            '    return AppColorTokens(',
+            ...tokens.map(token => `      ${token.name}: ${token.name} ?? this.${token.name},`),
+            '    );',
+            '  }',
+            '',
+            '  @override',
+            '  AppColorTokens lerp(ThemeExtension<AppColorTokens>? other, double t) {',
+            '    if (other is! AppColorTokens) return this;',
+            '    return AppColorTokens(',
+            ...tokens.map(token => `      ${token.name}: Color.lerp(${token.name}, other.${token.name}, t)!,`),
+            '    );',
+            '  }',
+            '}',
+        );
+        return lines;
+    }
+
+    buildTextStylesFile(index) {
+        const lines = [
+            "import 'package:flutter/material.dart';",
+            '',
+            '/// Text styles from Figma local text styles.',
+            '/// Generated by Max Compute; re-sync design tokens instead of editing by hand.',
+            'class AppTextStyles {',
+            '  AppTextStyles._();',
+        ];
+        index.textStyles.forEach(token => {
+            lines.push('', ...this._docLines(token.description));
+            lines.push(`  static const TextStyle ${token.name} = ${render(buildTextStyle(token.text, null), 1)};`);
+        });
+        lines.push('}');
+        return lines.join('\n') + '\n';
+    }
+
+    buildShadowsFile(index) {
+        const lines = [
+            "import 'package:flutter/material.dart';",
+            '',
+            '/// Drop shadows from Figma effect styles.',
+            '/// Generated by Max Compute; re-sync design tokens instead of editing by hand.',
+            'class AppShadows {',
+            '  AppShadows._();',
+        ];
+        index.shadows.forEach(token => {
+            lines.push('', ...this._docLines(token.description));
+            lines.push(`  static const List<BoxShadow> ${token.name} = ${render(list(buildBoxShadows(token.effects)), 1)};`);
+        });
+        lines.push('}');
+        return lines.join('\n') + '\n';
+    }
+
+    /**
+     * ThemeData builders, one per Figma mode (or a single light theme)
+     */
+    buildThemeFile(index) {
+        const seed = index.colors.find(token => /primary|brand|accent/i.test(token.name)) || index.colors[0];
+        const seedColor = seed ? raw(`AppColors.${seed.name}`) : raw('Colors.blue');
+        const textTheme = this._buildTextTheme(index.textStyles);
+        const hasModes = index.colors.some(token => token.modes);
+
+        const themeData = call('ThemeData', {
+            useMaterial3: raw('true'),
+            brightness: raw('brightness'),
+            colorScheme: call('ColorScheme.fromSeed', { seedColor, brightness: raw('brightness') }),
+            textTheme,
+            extensions: hasModes ? list([raw('colorTokens')], 'ThemeExtension<dynamic>') : undefined,
+        });
+
+        const lines = ["import 'package:flutter/material.dart';", ''];
+        if (seed || hasModes) lines.push("import 'app_colors.dart';");
+        if (index.textStyles.length > 0) lines.push("import 'app_text_styles.dart';");
+        lines.push(
+            '',
+            '/// ThemeData built from the synced Figma design tokens.',
+            '/// Generated by Max Compute; re-sync design tokens instead of editing by hand.',
+            'class AppTheme {',
+            '  AppTheme._();',
+            '',
+        );
+
+        if (hasModes) {
+            const modeNames = new Set();
+            index.modes.forEach(mode => {
+                const name = toIdentifier(mode, modeNames, 'mode');
+                const brightness = /dark/i.test(mode) ? 'Brightness.dark' : 'Brightness.light';
+                lines.push(`  static ThemeData ${name}() => _build(${brightness}, AppColorTokens.${name});`, '');
+            });
+            lines.push('  static ThemeData _build(Brightness brightness, AppColorTokens colorTokens) {');
+        } else {
+            lines.push('  static ThemeData light() => _build(Brightness.light);', '');
+            lines.push('  static ThemeData _build(Brightness brightness) {');
+        }
+
+        lines.push(`    return ${render(themeData, 2)};`, '  }', '}');
+        return lines.join('\n') + '\n';
+    }
+
+    /**
+     * @private
+     */
+    _buildTextTheme(textStyles) {
+        const slots = {};
+        textStyles.forEach(token => {
+            const match = TEXT_THEME_SLOTS.find(([pattern, slot]) => pattern.test(token.text.name || token.name) && !slots[slot]);
+            if (match) slots[match[1]] = raw(`AppTextStyles.${token.name}`);
+        });
+        return Object.keys(slots).length > 0 ? call('TextTheme', slots) : undefined;
+    }
+
+    /**
+     * @private
+     */
+    _docLines(description) {
+        if (!description) return [];
+        return description.split('\n').filter(Boolean).map(line => `  /// ${line.trim()}`);
+    }
+}
+
+module.exports = ThemeService;
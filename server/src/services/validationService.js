@@ -0,0 +1,165 @@
+const fs = require('fs');
+const path = require('path');
+const { execFile } = require('child_process');
+const { checkDartSyntax, pubspecDependencies } = require('../utils/dartSyntax');
+const { removeStaleDirs } = require('../utils/scratchFiles');
+
+const DEFAULT_REPAIR_ROUNDS = 2;
+const MAX_REPAIR_ROUNDS = 5;
+const SEVERITIES = { ERROR: 'error', WARNING: 'warning', INFO: 'info' };
+
+// lib/features/<prefix>_<id>: one scratch directory per check
+const SCRATCH_PREFIX = '.max_compute_check';
+
+/**
+ * Checks generated Dart before it is saved: `dart format` + `dart analyze` inside the
+ * connected project when the SDK is installed, otherwise the built-in syntax check
+ * (utils/dartSyntax). Analyzer errors can be sent back to the model for repair.
+ */
+class ValidationService {
+    constructor(options = {}) {
+        this.dartPath = options.dartPath || process.env.DART_PATH || 'dart';
+        this.timeout = options.timeout || 120000;
+        this.sdkCheck = null;
+    }
+
+    /**
+     * True when the Dart SDK can be run (checked once)
+     */
+    isSdkAvailable() {
+        if (!this.sdkCheck) {
+            this.sdkCheck = this._run(['--version'], process.cwd()).then(({ exitCode }) => {
+                console.log(`[ValidationService] Dart SDK ${exitCode === 0 ? 'found' : 'not found'} (${this.dartPath})`);
+                return exitCode === 0;
+            });
+        }
+        return this.sdkCheck;
+    }
+
+    /**
+     * @param {string} code - Generated Dart source
+     * @param {Object} target
+     * @param {string} target.projectPath - Connected Flutter project; analysis needs its resolved packages
+     * @param {string} target.fileName - Name the file will be saved as
+     * @param {Object[]} target.companions - [{ fileName, content }] saved next to it, which the code imports
+     * @returns {Promise<{code: string, diagnostics: Object[], tool: 'dart'|'builtin'}>}
+     *   code is the formatted source when `dart format` succeeded
+     */
+    async validate(code, { projectPath, fileName = 'generated.dart', companions = [] } = {}) {
+        try {
+            const packageConfig = projectPath && path.join(projectPath, '.dart_tool', 'package_config.json');
+            if (packageConfig && fs.existsSync(packageConfig) && await this.isSdkAvailable()) {
+                return await this._analyze(code, projectPath, fileName, companions);
+            }
+
+            const dependencies = await this._dependencies(projectPath);
+            return { code, diagnostics: checkDartSyntax(code, { dependencies }), tool: 'builtin' };
+        } catch (error) {
+            console.error('Validate Code Error:', error);
+            throw error;
+        }
+    }
+
+    /**
+     * Validate, then hand analyzer errors to `repair` until they are gone or the rounds run out
+     * @param {Object} options
+     * @param {Function} options.repair - async (code, errors) => code; omit to only validate
+     * @param {number} options.maxRounds - Repair rounds (default 2, at most 5)
+     * @param {Function} options.onProgress - Called with a status message before each round
+     * @returns {Promise<{code: string, diagnostics: Object[], tool: string, repairRounds: number}>}
+     */
+    async validateAndRepair(code, { projectPath, fileName, companions, repair = null, maxRounds = DEFAULT_REPAIR_ROUNDS, onProgress = () => { } } = {}) {
+        const rounds = Math.max(0, Math.min(MAX_REPAIR_ROUNDS, maxRounds));
+        let result = await this.validate(code, { projectPath, fileName, companions });
+        let repairRounds = 0;
+
+        while (repair && repairRounds < rounds) {
+            const errors = result.diagnostics.filter(diagnostic => diagnostic.severity === 'error');
+            if (errors.length === 0) break;
+
+            repairRounds++;
+            onProgress(`Repairing ${errors.length} error(s), round ${repairRounds}/${rounds}...`);
+            console.log(`[ValidationService] Repair round ${repairRounds}: ${errors.length} error(s)`);
+            result = await this.validate(await repair(result.code, errors), { projectPath, fileName, companions });
+        }
+
+        return { ...result, repairRounds };
+    }
+
+    /**
+     * Format and analyze a scratch copy of the file in a directory of this check's own in
+     * lib/features/, as deep as generated screens, so relative and package imports resolve as
+     * they will on save. Companions are written next to it under their own names, so the code's
+     * imports find this check's versions. The directory starts with a dot so it is never listed
+     * as a feature; ones an interrupted check left behind are removed once they outlive the timeout.
+     * @private
+     */
+    async _analyze(code, projectPath, fileName, companions = []) {
+        const featuresDir = path.join(projectPath, 'lib', 'features');
+        const scratchDir = path.join(featuresDir, `${SCRATCH_PREFIX}_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`);
+        const scratchFile = path.join(scratchDir, path.basename(fileName));
+        await removeStaleDirs(featuresDir, SCRATCH_PREFIX, this.timeout);
+        await fs.promises.mkdir(scratchDir, { recursive: true });
+
+        try {
+            await fs.promises.writeFile(scratchFile, code, 'utf8');
+            for (const companion of companions) {
+                await fs.promises.writeFile(path.join(scratchDir, path.basename(companion.fileName)), companion.content, 'utf8');
+            }
+
+            // Formatting fails on syntax errors; the analyzer reports those below
+            const format = await this._run(['format', scratchFile], projectPath);
+            const formatted = format.exitCode === 0 ? await fs.promises.readFile(scratchFile, 'utf8') : code;
+
+            const analysis = await this._run(['analyze', '--format=machine', scratchFile], projectPath);
+            const diagnostics = this._parseMachineOutput(`${analysis.stdout}\n${analysis.stderr}`, scratchFile);
+            return { code: formatted, diagnostics, tool: 'dart' };
+        } finally {
+            await fs.promises.rm(scratchDir, { recursive: true, force: true });
+        }
+    }
+
+    /**
+     * Parse `SEVERITY|TYPE|CODE|FILE|LINE|COLUMN|LENGTH|MESSAGE` lines for the given file
+     * @private
+     */
+    _parseMachineOutput(output, filePath) {
+        return output.split('\n')
+            .map(line => line.trim().split('|'))
+            .filter(fields => fields.length >= 8 && SEVERITIES[fields[0]] && path.resolve(fields[3]) === path.resolve(filePath))
+            .map(([severity, , code, , line, column, , ...message]) => ({
+                severity: SEVERITIES[severity],
+                line: Number(line),
+                column: Number(column),
+                code: code.toUpperCase(),
+                message: message.join('|'),
+            }));
+    }
+
+    /**
+     * @private
+     */
+    async _dependencies(projectPath) {
+        if (!projectPath) return null;
+        try {
+            return pubspecDependencies(await fs.promises.readFile(path.join(projectPath, 'pubspec.yaml'), 'utf8'));
+        } catch (error) {
+            return null;
+        }
+    }
+
+    /**
+     * Run the dart executable; never rejects
+     * @private
+     */
+    _run(args, cwd) {
+        return new Promise(resolve => {
+            execFile(this.dartPath, args, { cwd, timeout: this.timeout, maxBuffer: 10 * 1024 * 1024 }, (error, stdout, stderr) => {
+                const exitCode = !error ? 0 : typeof error.code === 'number' ? error.code : -1;
+                resolve({ exitCode, stdout: stdout || '', stderr: stderr || '' });
+            });
+        });
+    }
+}
+
+module.exports = ValidationService;
@@ -0,0 +1,232 @@
+const fs = require('fs');
+const path = require('path');
+const { execFile } = require('child_process');
+const { decodePng, encodePng } = require('../utils/png');
+const { compareImages } = require('../utils/imageDiff');
+const { removeStaleFiles, removeStaleDirs } = require('../utils/scratchFiles');
+
+// The plugin exports the context image at 1.5x; the widget is rendered at the same scale
+const DEFAULT_PIXEL_RATIO = 1.5;
+const DEFAULT_TARGET = 0.95;
+const MAX_REFINE_ROUNDS = 3;
+const GOLDEN_KEY = 'max_compute_visual';
+
+/**
+ * Renders generated widgets with a golden test inside the connected project
+ * (`flutter test --update-goldens`) and pixel-diffs the result against the Figma
+ * screenshot. Differences can be sent back to the model for refinement.
+ */
+class VisualService {
+    constructor(options = {}) {
+        this.flutterPath = options.flutterPath || process.env.FLUTTER_PATH || 'flutter';
+        this.uploadsDir = options.uploadsDir || path.join(__dirname, '../../uploads');
+        this.timeout = options.timeout || 300000;
+        this.sdkCheck = null;
+    }
+
+    /**
+     * True when the Flutter SDK can be run (checked once)
+     */
+    isSdkAvailable() {
+        if (!this.sdkCheck) {
+            this.sdkCheck = this._run(['--version'], process.cwd()).then(({ exitCode }) => {
+                console.log(`[VisualService] Flutter SDK ${exitCode === 0 ? 'found' : 'not found'} (${this.flutterPath})`);
+                return exitCode === 0;
+            });
+        }
+        return this.sdkCheck;
+    }
+
+    /**
+     * @param {string} code - Generated Dart source
+     * @param {Object} target
+     * @param {string} target.projectPath - Connected Flutter project with resolved packages
+     * @param {string} target.contextImage - Filename of the uploaded Figma screenshot
+     * @param {number} target.width - Frame width in logical pixels
+     * @param {number} target.height - Frame height in logical pixels
+     * @param {Object[]} target.companions - [{ fileName, content }] the widget imports from its folder
+     * @returns {Promise<Object>} { similarity, mismatchedPixels, totalPixels, sizeMatches, regions, heatmap }
+     *   with regions in logical pixels and heatmap as base64 PNG, or { skipped: reason } when the
+     *   check cannot run here
+     */
+    async verify(code, { projectPath, contextImage, width, height, companions = [] }) {
+        try {
+            if (!projectPath) return { skipped: 'No Flutter project is connected.' };
+            if (!contextImage) return { skipped: 'The frame has no context image.' };
+            if (!(width > 0 && height > 0)) return { skipped: 'The frame has no size.' };
+            if (!fs.existsSync(path.join(projectPath, '.dart_tool', 'package_config.json'))) {
+                return { skipped: 'Run `flutter pub get` in the project first.' };
+            }
+            if (!await this.isSdkAvailable()) return { skipped: 'Flutter SDK not found.' };
+
+            const expected = decodePng(await fs.promises.readFile(path.join(this.uploadsDir, path.basename(contextImage))));
+            const pixelRatio = Math.round(expected.width / width * 100) / 100 || DEFAULT_PIXEL_RATIO;
+            const rendered = await this._render(code, projectPath, { width, height, pixelRatio, companions });
+            if (rendered.skipped) return rendered;
+
+            const comparison = compareImages(expected, decodePng(rendered.png));
+            const toLogical = value => Math.round(value / pixelRatio);
+            console.log(`[VisualService] Similarity ${(comparison.similarity * 100).toFixed(1)}%`);
+            return {
+                similarity: comparison.similarity,
+                mismatchedPixels: comparison.mismatchedPixels,
+                totalPixels: comparison.totalPixels,
+                sizeMatches: comparison.sizeMatches,
+                regions: comparison.regions.map(region => ({
+                    x: toLogical(region.x), y: toLogical(region.y), width: toLogical(region.width), height: toLogical(region.height), mismatch: region.mismatch,
+                })),
+                heatmap: encodePng(comparison.heatmap).toString('base64'),
+            };
+        } catch (error) {
+            console.error('Visual Check Error:', error);
+            throw error;
+        }
+    }
+
+    /**
+     * Verify, then hand the differences to `refine` while the similarity is below the target.
+     * A refined version is only kept when it scores higher than the one before.
+     * @param {Object} options
+     * @param {Function} options.refine - async (code, visual) => code; omit to only verify
+     * @param {number} options.maxRounds - Refinement rounds (default 0, at most 3)
+     * @param {number} options.target - Similarity (0-1) that needs no refinement (default 0.95)
+     * @param {Function} options.onProgress - Called with a status message before each round
+     * @returns {Promise<{code: string, visual: Object}>} visual also has refineRounds
+     */
+    async verifyAndRefine(code, { refine = null, maxRounds = 0, target = DEFAULT_TARGET, onProgress = () => { }, ...frame } = {}) {
+        const rounds = Math.max(0, Math.min(MAX_REFINE_ROUNDS, maxRounds));
+        let best = { code, visual: await this.verify(code, frame) };
+        let refineRounds = 0;
+
+        while (refine && refineRounds < rounds && best.visual.similarity !== undefined && best.visual.similarity < target) {
+            refineRounds++;
+            onProgress(`Refining visual differences, round ${refineRounds}/${rounds}...`);
+            console.log(`[VisualService] Refine round ${refineRounds}: ${(best.visual.similarity * 100).toFixed(1)}% similar`);
+
+            const refined = await refine(best.code, best.visual);
+            const visual = await this.verify(refined, frame);
+            if (visual.similarity === undefined || visual.similarity <= best.visual.similarity) break;
+            best = { code: refined, visual };
+        }
+
+        return { code: best.code, visual: { ...best.visual, refineRounds } };
+    }
+
+    /**
+     * Write the widget next to the generated screens and a golden test rendering it at the
+     * frame's size, run it, and read back the PNG it wrote. The widget and its companions go into
+     * a directory of this check's own, so concurrent checks never share a companion. The files are
+     * removed afterwards; ones an interrupted check left behind are removed once they outlive the timeout.
+     * @private
+     */
+    async _render(code, projectPath, { width, height, pixelRatio, companions = [] }) {
+        const className = (code.match(/class\s+(\w+)\s+extends\s+(?:State(?:less|ful)|ConsumerStateful)Widget\b/) || [])[1];
+        if (!className) return { skipped: 'No widget class found in the generated code.' };
+
+        const pubspec = await fs.promises.readFile(path.join(projectPath, 'pubspec.yaml'), 'utf8');
+        const packageName = (pubspec.match(/^name:\s*([\w]+)/m) || [])[1];
+        if (!packageName) return { skipped: 'pubspec.yaml has no package name.' };
+
+        const id = `visual_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`;
+        const featuresDir = path.join(projectPath, 'lib', 'features');
+        const widgetDir = path.join(featuresDir, `.max_compute_${id}`);
+        const testDir = path.join(projectPath, 'test', '.max_compute_visual');
+        const widgetFile = path.join(widgetDir, `${id}.dart`);
+        const testFile = path.join(testDir, `${id}_test.dart`);
+        const goldenFile = path.join(testDir, `${id}.png`);
+        await removeStaleDirs(featuresDir, '.max_compute_visual', this.timeout);
+        await fs.promises.mkdir(widgetDir, { recursive: true });
+        await fs.promises.mkdir(testDir, { recursive: true });
+        await removeStaleFiles(testDir, this.timeout);
+
+        try {
+            await fs.promises.writeFile(widgetFile, code, 'utf8');
+            // Same names as on save so the widget's imports resolve
+            for (const companion of companions) {
+                await fs.promises.writeFile(path.join(widgetDir, path.basename(companion.fileName)), companion.content, 'utf8');
+            }
+            const riverpod = /\bConsumer(?:Stateful)?Widget\b/.test(code);
+            const localized = /\bAppLocalizations\.of\(/.test(code);
+            await fs.promises.writeFile(testFile, this._buildHarness({ packageName, id, className, width, height, pixelRatio, riverpod, localized }), 'utf8');
+
+            // Layout overflow fails the test but the golden is still written, so only its absence matters
+            const result = await this._run(['test', '--no-pub', '--update-goldens', testFile], projectPath);
+            if (!fs.existsSync(goldenFile)) {
+                const reason = `${result.stdout}\n${result.stderr}`.split('\n').map(line => line.trim()).filter(Boolean).slice(-3).join(' ');
+                return { skipped: `Rendering failed: ${reason || `flutter test exited with ${result.exitCode}`}` };
+            }
+            return { png: await fs.promises.readFile(goldenFile) };
+        } finally {
+            await fs.promises.rm(widgetDir, { recursive: true, force: true });
+            await Promise.all([testFile, goldenFile].map(file => fs.promises.rm(file, { force: true })));
+            await fs.promises.rmdir(testDir).catch(() => { }); // Left in place while other checks run
+        }
+    }
+
+    /**
+     * Golden test for one widget. Flutter tests draw text in a placeholder font,
+     * so text shows up as blocks of the right size and color. Riverpod widgets
+     * get the ProviderScope they need to build, and localized ones the
+     * AppLocalizations delegates (rendered in the template language).
+     * @private
+     */
+    _buildHarness({ packageName, id, className, width, height, pixelRatio, riverpod = false, localized = false }) {
+        const imports = [
+            "import 'package:flutter/material.dart';",
+            riverpod && "import 'package:flutter_riverpod/flutter_riverpod.dart';",
+            "import 'package:flutter_test/flutter_test.dart';",
+            `import 'package:${packageName}/features/.max_compute_${id}/${id}.dart';`,
+            localized && `import 'package:${packageName}/l10n/app_localizations.dart';`,
+        ].filter(Boolean);
+        const delegates = localized
+            ? `
+        localizationsDelegates: AppLocalizations.localizationsDelegates,
+        supportedLocales: AppLocalizations.supportedLocales,`
+            : '';
+        const app = `MaterialApp(
+        debugShowCheckedModeBanner: false,${delegates}
+        home: Material(
+          child: Align(
+            alignment: Alignment.topLeft,
+            child: RepaintBoundary(
+              key: const ValueKey('${GOLDEN_KEY}'),
+              child: SizedBox(width: ${width}, height: ${height}, child: ${className}()),
+            ),
+          ),
+        ),
+      )`;
+
+        return `${imports.join('\n')}
+
+// Written by Max Compute for a visual check and deleted when it finishes.
+void main() {
+  testWidgets('${className} matches its Figma frame', (tester) async {
+    tester.view.physicalSize = const Size(${width * pixelRatio}, ${height * pixelRatio});
+    tester.view.devicePixelRatio = ${pixelRatio};
+    addTearDown(tester.view.reset);
+
+    await tester.pumpWidget(
+      ${riverpod ? `ProviderScope(child: ${app})` : app},
+    );
+    await tester.pump(const Duration(milliseconds: 500));
+    await expectLater(find.byKey(const ValueKey('${GOLDEN_KEY}')), matchesGoldenFile('${id}.png'));
+  });
+}
+`;
+    }
+
+    /**
+     * Run the flutter executable; never rejects
+     * @private
+     */
+    _run(args, cwd) {
+        return new Promise(resolve => {
+            execFile(this.flutterPath, args, { cwd, timeout: this.timeout, maxBuffer: 10 * 1024 * 1024 }, (error, stdout, stderr) => {
+                const exitCode = !error ? 0 : typeof error.code === 'number' ? error.code : -1;
+                resolve({ exitCode, stdout: stdout || '', stderr: stderr || '' });
+            });
+        });
+    }
+}
+
+module.exports = VisualService;
@@ -0,0 +1,152 @@
+/**
+ * Accessibility helpers: the label, hint, heading level and decorative flag designers set on
+ * a node (serialized by the plugin as `accessibility`), and the Semantics, ExcludeSemantics,
+ * MergeSemantics and Tooltip wrappers they become.
+ */
+
+const { call, raw, str, render } = require('./dartBuilder');
+const { tapReaction } = require('./navigation');
+
+const NOTE_PATTERN = /^(label|hint|heading|decorative)\s*(?::\s*(.*))?$/i;
+
+/**
+ * "label: Close menu", "hint: ...", "heading: 2" and "decorative" notes, one per line, as the
+ * plugin reads them from component descriptions; other lines are ignored
+ * @returns {Object} { label, hint, headingLevel, excluded } with only the notes found
+ */
+function parseNotes(text) {
+    const notes = {};
+    String(text || '').split(/[\n;]/).forEach(line => {
+        const match = line.trim().match(NOTE_PATTERN);
+        if (!match) return;
+        const key = match[1].toLowerCase();
+        const value = (match[2] || '').trim();
+        if (key === 'decorative') {
+            notes.excluded = !/^(false|no)$/i.test(value);
+        } else if (key === 'heading') {
+            const level = parseInt(value, 10);
+            if (level >= 1 && level <= 6) notes.headingLevel = level;
+        } else if (value) {
+            notes[key] = value;
+        }
+    });
+    return notes;
+}
+
+/**
+ * Semantics of one node, or null when it has none of its own. Nodes the plugin guessed are
+ * decorative (backgrounds, dividers, overlays) are only excluded when they hold no text, so a
+ * "Background" frame around a screen's content stays readable; a designer's note always wins.
+ * @param {Object} node - SerializedNode
+ * @param {Object} entry - Shared widget the node is an instance of; the notes of its component's
+ *   description are already applied inside that widget, so only the instance's own are kept
+ * @returns {{label: string|null, hint: string|null, headingLevel: number|null, excluded: boolean}|null}
+ */
+function semanticsOf(node, entry = null) {
+    const own = { ...(node.accessibility || {}) };
+    if (entry) {
+        const inherited = parseNotes(entry.description);
+        Object.keys(inherited).forEach(key => {
+            if (own[key] === inherited[key]) delete own[key];
+        });
+    }
+
+    const guessed = !!(node.semanticHints && node.semanticHints.isDecorative) && !hasText(node);
+    const semantics = {
+        label: own.label || null,
+        hint: own.hint || null,
+        headingLevel: own.headingLevel >= 1 && own.headingLevel <= 6 ? own.headingLevel : null,
+        excluded: typeof own.excluded === 'boolean' ? own.excluded : guessed,
+    };
+    return semantics.label || semantics.hint || semantics.headingLevel || semantics.excluded ? semantics : null;
+}
+
+/**
+ * Wrap a widget in its semantics. Tapped widgets are announced once as a button
+ * (`MergeSemantics` + `Semantics(button: true)`), and tapped widgets without text show
+ * their label in a `Tooltip`. Decorative widgets that do nothing on tap are excluded.
+ * @param {Object} widget - dartBuilder expression
+ * @param {Object|null} semantics - Output of semanticsOf
+ * @param {Object} options
+ * @param {boolean} options.tapped - The widget has a tap handler
+ * @param {boolean} options.iconOnly - The widget shows no text
+ * @param {boolean} options.image - The widget is an image or icon
+ */
+function applySemantics(widget, semantics, { tapped = false, iconOnly = false, image = false } = {}) {
+    const { label = null, hint = null, headingLevel = null, excluded = false } = semantics || {};
+    if (excluded && !tapped) return call('ExcludeSemantics', { child: widget });
+    if (!tapped && !label && !hint && !headingLevel) return widget;
+
+    let result = call('Semantics', {
+        label: label ? str(label) : undefined,
+        hint: hint ? str(hint) : undefined,
+        header: headingLevel ? raw('true') : undefined,
+        headingLevel: headingLevel ? raw(String(headingLevel)) : undefined,
+        button: tapped ? raw('true') : undefined,
+        image: image && !tapped && label ? raw('true') : undefined,
+        child: widget,
+    });
+    if (!tapped) return result;
+
+    // One announcement for the control instead of one per text inside it
+    result = call('MergeSemantics', { child: result });
+    if (iconOnly && label) {
+        // The Semantics label is already read out; the tooltip is for sighted users
+        result = call('Tooltip', { message: str(label), excludeFromSemantics: raw('true'), child: result });
+    }
+    return result;
+}
+
+/**
+ * True when a node shows text: a visible text layer in it or below it
+ */
+function hasText(node) {
+    if (!node || node.visible === false) return false;
+    if (node.type === 'TEXT') return !!(node.text && node.text.characters && node.text.characters.trim());
+    return (node.children || []).some(hasText);
+}
+
+/**
+ * Prompt section listing the wrappers each annotated or tapped layer needs, or '' when
+ * there are none
+ * @param {Object[]} roots - SerializedNode frames
+ * @param {Object} options
+ * @param {Object} options.componentIndex - Optional shared widget index (see utils/componentManifest)
+ */
+function describeAccessibility(roots, { componentIndex = null } = {}) {
+    const lines = [];
+    const walk = node => {
+        if (!node || node.visible === false) return;
+        const entry = node.type === 'INSTANCE' && componentIndex && node.metadata
+            ? componentIndex.lookup[node.metadata.mainComponentId] || null
+            : null;
+        const semantics = semanticsOf(node, entry);
+        const tapped = !!tapReaction(node);
+        if (semantics || tapped) {
+            const wrapper = applySemantics(raw('…'), semantics, { tapped, iconOnly: !hasText(node), image: isImage(node) });
+            lines.push(`- ${node.id} "${node.name}": \`${render(wrapper).replace(/\s*\n\s*/g, ' ').replace(/, \)/g, ')')}\``);
+        }
+        // Excluded subtrees are not read out, and shared widgets carry their own semantics
+        if ((semantics && semantics.excluded && !tapped) || entry) return;
+        (node.children || []).forEach(walk);
+    };
+    roots.forEach(walk);
+    if (lines.length === 0) return '';
+
+    return [
+        '## ACCESSIBILITY',
+        'Wrap these layers (outside any GestureDetector) as shown, with the listed labels and hints as written; keep tap targets at least 48x48:',
+        ...lines,
+    ].join('\n');
+}
+
+/**
+ * Images, icons and avatars, whose label is announced as an image
+ */
+function isImage(node) {
+    const role = node.semanticHints && node.semanticHints.likelyRole;
+    return role === 'image' || role === 'icon' || role === 'avatar'
+        || ((node.style && node.style.fills) || []).some(paint => paint && paint.type === 'IMAGE' && paint.visible !== false);
+}
+
+module.exports = { parseNotes, semanticsOf, applySemantics, hasText, describeAccessibility, isImage };
@@ -0,0 +1,42 @@
+/**
+ * Breakpoints for responsive screens generated from several frames of the same design
+ * (e.g. Mobile / Tablet / Desktop). Each layout applies from its minimum width upwards.
+ */
+
+const BREAKPOINTS = {
+    mobile: 0,
+    tablet: 600,
+    desktop: 1024,
+};
+
+/**
+ * Validate and sort breakpoint variants by minimum width
+ * @param {Object[]} variants - [{ name: 'mobile'|'tablet'|'desktop', figmaData, contextImage? }]
+ * @returns {Object[]} [{ name, minWidth, figmaData, contextImage }], smallest first
+ * @throws {Error} When a name is unknown or repeated, a frame is missing, or fewer than two are given
+ */
+function normalizeBreakpoints(variants) {
+    if (!Array.isArray(variants) || variants.length < 2) {
+        throw new Error('Responsive generation needs at least two breakpoint frames.');
+    }
+
+    const seen = new Set();
+    return variants
+        .map(variant => {
+            const name = variant && variant.name;
+            if (BREAKPOINTS[name] === undefined) {
+                throw new Error(`Unknown breakpoint "${name}". Use one of: ${Object.keys(BREAKPOINTS).join(', ')}.`);
+            }
+            if (seen.has(name)) {
+                throw new Error(`Breakpoint "${name}" is assigned to more than one frame.`);
+            }
+            if (!variant.figmaData) {
+                throw new Error(`Missing figmaData for breakpoint "${name}".`);
+            }
+            seen.add(name);
+            return { name, minWidth: BREAKPOINTS[name], figmaData: variant.figmaData, contextImage: variant.contextImage || null };
+        })
+        .sort((a, b) => a.minWidth - b.minWidth);
+}
+
+module.exports = { BREAKPOINTS, normalizeBreakpoints };
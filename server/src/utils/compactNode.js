@@ -0,0 +1,222 @@
+/**
+ * Compact wire format of SerializedNode trees for model prompts. Defaults, nulls and fields
+ * only the plugin uses are left out, colors become hex strings and numbers keep at most
+ * 2 decimals. Hidden layers and decorative ones without text are pruned, and repeated
+ * instances of a component only list what differs from the first one.
+ */
+
+const { hasText } = require('./accessibility');
+
+// Rough size of model input: about 4 characters of JSON or English per token
+const CHARS_PER_TOKEN = 4;
+
+// Field values that are the same as leaving the field out
+const DEFAULTS = {
+    visible: true,
+    opacity: 1,
+    rotation: 0,
+    blendMode: ['NORMAL', 'PASS_THROUGH'],
+    layoutMode: 'NONE',
+    layoutPositioning: 'AUTO',
+    layoutGrow: 0,
+    layoutAlign: 'INHERIT',
+    layoutWrap: 'NO_WRAP',
+    primaryAxisAlignItems: 'MIN',
+    counterAxisAlignItems: 'MIN',
+    itemSpacing: 0,
+    spread: 0,
+    textDecoration: 'NONE',
+    textCase: 'ORIGINAL',
+    textTruncation: 'DISABLED',
+    paragraphSpacing: 0,
+    paragraphIndent: 0,
+    isComponent: false,
+    isMask: false,
+    clipsContent: false,
+};
+
+// Fields the plugin and the rule-based generator use, but that tell a model nothing
+const DROPPED = ['visualContext', 'depth', 'siblingIndex', 'totalSiblings', 'confidence', 'isDecorative', 'start', 'end'];
+
+// Token references are only kept when the project has a token for them (see utils/designTokens)
+const TOKEN_REFERENCES = ['fillStyleId', 'strokeStyleId', 'effectStyleId', 'textStyleId', 'variableId'];
+
+/**
+ * Compact copy of a SerializedNode tree
+ * @param {Object} node - SerializedNode
+ * @param {Object} options
+ * @param {Object} options.tokenIndex - Optional design token index; style and variable IDs
+ *   outside it are dropped
+ * @returns {Object|null} null when the node itself is pruned
+ */
+function compactNode(node, { tokenIndex = null } = {}) {
+    // Instances of each component that are listed in full, one per shape
+    const firstInstances = new Map();
+
+    const compactTree = (current, parent) => {
+        if (!current || current.visible === false) return null;
+        const decorative = current.semanticHints && current.semanticHints.isDecorative;
+        if (parent && decorative && !hasText(current) && !current.reactions && !current.accessibility) return null;
+
+        const result = {};
+        Object.keys(current).forEach(key => {
+            if (key === 'children') return;
+            const value = compactValue(key, current[key], tokenIndex);
+            if (value !== undefined) result[key] = value;
+        });
+        if (result.layout) trimLayout(result.layout, parent);
+
+        const children = (current.children || []).map(child => compactTree(child, current)).filter(Boolean);
+        if (children.length > 0) result.children = children;
+
+        const componentId = current.type === 'INSTANCE' && current.metadata && current.metadata.mainComponentId;
+        if (!componentId) return result;
+        const listed = firstInstances.get(componentId) || [];
+        const first = listed.find(candidate => shapeOf(candidate) === shapeOf(result));
+        if (first) return collapseInstance(result, first);
+        firstInstances.set(componentId, [...listed, result]);
+        return result;
+    };
+
+    return compactTree(node, null);
+}
+
+/**
+ * @private
+ */
+function compactValue(key, value, tokenIndex) {
+    if (value === null || value === undefined || DROPPED.includes(key)) return undefined;
+    if (TOKEN_REFERENCES.includes(key) && !(tokenIndex && tokenIndex.lookup[value])) return undefined;
+    if (isDefault(key, value)) return undefined;
+
+    if (typeof value === 'number') return round(value);
+    if (Array.isArray(value)) {
+        // Hidden paints and effects draw nothing
+        const items = value
+            .filter(item => !(item && typeof item === 'object' && item.visible === false))
+            .map(item => compactValue(null, item, tokenIndex))
+            .filter(item => item !== undefined);
+        return items.length > 0 ? items : undefined;
+    }
+    if (typeof value !== 'object') return value;
+    if (isColor(value)) return hexColor(value);
+
+    const result = {};
+    Object.keys(value).forEach(field => {
+        const compacted = compactValue(field, value[field], tokenIndex);
+        if (compacted !== undefined) result[field] = compacted;
+    });
+    return Object.keys(result).length > 0 ? result : undefined;
+}
+
+/**
+ * Positions and constraints only matter outside auto layout flow, and zero padding is no padding
+ * @private
+ */
+function trimLayout(layout, parent) {
+    const parentMode = parent && parent.layout ? parent.layout.layoutMode : null;
+    const inFlow = layout.layoutPositioning !== 'ABSOLUTE' && ['HORIZONTAL', 'VERTICAL', 'GRID'].includes(parentMode);
+    if (!parent || inFlow) {
+        delete layout.x;
+        delete layout.y;
+        delete layout.constraints;
+    }
+    if (layout.constraints && layout.constraints.horizontal === 'MIN' && layout.constraints.vertical === 'MIN') {
+        delete layout.constraints;
+    }
+    if (layout.padding && Object.keys(layout.padding).every(side => !layout.padding[side])) {
+        delete layout.padding;
+    }
+}
+
+/**
+ * A later instance of a component as `sameAs` an earlier one of the same shape, with its
+ * own position, size, texts and component properties
+ * @private
+ */
+function collapseInstance(instance, first) {
+    const collapsed = { id: instance.id, name: instance.name, type: instance.type, sameAs: first.id };
+    const layout = {};
+    Object.keys(instance.layout || {}).forEach(key => {
+        if (JSON.stringify(instance.layout[key]) !== JSON.stringify(first.layout[key])) layout[key] = instance.layout[key];
+    });
+    if (Object.keys(layout).length > 0) collapsed.layout = layout;
+
+    const texts = textsOf(instance);
+    if (JSON.stringify(texts) !== JSON.stringify(textsOf(first))) collapsed.texts = texts;
+    const properties = instance.metadata.componentProperties;
+    if (properties && JSON.stringify(properties) !== JSON.stringify(first.metadata.componentProperties)) {
+        collapsed.componentProperties = properties;
+    }
+    return collapsed;
+}
+
+/**
+ * Everything about a compact instance except ids, its own layout values, sizes, text and
+ * component properties; sizes inside it follow from its own size and texts
+ * @private
+ */
+function shapeOf(node) {
+    return JSON.stringify(node, (key, value) => {
+        if (['id', 'name', 'x', 'y', 'width', 'height', 'characters', 'componentProperties'].includes(key)) return undefined;
+        // Which layout fields the instance has, not their values
+        if (value === node.layout) return Object.keys(value).sort();
+        return value;
+    });
+}
+
+/**
+ * @private
+ */
+function textsOf(node) {
+    const texts = [];
+    const walk = current => {
+        if (current.text && current.text.characters !== undefined) texts.push(current.text.characters);
+        (current.children || []).forEach(walk);
+    };
+    walk(node);
+    return texts;
+}
+
+/**
+ * @private
+ */
+function isDefault(key, value) {
+    if (!Object.prototype.hasOwnProperty.call(DEFAULTS, key)) return false;
+    const defaults = [].concat(DEFAULTS[key]);
+    return defaults.includes(value);
+}
+
+/**
+ * @private
+ */
+function isColor(value) {
+    return typeof value.r === 'number' && typeof value.g === 'number' && typeof value.b === 'number'
+        && Object.keys(value).every(key => ['r', 'g', 'b', 'a'].includes(key));
+}
+
+/**
+ * `{r, g, b, a}` in the 0-1 range → `#RRGGBB`, or `#RRGGBBAA` when it is not opaque
+ * @private
+ */
+function hexColor({ r, g, b, a = 1 }) {
+    const channels = a < 1 ? [r, g, b, a] : [r, g, b];
+    return `#${channels.map(channel => Math.round(Math.max(0, Math.min(1, channel)) * 255).toString(16).padStart(2, '0')).join('').toUpperCase()}`;
+}
+
+/**
+ * @private
+ */
+function round(value) {
+    const rounded = Math.round(value * 100) / 100;
+    return Object.is(rounded, -0) ? 0 : rounded;
+}
+
+/**
+ * Estimated token count of prompt text
+ */
+function estimateTokens(text) {
+    return Math.ceil(String(text || '').length / CHARS_PER_TOKEN);
+}
+
+module.exports = { compactNode, estimateTokens };
@@ -0,0 +1,144 @@
+/**
+ * Component library helpers: name the widget generated for each Figma main
+ * component, describe its constructor, and map instances back to it.
+ */
+
+const { toIdentifier } = require('./designTokens');
+
+// Generated classes must not shadow the material widgets imported next to them
+const FLUTTER_WIDGET_NAMES = new Set([
+    'AppBar', 'Badge', 'Button', 'Card', 'Checkbox', 'Chip', 'Column', 'Container', 'Divider', 'Drawer',
+    'Icon', 'Image', 'ListTile', 'Material', 'Radio', 'Row', 'Scaffold', 'Slider', 'Stack', 'Switch',
+    'Tab', 'TabBar', 'Text', 'TextField', 'Tooltip',
+]);
+
+const PROPERTY_TYPES = ['VARIANT', 'TEXT', 'BOOLEAN', 'INSTANCE_SWAP'];
+
+// Reserved inside the generated class: super.key and the build method's parameters
+const RESERVED_FIELDS = ['key', 'build', 'context'];
+
+/**
+ * "Button/Primary" → "ButtonPrimary"
+ */
+function toClassName(name, used) {
+    const id = toIdentifier(name, new Set(), 'component', 'Component');
+    let className = id.charAt(0).toUpperCase() + id.slice(1);
+    if (FLUTTER_WIDGET_NAMES.has(className)) className = `App${className}`;
+
+    let unique = className;
+    let counter = 2;
+    while (used.has(unique)) {
+        unique = `${className}${counter++}`;
+    }
+    used.add(unique);
+    return unique;
+}
+
+/**
+ * "PrimaryButton" → "primary_button.dart"
+ */
+function toFileName(className) {
+    return `${className.replace(/([a-z0-9])([A-Z])/g, '$1_$2').toLowerCase()}.dart`;
+}
+
+/**
+ * Build the manifest written next to the generated widgets
+ * @param {Object[]} components - Payload from the plugin's sync-components message
+ * @returns {Object} { version, components: [{ id, name, description, className, file, variants, properties }] }
+ */
+function buildComponentManifest(components) {
+    const classNames = new Set();
+
+    const entries = (components || []).map(component => {
+        const className = toClassName(component.name, classNames);
+        const fieldNames = new Set(RESERVED_FIELDS);
+        const definitions = component.definitions || {};
+
+        const properties = Object.entries(definitions)
+            .filter(([, definition]) => PROPERTY_TYPES.includes(definition.type))
+            .map(([key, definition]) => {
+                // Figma suffixes non-variant property keys with "#<id>"
+                const name = toIdentifier(key.split('#')[0], fieldNames, 'property', 'Value');
+                const property = { key, name, type: definition.type, defaultValue: definition.defaultValue };
+
+                if (definition.type === 'VARIANT') {
+                    const valueNames = new Set();
+                    property.enumName = `${className}${name.charAt(0).toUpperCase()}${name.slice(1)}`;
+                    property.values = {};
+                    (definition.variantOptions || [definition.defaultValue]).forEach(option => {
+                        property.values[option] = toIdentifier(option, valueNames, 'value', 'Variant');
+                    });
+                }
+                return property;
+            });
+
+        const variants = {};
+        if (component.data && component.data.type === 'COMPONENT_SET') {
+            (component.data.children || []).forEach(variant => {
+                variants[variant.id] = (variant.metadata && variant.metadata.variantProperties) || {};
+            });
+        }
+
+        return {
+            id: component.id,
+            name: component.name,
+            description: component.description || '',
+            className,
+            file: toFileName(className),
+            variants,
+            properties,
+        };
+    });
+
+    return { version: 1, components: entries };
+}
+
+/**
+ * Index a manifest by main component ID and by variant ID
+ * @returns {Object} { components, lookup: { componentId: entry } }
+ */
+function buildComponentIndex(manifest) {
+    const index = { components: [], lookup: {} };
+    if (!manifest || !Array.isArray(manifest.components)) return index;
+
+    manifest.components.forEach(entry => {
+        index.components.push(entry);
+        index.lookup[entry.id] = entry;
+        Object.keys(entry.variants || {}).forEach(variantId => {
+            index.lookup[variantId] = entry;
+        });
+    });
+    return index;
+}
+
+/**
+ * Dart type of a component property field
+ */
+function propertyType(property) {
+    if (property.type === 'TEXT') return 'String';
+    if (property.type === 'BOOLEAN') return 'bool';
+    if (property.type === 'INSTANCE_SWAP') return 'Widget?';
+    return property.enumName;
+}
+
+/**
+ * Markdown list of shared widgets for LLM prompts
+ */
+function describeComponents(index, widgetsImportPath = '../../shared/widgets') {
+    if (!index || index.components.length === 0) return '';
+
+    const lines = index.components.map(entry => {
+        const ids = [entry.id, ...Object.keys(entry.variants || {})].map(id => `\`${id}\``).join(', ');
+        const params = entry.properties.map(property => {
+            const values = property.values ? ` (${Object.values(property.values).map(v => `${property.enumName}.${v}`).join(', ')})` : '';
+            return `\`${propertyType(property)} ${property.name}\`${values}`;
+        });
+        return `- \`${entry.className}\` in \`${widgetsImportPath}/${entry.file}\` — component "${entry.name}", IDs ${ids}${params.length > 0 ? `; parameters: ${params.join(', ')}` : ''}`;
+    });
+
+    return `## SHARED WIDGETS
+The project has one widget per Figma main component in \`lib/shared/widgets/\`. When a node's \`metadata.mainComponentId\` matches one of the IDs below, call the widget instead of rebuilding its tree, passing \`metadata.componentProperties\` as constructor arguments:
+${lines.join('\n')}`;
+}
+
+module.exports = { buildComponentManifest, buildComponentIndex, describeComponents, propertyType };
@@ -0,0 +1,161 @@
+/**
+ * Small helpers for building Dart expressions and printing them in a
+ * dart format-like layout (one named argument per line, trailing commas).
+ */
+
+const INDENT = '  ';
+const INLINE_LIMIT = 60;
+
+/**
+ * Build a constructor/function call expression
+ * @param {string} name - e.g. 'Row', 'EdgeInsets.only'
+ * @param {Object} named - Named arguments; undefined/null values are dropped
+ * @param {Array} positional - Positional arguments rendered before named ones
+ */
+function call(name, named = {}, positional = []) {
+    const args = [];
+    positional.forEach(value => {
+        if (value !== undefined && value !== null) args.push({ value });
+    });
+    Object.entries(named).forEach(([key, value]) => {
+        if (value !== undefined && value !== null) args.push({ key, value });
+    });
+    return { kind: 'call', name, args };
+}
+
+/**
+ * Build a list literal, optionally typed (e.g. <Widget>[...])
+ */
+function list(items, type = null) {
+    return { kind: 'list', items: items.filter(item => item !== undefined && item !== null), type };
+}
+
+/**
+ * Mark a piece of Dart source as-is (e.g. `double.infinity`)
+ */
+function raw(source) {
+    return { kind: 'raw', source };
+}
+
+/**
+ * Binary expression, e.g. `icon ?? const HomeIcon()`
+ */
+function binary(left, operator, right) {
+    return { kind: 'binary', left, operator, right };
+}
+
+/**
+ * Arrow function, e.g. `() => context.go('/home')` or `(context) => const CartSheet()`
+ * @param {string} params - Parameter list without parentheses
+ * @param {Object} body - Returned expression
+ * @param {string[]} statements - Statements run before returning body; makes it a block function
+ */
+function closure(params, body, statements = []) {
+    return { kind: 'closure', params, body, statements };
+}
+
+/**
+ * Collection for element of a list literal, e.g. `for (final item in _items) Text(item.title)`
+ */
+function collectionFor(variable, iterable, body) {
+    return { kind: 'for', variable, iterable, body };
+}
+
+/**
+ * Escape a JS string into a Dart string literal
+ */
+function str(value) {
+    const text = String(value);
+    // Prefer double quotes when that avoids escaping apostrophes, as dart format does
+    const quote = text.includes("'") && !text.includes('"') ? '"' : "'";
+    const escaped = text
+        .replace(/\\/g, '\\\\')
+        .replace(new RegExp(quote, 'g'), `\\${quote}`)
+        .replace(/\$/g, '\\$')
+        .replace(/\r/g, '')
+        .replace(/\n/g, '\\n');
+    return raw(`${quote}${escaped}${quote}`);
+}
+
+/**
+ * Format a number for Dart source: at most 2 decimals, no trailing zeros
+ */
+function num(value) {
+    const rounded = Math.round(Number(value) * 100) / 100;
+    return raw(Object.is(rounded, -0) ? '0' : String(rounded));
+}
+
+/**
+ * Convert a Figma color ({r, g, b} in 0-1 range) and opacity to `Color(0xAARRGGBB)`
+ */
+function color(rgb, opacity = 1) {
+    const alpha = (rgb.a !== undefined ? rgb.a : 1) * (opacity !== undefined ? opacity : 1);
+    const hex = [alpha, rgb.r, rgb.g, rgb.b]
+        .map(channel => Math.round(Math.max(0, Math.min(1, channel)) * 255).toString(16).padStart(2, '0'))
+        .join('')
+        .toUpperCase();
+    return raw(`Color(0x${hex})`);
+}
+
+function isInlineable(expr) {
+    if (typeof expr === 'string' || expr.kind === 'raw') return true;
+    if (expr.kind === 'call') return expr.args.every(arg => isInlineable(arg.value));
+    if (expr.kind === 'binary') return isInlineable(expr.left) && isInlineable(expr.right);
+    if (expr.kind === 'closure') return !(expr.statements && expr.statements.length) && isInlineable(expr.body);
+    return false;
+}
+
+/**
+ * Render an expression to Dart source
+ * @param {Object|string} expr
+ * @param {number} depth - Current indentation level
+ */
+function render(expr, depth = 0) {
+    if (typeof expr === 'string') return expr;
+    if (expr.kind === 'raw') return expr.source;
+    if (expr.kind === 'binary') {
+        return `${render(expr.left, depth)} ${expr.operator} ${render(expr.right, depth)}`;
+    }
+
+    const pad = INDENT.repeat(depth + 1);
+    const closePad = INDENT.repeat(depth);
+
+    if (expr.kind === 'for') {
+        return `for (final ${expr.variable} in ${render(expr.iterable, depth)})\n${pad}${render(expr.body, depth + 1)}`;
+    }
+    if (expr.kind === 'closure') {
+        if (!expr.statements || expr.statements.length === 0) {
+            return `(${expr.params}) => ${render(expr.body, depth)}`;
+        }
+        const statements = expr.statements.map(statement => `${pad}${statement}`);
+        return `(${expr.params}) {\n${statements.join('\n')}\n${pad}return ${render(expr.body, depth + 1)};\n${closePad}}`;
+    }
+
+    if (expr.kind === 'list') {
+        const prefix = expr.type ? `<${expr.type}>` : '';
+        if (expr.items.length === 0) return `${prefix}[]`;
+        if (expr.items.every(item => typeof item === 'string' || item.kind === 'raw')) {
+            const inline = `${prefix}[${expr.items.map(item => render(item)).join(', ')}]`;
+            if (inline.length <= INLINE_LIMIT) return inline;
+        }
+        const items = expr.items.map(item => `${pad}${render(item, depth + 1)},`);
+        return `${prefix}[\n${items.join('\n')}\n${closePad}]`;
+    }
+
+    if (expr.args.length === 0) return `${expr.name}()`;
+
+    const renderArg = (arg, argDepth) => {
+        const value = render(arg.value, argDepth);
+        return arg.key ? `${arg.key}: ${value}` : value;
+    };
+
+    if (isInlineable(expr)) {
+        const inline = `${expr.name}(${expr.args.map(arg => renderArg(arg, depth)).join(', ')})`;
+        if (inline.length <= INLINE_LIMIT && !inline.includes('\n')) return inline;
+    }
+
+    const args = expr.args.map(arg => `${pad}${renderArg(arg, depth + 1)},`);
+    return `${expr.name}(\n${args.join('\n')}\n${closePad})`;
+}
+
+module.exports = { call, list, raw, binary, closure, collectionFor, str, num, color, render };
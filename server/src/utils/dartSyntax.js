@@ -0,0 +1,215 @@
+/**
+ * Built-in Dart syntax check for when the Dart SDK is not installed: bracket and
+ * string balance, plus well-known symbols used without their import.
+ * Diagnostics use the same shape as the analyzer's: { severity, line, column, code, message }.
+ */
+
+const CLOSING = { ')': '(', ']': '[', '}': '{' };
+const OPENING = { '(': ')', '[': ']', '{': '}' };
+
+// Symbols generated code commonly uses, and the imports that provide them
+const KNOWN_IMPORTS = [
+    { pattern: /\b(?:StatelessWidget|StatefulWidget|BuildContext|Widget)\b/, imports: ['package:flutter/material.dart', 'package:flutter/widgets.dart', 'package:flutter/cupertino.dart'] },
+    { pattern: /\bGoogleFonts\./, imports: ['package:google_fonts/google_fonts.dart'] },
+    { pattern: /\bSvgPicture\./, imports: ['package:flutter_svg/flutter_svg.dart'] },
+    { pattern: /\b(?:ChangeNotifierProvider|Consumer<|context\.(?:watch|read)<)/, imports: ['package:provider/provider.dart', 'package:flutter_bloc/flutter_bloc.dart'] },
+    { pattern: /\b(?:ConsumerStatefulWidget|ConsumerState<|ConsumerWidget|ProviderScope|NotifierProvider<|ref\.(?:watch|read)\()/, imports: ['package:flutter_riverpod/flutter_riverpod.dart'] },
+    { pattern: /\b(?:BlocProvider|BlocBuilder<|Cubit<)/, imports: ['package:flutter_bloc/flutter_bloc.dart'] },
+    { pattern: /\b(?:GoRouter|GoRoute|context\.(?:go|push)\()/, imports: ['package:go_router/go_router.dart'] },
+];
+
+/**
+ * Blank out comments and string contents (keeping line structure and interpolations),
+ * collecting bracket and string errors on the way
+ * @returns {{masked: string, diagnostics: Object[]}}
+ */
+function scan(code) {
+    const diagnostics = [];
+    const stack = []; // { kind: 'bracket', char, line, column } | { kind: 'string', quote, raw, triple, line, column }
+    const out = [];
+    let line = 1;
+    let column = 1;
+    let i = 0;
+
+    const error = (code, message, at = { line, column }) => diagnostics.push({ severity: 'error', line: at.line, column: at.column, code, message });
+    const advance = (count, keep) => {
+        for (let k = 0; k < count && i < code.length; k++, i++) {
+            const ch = code[i];
+            out.push(ch === '\n' || keep ? ch : ' ');
+            if (ch === '\n') {
+                line++;
+                column = 1;
+            } else {
+                column++;
+            }
+        }
+    };
+
+    while (i < code.length) {
+        const top = stack[stack.length - 1];
+        const ch = code[i];
+
+        if (top && top.kind === 'string') {
+            const closing = top.triple ? top.quote.repeat(3) : top.quote;
+            if (code.startsWith(closing, i)) {
+                stack.pop();
+                advance(closing.length, true);
+            } else if (ch === '\n' && !top.triple) {
+                error('UNTERMINATED_STRING_LITERAL', 'Unterminated string literal.', top);
+                stack.pop();
+                advance(1);
+            } else if (ch === '\\' && !top.raw) {
+                advance(2);
+            } else if (ch === '$' && !top.raw && code[i + 1] === '{') {
+                stack.push({ kind: 'bracket', char: '${', line, column });
+                advance(2, true);
+            } else {
+                advance(1);
+            }
+            continue;
+        }
+
+        if (code.startsWith('//', i)) {
+            while (i < code.length && code[i] !== '\n') advance(1);
+            continue;
+        }
+
+        if (code.startsWith('/*', i)) {
+            const start = { line, column };
+            let depth = 0;
+            do {
+                if (code.startsWith('/*', i)) {
+                    depth++;
+                    advance(2);
+                } else if (code.startsWith('*/', i)) {
+                    depth--;
+                    advance(2);
+                } else {
+                    advance(1);
+                }
+            } while (depth > 0 && i < code.length);
+            if (depth > 0) error('UNTERMINATED_MULTI_LINE_COMMENT', 'Unterminated multi-line comment.', start);
+            continue;
+        }
+
+        if (ch === '"' || ch === "'" || ((ch === 'r' || ch === 'R') && (code[i + 1] === '"' || code[i + 1] === "'") && !/[\w$]/.test(code[i - 1] || ''))) {
+            const raw = ch === 'r' || ch === 'R';
+            const quote = raw ? code[i + 1] : ch;
+            const triple = code.startsWith(quote.repeat(3), i + (raw ? 1 : 0));
+            stack.push({ kind: 'string', quote, raw, triple, line, column });
+            advance((raw ? 1 : 0) + (triple ? 3 : 1), true);
+            continue;
+        }
+
+        if (OPENING[ch]) {
+            stack.push({ kind: 'bracket', char: ch, line, column });
+        } else if (CLOSING[ch]) {
+            const openerOf = entry => (entry.char === '${' ? '{' : entry.char);
+            // Nearest matching bracket within the current code context (not across a string)
+            let match = stack.length - 1;
+            while (match >= 0 && stack[match].kind === 'bracket' && openerOf(stack[match]) !== CLOSING[ch]) match--;
+
+            if (match < 0 || stack[match].kind !== 'bracket') {
+                error('UNEXPECTED_TOKEN', `Unexpected '${ch}'.`);
+            } else {
+                if (match < stack.length - 1) {
+                    const expected = openerOf(top);
+                    error('EXPECTED_TOKEN', `Expected '${OPENING[expected]}' to close '${expected}' from line ${top.line}, found '${ch}'.`);
+                }
+                stack.length = match;
+            }
+        }
+        advance(1, true);
+    }
+
+    stack.reverse().forEach(open => {
+        if (open.kind === 'string') {
+            error('UNTERMINATED_STRING_LITERAL', 'Unterminated string literal.', open);
+        } else {
+            const char = open.char === '${' ? '{' : open.char;
+            error('EXPECTED_TOKEN', `'${char}' is never closed; expected '${OPENING[char]}'.`, open);
+        }
+    });
+
+    return { masked: out.join(''), diagnostics };
+}
+
+/**
+ * Position of the first match of a pattern, 1-based
+ */
+function positionOf(text, pattern) {
+    const match = pattern.exec(text);
+    if (!match) return null;
+    const before = text.slice(0, match.index).split('\n');
+    return { line: before.length, column: before[before.length - 1].length + 1, symbol: match[0] };
+}
+
+/**
+ * @param {string} code - Dart source
+ * @param {Object} options
+ * @param {string[]} options.dependencies - Package names from pubspec.yaml (pubspecDependencies); when given,
+ *   imports of other packages are reported
+ * @returns {Object[]} Diagnostics sorted by position
+ */
+function checkDartSyntax(code, { dependencies = null } = {}) {
+    const { masked, diagnostics } = scan(code);
+    const imports = [...code.matchAll(/^\s*import\s+['"]([^'"]+)['"]/gm)].map(match => match[1]);
+
+    if (/^\s*```/m.test(code)) {
+        const at = positionOf(code, /^\s*```/m);
+        diagnostics.push({ severity: 'error', line: at.line, column: 1, code: 'MARKDOWN_FENCE', message: 'Markdown code fence left in the output.' });
+    }
+
+    KNOWN_IMPORTS.forEach(({ pattern, imports: candidates }) => {
+        const at = positionOf(masked, pattern);
+        if (at && !candidates.some(uri => imports.indexOf(uri) !== -1)) {
+            diagnostics.push({
+                severity: 'error',
+                line: at.line,
+                column: at.column,
+                code: 'UNDEFINED_IDENTIFIER',
+                message: `'${at.symbol.replace(/[.(<]+$/, '')}' is used without importing '${candidates[0]}'.`,
+            });
+        }
+    });
+
+    if (dependencies) {
+        imports.forEach(uri => {
+            const match = uri.match(/^package:([a-z0-9_]+)\//);
+            if (match && match[1] !== 'flutter' && dependencies.indexOf(match[1]) === -1) {
+                const at = positionOf(code, new RegExp(`^\\s*import\\s+['"]${uri.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}`, 'm'));
+                diagnostics.push({
+                    severity: 'error',
+                    line: at.line,
+                    column: 1,
+                    code: 'URI_DOES_NOT_EXIST',
+                    message: `Package '${match[1]}' is not a dependency in pubspec.yaml.`,
+                });
+            }
+        });
+    }
+
+    return diagnostics.sort((a, b) => a.line - b.line || a.column - b.column);
+}
+
+/**
+ * Packages a file in the project can import: the project's own name (package:<name>/ points
+ * into its lib/) and the names under dependencies / dev_dependencies in a pubspec.yaml
+ */
+function pubspecDependencies(pubspec) {
+    const names = [];
+    let inDependencies = false;
+    pubspec.split('\n').forEach(line => {
+        if (/^\S/.test(line)) {
+            inDependencies = /^(dev_)?dependencies:\s*$/.test(line);
+            const own = line.match(/^name:\s*['"]?([a-zA-Z0-9_]+)/);
+            if (own) names.push(own[1]);
+        } else if (inDependencies) {
+            const match = line.match(/^ {2}([a-zA-Z0-9_]+):/);
+            if (match) names.push(match[1]);
+        }
+    });
+    return names;
+}
+
+module.exports = { checkDartSyntax, pubspecDependencies };
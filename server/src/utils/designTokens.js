@@ -0,0 +1,159 @@
+/**
+ * Design token helpers: turn the styles and variables extracted by the plugin
+ * into Dart identifiers, and map Figma style/variable IDs to Dart references.
+ */
+
+const DART_RESERVED = new Set([
+    'abstract', 'as', 'assert', 'async', 'await', 'break', 'case', 'catch', 'class', 'const', 'continue',
+    'default', 'do', 'dynamic', 'else', 'enum', 'export', 'extends', 'external', 'factory', 'false', 'final',
+    'finally', 'for', 'get', 'if', 'implements', 'import', 'in', 'is', 'late', 'library', 'new', 'null',
+    'operator', 'part', 'required', 'rethrow', 'return', 'set', 'static', 'super', 'switch', 'this', 'throw',
+    'true', 'try', 'typedef', 'var', 'void', 'while', 'with', 'yield',
+]);
+
+/**
+ * "Brand/Primary 500" → "brandPrimary500", unique within `used`
+ * Reserved words get `reservedSuffix` appended ("default" → "defaultToken")
+ */
+function toIdentifier(name, used = new Set(), fallback = 'token', reservedSuffix = 'Token') {
+    const words = String(name).split(/[^a-zA-Z0-9]+/).filter(Boolean);
+    let id = words
+        .map((word, idx) => (idx === 0
+            ? word.charAt(0).toLowerCase() + word.slice(1)
+            : word.charAt(0).toUpperCase() + word.slice(1)))
+        .join('');
+
+    if (!id) id = fallback;
+    if (/^[0-9]/.test(id)) id = `${fallback}${id}`;
+    if (DART_RESERVED.has(id)) id = `${id}${reservedSuffix}`;
+
+    let unique = id;
+    let counter = 2;
+    while (used.has(unique)) {
+        unique = `${id}${counter++}`;
+    }
+    used.add(unique);
+    return unique;
+}
+
+/**
+ * Follow VARIABLE_ALIAS chains to a concrete value
+ */
+function resolveVariableValue(value, variablesById, depth = 0) {
+    if (!value || value.type !== 'VARIABLE_ALIAS') return value;
+    if (depth > 10) return null;
+
+    const target = variablesById[value.id];
+    if (!target) return null;
+    const next = target.valuesByMode[target.defaultModeId] !== undefined
+        ? target.valuesByMode[target.defaultModeId]
+        : Object.values(target.valuesByMode)[0];
+    return resolveVariableValue(next, variablesById, depth + 1);
+}
+
+/**
+ * Build the token index used by the theme writer and the generators
+ * @param {Object} tokens - Payload from the plugin's extract-tokens message
+ * @returns {Object} { colors, gradients, textStyles, shadows, modes, lookup }
+ */
+function buildTokenIndex(tokens) {
+    const index = { colors: [], gradients: [], textStyles: [], shadows: [], modes: [], lookup: {} };
+    if (!tokens) return index;
+
+    const colorNames = new Set();
+    const textNames = new Set();
+    const shadowNames = new Set();
+
+    // Paint styles: first visible solid → color, gradient → gradient
+    (tokens.paintStyles || []).forEach(style => {
+        const paint = (style.paints || []).find(p => p && p.visible !== false);
+        if (!paint) return;
+
+        const name = toIdentifier(style.name, colorNames, 'color');
+        if (paint.type === 'SOLID') {
+            index.colors.push({ id: style.id, name, color: paint.color, opacity: paint.opacity, description: style.description });
+            index.lookup[style.id] = { kind: 'color', ref: `AppColors.${name}` };
+        } else if (paint.type && paint.type.startsWith('GRADIENT_')) {
+            index.gradients.push({ id: style.id, name, paint, description: style.description });
+            index.lookup[style.id] = { kind: 'gradient', ref: `AppColors.${name}` };
+        }
+    });
+
+    // Color variables, with one value per mode
+    const variablesById = {};
+    (tokens.variableCollections || []).forEach(collection => {
+        (collection.variables || []).forEach(variable => {
+            variablesById[variable.id] = { ...variable, defaultModeId: collection.defaultModeId };
+        });
+    });
+
+    (tokens.variableCollections || []).forEach(collection => {
+        const modes = collection.modes || [];
+        const isModeAware = modes.length > 1;
+
+        modes.forEach(mode => {
+            if (isModeAware && !index.modes.includes(mode.name)) index.modes.push(mode.name);
+        });
+
+        (collection.variables || []).forEach(variable => {
+            if (variable.resolvedType !== 'COLOR') return;
+
+            const defaultValue = resolveVariableValue(variable.valuesByMode[collection.defaultModeId], variablesById);
+            if (!defaultValue) return;
+
+            const valuesByModeName = {};
+            modes.forEach(mode => {
+                const value = resolveVariableValue(variable.valuesByMode[mode.modeId], variablesById);
+                valuesByModeName[mode.name] = value || defaultValue;
+            });
+
+            const name = toIdentifier(variable.name, colorNames, 'color');
+            index.colors.push({
+                id: variable.id,
+                name,
+                color: defaultValue,
+                opacity: 1,
+                description: variable.description,
+                modes: isModeAware ? valuesByModeName : null,
+            });
+            index.lookup[variable.id] = {
+                kind: 'color',
+                ref: isModeAware ? `AppColorTokens.of(context).${name}` : `AppColors.${name}`,
+            };
+        });
+    });
+
+    (tokens.textStyles || []).forEach(style => {
+        const name = toIdentifier(style.name, textNames, 'text');
+        index.textStyles.push({ id: style.id, name, text: style, description: style.description });
+        index.lookup[style.id] = { kind: 'textStyle', ref: `AppTextStyles.${name}` };
+    });
+
+    (tokens.effectStyles || []).forEach(style => {
+        const shadows = (style.effects || []).filter(e => e && e.type === 'DROP_SHADOW' && e.visible !== false);
+        if (shadows.length === 0) return;
+
+        const name = toIdentifier(style.name, shadowNames, 'shadow');
+        index.shadows.push({ id: style.id, name, effects: shadows, description: style.description });
+        index.lookup[style.id] = { kind: 'shadow', ref: `AppShadows.${name}` };
+    });
+
+    return index;
+}
+
+/**
+ * Markdown table of tokens for LLM prompts
+ */
+function describeTokens(index) {
+    const entries = Object.entries(index.lookup);
+    if (entries.length === 0) return '';
+
+    const lines = entries.map(([id, token]) => `- \`${id}\` (${token.kind}) → \`${token.ref}\``);
+    return `## DESIGN TOKENS
+The project has generated theme files in \`lib/core/theme/\`. When a node's \`fillStyleId\`, \`strokeStyleId\`, \`effectStyleId\`, \`textStyleId\` or a paint's \`variableId\` matches an ID below, use the Dart reference instead of a literal value:
+${lines.join('\n')}
+
+Import them with relative paths, e.g. \`import '../../core/theme/app_colors.dart';\`.`;
+}
+
+module.exports = { toIdentifier, buildTokenIndex, describeTokens };
@@ -0,0 +1,23 @@
+/**
+ * Server-sent events over an Express response.
+ */
+
+/**
+ * Start an event stream; returns send(event, data), which JSON-encodes data
+ * and does nothing once the response has ended
+ */
+function openEventStream(res) {
+    res.writeHead(200, {
+        'Content-Type': 'text/event-stream',
+        'Cache-Control': 'no-cache',
+        Connection: 'keep-alive',
+    });
+    res.flushHeaders();
+
+    return (event, data) => {
+        if (res.writableEnded || res.destroyed) return;
+        res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+    };
+}
+
+module.exports = { openEventStream };
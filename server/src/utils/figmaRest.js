@@ -0,0 +1,676 @@
+/**
+ * Figma REST API node JSON (a GET /v1/files/:key/nodes response, a whole file or one node)
+ * → the SerializedNode tree the plugin's serializeNode sends, so exports can be converted
+ * without opening Figma. What the REST API does not return is derived the way the plugin
+ * does it: semantic hints from names and sizes, accessibility notes from names, component
+ * descriptions and `maxcompute:a11y` plugin data, positions from bounding boxes.
+ */
+
+const ACCESSIBILITY_KEY = 'maxcompute:a11y';
+const NOTE_PATTERN = /^(label|hint|heading|decorative)\s*(?::\s*(.*))?$/i;
+
+// Nodes the plugin reads auto layout, corner radius and clipping from
+const FRAME_TYPES = ['FRAME', 'COMPONENT', 'COMPONENT_SET', 'INSTANCE'];
+const CORNER_TYPES = [...FRAME_TYPES, 'RECTANGLE'];
+
+// REST constraint names → the plugin's
+const CONSTRAINTS = {
+    LEFT: 'MIN', TOP: 'MIN', RIGHT: 'MAX', BOTTOM: 'MAX', CENTER: 'CENTER',
+    LEFT_RIGHT: 'STRETCH', TOP_BOTTOM: 'STRETCH', SCALE: 'SCALE',
+};
+
+// Font style names by weight, for exports without fontStyle
+const WEIGHT_STYLES = {
+    100: 'Thin', 200: 'Extra Light', 300: 'Light', 400: 'Regular', 500: 'Medium',
+    600: 'Semi Bold', 700: 'Bold', 800: 'Extra Bold', 900: 'Black',
+};
+
+/**
+ * Pick the node to convert from an export and index everything around it
+ * @param {Object} json - /v1/files/:key/nodes response, /v1/files/:key response or a node
+ * @param {string} nodeId - Node to convert; may be left out when the export holds one node
+ *   (or one frame on its first page)
+ * @returns {{node: Object, context: Object}} context is the second argument of fromRestNode
+ */
+function selectRestNode(json, nodeId) {
+    const documents = [];
+    const components = {};
+    const componentSets = {};
+    const styles = {};
+    const collect = source => {
+        Object.assign(components, source.components);
+        Object.assign(componentSets, source.componentSets);
+        Object.assign(styles, source.styles);
+    };
+
+    if (json.nodes) {
+        Object.keys(json.nodes).forEach(id => {
+            if (!json.nodes[id]) return;
+            documents.push(json.nodes[id].document);
+            collect(json.nodes[id]);
+        });
+    } else if (json.document) {
+        documents.push(json.document);
+        collect(json);
+    } else if (json.id && json.type) {
+        documents.push(json);
+    } else {
+        throw new Error('Not a Figma REST export: expected "nodes", "document" or a node with "id" and "type".');
+    }
+
+    const nodes = new Map();
+    const parents = new Map();
+    const walk = (node, parent) => {
+        nodes.set(node.id, node);
+        if (parent) parents.set(node.id, parent);
+        (node.children || []).forEach(child => walk(child, node));
+    };
+    documents.forEach(document => walk(document, null));
+
+    let node = nodeId ? nodes.get(nodeId) : null;
+    if (nodeId && !node) {
+        throw new Error(`Node ${nodeId} is not in the export.`);
+    }
+    if (!node) {
+        const candidates = documents.length === 1 && ['DOCUMENT', 'CANVAS'].includes(documents[0].type)
+            ? topFrames(documents[0])
+            : documents;
+        if (candidates.length !== 1) {
+            const listed = candidates.map(candidate => `${candidate.id} "${candidate.name}"`).join(', ');
+            throw new Error(`The export holds ${candidates.length} frames (${listed || 'none'}); choose one by its node ID.`);
+        }
+        node = candidates[0];
+    }
+    if (['DOCUMENT', 'CANVAS'].includes(node.type)) {
+        throw new Error(`Node ${node.id} is a ${node.type.toLowerCase()}; choose a frame on it.`);
+    }
+
+    return { node, context: { nodes, parents, components, componentSets, styles } };
+}
+
+/**
+ * SerializedNode tree of a REST node
+ * @param {Object} node - REST node
+ * @param {Object} context - From selectRestNode
+ * @param {Object} options
+ * @param {Set<string>} options.svgIds - Nodes exported as SVG; like in the plugin, their
+ *   children are left out
+ * @returns {Object} SerializedNode
+ */
+function fromRestNode(node, context, { svgIds = new Set() } = {}) {
+    const serialize = (current, parent, depth, siblingIndex, totalSiblings) => {
+        const serialized = { id: current.id, name: current.name, type: current.type };
+        if (current.visible === false) {
+            serialized.visible = false;
+        }
+
+        serialized.metadata = {
+            isComponent: ['INSTANCE', 'COMPONENT', 'COMPONENT_SET'].includes(current.type),
+            depth,
+            siblingIndex,
+            totalSiblings,
+        };
+        Object.assign(serialized.metadata, componentMetadata(current, context));
+
+        const layout = extractLayout(current, parent, depth);
+        serialized.semanticHints = semanticHints(current, layout, interactionsOf(current).length > 0);
+
+        const accessibility = extractAccessibility(current, context);
+        if (accessibility) {
+            serialized.accessibility = accessibility;
+        }
+
+        const reactions = serializeReactions(interactionsOf(current), context);
+        if (reactions.length > 0) {
+            serialized.reactions = reactions;
+        }
+
+        serialized.visualContext = visualContext(current, layout);
+        serialized.layout = layout;
+        serialized.style = extractStyle(current, context);
+        if (current.type === 'TEXT') {
+            serialized.text = extractText(current, context);
+        }
+
+        if (current.children && !svgIds.has(current.id)) {
+            serialized.children = current.children.map((child, idx) => serialize(child, current, depth + 1, idx, current.children.length));
+        }
+        return serialized;
+    };
+
+    return serialize(node, context.parents.get(node.id) || null, 0, 0, 1);
+}
+
+/**
+ * Frames on a page, or on the first page of a file
+ * @private
+ */
+function topFrames(document) {
+    const page = document.type === 'DOCUMENT' ? (document.children || [])[0] : document;
+    const frames = [];
+    ((page && page.children) || []).forEach(child => {
+        if (child.type === 'SECTION') frames.push(...(child.children || []));
+        else frames.push(child);
+    });
+    return frames;
+}
+
+/**
+ * Component name, variant and property values of instances and components
+ * @private
+ */
+function componentMetadata(node, { components, componentSets }) {
+    const metadata = {};
+    if (node.type === 'INSTANCE') {
+        const component = components[node.componentId];
+        metadata.mainComponentId = node.componentId;
+        if (component) metadata.componentName = component.name;
+        metadata.componentProperties = {};
+        Object.keys(node.componentProperties || {}).forEach(key => {
+            const { type, value } = node.componentProperties[key];
+            metadata.componentProperties[key] = { type, value };
+        });
+        if (component && component.componentSetId && componentSets[component.componentSetId]) {
+            metadata.variantProperties = parseVariantName(component.name);
+        }
+    }
+    if (node.type === 'COMPONENT' && components[node.id] && components[node.id].componentSetId) {
+        metadata.variantProperties = parseVariantName(node.name);
+    }
+    if (node.componentPropertyReferences) {
+        metadata.propertyReferences = { ...node.componentPropertyReferences };
+    }
+    return metadata;
+}
+
+/**
+ * "Size=Large, State=Hover" → { Size: 'Large', State: 'Hover' }
+ * @private
+ */
+function parseVariantName(name) {
+    const properties = {};
+    name.split(',').forEach(pair => {
+        const idx = pair.indexOf('=');
+        if (idx > 0) properties[pair.slice(0, idx).trim()] = pair.slice(idx + 1).trim();
+    });
+    return properties;
+}
+
+/**
+ * Role guesses from the name and size, the same rules as the plugin's analyzeSemanticRole
+ * @private
+ */
+function semanticHints(node, { width, height }, hasReactions) {
+    const name = node.name.toLowerCase();
+    const has = (...words) => words.some(word => name.includes(word));
+    const hints = { confidence: 0 };
+
+    if (has('button', 'btn', 'cta')) {
+        Object.assign(hints, { likelyRole: 'button', isInteractive: true, confidence: 0.9 });
+    } else if (has('input', 'textfield', 'field')) {
+        Object.assign(hints, { likelyRole: 'input', isInteractive: true, confidence: 0.9 });
+    } else if (has('card')) {
+        Object.assign(hints, { likelyRole: 'card', confidence: 0.85 });
+    } else if (has('header', 'navbar', 'appbar')) {
+        Object.assign(hints, { likelyRole: 'header', confidence: 0.85 });
+    } else if (has('avatar', 'profile')) {
+        Object.assign(hints, { likelyRole: 'avatar', confidence: 0.8 });
+    } else if (has('icon') || (width === height && width <= 48)) {
+        Object.assign(hints, { likelyRole: 'icon', confidence: 0.7 });
+    } else if (has('divider', 'separator') || (height <= 2 && width > 50) || (width <= 2 && height > 50)) {
+        Object.assign(hints, { likelyRole: 'divider', isDecorative: true, confidence: 0.8 });
+    } else if (has('badge', 'tag', 'chip')) {
+        Object.assign(hints, { likelyRole: 'badge', confidence: 0.8 });
+    }
+
+    if (hasReactions) hints.isInteractive = true;
+    if (node.opacity !== undefined && node.opacity < 0.1) hints.isDecorative = true;
+    if (has('bg', 'background', 'overlay')) hints.isDecorative = true;
+    return hints;
+}
+
+/**
+ * @private
+ */
+function visualContext(node, { width, height }) {
+    const visible = paints => Array.isArray(paints) && paints.length > 0 && paints.some(paint => paint.visible !== false);
+    const opacity = node.opacity !== undefined ? node.opacity : 1;
+    return {
+        visualWeight: (Math.log(width * height + 1) / 10) * opacity,
+        hasBackground: visible(node.fills),
+        hasBorder: Array.isArray(node.strokes) && node.strokes.length > 0,
+        hasShadow: (node.effects || []).some(effect => ['DROP_SHADOW', 'INNER_SHADOW'].includes(effect.type) && effect.visible),
+    };
+}
+
+/**
+ * Size and position relative to the parent: from size and relativeTransform when the
+ * export has them (geometry=paths), otherwise from the bounding boxes
+ * @private
+ */
+function extractLayout(node, parent, depth) {
+    const box = node.absoluteBoundingBox || { x: 0, y: 0, width: 0, height: 0 };
+    const parentBox = depth > 0 && parent && parent.absoluteBoundingBox;
+    const transform = node.relativeTransform;
+
+    const layout = {
+        width: node.size ? node.size.x : box.width,
+        height: node.size ? node.size.y : box.height,
+        x: transform ? transform[0][2] : box.x - (parentBox ? parentBox.x : 0),
+        y: transform ? transform[1][2] : box.y - (parentBox ? parentBox.y : 0),
+    };
+
+    const rotation = transform
+        ? Math.atan2(-transform[1][0], transform[0][0]) * 180 / Math.PI
+        : (node.rotation || 0) * 180 / Math.PI;
+    if (Math.abs(rotation) > 1e-6) {
+        layout.rotation = Math.round(rotation * 100) / 100;
+    }
+
+    if (FRAME_TYPES.includes(node.type)) {
+        layout.layoutMode = node.layoutMode || 'NONE';
+        layout.primaryAxisSizingMode = node.primaryAxisSizingMode || 'AUTO';
+        layout.counterAxisSizingMode = node.counterAxisSizingMode || 'AUTO';
+        layout.primaryAxisAlignItems = node.primaryAxisAlignItems || 'MIN';
+        layout.counterAxisAlignItems = node.counterAxisAlignItems || 'MIN';
+        layout.itemSpacing = node.itemSpacing || 0;
+        layout.padding = {
+            top: node.paddingTop || 0,
+            right: node.paddingRight || 0,
+            bottom: node.paddingBottom || 0,
+            left: node.paddingLeft || 0,
+        };
+        layout.layoutWrap = node.layoutWrap || 'NO_WRAP';
+        if (layout.layoutWrap === 'WRAP' && typeof node.counterAxisSpacing === 'number') {
+            layout.counterAxisSpacing = node.counterAxisSpacing;
+        }
+        if (layout.layoutMode === 'GRID') {
+            ['gridRowCount', 'gridColumnCount', 'gridRowGap', 'gridColumnGap', 'gridRowSizes', 'gridColumnSizes'].forEach(key => {
+                if (node[key] !== undefined) layout[key] = node[key];
+            });
+        }
+    }
+
+    if (parent && parent.layoutMode === 'GRID') {
+        ['gridRowAnchorIndex', 'gridColumnAnchorIndex', 'gridRowSpan', 'gridColumnSpan'].forEach(key => {
+            if (node[key] !== undefined) layout[key] = node[key];
+        });
+    }
+
+    layout.layoutPositioning = node.layoutPositioning || 'AUTO';
+    layout.layoutGrow = node.layoutGrow || 0;
+    layout.layoutAlign = node.layoutAlign || 'INHERIT';
+    if (node.constraints) {
+        layout.constraints = {
+            horizontal: CONSTRAINTS[node.constraints.horizontal] || 'MIN',
+            vertical: CONSTRAINTS[node.constraints.vertical] || 'MIN',
+        };
+    }
+    ['minWidth', 'maxWidth', 'minHeight', 'maxHeight'].forEach(key => {
+        if (typeof node[key] === 'number') layout[key] = node[key];
+    });
+    return layout;
+}
+
+/**
+ * @private
+ */
+function extractStyle(node, { styles }) {
+    const style = {};
+    if (Array.isArray(node.fills)) style.fills = node.fills.map(serializePaint);
+    if (Array.isArray(node.strokes)) style.strokes = node.strokes.map(serializePaint);
+    if (typeof node.strokeWeight === 'number') style.strokeWeight = node.strokeWeight;
+    if (node.strokeAlign) style.strokeAlign = node.strokeAlign;
+    if (Array.isArray(node.effects)) style.effects = node.effects.map(serializeEffect);
+    style.opacity = node.opacity !== undefined ? node.opacity : 1;
+    style.blendMode = node.blendMode || 'PASS_THROUGH';
+    style.isMask = node.isMask === true;
+
+    const radii = node.rectangleCornerRadii;
+    if (radii && !radii.every(radius => radius === radii[0])) {
+        style.cornerRadius = { topLeft: radii[0], topRight: radii[1], bottomLeft: radii[3], bottomRight: radii[2] };
+    } else if (typeof node.cornerRadius === 'number' || radii || CORNER_TYPES.includes(node.type)) {
+        style.cornerRadius = node.cornerRadius || (radii ? radii[0] : 0);
+    }
+    if (FRAME_TYPES.includes(node.type)) style.clipsContent = node.clipsContent === true;
+
+    const references = node.styles || {};
+    if (references.fill) style.fillStyleId = styleId(references.fill, styles);
+    if (references.stroke) style.strokeStyleId = styleId(references.stroke, styles);
+    if (references.effect) style.effectStyleId = styleId(references.effect, styles);
+    return style;
+}
+
+/**
+ * The plugin API's style ID ("S:<key>,<node id>") of a REST style reference
+ * @private
+ */
+function styleId(id, styles) {
+    return styles[id] && styles[id].key ? `S:${styles[id].key},${id}` : id;
+}
+
+/**
+ * @private
+ */
+function serializePaint(paint) {
+    const opacity = paint.opacity !== undefined ? paint.opacity : 1;
+    const visible = paint.visible !== undefined ? paint.visible : true;
+    if (paint.type === 'SOLID') {
+        const { r, g, b } = paint.color;
+        const variable = paint.boundVariables && paint.boundVariables.color;
+        return { type: 'SOLID', color: { r, g, b }, opacity, visible, variableId: variable ? variable.id : undefined };
+    }
+    if (['GRADIENT_LINEAR', 'GRADIENT_RADIAL', 'GRADIENT_ANGULAR', 'GRADIENT_DIAMOND'].includes(paint.type)) {
+        return {
+            type: paint.type,
+            gradientStops: paint.gradientStops,
+            gradientTransform: gradientTransform(paint.gradientHandlePositions),
+            opacity,
+            visible,
+        };
+    }
+    if (paint.type === 'IMAGE') {
+        return { type: 'IMAGE', opacity, scaleMode: paint.scaleMode === 'STRETCH' ? 'CROP' : paint.scaleMode, visible };
+    }
+    return null;
+}
+
+/**
+ * The plugin's gradientTransform (node space → gradient space, where the gradient runs from
+ * (0, 0.5) to (1, 0.5)) from the REST handle positions: start, end and width handle
+ * @private
+ */
+function gradientTransform(handles) {
+    if (!handles || handles.length < 3) return [[1, 0, 0], [0, 1, 0]];
+    const [start, end, width] = handles;
+    // Gradient space → node space
+    const a = end.x - start.x;
+    const b = 2 * (width.x - start.x);
+    const c = start.x - (width.x - start.x);
+    const d = end.y - start.y;
+    const e = 2 * (width.y - start.y);
+    const f = start.y - (width.y - start.y);
+
+    const det = a * e - b * d;
+    if (det === 0) return [[1, 0, 0], [0, 1, 0]];
+    const round = value => Math.round(value * 1e6) / 1e6 + 0;
+    return [
+        [round(e / det), round(-b / det), round((b * f - c * e) / det)],
+        [round(-d / det), round(a / det), round((c * d - a * f) / det)],
+    ];
+}
+
+/**
+ * @private
+ */
+function serializeEffect(effect) {
+    if (effect.type === 'DROP_SHADOW' || effect.type === 'INNER_SHADOW') {
+        return {
+            type: effect.type,
+            color: effect.color,
+            offset: effect.offset,
+            radius: effect.radius,
+            spread: effect.spread || 0,
+            visible: effect.visible,
+            blendMode: effect.blendMode,
+        };
+    }
+    if (effect.type === 'LAYER_BLUR' || effect.type === 'BACKGROUND_BLUR') {
+        return { type: effect.type, radius: effect.radius, visible: effect.visible };
+    }
+    return null;
+}
+
+/**
+ * TextProps with styled segments from the character style overrides
+ * @private
+ */
+function extractText(node, context) {
+    const base = node.style || {};
+    const characters = node.characters || '';
+    const text = {
+        characters,
+        ...typeStyle(base),
+        textAlignHorizontal: base.textAlignHorizontal || 'LEFT',
+        textAlignVertical: base.textAlignVertical || 'TOP',
+        paragraphSpacing: base.paragraphSpacing || 0,
+        paragraphIndent: base.paragraphIndent || 0,
+    };
+    if (node.styles && node.styles.text) {
+        text.textStyleId = styleId(node.styles.text, context.styles);
+    }
+
+    text.textAutoResize = base.textAutoResize || 'NONE';
+    if (base.textTruncation === 'ENDING') {
+        text.textTruncation = 'ENDING';
+        if (base.maxLines) text.maxLines = base.maxLines;
+    }
+
+    const segments = styledSegments(node, context);
+    if (segments.length > 1 || segments.some(segment => segment.hyperlink || segment.listType)) {
+        text.styledSegments = segments;
+    }
+    return text;
+}
+
+/**
+ * Runs of characters with the same style override and list type
+ * @private
+ */
+function styledSegments(node, context) {
+    const characters = node.characters || '';
+    const overrides = node.characterStyleOverrides || [];
+    const table = node.styleOverrideTable || {};
+    const lineTypes = node.lineTypes || [];
+    const lineIndentations = node.lineIndentations || [];
+
+    const segments = [];
+    let line = 0;
+    let start = 0;
+    const keyAt = idx => `${overrides[idx] || 0}|${lineTypes[line] || 'NONE'}`;
+    for (let idx = 0; idx < characters.length; idx++) {
+        const key = keyAt(idx);
+        const next = idx + 1;
+        const lineEnds = characters[idx] === '\n';
+        if (lineEnds) line++;
+        if (next === characters.length || keyAt(next) !== key) {
+            const [overrideId, listType] = key.split('|');
+            const style = { ...(node.style || {}), ...(table[overrideId] || {}) };
+            const segment = {
+                characters: characters.slice(start, next),
+                start,
+                end: next,
+                ...typeStyle(style),
+                fills: (style.fills || node.fills || []).map(serializePaint),
+            };
+            if (style.hyperlink) segment.hyperlink = serializeHyperlink(style.hyperlink, context);
+            if (listType !== 'NONE') {
+                segment.listType = listType;
+                segment.indentation = lineIndentations[lineEnds ? line - 1 : line] || 0;
+            }
+            segments.push(segment);
+            start = next;
+        }
+    }
+    return segments;
+}
+
+/**
+ * Font, decoration, case, line height and letter spacing of a REST TypeStyle
+ * @private
+ */
+function typeStyle(style) {
+    const fontWeight = style.fontWeight || 400;
+    const weightStyle = WEIGHT_STYLES[Math.round(fontWeight / 100) * 100] || 'Regular';
+    const fallbackStyle = style.italic ? `${weightStyle === 'Regular' ? '' : `${weightStyle} `}Italic` : weightStyle;
+
+    let lineHeight = { unit: 'AUTO' };
+    if (style.lineHeightUnit === 'PIXELS' && style.lineHeightPx) {
+        lineHeight = { unit: 'PIXELS', value: style.lineHeightPx };
+    } else if (style.lineHeightUnit === 'FONT_SIZE_%' && style.lineHeightPercentFontSize) {
+        lineHeight = { unit: 'PERCENT', value: style.lineHeightPercentFontSize };
+    }
+
+    return {
+        fontSize: style.fontSize || 14,
+        fontName: { family: style.fontFamily || 'Inter', style: style.fontStyle || fallbackStyle },
+        fontWeight,
+        textDecoration: style.textDecoration || 'NONE',
+        textCase: style.textCase || 'ORIGINAL',
+        lineHeight,
+        letterSpacing: { unit: 'PIXELS', value: style.letterSpacing || 0 },
+    };
+}
+
+/**
+ * Link to a URL or to a node; node links name the top-level frame they point into
+ * @private
+ */
+function serializeHyperlink(hyperlink, { nodes, parents }) {
+    if (hyperlink.type === 'URL') {
+        return { type: 'URL', value: hyperlink.url };
+    }
+    const link = { type: 'NODE', value: hyperlink.nodeID };
+    let destination = nodes.get(hyperlink.nodeID);
+    while (destination && parents.has(destination.id) && !['DOCUMENT', 'CANVAS', 'SECTION'].includes(parents.get(destination.id).type)) {
+        destination = parents.get(destination.id);
+    }
+    if (destination) {
+        link.destinationId = destination.id;
+        link.destinationName = destination.name;
+    }
+    return link;
+}
+
+/**
+ * Prototype interactions (`interactions`, or `reactions` in older exports)
+ * @private
+ */
+function interactionsOf(node) {
+    return node.interactions || node.reactions || [];
+}
+
+/**
+ * One entry per navigation action, as in the plugin's serializeReactions
+ * @private
+ */
+function serializeReactions(interactions, { nodes }) {
+    const serialized = [];
+    interactions.forEach(interaction => {
+        const trigger = interaction.trigger ? interaction.trigger.type : null;
+        const actions = interaction.actions || (interaction.action ? [interaction.action] : []);
+        actions.forEach(action => {
+            if (!action) return;
+            if (action.type === 'BACK' || action.type === 'CLOSE') {
+                serialized.push({ trigger, action: action.type });
+            } else if (action.type === 'URL') {
+                serialized.push({ trigger, action: 'URL', url: action.url });
+            } else if (action.type === 'NODE' && action.destinationId) {
+                const entry = {
+                    trigger,
+                    action: action.navigation,
+                    destinationId: action.destinationId,
+                    transition: serializeTransition(action.transition),
+                };
+                const destination = nodes.get(action.destinationId);
+                if (destination) {
+                    entry.destinationName = destination.name;
+                    if (action.navigation === 'OVERLAY' && destination.overlayPositionType) {
+                        entry.overlayPosition = destination.overlayPositionType;
+                    }
+                }
+                serialized.push(entry);
+            }
+        });
+    });
+    return serialized;
+}
+
+/**
+ * @private
+ */
+function serializeTransition(transition) {
+    if (!transition) return null;
+    const easing = transition.easing || { type: 'LINEAR' };
+    const serialized = { type: transition.type, duration: transition.duration, easing: { type: easing.type } };
+    if (transition.direction) serialized.direction = transition.direction;
+    if (easing.easingFunctionCubicBezier) serialized.easing.bezier = easing.easingFunctionCubicBezier;
+    return serialized;
+}
+
+/**
+ * Annotations from the component's description, the layer name and plugin data, each
+ * overriding the one before (see the plugin's extractAccessibility)
+ * @private
+ */
+function extractAccessibility(node, { components, componentSets }) {
+    const sources = [];
+    const componentId = node.type === 'INSTANCE' ? node.componentId : node.type === 'COMPONENT' ? node.id : null;
+    if (componentId && components[componentId]) {
+        const component = components[componentId];
+        if (component.componentSetId && componentSets[component.componentSetId]) {
+            sources.push(parseAccessibilityNotes(componentSets[component.componentSetId].description || ''));
+        }
+        sources.push(parseAccessibilityNotes(component.description || ''));
+    } else if (node.type === 'COMPONENT_SET' && componentSets[node.id]) {
+        sources.push(parseAccessibilityNotes(componentSets[node.id].description || ''));
+    }
+    sources.push(accessibilityFromName(node.name));
+
+    // plugin_data exports: { <plugin id>: { <key>: <value> } }
+    Object.keys(node.pluginData || {}).forEach(pluginId => {
+        const stored = node.pluginData[pluginId][ACCESSIBILITY_KEY];
+        if (!stored) return;
+        try {
+            const data = JSON.parse(stored);
+            const props = {};
+            if (typeof data.label === 'string' && data.label) props.label = data.label;
+            if (typeof data.hint === 'string' && data.hint) props.hint = data.hint;
+            if (data.headingLevel >= 1 && data.headingLevel <= 6) props.headingLevel = data.headingLevel;
+            if (typeof data.decorative === 'boolean') props.excluded = data.decorative;
+            sources.push(props);
+        } catch (error) {
+            console.warn(`[FigmaRest] Ignoring invalid ${ACCESSIBILITY_KEY} data on "${node.name}"`);
+        }
+    });
+
+    const merged = Object.assign({}, ...sources);
+    return Object.keys(merged).length > 0 ? merged : null;
+}
+
+/**
+ * @private
+ */
+function parseAccessibilityNotes(text) {
+    const props = {};
+    text.split(/[\n;]/).forEach(line => {
+        const match = line.trim().match(NOTE_PATTERN);
+        if (!match) return;
+        const key = match[1].toLowerCase();
+        const value = (match[2] || '').trim();
+        if (key === 'decorative') {
+            props.excluded = !/^(false|no)$/i.test(value);
+        } else if (key === 'heading') {
+            const level = parseInt(value, 10);
+            if (level >= 1 && level <= 6) props.headingLevel = level;
+        } else if (value) {
+            props[key] = value;
+        }
+    });
+    return props;
+}
+
+/**
+ * @private
+ */
+function accessibilityFromName(name) {
+    const props = {};
+    (name.match(/\[([^\]]*)\]/g) || []).forEach(group => Object.assign(props, parseAccessibilityNotes(group.slice(1, -1))));
+
+    const heading = name.match(/\b(?:h|heading\s?)([1-6])\b/i);
+    if (heading && props.headingLevel === undefined) props.headingLevel = parseInt(heading[1], 10);
+    if (/\bdecorative\b/i.test(name) && props.excluded === undefined) props.excluded = true;
+    return props;
+}
+
+module.exports = { selectRestNode, fromRestNode };
@@ -0,0 +1,196 @@
+/**
+ * Mappings from serialized Figma paints, effects and text props to Flutter
+ * style expressions. Shared by the deterministic generator and the theme writer.
+ */
+const { call, list, raw, num, str, color } = require('./dartBuilder');
+
+const FONT_WEIGHT_NAMES = [
+    [/thin|hairline/, 100],
+    [/extra\s*light|ultra\s*light/, 200],
+    [/light/, 300],
+    [/medium/, 500],
+    [/semi\s*bold|demi\s*bold/, 600],
+    [/extra\s*bold|ultra\s*bold|heavy/, 800],
+    [/black/, 900],
+    [/bold/, 700],
+];
+
+/**
+ * Paints that Figma actually renders
+ */
+function visiblePaints(paints) {
+    if (!Array.isArray(paints)) return [];
+    return paints.filter(p => p && p.visible !== false);
+}
+
+/**
+ * Derive a numeric weight from a font style name such as "Semi Bold Italic"
+ */
+function fontWeightFromStyle(styleName = '') {
+    const name = styleName.toLowerCase();
+    const match = FONT_WEIGHT_NAMES.find(([pattern]) => pattern.test(name));
+    return match ? match[1] : 400;
+}
+
+/**
+ * Figma stores the node → gradient space transform; invert it to find handle positions
+ */
+function invertTransform(matrix) {
+    if (!matrix) return [[1, 0, 0], [0, 1, 0]];
+    const [[a, b, c], [d, e, f]] = matrix;
+    const det = a * e - b * d;
+    if (det === 0) return [[1, 0, 0], [0, 1, 0]];
+    return [
+        [e / det, -b / det, (b * f - c * e) / det],
+        [-d / det, a / det, (c * d - a * f) / det],
+    ];
+}
+
+/**
+ * Map a point in gradient space to a Flutter Alignment (-1..1)
+ */
+function alignment(matrix, x, y) {
+    const px = matrix[0][0] * x + matrix[0][1] * y + matrix[0][2];
+    const py = matrix[1][0] * x + matrix[1][1] * y + matrix[1][2];
+    return call('Alignment', {}, [num(px * 2 - 1), num(py * 2 - 1)]);
+}
+
+/**
+ * Figma gradient paint → LinearGradient / RadialGradient / SweepGradient
+ */
+function buildGradient(paint) {
+    const stops = paint.gradientStops || [];
+    const colors = list(stops.map(stop => color(stop.color, paint.opacity)));
+    const positions = list(stops.map(stop => num(stop.position)));
+    const transform = invertTransform(paint.gradientTransform);
+
+    if (paint.type === 'GRADIENT_LINEAR') {
+        return call('LinearGradient', {
+            begin: alignment(transform, 0, 0.5),
+            end: alignment(transform, 1, 0.5),
+            colors,
+            stops: positions,
+        });
+    }
+    if (paint.type === 'GRADIENT_ANGULAR') {
+        return call('SweepGradient', {
+            center: alignment(transform, 0.5, 0.5),
+            colors,
+            stops: positions,
+        });
+    }
+    return call('RadialGradient', {
+        center: alignment(transform, 0.5, 0.5),
+        radius: num(0.5),
+        colors,
+        stops: positions,
+    });
+}
+
+/**
+ * Visible DROP_SHADOW effects → BoxShadow list items
+ */
+function buildBoxShadows(effects) {
+    return (effects || [])
+        .filter(effect => effect && effect.type === 'DROP_SHADOW' && effect.visible !== false)
+        .map(effect => call('BoxShadow', {
+            color: color(effect.color),
+            offset: call('Offset', {}, [num(effect.offset.x), num(effect.offset.y)]),
+            blurRadius: num(effect.radius),
+            spreadRadius: effect.spread ? num(effect.spread) : undefined,
+        }));
+}
+
+/**
+ * TextProps (or a text style token) → TextStyle
+ * @param {Object} text - fontName, fontSize, fontWeight, lineHeight, letterSpacing, textDecoration
+ * @param {Array} fills - Text fills; the first visible solid fill becomes the color
+ * @param {Object} overrides - Named arguments that replace the computed ones (e.g. a token reference for color)
+ */
+function buildTextStyle(text, fills, overrides = {}) {
+    const fill = visiblePaints(fills).find(p => p.type === 'SOLID');
+    const fontName = text.fontName || {};
+    const rawWeight = text.fontWeight || fontWeightFromStyle(fontName.style);
+    const weight = Math.min(900, Math.max(100, Math.round(rawWeight / 100) * 100));
+
+    let height;
+    if (text.lineHeight && text.lineHeight.unit === 'PIXELS' && text.fontSize) {
+        height = num(text.lineHeight.value / text.fontSize);
+    } else if (text.lineHeight && text.lineHeight.unit === 'PERCENT') {
+        height = num(text.lineHeight.value / 100);
+    }
+
+    let letterSpacing;
+    if (text.letterSpacing && text.letterSpacing.value) {
+        letterSpacing = text.letterSpacing.unit === 'PERCENT'
+            ? num((text.fontSize || 14) * text.letterSpacing.value / 100)
+            : num(text.letterSpacing.value);
+    }
+
+    let decoration;
+    if (text.textDecoration === 'UNDERLINE') decoration = raw('TextDecoration.underline');
+    if (text.textDecoration === 'STRIKETHROUGH') decoration = raw('TextDecoration.lineThrough');
+
+    return call('TextStyle', {
+        fontFamily: fontName.family ? str(fontName.family) : undefined,
+        fontSize: text.fontSize ? num(text.fontSize) : undefined,
+        fontWeight: weight !== 400 ? raw(`FontWeight.w${weight}`) : undefined,
+        fontStyle: /italic/i.test(fontName.style || '') ? raw('FontStyle.italic') : undefined,
+        color: fill ? color(fill.color, fill.opacity) : undefined,
+        height,
+        letterSpacing,
+        decoration,
+        ...overrides,
+    });
+}
+
+/**
+ * Figma text case applied to the characters; title case capitalizes each word
+ */
+function applyTextCase(characters, textCase) {
+    if (textCase === 'UPPER') return characters.toUpperCase();
+    if (textCase === 'LOWER') return characters.toLowerCase();
+    if (textCase === 'TITLE') return characters.replace(/\b\w/g, ch => ch.toUpperCase());
+    return characters;
+}
+
+/**
+ * Display text of each styled range of a rich text node, with bullets or numbers
+ * at the start of list item lines
+ * @param {Object} text - TextProps with styledSegments
+ * @returns {string[]} One string per segment
+ */
+function spanTexts(text) {
+    let lineStart = true;
+    let counters = [];
+
+    return text.styledSegments.map(segment => {
+        const lines = applyTextCase(segment.characters, segment.textCase || text.textCase).split('\n');
+        return lines.map((line, idx) => {
+            if (idx > 0) lineStart = true;
+            if (!lineStart || line === '') return line;
+            lineStart = false;
+
+            if (!segment.listType) {
+                counters = [];
+                return line;
+            }
+            // Numbering restarts after a bullet at the same level, and nested lists under each parent item
+            const level = Math.max(1, segment.indentation || 1);
+            counters = counters.slice(0, level);
+            counters[level - 1] = segment.listType === 'ORDERED' ? (counters[level - 1] || 0) + 1 : 0;
+            const marker = segment.listType === 'ORDERED' ? `${counters[level - 1]}. ` : '• ';
+            return `${'    '.repeat(level - 1)}${marker}${line}`;
+        }).join('\n');
+    });
+}
+
+module.exports = {
+    visiblePaints,
+    fontWeightFromStyle,
+    buildGradient,
+    buildBoxShadows,
+    buildTextStyle,
+    applyTextCase,
+    spanTexts,
+};
@@ -0,0 +1,367 @@
+/**
+ * Form helpers: find the input fields and submit button of a frame from the plugin's
+ * semantic hints, infer what each field holds, and write the optional state class
+ * (Provider, Riverpod or Bloc) that the generated screen submits through.
+ */
+
+const { call, raw, render } = require('./dartBuilder');
+const { toIdentifier } = require('./designTokens');
+const { screenNames } = require('./navigation');
+
+// Checked against the field's name, the names of input frames around it and its placeholder
+const FIELD_KINDS = [
+    { kind: 'email', pattern: /e-?mail|@/i },
+    { kind: 'password', pattern: /password|passcode|\bpin\b|^[•*●]+$/i },
+    { kind: 'phone', pattern: /phone|mobile|\btel\b|^\+?[\d\s()-]{7,}$/i },
+];
+
+// Words that describe the widget rather than what the field holds
+const ROLE_WORDS = /\b(?:text\s*field|textfield|input|field|box|form)\b/gi;
+
+// Button labels that submit a form; otherwise the first button is used
+const SUBMIT_LABEL = /\b(?:sign\s*(?:in|up)|log\s*in|login|register|submit|continue|save|send|next|create account|get started|confirm)\b/i;
+
+const VALIDATORS = {
+    email: {
+        method: '_validateEmail',
+        body: [
+            "if (value == null || value.trim().isEmpty) return 'Enter your email address';",
+            "if (!RegExp(r'^[^@\\s]+@[^@\\s]+\\.[^@\\s]+$').hasMatch(value.trim())) return 'Enter a valid email address';",
+        ],
+    },
+    password: {
+        method: '_validatePassword',
+        body: [
+            "if (value == null || value.isEmpty) return 'Enter your password';",
+            "if (value.length < 8) return 'Use at least 8 characters';",
+        ],
+    },
+    phone: {
+        method: '_validatePhone',
+        body: [
+            "if (value == null || value.trim().isEmpty) return 'Enter your phone number';",
+            "if (!RegExp(r'^\\+?[0-9 ()-]{7,}$').hasMatch(value.trim())) return 'Enter a valid phone number';",
+        ],
+    },
+    text: {
+        method: '_validateRequired',
+        body: ["if (value == null || value.trim().isEmpty) return 'This field is required';"],
+    },
+};
+
+const KEYBOARD_TYPES = {
+    email: 'TextInputType.emailAddress',
+    phone: 'TextInputType.phone',
+};
+
+// State management packages the screen can submit through (options.useProvider)
+const STATE_MANAGEMENT = {
+    provider: { package: 'provider', version: '^6.1.2', import: 'package:provider/provider.dart' },
+    riverpod: { package: 'flutter_riverpod', version: '^2.5.1', import: 'package:flutter_riverpod/flutter_riverpod.dart' },
+    bloc: { package: 'flutter_bloc', version: '^8.1.6', import: 'package:flutter_bloc/flutter_bloc.dart' },
+};
+
+/**
+ * options.useProvider → 'provider' | 'riverpod' | 'bloc', or null for plain setState.
+ * `true` (the older boolean option) means Provider.
+ */
+function stateManagementOf(useProvider) {
+    if (useProvider === true) return 'provider';
+    return typeof useProvider === 'string' && STATE_MANAGEMENT[useProvider] ? useProvider : null;
+}
+
+/**
+ * Input fields and submit button of one or more frames (several for a responsive screen).
+ * Fields with the same name and position on different frames share one controller.
+ * Instances of synced components are left alone; they render as shared widgets.
+ * @param {Object[]} roots - SerializedNode frames
+ * @param {Object} options
+ * @param {Object} options.componentIndex - Optional shared widget index (see utils/componentManifest)
+ * @returns {Object|null} { fields, byNode, submit } where fields are
+ *   { name, kind, hint, controller, obscureFlag, validator, keyboardType, optional, nodeIds },
+ *   byNode maps input node IDs to their field and submit is the button node IDs; null when there are no inputs
+ */
+function collectForm(roots, { componentIndex = null } = {}) {
+    const fields = [];
+    const byKey = new Map();
+    const byNode = new Map();
+    const submit = new Set();
+    const names = new Set();
+
+    roots.forEach(root => {
+        const inputs = [];
+        const buttons = [];
+        const walk = (node, context) => {
+            if (node.visible === false || isSyncedInstance(node, componentIndex)) return;
+            const role = node.semanticHints && node.semanticHints.likelyRole;
+            if (role === 'input' && node.type !== 'TEXT') {
+                // Wrappers (label + box) hand their name down to the input inside them
+                if (!(node.children || []).some(containsInput)) {
+                    inputs.push({ node, context: [...context, node.name] });
+                    return;
+                }
+                context = [...context, node.name];
+            } else if (role === 'button') {
+                buttons.push(node);
+            }
+            (node.children || []).forEach(child => walk(child, context));
+        };
+        walk(root, []);
+
+        const seen = {};
+        inputs.forEach(({ node, context }) => {
+            const placeholder = firstText(node);
+            const hint = placeholder ? placeholder.text.characters : null;
+            const kind = fieldKind([...context, hint || '']);
+            const base = fieldName(context, kind);
+            seen[base] = (seen[base] || 0) + 1;
+            const key = `${base}#${seen[base]}`;
+
+            if (!byKey.has(key)) {
+                const optional = /optional/i.test([...context, hint || ''].join(' '));
+                const field = {
+                    name: toIdentifier(base, names, 'field'),
+                    kind,
+                    hint,
+                    optional,
+                    keyboardType: KEYBOARD_TYPES[kind] || null,
+                    validator: optional ? null : VALIDATORS[kind] || VALIDATORS.text,
+                    nodeIds: [],
+                };
+                field.controller = `_${field.name}Controller`;
+                field.obscureFlag = kind === 'password' ? `_obscure${field.name.charAt(0).toUpperCase()}${field.name.slice(1)}` : null;
+                byKey.set(key, field);
+                fields.push(field);
+            }
+            byKey.get(key).nodeIds.push(node.id);
+            byNode.set(node.id, byKey.get(key));
+        });
+
+        const button = buttons.find(candidate => SUBMIT_LABEL.test(labelOf(candidate))) || buttons[0];
+        if (button && inputs.length > 0) submit.add(button.id);
+    });
+
+    return fields.length > 0 ? { fields, byNode, submit } : null;
+}
+
+/**
+ * The state class file written next to the screen: { fileName, className, provider, content }
+ * where provider is the Riverpod provider's name
+ * @param {Object} form - Output of collectForm
+ * @param {string} screenClass - Class name of the generated screen
+ * @param {string} pattern - 'provider' | 'riverpod' | 'bloc'
+ */
+function buildFormState(form, screenClass, pattern) {
+    const names = screenNames(screenClass);
+    const fileName = names.file.replace(/\.dart$/, '_form.dart');
+    const prefix = names.className;
+    const params = form.fields.map(field => `required String ${field.name}`);
+    let submitSignature = `  Future<void> submit({${params.join(', ')}}) async {`;
+    if (submitSignature.length > 80) {
+        submitSignature = ['  Future<void> submit({', ...params.map(param => `    ${param},`), '  }) async {'].join('\n');
+    }
+    const statusClass = [
+        `/// Submission status of the ${prefix} form.`,
+        `class ${prefix}FormState {`,
+        `  const ${prefix}FormState({this.isSubmitting = false, this.error});`,
+        '',
+        '  final bool isSubmitting;',
+        '  final String? error;',
+        '}',
+    ];
+
+    let lines;
+    let className;
+    let provider = null;
+    if (pattern === 'riverpod') {
+        className = `${prefix}FormNotifier`;
+        provider = `${prefix.charAt(0).toLowerCase()}${prefix.slice(1)}FormProvider`;
+        lines = [
+            `import '${STATE_MANAGEMENT.riverpod.import}';`,
+            '',
+            ...statusClass,
+            '',
+            `/// Submits the ${prefix} form; the app needs a ProviderScope above it.`,
+            `class ${className} extends Notifier<${prefix}FormState> {`,
+            '  @override',
+            `  ${prefix}FormState build() => const ${prefix}FormState();`,
+            '',
+            submitSignature,
+            `    state = const ${prefix}FormState(isSubmitting: true);`,
+            '    try {',
+            '      // TODO: send the form to your backend.',
+            `      state = const ${prefix}FormState();`,
+            '    } catch (error) {',
+            `      state = ${prefix}FormState(error: error.toString());`,
+            '    }',
+            '  }',
+            '}',
+            '',
+            `final ${provider} =`,
+            `    NotifierProvider<${className}, ${prefix}FormState>(${className}.new);`,
+        ];
+    } else if (pattern === 'bloc') {
+        className = `${prefix}FormCubit`;
+        lines = [
+            `import '${STATE_MANAGEMENT.bloc.import}';`,
+            '',
+            ...statusClass,
+            '',
+            `/// Submits the ${prefix} form. Provide it above the screen:`,
+            `/// \`BlocProvider(create: (_) => ${className}(), child: const ${screenClass}())\`.`,
+            `class ${className} extends Cubit<${prefix}FormState> {`,
+            `  ${className}() : super(const ${prefix}FormState());`,
+            '',
+            submitSignature,
+            `    emit(const ${prefix}FormState(isSubmitting: true));`,
+            '    try {',
+            '      // TODO: send the form to your backend.',
+            `      emit(const ${prefix}FormState());`,
+            '    } catch (error) {',
+            `      emit(${prefix}FormState(error: error.toString()));`,
+            '    }',
+            '  }',
+            '}',
+        ];
+    } else {
+        className = `${prefix}FormNotifier`;
+        lines = [
+            "import 'package:flutter/foundation.dart';",
+            '',
+            `/// Submits the ${prefix} form. Provide it above the screen:`,
+            `/// \`ChangeNotifierProvider(create: (_) => ${className}(), child: const ${screenClass}())\`.`,
+            `class ${className} extends ChangeNotifier {`,
+            '  bool _isSubmitting = false;',
+            '  String? _error;',
+            '',
+            '  bool get isSubmitting => _isSubmitting;',
+            '  String? get error => _error;',
+            '',
+            submitSignature,
+            '    _isSubmitting = true;',
+            '    _error = null;',
+            '    notifyListeners();',
+            '    try {',
+            '      // TODO: send the form to your backend.',
+            '    } catch (error) {',
+            '      _error = error.toString();',
+            '    } finally {',
+            '      _isSubmitting = false;',
+            '      notifyListeners();',
+            '    }',
+            '  }',
+            '}',
+        ];
+    }
+
+    return { fileName, className, provider, content: `${lines.join('\n')}\n` };
+}
+
+/**
+ * `await context.read<...>().submit(...)` expression that hands the field values to the
+ * state class from the screen's State (see utils/dartBuilder)
+ */
+function submitCall(form, screenClass, pattern) {
+    const { className, provider } = buildFormState(form, screenClass, pattern);
+    const receiver = provider ? `ref.read(${provider}.notifier)` : `context.read<${className}>()`;
+    const named = {};
+    form.fields.forEach(field => {
+        named[field.name] = raw(`${field.controller}.text`);
+    });
+    return call(`await ${receiver}.submit`, named);
+}
+
+/**
+ * Prompt section describing the form the model should build, or '' when the frames have no inputs
+ * @param {Object[]} roots - SerializedNode frames
+ * @param {Object} options - widgetType, className, useProvider and componentIndex as for generation
+ */
+function describeForm(roots, { widgetType = 'StatelessWidget', className = 'GeneratedWidget', useProvider = false, componentIndex = null } = {}) {
+    const form = widgetType === 'StatefulWidget' ? collectForm(roots, { componentIndex }) : null;
+    if (!form) return '';
+
+    const lines = [
+        '## FORM',
+        'The design has input fields. Wrap the screen in a `Form` with a `GlobalKey<FormState>`, create one `TextEditingController` per field (disposed in `dispose()`) and render each input as a `TextFormField` styled like its frame:',
+        ...form.fields.map(field => {
+            const details = [
+                `controller \`${field.controller}\``,
+                field.hint ? `hint "${field.hint}"` : null,
+                field.validator ? `validator ${field.kind === 'text' ? 'required' : `${field.kind} (required${field.kind === 'password' ? ', at least 8 characters' : ', format'})`}` : 'optional, no validator',
+                field.obscureFlag ? `obscured, with a visibility toggle on \`${field.obscureFlag}\`` : null,
+            ].filter(Boolean);
+            return `- ${field.name} (nodes ${field.nodeIds.join(', ')}): ${details.join('; ')}`;
+        }),
+        `The submit button (nodes ${[...form.submit].join(', ') || 'none found'}) calls \`_submit()\`, which validates the form first.`,
+    ];
+
+    const pattern = stateManagementOf(useProvider);
+    if (pattern) {
+        const state = buildFormState(form, className, pattern);
+        lines.push(
+            `State management: ${STATE_MANAGEMENT[pattern].package}. This file is written next to the screen; import it as '${state.fileName}' and submit with \`${render(submitCall(form, className, pattern))};\`${pattern === 'riverpod' ? ` from a \`ConsumerStatefulWidget\`` : ''}. Do not redefine it:`,
+            '```dart',
+            state.content.trimEnd(),
+            '```',
+        );
+    }
+    return lines.join('\n');
+}
+
+/**
+ * @private
+ */
+function containsInput(node) {
+    const role = node.semanticHints && node.semanticHints.likelyRole;
+    return (role === 'input' && node.type !== 'TEXT') || (node.children || []).some(containsInput);
+}
+
+/**
+ * @private
+ */
+function isSyncedInstance(node, componentIndex) {
+    return node.type === 'INSTANCE' && !!componentIndex && !!node.metadata && !!componentIndex.lookup[node.metadata.mainComponentId];
+}
+
+/**
+ * First visible text inside a node, depth first: the placeholder of an input
+ */
+function firstText(node) {
+    for (const child of node.children || []) {
+        if (child.visible === false) continue;
+        if (child.type === 'TEXT' && child.text) return child;
+        const nested = firstText(child);
+        if (nested) return nested;
+    }
+    return null;
+}
+
+/**
+ * @private
+ */
+function labelOf(node) {
+    const text = firstText(node);
+    return `${node.name} ${text ? text.text.characters : ''}`;
+}
+
+/**
+ * @private
+ */
+function fieldKind(texts) {
+    const match = FIELD_KINDS.find(({ pattern }) => texts.some(text => pattern.test(text.trim())));
+    return match ? match.kind : 'text';
+}
+
+/**
+ * "Email Input" → "Email"; generic names ("Input") fall back to the outer frames, then the kind
+ * @private
+ */
+function fieldName(context, kind) {
+    for (let i = context.length - 1; i >= 0; i--) {
+        const name = context[i].replace(ROLE_WORDS, ' ').replace(/\boptional\b/gi, ' ').trim();
+        if (/[a-z0-9]/i.test(name)) return name;
+    }
+    return kind === 'text' ? 'field' : kind;
+}
+
+module.exports = { STATE_MANAGEMENT, stateManagementOf, collectForm, firstText, buildFormState, submitCall, describeForm };
@@ -0,0 +1,119 @@
+/**
+ * Generated-file bookkeeping: a header recording the source node and hashes,
+ * and protected regions whose contents survive regeneration.
+ */
+
+const { hashContent } = require('./hash');
+
+const HEADER_LINES = [
+    '// GENERATED BY MAX COMPUTE. Code outside the PROTECTED regions is replaced on regeneration.',
+    '// Edits elsewhere are detected and the new output is written to a .new.dart file instead.',
+];
+const REGION_NAMES = ['imports', 'members'];
+
+const beginMarker = name => `// BEGIN PROTECTED ${name}`;
+const endMarker = name => `// END PROTECTED ${name}`;
+const escape = text => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * Add empty `imports` (after the import block) and `members` (end of the last class) regions
+ */
+function addProtectedRegions(code) {
+    const lines = code.replace(/\n+$/, '').split('\n');
+
+    const lastBrace = lines.lastIndexOf('}');
+    if (lastBrace !== -1) {
+        lines.splice(lastBrace, 0, '', `  ${beginMarker('members')}`, `  ${endMarker('members')}`);
+    }
+
+    const lastImport = lines.reduce((last, line, idx) => (line.startsWith('import ') ? idx : last), -1);
+    lines.splice(lastImport + 1, 0, ...(lastImport === -1 ? [] : ['']), beginMarker('imports'), endMarker('imports'));
+
+    return lines.join('\n') + '\n';
+}
+
+/**
+ * Split a file into header fields, protected region bodies and the body without the header
+ * @returns {{header: Object|null, regions: Object, body: string}}
+ */
+function parseGeneratedFile(content) {
+    const lines = content.split('\n');
+    let header = null;
+    let bodyStart = 0;
+
+    if (lines[0] === HEADER_LINES[0]) {
+        header = {};
+        while (bodyStart < lines.length && lines[bodyStart].startsWith('//')) {
+            const match = lines[bodyStart].match(/^\/\/ (source-node|source-hash|content-hash): (.+)$/);
+            if (match) header[match[1].replace(/-(\w)/, (_, ch) => ch.toUpperCase())] = match[2];
+            bodyStart++;
+        }
+        if (lines[bodyStart] === '') bodyStart++;
+    }
+
+    const body = lines.slice(bodyStart).join('\n');
+    const regions = {};
+    REGION_NAMES.forEach(name => {
+        const match = body.match(regionPattern(name));
+        if (match && match[2].length > 0) regions[name] = match[2];
+    });
+
+    return { header, regions, body };
+}
+
+function regionPattern(name) {
+    return new RegExp(`(${escape(beginMarker(name))}\\n)([\\s\\S]*?)(?=[ \\t]*${escape(endMarker(name))})`);
+}
+
+/**
+ * Body with every protected region emptied, the part hashed to detect hand edits
+ */
+function stripRegions(body) {
+    return REGION_NAMES.reduce((text, name) => text.replace(regionPattern(name), '$1'), body);
+}
+
+/**
+ * Body with the given region contents put back
+ */
+function fillRegions(body, regions) {
+    return REGION_NAMES.reduce((text, name) => (
+        regions[name] ? text.replace(regionPattern(name), (_, begin) => `${begin}${regions[name]}`) : text
+    ), body);
+}
+
+/**
+ * Generator output a file was written from: header, protected regions and their markers removed
+ */
+function extractGeneratedCode(content) {
+    return REGION_NAMES.reduce((text, name) => text.replace(
+        new RegExp(`\\n?[ \\t]*${escape(beginMarker(name))}\\n[\\s\\S]*?[ \\t]*${escape(endMarker(name))}\\n`),
+        ''
+    ), parseGeneratedFile(content).body);
+}
+
+/**
+ * Generated code as written to disk: header + protected regions (optionally refilled)
+ * @param {string} code - Generator output
+ * @param {Object} source - { nodeId, hash } of the SerializedNode tree the code came from
+ * @param {Object} regions - Protected region contents carried over from the previous file
+ */
+function buildGeneratedFile(code, source = {}, regions = {}) {
+    const body = fillRegions(addProtectedRegions(code), regions);
+    const header = [...HEADER_LINES];
+    if (source.nodeId) header.push(`// source-node: ${source.nodeId}`);
+    if (source.hash) header.push(`// source-hash: ${source.hash}`);
+    header.push(`// content-hash: ${hashContent(stripRegions(body))}`);
+    return `${header.join('\n')}\n\n${body}`;
+}
+
+/**
+ * True when code outside the protected regions no longer matches what was generated,
+ * including files that were never generated (no header)
+ */
+function hasUserEdits(content) {
+    const { header, body } = parseGeneratedFile(content);
+    if (!header || !header.contentHash) return true;
+    return hashContent(stripRegions(body)) !== header.contentHash;
+}
+
+module.exports = { buildGeneratedFile, parseGeneratedFile, extractGeneratedCode, hasUserEdits };
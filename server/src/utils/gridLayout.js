@@ -0,0 +1,81 @@
+/**
+ * Grid and wrap helpers: Figma GRID auto layout and wrapped rows (serialized by the plugin
+ * in `layout`) as the numbers GridView and Wrap need.
+ */
+
+const WRAP_ALIGNMENT = {
+    MIN: 'WrapAlignment.start',
+    CENTER: 'WrapAlignment.center',
+    MAX: 'WrapAlignment.end',
+    SPACE_BETWEEN: 'WrapAlignment.spaceBetween',
+};
+
+// Wrap has no baseline alignment; baseline rows line up at the top like in Figma
+const WRAP_CROSS_ALIGNMENT = {
+    MIN: 'WrapCrossAlignment.start',
+    CENTER: 'WrapCrossAlignment.center',
+    MAX: 'WrapCrossAlignment.end',
+    BASELINE: 'WrapCrossAlignment.start',
+};
+
+function isGrid(layout) {
+    return !!layout && layout.layoutMode === 'GRID';
+}
+
+/**
+ * Horizontal auto layout whose items wrap onto new rows
+ */
+function isWrap(layout) {
+    return !!layout && layout.layoutMode === 'HORIZONTAL' && layout.layoutWrap === 'WRAP';
+}
+
+/**
+ * Cells of a grid that a GridView delegate can draw: every child in one cell, in reading
+ * order without gaps, and columns of the same width. Other grids (spans, empty cells,
+ * mixed track sizes) are null and keep their Figma positions in a Stack.
+ * @param {Object} layout - LayoutProps of the GRID frame
+ * @param {Object[]} children - Rendered children, in layer order
+ * @returns {{columns: number, rowGap: number, columnGap: number, cellHeight: number,
+ *   columnWidth: number|null, children: Object[]}|null} children in reading order;
+ *   columnWidth is set when every column has the same fixed width
+ */
+function uniformGrid(layout, children) {
+    const columns = layout.gridColumnCount;
+    if (!(columns >= 1) || children.length === 0) return null;
+
+    const columnSizes = layout.gridColumnSizes || [];
+    // Hugging columns are as wide as their content, which differs from column to column
+    if (!sameTracks(columnSizes) || columnSizes.some(track => track.type === 'HUG')) return null;
+
+    const cells = children.map(child => child.layout || {});
+    if (cells.some(cell => (cell.gridRowSpan || 1) !== 1 || (cell.gridColumnSpan || 1) !== 1)) return null;
+
+    // Older serializations have no anchors; their children are taken in layer order
+    const anchored = cells.every(cell => cell.gridRowAnchorIndex !== undefined && cell.gridColumnAnchorIndex !== undefined);
+    const position = child => child.layout.gridRowAnchorIndex * columns + child.layout.gridColumnAnchorIndex;
+    const ordered = anchored ? children.slice().sort((a, b) => position(a) - position(b)) : children;
+    if (anchored && ordered.some((child, idx) => position(child) !== idx)) return null;
+
+    const rowSizes = layout.gridRowSizes || [];
+    const fixedRows = rowSizes.length > 0 && rowSizes[0].type === 'FIXED' && sameTracks(rowSizes);
+    const fixedColumns = columnSizes.length > 0 && columnSizes[0].type === 'FIXED';
+
+    return {
+        columns,
+        rowGap: layout.gridRowGap || 0,
+        columnGap: layout.gridColumnGap || 0,
+        cellHeight: fixedRows ? rowSizes[0].value : Math.max(...cells.map(cell => cell.height || 0)),
+        columnWidth: fixedColumns ? columnSizes[0].value : null,
+        children: ordered,
+    };
+}
+
+/**
+ * True when all tracks have the same type and size (flex tracks default to 1fr)
+ */
+function sameTracks(tracks) {
+    const key = track => `${track.type}:${track.type === 'HUG' ? '' : track.value !== undefined ? track.value : 1}`;
+    return tracks.every(track => key(track) === key(tracks[0]));
+}
+
+module.exports = { WRAP_ALIGNMENT, WRAP_CROSS_ALIGNMENT, isGrid, isWrap, uniformGrid };
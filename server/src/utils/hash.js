@@ -0,0 +1,41 @@
+/**
+ * Stable hashing for serialized Figma trees and generated files.
+ */
+
+const crypto = require('crypto');
+
+// Serialized fields that change on every export without the design changing
+const VOLATILE_KEYS = new Set(['contextImageFilename']);
+
+/**
+ * JSON.stringify with sorted object keys, so equal trees always serialize the same way
+ */
+function stableStringify(value) {
+    if (Array.isArray(value)) {
+        return `[${value.map(item => (item === undefined ? 'null' : stableStringify(item))).join(',')}]`;
+    }
+    if (value && typeof value === 'object') {
+        const entries = Object.keys(value)
+            .filter(key => value[key] !== undefined && !VOLATILE_KEYS.has(key))
+            .sort()
+            .map(key => `${JSON.stringify(key)}:${stableStringify(value[key])}`);
+        return `{${entries.join(',')}}`;
+    }
+    return JSON.stringify(value);
+}
+
+/**
+ * Short SHA-256 of a string
+ */
+function hashContent(text) {
+    return crypto.createHash('sha256').update(text, 'utf8').digest('hex').slice(0, 16);
+}
+
+/**
+ * Hash of a SerializedNode tree, ignoring key order and volatile fields
+ */
+function hashNode(node) {
+    return hashContent(stableStringify(node));
+}
+
+module.exports = { stableStringify, hashContent, hashNode };
@@ -0,0 +1,103 @@
+/**
+ * Pixel comparison of a rendered widget against the Figma screenshot of its frame
+ */
+
+// Color distance (0-1) above which a pixel counts as different; absorbs anti-aliasing
+// and font rendering noise
+const DEFAULT_THRESHOLD = 0.1;
+// The image is split into GRID_SIZE x GRID_SIZE cells to report where the differences are
+const GRID_SIZE = 8;
+const MAX_REGIONS = 5;
+
+/**
+ * Compare two RGBA images (see utils/png). The rendered image is scaled to the size of the
+ * expected one first; transparent pixels are compared as if drawn on white.
+ * @param {Object} expected - { width, height, data } the Figma screenshot
+ * @param {Object} actual - { width, height, data } the rendered widget
+ * @param {Object} options
+ * @param {number} options.threshold - Per-pixel color distance treated as a match (default 0.1)
+ * @returns {Object} { similarity, mismatchedPixels, totalPixels, sizeMatches, regions, heatmap }
+ *   similarity is the share of matching pixels (0-1); regions are the grid cells with the most
+ *   differences as { x, y, width, height, mismatch } in expected-image pixels; heatmap is an
+ *   RGBA image with differences in red over a faded copy of the expected image
+ */
+function compareImages(expected, actual, { threshold = DEFAULT_THRESHOLD } = {}) {
+    const { width, height } = expected;
+    const rendered = actual.width === width && actual.height === height ? actual : resize(actual, width, height);
+    const heatmap = Buffer.alloc(width * height * 4);
+    const cellWidth = Math.ceil(width / GRID_SIZE);
+    const cellHeight = Math.ceil(height / GRID_SIZE);
+    const cellMismatches = new Array(GRID_SIZE * GRID_SIZE).fill(0);
+    let mismatchedPixels = 0;
+
+    for (let i = 0; i < width * height; i++) {
+        const a = overWhite(expected.data, i);
+        const b = overWhite(rendered.data, i);
+        const distance = Math.sqrt((a[0] - b[0]) ** 2 + (a[1] - b[1]) ** 2 + (a[2] - b[2]) ** 2) / (255 * Math.sqrt(3));
+
+        const out = i * 4;
+        if (distance > threshold) {
+            mismatchedPixels++;
+            const x = i % width;
+            const y = Math.floor(i / width);
+            cellMismatches[Math.floor(y / cellHeight) * GRID_SIZE + Math.floor(x / cellWidth)]++;
+            // Stronger red for bigger differences
+            const fade = Math.round(200 * (1 - Math.min(1, distance * 2)));
+            heatmap[out] = 255;
+            heatmap[out + 1] = fade;
+            heatmap[out + 2] = fade;
+        } else {
+            const luma = Math.round(0.299 * a[0] + 0.587 * a[1] + 0.114 * a[2]);
+            heatmap[out] = heatmap[out + 1] = heatmap[out + 2] = 192 + (luma >> 2);
+        }
+        heatmap[out + 3] = 255;
+    }
+
+    const regions = cellMismatches
+        .map((count, cell) => {
+            const x = (cell % GRID_SIZE) * cellWidth;
+            const y = Math.floor(cell / GRID_SIZE) * cellHeight;
+            const cellArea = Math.max(0, Math.min(cellWidth, width - x)) * Math.max(0, Math.min(cellHeight, height - y));
+            return { x, y, width: Math.min(cellWidth, width - x), height: Math.min(cellHeight, height - y), mismatch: cellArea ? count / cellArea : 0 };
+        })
+        .filter(region => region.mismatch > 0)
+        .sort((a, b) => b.mismatch - a.mismatch)
+        .slice(0, MAX_REGIONS)
+        .map(region => ({ ...region, mismatch: Math.round(region.mismatch * 100) / 100 }));
+
+    const totalPixels = width * height;
+    return {
+        similarity: totalPixels ? Math.round((1 - mismatchedPixels / totalPixels) * 10000) / 10000 : 1,
+        mismatchedPixels,
+        totalPixels,
+        sizeMatches: actual.width === width && actual.height === height,
+        regions,
+        heatmap: { width, height, data: heatmap },
+    };
+}
+
+/**
+ * Nearest-neighbour resize
+ */
+function resize(image, width, height) {
+    const data = Buffer.alloc(width * height * 4);
+    for (let y = 0; y < height; y++) {
+        const sourceY = Math.min(image.height - 1, Math.floor(y * image.height / height));
+        for (let x = 0; x < width; x++) {
+            const sourceX = Math.min(image.width - 1, Math.floor(x * image.width / width));
+            image.data.copy(data, (y * width + x) * 4, (sourceY * image.width + sourceX) * 4, (sourceY * image.width + sourceX) * 4 + 4);
+        }
+    }
+    return { width, height, data };
+}
+
+/**
+ * @private
+ */
+function overWhite(data, pixel) {
+    const offset = pixel * 4;
+    const alpha = data[offset + 3] / 255;
+    return [0, 1, 2].map(channel => data[offset + channel] * alpha + 255 * (1 - alpha));
+}
+
+module.exports = { compareImages, resize };
@@ -0,0 +1,118 @@
+/**
+ * Repeated items: instances of one component laid out side by side (cards in a grid,
+ * chips in a wrap) become one item template plus a const list of the values that
+ * differ between them.
+ */
+
+const { raw, render } = require('./dartBuilder');
+const { toIdentifier } = require('./designTokens');
+
+// Fewer items read better written out
+const MIN_REPEATED = 3;
+
+// Leaves that can move into a const record: literals, enum values and colors
+const LITERAL = /^('(?:[^'\\]|\\.)*'|"(?:[^"\\]|\\.)*"|-?\d+(?:\.\d+)?|true|false|[A-Z]\w*\.\w+|Color\(0x[0-9A-F]{8}\))$/;
+
+/**
+ * True when the nodes are enough instances of the same main component to repeat one template
+ * @param {Object[]} nodes - SerializedNode siblings
+ */
+function isRepeated(nodes) {
+    if (nodes.length < MIN_REPEATED) return false;
+    const componentId = nodes[0].metadata && nodes[0].metadata.mainComponentId;
+    return !!componentId && nodes.every(node => node.type === 'INSTANCE'
+        && node.visible !== false
+        && node.metadata
+        && node.metadata.mainComponentId === componentId);
+}
+
+/**
+ * One template for widgets built from repeated items, or null when they differ in more
+ * than literal values. Each value that differs becomes a field of the item record, named
+ * after the layer it comes from: `title` for the text of a "Title" layer, `swatchColor`
+ * for the color of a "Swatch" layer, `color` for the item's own.
+ * @param {Object[]} widgets - dartBuilder expressions, one per item; the generator sets
+ *   `layer` on the widget of each node to the node's name
+ * @param {string} item - Variable holding the current item; fields are read as `item.title`
+ * @returns {{template: Object, fields: string[], rows: string[][]}|null} rows holds the
+ *   Dart source of each item's fields, in field order
+ */
+function buildItemTemplate(widgets, item = 'item') {
+    const fields = [];
+    const rows = widgets.map(() => []);
+    const used = new Set();
+
+    const lift = (exprs, hint) => {
+        const name = toIdentifier(hint, used, 'value', 'Value');
+        fields.push(name);
+        exprs.forEach((expr, idx) => rows[idx].push(expr.source));
+        return raw(`${item}.${name}`);
+    };
+
+    // Returns the template of one position in the trees, or null when they cannot share one
+    const merge = (exprs, hint, outerLayer) => {
+        const first = exprs[0];
+        const layer = first.layer !== undefined ? first.layer : outerLayer;
+        const sources = exprs.map(expr => render(expr));
+        if (sources.every(source => source === sources[0])) return first;
+        if (exprs.some(expr => typeof expr === 'string' || expr.kind !== first.kind)) return null;
+
+        if (first.kind === 'raw') {
+            return exprs.every(expr => LITERAL.test(expr.source)) ? lift(exprs, hint) : null;
+        }
+        if (first.kind === 'call') {
+            const signature = expr => `${expr.name}(${expr.args.map(arg => arg.key || '').join(',')})`;
+            if (exprs.some(expr => signature(expr) !== signature(first))) return null;
+            const callee = first.name.replace(/^const /, '').split('.')[0];
+            const prefix = layer === widgets[0].layer ? '' : layer;
+            const args = [];
+            for (let i = 0; i < first.args.length; i++) {
+                const key = first.args[i].key;
+                const argHint = key || (callee === 'Text' ? prefix || 'text' : callee);
+                const value = merge(exprs.map(expr => expr.args[i].value), argHint === prefix ? prefix : `${prefix} ${argHint}`, layer);
+                if (!value) return null;
+                args.push(key ? { key, value } : { value });
+            }
+            // Values read from the item are not constants
+            return { kind: 'call', name: first.name.replace(/^const /, ''), args };
+        }
+        if (first.kind === 'list') {
+            if (exprs.some(expr => expr.items.length !== first.items.length || expr.type !== first.type)) return null;
+            const items = [];
+            for (let i = 0; i < first.items.length; i++) {
+                const merged = merge(exprs.map(expr => expr.items[i]), hint, layer);
+                if (!merged) return null;
+                items.push(merged);
+            }
+            return { ...first, items };
+        }
+        if (first.kind === 'binary') {
+            if (exprs.some(expr => expr.operator !== first.operator)) return null;
+            const left = merge(exprs.map(expr => expr.left), hint, layer);
+            const right = left && merge(exprs.map(expr => expr.right), hint, layer);
+            return right ? { ...first, left, right } : null;
+        }
+        if (first.kind === 'closure') {
+            const head = expr => `${expr.params}{${(expr.statements || []).join('\n')}}`;
+            if (exprs.some(expr => head(expr) !== head(first))) return null;
+            const body = merge(exprs.map(expr => expr.body), hint, layer);
+            return body ? { ...first, body } : null;
+        }
+        return null;
+    };
+
+    const template = merge(widgets, 'value', widgets[0].layer);
+    return template ? { template, fields, rows } : null;
+}
+
+/**
+ * `static const` list of the item records, e.g. `[(title: 'Tea', price: '$4'), ...]`
+ * @param {string} name - Field name of the list
+ * @param {{fields: string[], rows: string[][]}} items - Output of buildItemTemplate
+ */
+function buildDataList(name, { fields, rows }) {
+    const records = rows.map(values => `    (${fields.map((field, idx) => `${field}: ${values[idx]}`).join(', ')}),`);
+    return `  static const ${name} = [\n${records.join('\n')}\n  ];`;
+}
+
+module.exports = { isRepeated, buildItemTemplate, buildDataList };
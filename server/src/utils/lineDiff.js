@@ -0,0 +1,95 @@
+/**
+ * Line-based diff (longest common subsequence) rendered as a unified diff.
+ */
+
+/**
+ * Diff two texts line by line
+ * @returns {Array<{type: ' '|'-'|'+', line: string}>}
+ */
+function diffLines(oldText, newText) {
+    const a = oldText.split('\n');
+    const b = newText.split('\n');
+
+    // Trim the common prefix and suffix so the LCS table only covers the changed middle
+    let start = 0;
+    while (start < a.length && start < b.length && a[start] === b[start]) start++;
+    let endA = a.length;
+    let endB = b.length;
+    while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+        endA--;
+        endB--;
+    }
+
+    const rows = endA - start;
+    const cols = endB - start;
+    const table = new Int32Array((rows + 1) * (cols + 1));
+    const at = (i, j) => i * (cols + 1) + j;
+    for (let i = rows - 1; i >= 0; i--) {
+        for (let j = cols - 1; j >= 0; j--) {
+            table[at(i, j)] = a[start + i] === b[start + j]
+                ? table[at(i + 1, j + 1)] + 1
+                : Math.max(table[at(i + 1, j)], table[at(i, j + 1)]);
+        }
+    }
+
+    const ops = a.slice(0, start).map(line => ({ type: ' ', line }));
+    let i = 0;
+    let j = 0;
+    while (i < rows && j < cols) {
+        if (a[start + i] === b[start + j]) {
+            ops.push({ type: ' ', line: a[start + i] });
+            i++;
+            j++;
+        } else if (table[at(i + 1, j)] >= table[at(i, j + 1)]) {
+            ops.push({ type: '-', line: a[start + i++] });
+        } else {
+            ops.push({ type: '+', line: b[start + j++] });
+        }
+    }
+    while (i < rows) ops.push({ type: '-', line: a[start + i++] });
+    while (j < cols) ops.push({ type: '+', line: b[start + j++] });
+    a.slice(endA).forEach(line => ops.push({ type: ' ', line }));
+
+    return ops;
+}
+
+/**
+ * Unified diff with `context` lines around each change; empty string when the texts are equal
+ */
+function unifiedDiff(oldText, newText, { oldName = 'a', newName = 'b', context = 3 } = {}) {
+    const ops = diffLines(oldText, newText);
+    const changed = ops.map((op, idx) => (op.type !== ' ' ? idx : -1)).filter(idx => idx !== -1);
+    if (changed.length === 0) return '';
+
+    // Group changes whose context windows touch into hunks
+    const hunks = [];
+    changed.forEach(idx => {
+        const from = Math.max(0, idx - context);
+        const to = Math.min(ops.length, idx + context + 1);
+        const last = hunks[hunks.length - 1];
+        if (last && from <= last.to) {
+            last.to = to;
+        } else {
+            hunks.push({ from, to });
+        }
+    });
+
+    const lines = [`--- ${oldName}`, `+++ ${newName}`];
+    hunks.forEach(({ from, to }) => {
+        // 1-based line numbers of the hunk start in each file
+        let oldLine = 1;
+        let newLine = 1;
+        for (let k = 0; k < from; k++) {
+            if (ops[k].type !== '+') oldLine++;
+            if (ops[k].type !== '-') newLine++;
+        }
+        const slice = ops.slice(from, to);
+        const oldCount = slice.filter(op => op.type !== '+').length;
+        const newCount = slice.filter(op => op.type !== '-').length;
+        lines.push(`@@ -${oldLine},${oldCount} +${newLine},${newCount} @@`);
+        slice.forEach(op => lines.push(`${op.type}${op.line}`));
+    });
+    return lines.join('\n') + '\n';
+}
+
+module.exports = { diffLines, unifiedDiff };
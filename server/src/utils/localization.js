@@ -0,0 +1,209 @@
+/**
+ * Localization helpers: collect the text of one or more frames as ARB messages, with keys
+ * built from the feature, the layer name and its semantic role, numbers and names as ICU
+ * placeholders, and messages that are already in the project's ARB file reused.
+ */
+
+const { call, raw, str, num, render } = require('./dartBuilder');
+const { toIdentifier } = require('./designTokens');
+const { applyTextCase, spanTexts } = require('./flutterStyles');
+
+// Semantic roles (see the plugin's analyzeSemanticRole) that say what a text is for
+const KEY_ROLES = ['button', 'input', 'header', 'card', 'badge', 'list'];
+// Words of the text itself used for the key when the layer keeps Figma's default name
+const MAX_KEY_WORDS = 4;
+
+// A person's name after a greeting ("Welcome back, Sarah"), or a handle
+const NAME_PATTERN = /\b((?:[Hh]i|[Hh]ello|[Hh]ey|[Ww]elcome back|[Ww]elcome|[Gg]ood (?:morning|afternoon|evening)|[Tt]hanks|[Tt]hank you|[Bb]ye),?\s+)([A-Z][a-z]+(?:\s[A-Z][a-z]+)?)\b|(^|\s)(@[A-Za-z0-9_]{2,})/g;
+// Numbers that stand on their own ("3 items", "$1,250.00"), not part of a word ("2FA", "H1")
+const NUMBER_PATTERN = /(?<![\w.,])\d+(?:[.,]\d+)*(?![\w])/g;
+
+/**
+ * Message and ICU placeholders for one string. Names become String placeholders,
+ * whole numbers int and decimals double placeholders, each with the design's value as example.
+ * @returns {{message: string, placeholders: Object[]}} placeholders are
+ *   [{ name, type, example, format }] in the order they appear
+ */
+function toMessage(characters) {
+    const placeholders = [];
+    const used = new Set();
+    const add = (base, type, example, format) => {
+        const name = toIdentifier(base, used);
+        placeholders.push({ name, type, example, format: format || null });
+        return `{${name}}`;
+    };
+
+    const named = characters.replace(NAME_PATTERN, (match, greeting, person, space, handle) => (handle
+        ? `${space}${add('username', 'String', handle)}`
+        : `${greeting}${add('name', 'String', person)}`));
+    // Names are replaced first so the numbers pass only sees the rest of the text
+    const parts = named.split(/(\{\w+\})/);
+    const message = parts.map((part, idx) => (idx % 2 === 1 ? part : part.replace(NUMBER_PATTERN, (value, offset) => {
+        // Numbered list markers are part of the text, not data
+        if (/(?:^|\n)[ \t]*$/.test(part.slice(0, offset)) && part.startsWith('. ', offset + value.length)) return value;
+        if (/^\d{1,3}(?:,\d{3})+$/.test(value)) return add('count', 'int', value, 'decimalPattern');
+        if (/^\d+$/.test(value)) return add('count', 'int', value);
+        return add('amount', 'double', value, 'decimalPattern');
+    }))).join('');
+
+    // Placeholders come out in text order; the names pass ran first, so sort by position
+    placeholders.sort((a, b) => message.indexOf(`{${a.name}}`) - message.indexOf(`{${b.name}}`));
+    return { message, placeholders };
+}
+
+/**
+ * Strings of one or more frames (several for a responsive screen) as ARB messages.
+ * A message already in the ARB file, from this screen or another, keeps its key.
+ * Hidden layers, instances of synced components and text without letters are skipped,
+ * as is text with braces, which ICU would read as placeholders.
+ * @param {Object[]} roots - SerializedNode frames
+ * @param {Object} options
+ * @param {string} options.feature - Feature folder of the screen, the first part of each key
+ * @param {Object} options.arb - Current contents of the template ARB file, if any
+ * @param {Object} options.componentIndex - Optional shared widget index (see utils/componentManifest)
+ * @returns {Object} { lookup, added } where lookup maps a text node id (or `id#span` for the
+ *   ranges of rich text) to { key, placeholders }, and added is the ARB entries to write as
+ *   [{ key, message, description, placeholders }]
+ */
+function buildStringIndex(roots, { feature = '', arb = null, componentIndex = null } = {}) {
+    const existing = arb || {};
+    const used = new Set(Object.keys(existing).filter(key => !key.startsWith('@')));
+    const bySignature = new Map();
+    used.forEach(key => {
+        const declared = (existing[`@${key}`] && existing[`@${key}`].placeholders) || {};
+        const placeholders = Object.keys(declared).map(name => ({ name, type: declared[name].type, example: declared[name].example }));
+        bySignature.set(signature(existing[key], placeholders), { key, placeholders });
+    });
+
+    const lookup = {};
+    const added = [];
+    const register = (id, characters, node, ancestors, root, span = false) => {
+        if (!/\p{L}/u.test(characters) || /[{}]/.test(characters)) return;
+
+        const { message, placeholders } = toMessage(characters);
+        const sig = signature(message, placeholders);
+        let entry = bySignature.get(sig);
+        if (!entry) {
+            // Ranges of rich text share their layer's name, so they are keyed by their own words
+            const key = toIdentifier(keyWords(feature, span ? '' : node.name, characters, message, [...ancestors, node]), used, 'text', 'Text');
+            entry = { key, placeholders };
+            bySignature.set(sig, entry);
+            added.push({ key, message, description: `${root.name} / ${node.name}`, placeholders });
+        }
+        // Placeholder values of this occurrence, in the order of the entry's method parameters
+        const own = new Map(placeholders.map(placeholder => [placeholder.name, placeholder.example]));
+        lookup[id] = {
+            key: entry.key,
+            placeholders: entry.placeholders.map(placeholder => ({ ...placeholder, example: own.has(placeholder.name) ? own.get(placeholder.name) : placeholder.example })),
+        };
+    };
+
+    const walk = (node, ancestors, root) => {
+        if (!node || node.visible === false) return;
+        if (node.type === 'INSTANCE' && componentIndex && node.metadata && componentIndex.lookup[node.metadata.mainComponentId]) return;
+
+        if (node.type === 'TEXT' && node.text) {
+            const text = node.text;
+            if (text.styledSegments && text.styledSegments.length > 0) {
+                spanTexts(text).forEach((characters, idx) => register(`${node.id}#${idx}`, characters, node, ancestors, root, true));
+            } else {
+                register(node.id, applyTextCase(text.characters || '', text.textCase), node, ancestors, root);
+            }
+            return;
+        }
+        (node.children || []).forEach(child => walk(child, [...ancestors, node], root));
+    };
+    roots.filter(Boolean).forEach(root => walk(root, [], root));
+
+    return { lookup, added };
+}
+
+/**
+ * `AppLocalizations.of(context)!.key`, or a call with the design's placeholder values
+ * @param {Object} entry - A lookup entry of buildStringIndex
+ */
+function lookupExpr(entry) {
+    const getter = `AppLocalizations.of(context)!.${entry.key}`;
+    if (entry.placeholders.length === 0) return raw(getter);
+    return call(getter, {}, entry.placeholders.map(placeholder => {
+        if (placeholder.type === 'String') return str(placeholder.example);
+        // An int literal is a valid double argument
+        const value = Number(String(placeholder.example).replace(/,/g, ''));
+        return num(placeholder.type === 'int' ? Math.round(value) : value);
+    }));
+}
+
+/**
+ * Add entries to an ARB object: the message and an `@key` block with its description
+ * and placeholders. Existing keys are left as they are.
+ * @returns {Object} A new ARB object
+ */
+function mergeArb(arb, entries) {
+    const merged = { '@@locale': 'en', ...(arb || {}) };
+    entries.forEach(entry => {
+        if (merged[entry.key] !== undefined) return;
+        merged[entry.key] = entry.message;
+        const meta = { description: entry.description };
+        if (entry.placeholders.length > 0) {
+            meta.placeholders = {};
+            entry.placeholders.forEach(({ name, type, example, format }) => {
+                meta.placeholders[name] = format ? { type, format, example } : { type, example };
+            });
+        }
+        merged[`@${entry.key}`] = meta;
+    });
+    return merged;
+}
+
+/**
+ * Prompt section mapping text layers to their localization getters, or '' when the
+ * screen is not localized
+ * @param {Object} index - Output of buildStringIndex, or null
+ */
+function describeStrings(index) {
+    const ids = index ? Object.keys(index.lookup) : [];
+    if (ids.length === 0) return '';
+
+    const lines = [
+        '## LOCALIZATION',
+        "Do not hardcode the text of these layers. Import `AppLocalizations` from '../../l10n/app_localizations.dart' and use the getter listed for each text node (ranges of rich text are `id#range`); keep the other text as drawn:",
+    ];
+    const seen = new Set();
+    ids.forEach(id => {
+        lines.push(`- ${id}: \`${render(lookupExpr(index.lookup[id]))}\`${seen.has(index.lookup[id].key) ? ' (same text as above)' : ''}`);
+        seen.add(index.lookup[id].key);
+    });
+    return lines.join('\n');
+}
+
+/**
+ * @private
+ */
+function signature(message, placeholders) {
+    return `${message}\u0000${placeholders.map(placeholder => `${placeholder.name}:${placeholder.type}`).join(',')}`;
+}
+
+/**
+ * Feature, layer name (or the first words of the text for default names) and the role of
+ * the closest frame that has one, without repeating the feature or the role
+ * @private
+ */
+function keyWords(feature, layerName, characters, message, ancestors) {
+    const layer = (layerName || '').trim();
+    const plain = message.replace(/\{\w+\}/g, ' ').replace(/^\s*(?:\d+\.|•)\s/gm, ' ');
+    // Figma names text layers after their characters until they are renamed
+    const isDefaultName = !layer || /^text$/i.test(layer) || characters.trim().toLowerCase().startsWith(layer.toLowerCase());
+    // Words of the text are lowercased so "SIGN IN" keys like "Sign in"
+    const name = isDefaultName ? (plain.match(/[\p{L}\p{N}]+/gu) || []).slice(0, MAX_KEY_WORDS).join(' ').toLowerCase() : layer;
+
+    const holder = ancestors.slice().reverse().find(ancestor => KEY_ROLES.indexOf(ancestor.semanticHints && ancestor.semanticHints.likelyRole) !== -1);
+    const role = holder ? holder.semanticHints.likelyRole : '';
+
+    const words = name.split(/[^a-zA-Z0-9]+/).filter(Boolean).map(word => word.toLowerCase());
+    const featureWords = feature.split(/[^a-zA-Z0-9]+/).filter(Boolean).map(word => word.toLowerCase());
+    const startsWithFeature = featureWords.length > 0 && featureWords.every((word, idx) => words[idx] === word);
+    const endsWithRole = role && words[words.length - 1] === role;
+    return [startsWithFeature ? '' : feature, name, endsWithRole ? '' : role].filter(Boolean).join(' ');
+}
+
+module.exports = { toMessage, buildStringIndex, lookupExpr, mergeArb, describeStrings };
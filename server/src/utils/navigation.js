@@ -0,0 +1,282 @@
+/**
+ * Prototype navigation helpers: name the route and widget of each screen, pick the
+ * reaction a tap should run, resolve text links, and turn Figma transitions into go_router pages.
+ */
+
+const { call, raw, closure, str, render } = require('./dartBuilder');
+
+// Triggers that become onTap; hover, drag and timers have no tap equivalent
+const TAP_TRIGGERS = ['ON_CLICK', 'ON_PRESS', 'MOUSE_DOWN', 'MOUSE_UP'];
+const TAP_ACTIONS = ['NAVIGATE', 'OVERLAY', 'BACK', 'CLOSE', 'SCROLL_TO'];
+
+const CURVES = {
+    EASE_IN: 'Curves.easeIn',
+    EASE_OUT: 'Curves.easeOut',
+    EASE_IN_AND_OUT: 'Curves.easeInOut',
+    EASE_IN_BACK: 'Curves.easeInBack',
+    EASE_OUT_BACK: 'Curves.easeOutBack',
+    EASE_IN_AND_OUT_BACK: 'Curves.easeInOutBack',
+    // Spring presets have no exact curve; these are the closest in feel
+    GENTLE: 'Curves.easeOutCubic',
+    QUICK: 'Curves.fastOutSlowIn',
+    BOUNCY: 'Curves.easeOutBack',
+    SLOW: 'Curves.easeInOutCubic',
+    CUSTOM_SPRING: 'Curves.easeOut',
+};
+
+// Figma names the direction the new screen moves in; Flutter slides in from the opposite side
+const SLIDE_FROM = {
+    LEFT: 'const Offset(1, 0)',
+    RIGHT: 'const Offset(-1, 0)',
+    TOP: 'const Offset(0, 1)',
+    BOTTOM: 'const Offset(0, -1)',
+};
+
+/**
+ * "Login Screen" → { path: '/login-screen', file: 'login_screen.dart', className: 'LoginScreen' },
+ * the same names the plugin gives a frame when it saves it
+ */
+function screenNames(name) {
+    let snake = String(name || '').trim()
+        .replace(/([a-z0-9])([A-Z])/g, '$1_$2')
+        .replace(/[^a-zA-Z0-9]+/g, '_')
+        .replace(/^_+|_+$/g, '')
+        .toLowerCase();
+    if (!snake) snake = 'screen';
+    if (/^[0-9]/.test(snake)) snake = `screen_${snake}`;
+
+    return {
+        path: `/${snake.replace(/_/g, '-')}`,
+        file: `${snake}.dart`,
+        className: snake.split('_').map(word => word.charAt(0).toUpperCase() + word.slice(1)).join(''),
+    };
+}
+
+/**
+ * The reaction a tap on this node runs: the first tap-triggered one we can generate code for
+ */
+function tapReaction(node) {
+    return (node.reactions || []).find(reaction =>
+        TAP_TRIGGERS.includes(reaction.trigger) && TAP_ACTIONS.includes(reaction.action)
+        && (reaction.action === 'BACK' || reaction.action === 'CLOSE' || reaction.destinationId)
+    ) || null;
+}
+
+/**
+ * Every reaction in a serialized tree, with the node it belongs to
+ * @returns {Object[]} [{ nodeId, nodeName, trigger, action, destinationId, ... }]
+ */
+function collectReactions(figmaData) {
+    const found = [];
+    const walk = node => {
+        if (!node) return;
+        (node.reactions || []).forEach(reaction => found.push({ nodeId: node.id, nodeName: node.name, ...reaction }));
+        (node.children || []).forEach(walk);
+    };
+    walk(figmaData);
+    return found;
+}
+
+/**
+ * Every hyperlink in the rich text of a serialized tree, with the text node it belongs to
+ * @returns {Object[]} [{ nodeId, nodeName, characters, type: 'URL'|'NODE', value, destinationId, destinationName }]
+ */
+function collectTextLinks(figmaData) {
+    const found = [];
+    const walk = node => {
+        if (!node) return;
+        const segments = (node.text && node.text.styledSegments) || [];
+        segments.filter(segment => segment.hyperlink).forEach(segment => found.push({
+            nodeId: node.id, nodeName: node.name, characters: segment.characters, ...segment.hyperlink,
+        }));
+        (node.children || []).forEach(walk);
+    };
+    walk(figmaData);
+    return found;
+}
+
+/**
+ * onTap body of a text link: URLs open with url_launcher, links to frames go to their route.
+ * Returns null for frame links that could not be resolved.
+ */
+function linkTarget(link, routeIndex) {
+    if (link.type === 'URL') {
+        return { package: 'package:url_launcher/url_launcher.dart', onTap: call('launchUrl', {}, [call('Uri.parse', {}, [str(link.value)])]) };
+    }
+    if (!link.destinationId) return null;
+    const destination = destinationOf(link, routeIndex);
+    return { package: 'package:go_router/go_router.dart', onTap: call('context.go', {}, [str(destination.path)]) };
+}
+
+/**
+ * Index a route manifest by screen (frame) ID
+ * @returns {Object} { screens, lookup: { frameId: entry } }
+ */
+function buildRouteIndex(manifest) {
+    const index = { screens: [], lookup: {} };
+    if (!manifest || !Array.isArray(manifest.screens)) return index;
+
+    manifest.screens.forEach(entry => {
+        index.screens.push(entry);
+        index.lookup[entry.id] = entry;
+    });
+    return index;
+}
+
+/**
+ * Route path, widget class and import of a reaction's destination frame. Screens saved
+ * through /project/routes are looked up in the manifest; others are assumed to be saved
+ * next to the current screen under the plugin's default file name.
+ * @param {string} featuresImportPath - Relative path from the importing file to lib/features
+ */
+function destinationOf(reaction, routeIndex, featuresImportPath = '..') {
+    const entry = routeIndex && routeIndex.lookup[reaction.destinationId];
+    if (entry) {
+        return { path: entry.path, className: entry.className, importPath: `${featuresImportPath}/${entry.feature}/${entry.file}` };
+    }
+    const names = screenNames(reaction.destinationName);
+    return { path: names.path, className: names.className, importPath: names.file };
+}
+
+/**
+ * Overlays anchored to the bottom edge open as bottom sheets, the rest as dialogs
+ */
+function isBottomSheet(reaction) {
+    return /^BOTTOM_/.test(reaction.overlayPosition || '');
+}
+
+/**
+ * Figma easing → Flutter curve expression, or null for linear
+ */
+function curveOf(easing) {
+    if (!easing || easing.type === 'LINEAR') return null;
+    if (easing.type === 'CUSTOM_CUBIC_BEZIER' && easing.bezier) {
+        const { x1, y1, x2, y2 } = easing.bezier;
+        return `const Cubic(${[x1, y1, x2, y2].map(value => Math.round(value * 100) / 100).join(', ')})`;
+    }
+    return CURVES[easing.type] || 'Curves.easeOut';
+}
+
+/**
+ * Transition duration in milliseconds (Figma stores seconds)
+ */
+function durationOf(transition) {
+    return Math.round(((transition && transition.duration) || 0.3) * 1000);
+}
+
+/**
+ * Animation a transition drives: the route animation, curved like the Figma easing
+ */
+function curvedAnimation(transition) {
+    const curve = curveOf(transition.easing);
+    return curve ? call('CurvedAnimation', { parent: raw('animation'), curve: raw(curve) }) : raw('animation');
+}
+
+/**
+ * transitionsBuilder body for a Figma transition. Move in, push and slide in slide the new
+ * screen in from the side it enters on (slide in also fades); everything else cross-fades.
+ */
+function buildTransition(transition) {
+    const animation = curvedAnimation(transition);
+    const from = SLIDE_FROM[transition.direction];
+
+    if (from && ['MOVE_IN', 'PUSH', 'SLIDE_IN'].includes(transition.type)) {
+        const offset = transition.type === 'SLIDE_IN' ? from.replace(/\b1\b/, '0.3') : from;
+        const slide = call('SlideTransition', {
+            position: call(`Tween<Offset>(begin: ${offset}, end: Offset.zero).animate`, {}, [animation]),
+            child: raw('child'),
+        });
+        return transition.type === 'SLIDE_IN' ? call('FadeTransition', { opacity: raw('animation'), child: slide }) : slide;
+    }
+    return call('FadeTransition', { opacity: animation, child: raw('child') });
+}
+
+/**
+ * GoRoute for a screen. `transition` is the one used by the links that open it:
+ * undefined when nothing links to it, null for an instant link.
+ */
+function buildRoute(entry, transition) {
+    const screen = raw(`const ${entry.className}()`);
+    if (transition === undefined) {
+        return call('GoRoute', { path: str(entry.path), builder: closure('context, state', screen) });
+    }
+    if (transition === null) {
+        return call('GoRoute', {
+            path: str(entry.path),
+            pageBuilder: closure('context, state', call('NoTransitionPage<void>', { key: raw('state.pageKey'), child: screen })),
+        });
+    }
+    return call('GoRoute', {
+        path: str(entry.path),
+        pageBuilder: closure('context, state', call('CustomTransitionPage<void>', {
+            key: raw('state.pageKey'),
+            transitionDuration: raw(`const Duration(milliseconds: ${durationOf(transition)})`),
+            transitionsBuilder: closure('context, animation, secondaryAnimation, child', buildTransition(transition)),
+            child: screen,
+        })),
+    });
+}
+
+/**
+ * Markdown list of the prototype links in the design for LLM prompts
+ * @param {Object[]} roots - Serialized frames being generated
+ * @param {Object} routeIndex - Optional route index (see buildRouteIndex)
+ */
+function describeNavigation(roots, routeIndex) {
+    const lines = [];
+    const tapped = new Set();
+    roots.forEach(root => collectReactions(root).forEach(reaction => {
+        // Like the generator, only the first tap link of a node is used
+        if (tapped.has(reaction.nodeId) || !tapReaction({ reactions: [reaction] })) return;
+        tapped.add(reaction.nodeId);
+
+        const label = `- Node \`${reaction.nodeId}\` "${reaction.nodeName}": on tap`;
+        if (reaction.action === 'BACK' || reaction.action === 'CLOSE') {
+            lines.push(`${label} call \`Navigator.pop(context)\``);
+        } else if (reaction.action === 'SCROLL_TO') {
+            lines.push(`${label} scroll node \`${reaction.destinationId}\` into view (give it a \`GlobalKey\` and call \`Scrollable.ensureVisible\`)`);
+        } else {
+            const destination = destinationOf(reaction, routeIndex);
+            if (reaction.action === 'NAVIGATE') {
+                lines.push(`${label} call \`context.go('${destination.path}')\``);
+            } else {
+                const show = isBottomSheet(reaction) ? 'showModalBottomSheet' : 'showDialog';
+                lines.push(`${label} open \`${destination.className}\` (import '${destination.importPath}') with \`${show}\``);
+            }
+        }
+    }));
+
+    const linkLines = [];
+    roots.forEach(root => collectTextLinks(root).forEach(link => {
+        const target = linkTarget(link, routeIndex);
+        if (!target) return;
+        linkLines.push(`- Text \`${link.nodeId}\` "${link.nodeName}": the span "${link.characters}" calls \`${render(target.onTap)}\``);
+    }));
+    if (lines.length === 0 && linkLines.length === 0) return '';
+
+    const sections = ['## NAVIGATION'];
+    if (lines.length > 0) {
+        sections.push(`The design has prototype links. Wrap each node below in a \`GestureDetector\` whose \`onTap\` does what is listed; \`context.go\` needs \`import 'package:go_router/go_router.dart';\` (the app's routes live in \`lib/core/router/app_router.dart\`):
+${lines.join('\n')}`);
+    }
+    if (linkLines.length > 0) {
+        sections.push(`Text links: give each span below a \`TapGestureRecognizer\` (\`import 'package:flutter/gestures.dart';\`) whose \`onTap\` does what is listed; \`launchUrl\` comes from \`package:url_launcher/url_launcher.dart\`:
+${linkLines.join('\n')}`);
+    }
+    return sections.join('\n');
+}
+
+module.exports = {
+    screenNames,
+    tapReaction,
+    collectReactions,
+    collectTextLinks,
+    linkTarget,
+    buildRouteIndex,
+    destinationOf,
+    isBottomSheet,
+    curveOf,
+    durationOf,
+    buildRoute,
+    describeNavigation,
+};
@@ -0,0 +1,184 @@
+/**
+ * Structured diff between two SerializedNode revisions of the same design,
+ * matched by node ID, plus a prompt section describing the changes.
+ */
+
+const { stableStringify } = require('./hash');
+
+const LAYOUT_KEYS = [
+    'width', 'height', 'layoutMode', 'primaryAxisSizingMode', 'counterAxisSizingMode',
+    'primaryAxisAlignItems', 'counterAxisAlignItems', 'padding', 'itemSpacing', 'layoutGrow',
+    'layoutAlign', 'layoutWrap', 'layoutPositioning', 'minWidth', 'maxWidth', 'minHeight', 'maxHeight', 'rotation',
+];
+const STYLE_KEYS = [
+    'fills', 'strokes', 'strokeWeight', 'strokeAlign', 'cornerRadius', 'effects', 'opacity', 'clipsContent',
+    'fillStyleId', 'strokeStyleId', 'effectStyleId',
+];
+const TEXT_KEYS = [
+    'characters', 'fontSize', 'fontName', 'fontWeight', 'lineHeight', 'letterSpacing',
+    'textAlignHorizontal', 'textAlignVertical', 'textCase', 'textDecoration', 'textStyleId',
+    'textAutoResize', 'textTruncation', 'maxLines', 'styledSegments',
+];
+
+/**
+ * Diff two revisions of a serialized tree
+ * @param {Object} previous - SerializedNode stored at the last generation
+ * @param {Object} current - Fresh SerializedNode of the same node
+ * @returns {Object[]} [{ nodeId, name, path, kind, details: [{ property, before, after }] }]
+ *   kind: 'added' | 'removed' | 'renamed' | 'visibility' | 'layout' | 'style' | 'text' | 'interaction' | 'reordered'
+ */
+function diffNodes(previous, current) {
+    const changes = [];
+    walk(previous, current, null, [], changes);
+    return changes;
+}
+
+function walk(previous, current, parent, ancestors, changes) {
+    const path = [...ancestors, current.name];
+    const record = (kind, details) => {
+        if (details.length > 0) {
+            changes.push({ nodeId: current.id, name: current.name, path: path.join(' > '), kind, details });
+        }
+    };
+
+    if (previous.name !== current.name) {
+        record('renamed', [{ property: 'name', before: previous.name, after: current.name }]);
+    }
+    if ((previous.visible !== false) !== (current.visible !== false)) {
+        record('visibility', [{ property: 'visible', before: previous.visible !== false, after: current.visible !== false }]);
+    }
+
+    // Position only matters where the node is not placed by auto layout
+    const positioned = !parent || !isAutoLayout(parent)
+        || (current.layout && current.layout.layoutPositioning === 'ABSOLUTE');
+    const layoutKeys = positioned ? [...LAYOUT_KEYS, 'x', 'y'] : LAYOUT_KEYS;
+    record('layout', compareKeys(previous.layout, current.layout, layoutKeys));
+    record('style', compareKeys(previous.style, current.style, STYLE_KEYS));
+    record('text', compareKeys(previous.text, current.text, TEXT_KEYS));
+    record('interaction', compareKeys(previous, current, ['reactions']));
+
+    const previousChildren = previous.children || [];
+    const currentChildren = current.children || [];
+    const previousIds = new Set(previousChildren.map(child => child.id));
+    const currentIds = new Set(currentChildren.map(child => child.id));
+
+    previousChildren
+        .filter(child => !currentIds.has(child.id))
+        .forEach(child => changes.push({
+            nodeId: child.id, name: child.name, path: [...path, child.name].join(' > '), kind: 'removed', details: [],
+        }));
+    currentChildren
+        .filter(child => !previousIds.has(child.id))
+        .forEach(child => changes.push({
+            nodeId: child.id, name: child.name, path: [...path, child.name].join(' > '), kind: 'added',
+            details: [{ property: 'type', before: null, after: child.type }],
+        }));
+
+    const keptBefore = previousChildren.filter(child => currentIds.has(child.id));
+    const keptAfter = currentChildren.filter(child => previousIds.has(child.id));
+    if (keptBefore.some((child, idx) => child.id !== keptAfter[idx].id)) {
+        record('reordered', [{
+            property: 'children',
+            before: keptBefore.map(child => child.name).join(', '),
+            after: keptAfter.map(child => child.name).join(', '),
+        }]);
+    }
+
+    const previousById = new Map(keptBefore.map(child => [child.id, child]));
+    keptAfter.forEach(child => walk(previousById.get(child.id), child, current, path, changes));
+}
+
+function isAutoLayout(node) {
+    const mode = node.layout && node.layout.layoutMode;
+    return mode === 'HORIZONTAL' || mode === 'VERTICAL' || mode === 'GRID';
+}
+
+/**
+ * @private
+ */
+function compareKeys(before = {}, after = {}, keys) {
+    return keys
+        .filter(key => stableStringify(normalize(before[key])) !== stableStringify(normalize(after[key])))
+        .map(key => ({ property: key, before: formatValue(key, before[key]), after: formatValue(key, after[key]) }));
+}
+
+/**
+ * Round numbers so float noise from Figma does not show up as a change
+ */
+function normalize(value) {
+    if (typeof value === 'number') return Math.round(value * 100) / 100;
+    if (Array.isArray(value)) return value.map(normalize);
+    if (value && typeof value === 'object') {
+        return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, normalize(item)]));
+    }
+    return value;
+}
+
+/**
+ * Short human-readable form of a property value
+ */
+function formatValue(key, value) {
+    if (value === undefined || value === null) return null;
+    if (typeof value === 'number') return Math.round(value * 100) / 100;
+    if (typeof value !== 'object') return value;
+
+    if (key === 'fills' || key === 'strokes') {
+        return value.filter(paint => paint && paint.visible !== false).map(formatPaint).join(', ') || 'none';
+    }
+    if (key === 'effects') {
+        return value.filter(effect => effect && effect.visible !== false).map(formatEffect).join(', ') || 'none';
+    }
+    if (key === 'padding') {
+        return ['top', 'right', 'bottom', 'left'].map(side => formatValue(side, value[side])).join(' ');
+    }
+    if (key === 'cornerRadius') {
+        return ['topLeft', 'topRight', 'bottomRight', 'bottomLeft'].map(corner => formatValue(corner, value[corner])).join(' ');
+    }
+    if (key === 'reactions') {
+        return value.map(r => `${r.trigger} ${r.action}${r.destinationName ? ` → ${r.destinationName}` : ''}`).join(', ') || 'none';
+    }
+    if (key === 'styledSegments') {
+        return value.map(segment => `"${segment.characters}"${segment.hyperlink ? ` → ${segment.hyperlink.destinationName || segment.hyperlink.value}` : ''}`).join(', ');
+    }
+    if (key === 'fontName') return `${value.family} ${value.style}`;
+    if ((key === 'lineHeight' || key === 'letterSpacing') && 'unit' in value) {
+        return value.unit === 'AUTO' ? 'auto' : `${formatValue('value', value.value)}${value.unit === 'PERCENT' ? '%' : 'px'}`;
+    }
+    return stableStringify(normalize(value));
+}
+
+function formatPaint(paint) {
+    if (paint.type === 'SOLID' && paint.color) {
+        const hex = ['r', 'g', 'b']
+            .map(channel => Math.round(paint.color[channel] * 255).toString(16).padStart(2, '0'))
+            .join('')
+            .toUpperCase();
+        const opacity = paint.opacity !== undefined && paint.opacity < 1 ? ` ${Math.round(paint.opacity * 100)}%` : '';
+        return `#${hex}${opacity}`;
+    }
+    return paint.type;
+}
+
+function formatEffect(effect) {
+    if (effect.type === 'DROP_SHADOW' || effect.type === 'INNER_SHADOW') {
+        const offset = effect.offset || { x: 0, y: 0 };
+        return `${effect.type} ${formatValue('x', offset.x)},${formatValue('y', offset.y)} blur ${formatValue('radius', effect.radius)}`;
+    }
+    return `${effect.type} ${formatValue('radius', effect.radius)}`;
+}
+
+/**
+ * Markdown list of changes for LLM prompts
+ */
+function describeChanges(changes) {
+    if (!changes || changes.length === 0) return '';
+    return changes.map(change => {
+        const label = `\`${change.nodeId}\` ${change.path}`;
+        if (change.kind === 'added') return `- ${label}: added (${change.details[0].after})`;
+        if (change.kind === 'removed') return `- ${label}: removed`;
+        const details = change.details.map(d => `${d.property} ${JSON.stringify(d.before)} → ${JSON.stringify(d.after)}`);
+        return `- ${label}: ${change.kind} — ${details.join('; ')}`;
+    }).join('\n');
+}
+
+module.exports = { diffNodes, describeChanges };
@@ -0,0 +1,161 @@
+/**
+ * Minimal PNG codec for the visual check: decodes the 8-bit, non-interlaced images that
+ * Figma exports and Flutter golden tests write, and encodes RGBA heatmaps.
+ */
+
+const zlib = require('zlib');
+
+const SIGNATURE = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+
+// Channels per pixel by PNG color type: grayscale, RGB, palette, grayscale + alpha, RGBA
+const CHANNELS = { 0: 1, 2: 3, 3: 1, 4: 2, 6: 4 };
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+    let c = n;
+    for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    return c >>> 0;
+});
+
+function crc32(buffer) {
+    let crc = 0xffffffff;
+    for (let i = 0; i < buffer.length; i++) crc = CRC_TABLE[(crc ^ buffer[i]) & 0xff] ^ (crc >>> 8);
+    return (crc ^ 0xffffffff) >>> 0;
+}
+
+/**
+ * @param {Buffer} buffer - PNG file contents
+ * @returns {{width: number, height: number, data: Buffer}} data is RGBA, 4 bytes per pixel
+ * @throws {Error} When the file is not a PNG or uses 16-bit channels or interlacing
+ */
+function decodePng(buffer) {
+    if (!buffer || buffer.length < SIGNATURE.length || !buffer.subarray(0, 8).equals(SIGNATURE)) {
+        throw new Error('Not a PNG image.');
+    }
+
+    let header = null;
+    let palette = null;
+    let transparency = null;
+    const idat = [];
+    for (let offset = 8; offset < buffer.length;) {
+        const length = buffer.readUInt32BE(offset);
+        const type = buffer.toString('ascii', offset + 4, offset + 8);
+        const chunk = buffer.subarray(offset + 8, offset + 8 + length);
+        offset += length + 12;
+
+        if (type === 'IHDR') {
+            header = {
+                width: chunk.readUInt32BE(0),
+                height: chunk.readUInt32BE(4),
+                bitDepth: chunk[8],
+                colorType: chunk[9],
+                interlace: chunk[12],
+            };
+        } else if (type === 'PLTE') {
+            palette = chunk;
+        } else if (type === 'tRNS') {
+            transparency = chunk;
+        } else if (type === 'IDAT') {
+            idat.push(chunk);
+        } else if (type === 'IEND') {
+            break;
+        }
+    }
+
+    if (!header) throw new Error('PNG image has no header.');
+    const channels = CHANNELS[header.colorType];
+    if (!channels || header.bitDepth !== 8 || header.interlace !== 0) {
+        throw new Error(`Unsupported PNG format (color type ${header.colorType}, ${header.bitDepth}-bit${header.interlace ? ', interlaced' : ''}).`);
+    }
+
+    const { width, height } = header;
+    const pixels = unfilter(zlib.inflateSync(Buffer.concat(idat)), width, height, channels);
+    const data = Buffer.alloc(width * height * 4);
+    for (let i = 0; i < width * height; i++) {
+        const source = pixels.subarray(i * channels, (i + 1) * channels);
+        let rgba;
+        if (header.colorType === 0) rgba = [source[0], source[0], source[0], 255];
+        else if (header.colorType === 2) rgba = [source[0], source[1], source[2], 255];
+        else if (header.colorType === 4) rgba = [source[0], source[0], source[0], source[1]];
+        else if (header.colorType === 6) rgba = source;
+        else {
+            const index = source[0];
+            rgba = [palette[index * 3], palette[index * 3 + 1], palette[index * 3 + 2], transparency && index < transparency.length ? transparency[index] : 255];
+        }
+        data[i * 4] = rgba[0];
+        data[i * 4 + 1] = rgba[1];
+        data[i * 4 + 2] = rgba[2];
+        data[i * 4 + 3] = rgba[3];
+    }
+    return { width, height, data };
+}
+
+/**
+ * Undo the per-scanline filters (none, sub, up, average, Paeth)
+ * @private
+ */
+function unfilter(raw, width, height, bytesPerPixel) {
+    const stride = width * bytesPerPixel;
+    const out = Buffer.alloc(stride * height);
+    for (let y = 0; y < height; y++) {
+        const filter = raw[y * (stride + 1)];
+        const line = raw.subarray(y * (stride + 1) + 1, (y + 1) * (stride + 1));
+        const row = y * stride;
+        for (let x = 0; x < stride; x++) {
+            const left = x >= bytesPerPixel ? out[row + x - bytesPerPixel] : 0;
+            const up = y > 0 ? out[row - stride + x] : 0;
+            const upLeft = y > 0 && x >= bytesPerPixel ? out[row - stride + x - bytesPerPixel] : 0;
+            let predictor = 0;
+            if (filter === 1) predictor = left;
+            else if (filter === 2) predictor = up;
+            else if (filter === 3) predictor = (left + up) >> 1;
+            else if (filter === 4) {
+                const p = left + up - upLeft;
+                const pa = Math.abs(p - left);
+                const pb = Math.abs(p - up);
+                const pc = Math.abs(p - upLeft);
+                predictor = pa <= pb && pa <= pc ? left : pb <= pc ? up : upLeft;
+            }
+            out[row + x] = (line[x] + predictor) & 0xff;
+        }
+    }
+    return out;
+}
+
+/**
+ * @param {{width: number, height: number, data: Buffer}} image - RGBA pixels
+ * @returns {Buffer} PNG file contents
+ */
+function encodePng({ width, height, data }) {
+    const stride = width * 4;
+    const raw = Buffer.alloc((stride + 1) * height);
+    for (let y = 0; y < height; y++) {
+        data.copy(raw, y * (stride + 1) + 1, y * stride, (y + 1) * stride);
+    }
+
+    const header = Buffer.alloc(13);
+    header.writeUInt32BE(width, 0);
+    header.writeUInt32BE(height, 4);
+    header[8] = 8;
+    header[9] = 6;
+
+    return Buffer.concat([
+        SIGNATURE,
+        chunk('IHDR', header),
+        chunk('IDAT', zlib.deflateSync(raw)),
+        chunk('IEND', Buffer.alloc(0)),
+    ]);
+}
+
+/**
+ * @private
+ */
+function chunk(type, body) {
+    const length = Buffer.alloc(4);
+    length.writeUInt32BE(body.length, 0);
+    const typeAndBody = Buffer.concat([Buffer.from(type, 'ascii'), body]);
+    const crc = Buffer.alloc(4);
+    crc.writeUInt32BE(crc32(typeAndBody), 0);
+    return Buffer.concat([length, typeAndBody, crc]);
+}
+
+module.exports = { decodePng, encodePng };
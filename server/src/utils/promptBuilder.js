@@ -1,9 +1,12 @@
+const { describeChanges } = require('./nodeDiff');
+const { STATE_MANAGEMENT, stateManagementOf } = require('./forms');
+const { compactNode } = require('./compactNode');
+
 function buildPrompt(figmaData, options = {}, assetMap = {}) {
     const { widgetType = 'StatelessWidget', useProvider = false } = options;
 
-    const assetInstruction = Object.keys(assetMap).length > 0
-        ? `\n### ASSETS\n${Object.entries(assetMap).map(([id, path]) => `- Node ID \`"${id}"\` maps to \`Image.asset('${path}')\``).join('\n')}\n`
-        : '';
+    const assetInstruction = buildAssetInstruction(assetMap);
+    const pattern = widgetType === 'StatefulWidget' ? stateManagementOf(useProvider) : null;
 
     const systemInstruction = `You are a Senior Flutter Engineer with expertise in pixel-perfect UI conversion.
 
@@ -15,14 +18,17 @@ Convert Figma design JSON into production-ready Flutter code with 100%+ visual f
 ### Step 1: Semantic Analysis
 - Review \`semanticHints.likelyRole\` to understand component purpose
 - Identify if elements are interactive (\`isInteractive: true\`)
-- Recognize decorative elements (\`isDecorative: true\`)
+- Recognize decorative elements (\`isDecorative: true\`) and wrap them in \`ExcludeSemantics\`
+- Apply \`accessibility\` annotations: \`label\` / \`hint\` → \`Semantics\`, \`headingLevel\` → \`Semantics(header: true, headingLevel: n)\`, \`excluded\` → \`ExcludeSemantics\`
 - Use \`metadata.isComponent\` to identify reusable patterns
 
 ### Step 2: Layout Strategy
 - **Auto Layout (HORIZONTAL)** → \`Row\` with proper \`MainAxisAlignment\`
 - **Auto Layout (VERTICAL)** → \`Column\` with proper \`MainAxisAlignment\`
 - **Absolute Positioning** (\`layoutPositioning: "ABSOLUTE"\`) → \`Stack\` + \`Positioned\`
-- **Grid Layout** → Consider \`GridView\` or \`Wrap\` based on \`layoutWrap\`
+- **Wrapped rows** (\`layoutWrap: "WRAP"\`) → \`Wrap(spacing: itemSpacing, runSpacing: counterAxisSpacing)\`
+- **Grid Layout** (\`layoutMode: "GRID"\`) → \`GridView\` (or \`SliverGrid\` in a \`CustomScrollView\`) with \`SliverGridDelegateWithFixedCrossAxisCount(crossAxisCount: gridColumnCount, mainAxisSpacing: gridRowGap, crossAxisSpacing: gridColumnGap)\`; children with \`gridRowSpan\`/\`gridColumnSpan\` above 1 keep their positions in a \`Stack\`
+- **Repeated instances** (3+ children with the same \`mainComponentId\`) → one item widget built by \`GridView.builder\` or a collection \`for\` over a \`static const\` list of records holding the values that differ
 - **Responsive Sizing**:
   - \`primaryAxisSizingMode: "AUTO"\` → \`MainAxisSize.min\`
   - \`counterAxisSizingMode: "AUTO"\` → Use intrinsic sizes
@@ -60,13 +66,14 @@ Convert Figma design JSON into production-ready Flutter code with 100%+ visual f
   - 100→Thin, 200→ExtraLight, 300→Light, 400→Regular, 500→Medium, 600→SemiBold, 700→Bold, 800→ExtraBold, 900→Black
 - **Line Height**: Convert to \`height\` property (Figma lineHeight / fontSize)
 - **Letter Spacing**: Direct mapping
-- **Styled Text Segments** (\`styledSegments\`): Use \`RichText\` + \`TextSpan\` for multi-style text
+- **Styled Text Segments** (\`styledSegments\`): Use \`Text.rich\` + one \`TextSpan\` per segment; segments with \`hyperlink\` get a \`TapGestureRecognizer\`, \`listType\` segments start each line with a bullet or number
+- **Text Sizing**: \`textAutoResize\` \`WIDTH_AND_HEIGHT\` → \`softWrap: false\`; \`HEIGHT\` → fixed width; \`NONE\` → fixed width and height; \`TRUNCATE\` or \`textTruncation: ENDING\` → \`overflow: TextOverflow.ellipsis\` (with \`maxLines\`)
 - **Text Case**: Apply \`.toUpperCase()\` / \`.toLowerCase()\` to \`characters\`
 
 ### Step 6: Component Recognition
 Apply Flutter patterns based on \`semanticHints.likelyRole\`:
 - \`button\` → \`ElevatedButton\` / \`TextButton\` / \`IconButton\`
-- \`input\` → \`TextField\` with \`InputDecoration\`
+- \`input\` → \`TextFormField\` with \`InputDecoration\` in a \`Form\` with a \`GlobalKey<FormState>\`; one disposed \`TextEditingController\` per field and validators inferred from the field name (email, password, phone)
 - \`card\` → \`Card\` widget with elevation
 - \`avatar\` → \`CircleAvatar\` or clipped \`Container\`
 - \`icon\` → \`Icon\` or \`Image.asset\`
@@ -79,6 +86,7 @@ ${assetInstruction}
 
 ### Structure
 - Generate a \`${widgetType}\` named \`GeneratedWidget\`
+- ${pattern ? `Manage state with ${STATE_MANAGEMENT[pattern].package}` : 'Keep UI state in the widget; no state management package'}
 - Complex UIs: Break into private methods (\`_buildHeader()\`, \`_buildCard()\`)
 - Very complex sections: Extract to separate \`StatelessWidget\` classes
 
@@ -126,4 +134,96 @@ IMPORTANT: Analyze the structure carefully. Use the semantic hints and visual co
     return { systemInstruction, userPrompt };
 }
 
-module.exports = { buildPrompt };
\ No newline at end of file
+/**
+ * Prompt section mapping node IDs to the image and SVG icon assets copied into the project
+ */
+function buildAssetInstruction(assetMap = {}) {
+    const entries = Object.entries(assetMap);
+    if (entries.length === 0) return '';
+
+    const lines = entries.map(([id, path]) => {
+        const widget = path.endsWith('.svg') ? `SvgPicture.asset('${path}')` : `Image.asset('${path}')`;
+        return `- Node ID \`"${id}"\` maps to \`${widget}\``;
+    });
+    const svgNote = entries.some(([, path]) => path.endsWith('.svg'))
+        ? `\nSVG icons need \`import 'package:flutter_svg/flutter_svg.dart';\` (flutter_svg is already in pubspec.yaml).\n`
+        : '';
+    return `\n### ASSETS\n${lines.join('\n')}\n${svgNote}`;
+}
+
+/**
+ * Prompt section asking for a focused update of previously generated code
+ * @param {Object[]} changes - Output of nodeDiff.diffNodes
+ * @param {string} previousCode - Code generated from the earlier design revision
+ */
+function buildChangeInstruction(changes, previousCode) {
+    if (!changes || changes.length === 0 || !previousCode) return '';
+    return `\n### FOCUSED REGENERATION\nThe Flutter code below was generated from an earlier revision of this design. Since then only these nodes changed (node ID, path, change):\n${describeChanges(changes)}\n\nUpdate the existing code to reflect exactly these changes. Keep every other widget, name, helper and comment as it is, and return the complete updated file.\n\n\`\`\`dart\n${previousCode}\n\`\`\`\n`;
+}
+
+/**
+ * Prompt section for a responsive screen: one screenshot and Figma tree per breakpoint,
+ * to be combined into a single widget that switches layouts with LayoutBuilder
+ * @param {Object[]} breakpoints - Output of utils/breakpoints.normalizeBreakpoints, smallest first
+ */
+function buildBreakpointInstruction(breakpoints, tokenIndex = null) {
+    if (!breakpoints || breakpoints.length === 0) return '';
+
+    const layouts = breakpoints.map((bp, index) => `${index + 1}. **${bp.name}** — applies from ${bp.minWidth}px wide; designed at ${Math.round(bp.figmaData.layout ? bp.figmaData.layout.width : 0)}px (screenshot ${index + 1})`);
+    const trees = breakpoints.map(bp => `Figma Design JSON (${bp.name}):\n\`\`\`json\n${JSON.stringify(compactNode(bp.figmaData, { tokenIndex }))}\n\`\`\``);
+    const thresholds = breakpoints.slice(1).reverse().map(bp => `constraints.maxWidth >= ${bp.minWidth} → ${bp.name}`).join(', ');
+
+    return `\n### RESPONSIVE LAYOUT\nThe screenshots show the same screen at ${breakpoints.length} breakpoints, in this order:\n${layouts.join('\n')}\n\nGenerate ONE widget whose build method returns a \`LayoutBuilder\` that picks the layout for the available width (${thresholds}, otherwise ${breakpoints[0].name}). Put each layout in its own private method (e.g. \`_buildMobile()\`).\n- Sections that look the same in several layouts must be built once, in a private method that those layouts call.\n- Do not hardcode the frame widths: the root of each layout fills the available width.\n- Follow each node's \`constraints\`: STRETCH (left and right) → \`Positioned\` with both sides or \`Expanded\`/\`double.infinity\`; SCALE → \`FractionallySizedBox\`; MAX → pin to the right or bottom. Turn \`minWidth\`/\`maxWidth\` into \`BoxConstraints\`.\n\n${trees.join('\n\n')}\n`;
+}
+
+/**
+ * Prompt section for one part of a frame too large for one request (see utils/promptParts):
+ * the screenshot shows the whole screen, but only this subtree is generated
+ * @param {Object} figmaData - SerializedNode subtree of the part
+ * @param {string} className - Private widget class of the part
+ */
+function buildPartInstruction(figmaData, className) {
+    return `### PART OF A LARGER SCREEN\nThe screenshot shows the whole screen, but generate only the "${figmaData.name}" layer described by the Figma data, as \`${className}\`. The screen places it, so its root fills the size it is given instead of adding outer margins. It goes into the same file as the rest of the screen: no \`main()\`, no \`MaterialApp\`/\`Scaffold\`, and only the imports this part uses.\n`;
+}
+
+/**
+ * Prompt section for nodes of the Figma data that stand in for separately generated parts
+ * (`widget: '_ClassName'`), or '' when there are none
+ * @param {Object[]} roots - SerializedNode trees of the prompt
+ */
+function buildPlaceholderInstruction(roots) {
+    const placeholders = [];
+    const walk = node => {
+        if (node.widget) placeholders.push(node);
+        else (node.children || []).forEach(walk);
+    };
+    roots.forEach(walk);
+    if (placeholders.length === 0) return '';
+
+    const lines = placeholders.map(node => `- "${node.name}" (${node.id}) → \`const ${node.widget}()\``);
+    return `### SEPARATELY GENERATED SECTIONS\nThese nodes have a \`widget\` instead of children. Their widgets are generated separately and added to the same file, so place each one where its node is (keeping its \`layout\` size and position) and do not define those classes:\n${lines.join('\n')}\n`;
+}
+
+/**
+ * Prompt asking the model to fix analyzer errors in code it generated
+ * @param {string} code - Generated Dart source
+ * @param {Object[]} diagnostics - { severity, line, column, code, message } (see services/validationService)
+ */
+function buildRepairInstruction(code, diagnostics) {
+    const lines = diagnostics.map(d => `- ${d.line}:${d.column} ${d.severity} ${d.code}: ${d.message}`);
+    return `The Flutter file below does not compile. The Dart analyzer reported (line:column severity code: message):\n${lines.join('\n')}\n\nFix these problems with the smallest possible changes. Keep the widget tree, names, styling and comments as they are, and return the complete corrected file.\n\n\`\`\`dart\n${code}\n\`\`\`\n`;
+}
+
+/**
+ * Prompt asking the model to bring its code closer to the design after a visual check.
+ * Sent with two images: the Figma screenshot, then the difference heatmap.
+ * @param {string} code - Generated Dart source
+ * @param {Object} visual - Result of services/visualService verify()
+ */
+function buildRefineInstruction(code, visual) {
+    const regions = (visual.regions || []).map(r => `- x ${r.x}–${r.x + r.width}, y ${r.y}–${r.y + r.height}: ${Math.round(r.mismatch * 100)}% of pixels differ`);
+    const where = regions.length > 0 ? `\nThe differences are concentrated here (logical pixels from the top-left of the frame):\n${regions.join('\n')}\n` : '';
+    return `The Flutter widget below was rendered at the frame's size and compared with the Figma screenshot (first image). ${(visual.similarity * 100).toFixed(1)}% of pixels match. The second image is a heatmap of the comparison: red marks pixels that differ, stronger red means a bigger difference.\n${where}\nChange sizes, spacing, alignment, colors, borders and radii so the rendering matches the screenshot. Text is rendered in a placeholder font, so ignore differences that only come from glyph shapes. Keep the widget names, structure and comments where they already match, and return the complete updated file.\n\n\`\`\`dart\n${code}\n\`\`\`\n`;
+}
+
+module.exports = { buildPrompt, buildAssetInstruction, buildChangeInstruction, buildBreakpointInstruction, buildPartInstruction, buildPlaceholderInstruction, buildRepairInstruction, buildRefineInstruction };
\ No newline at end of file
@@ -0,0 +1,143 @@
+/**
+ * Frames too large for one prompt: the biggest subtrees are taken out and generated as
+ * their own private widgets, the frame refers to them by class name, and the outputs are
+ * stitched back into one file.
+ */
+
+const { toIdentifier } = require('./designTokens');
+const { collectForm } = require('./forms');
+const { collectReactions } = require('./navigation');
+
+/**
+ * Split a frame until each part fits the budget. The largest subtree is taken out first,
+ * and parts that are still too large are split again.
+ * @param {Object} root - SerializedNode frame
+ * @param {Object} options
+ * @param {number} options.budget - Largest size of one part, in the units of measure
+ * @param {Function} options.measure - SerializedNode → prompt size (e.g. estimated tokens)
+ * @param {Set<string>} options.pinned - IDs of nodes that must stay in the root widget;
+ *   subtrees containing one are not taken out (see pinnedNodes)
+ * @param {Set<string>} options.names - Class names already in use
+ * @returns {{root: Object, parts: {node: Object, className: string}[]}} root with
+ *   placeholders (`widget: '_ClassName'`) in place of the parts; parts are listed before
+ *   the parts and root that use them
+ */
+function splitTree(root, { budget, measure, pinned = new Set(), names = new Set() }) {
+    const parts = [];
+    const canExtract = node => !containsAny(node, pinned);
+
+    const split = tree => {
+        let current = tree;
+        while (measure(current) > budget) {
+            const candidate = largestSubtree(current, measure, canExtract);
+            if (!candidate) break;
+
+            const id = toIdentifier(candidate.name, names, 'section', 'Section');
+            const className = `_${id.charAt(0).toUpperCase()}${id.slice(1)}`;
+            parts.push({ node: split(candidate), className });
+            current = replaceNode(current, candidate.id, placeholder(candidate, className));
+        }
+        return current;
+    };
+
+    return { root: split(root), parts };
+}
+
+/**
+ * Nodes the screen's own State refers to: form inputs and their submit button (their
+ * controllers and validation live in the State of a StatefulWidget) and both ends of
+ * scroll-to links (their GlobalKeys do)
+ * @param {Object} root - SerializedNode frame
+ * @param {Object} options - widgetType and componentIndex of the generation
+ * @returns {Set<string>}
+ */
+function pinnedNodes(root, { widgetType = 'StatelessWidget', componentIndex = null } = {}) {
+    const pinned = new Set();
+    const form = widgetType === 'StatefulWidget' ? collectForm([root], { componentIndex }) : null;
+    if (form) {
+        form.byNode.forEach((field, id) => pinned.add(id));
+        form.submit.forEach(id => pinned.add(id));
+    }
+    collectReactions(root)
+        .filter(reaction => reaction.action === 'SCROLL_TO')
+        .forEach(reaction => {
+            pinned.add(reaction.nodeId);
+            if (reaction.destinationId) pinned.add(reaction.destinationId);
+        });
+    return pinned;
+}
+
+/**
+ * @private
+ */
+function containsAny(node, ids) {
+    return ids.has(node.id) || (node.children || []).some(child => containsAny(child, ids));
+}
+
+/**
+ * Biggest container below the root that can be taken out, or null
+ * @private
+ */
+function largestSubtree(root, measure, canExtract) {
+    let best = null;
+    let bestSize = 0;
+    const walk = (node, isRoot) => {
+        if (node.widget || node.visible === false) return;
+        if (!isRoot && (node.children || []).length > 0 && canExtract(node)) {
+            const size = measure(node);
+            if (size > bestSize) {
+                best = node;
+                bestSize = size;
+            }
+        }
+        (node.children || []).forEach(child => walk(child, false));
+    };
+    walk(root, true);
+    return best;
+}
+
+/**
+ * Stand-in for a subtree generated separately: where it sits and which widget draws it
+ * @private
+ */
+function placeholder(node, className) {
+    const result = { id: node.id, name: node.name, type: node.type, widget: className };
+    if (node.layout) result.layout = node.layout;
+    return result;
+}
+
+/**
+ * Copy of a tree with one node replaced; only the path to it is copied
+ * @private
+ */
+function replaceNode(node, id, replacement) {
+    if (node.id === id) return replacement;
+    if (!node.children) return node;
+    const children = node.children.map(child => replaceNode(child, id, replacement));
+    return children.some((child, idx) => child !== node.children[idx]) ? { ...node, children } : node;
+}
+
+/**
+ * One Dart file from the code of the root widget and of its parts: the imports of all
+ * of them at the top, then the root widget, then the parts
+ * @param {string} rootCode
+ * @param {string[]} partCodes
+ */
+function stitchParts(rootCode, partCodes) {
+    if (partCodes.length === 0) return rootCode;
+
+    const imports = [];
+    const bodies = [rootCode, ...partCodes].map(code => code
+        .split('\n')
+        .filter(line => {
+            if (!/^import\s+['"].*;\s*$/.test(line)) return true;
+            if (!imports.includes(line.trim())) imports.push(line.trim());
+            return false;
+        })
+        .join('\n')
+        .trim());
+
+    return `${imports.length > 0 ? `${imports.join('\n')}\n\n` : ''}${bodies.join('\n\n')}\n`;
+}
+
+module.exports = { splitTree, pinnedNodes, stitchParts };
@@ -0,0 +1,130 @@
+/**
+ * Request body schemas. Each route lists the fields it reads; a field is a spec like
+ * `{ type: 'string', optional: true }` with one of these checks on top:
+ * - `oneOf`: allowed values
+ * - `name`: a folder or file name that stays inside its folder (see utils/security)
+ * - `pattern` + `message`: a regular expression the value must match
+ * - `projectPath`: an absolute path inside an allowed project root; replaced by its resolved form
+ * - `fields` (objects) and `items` (arrays): specs of what they hold
+ * - `values` (objects keyed by ID, e.g. assets by node ID): spec of each value
+ * Fields not listed are passed through unchecked.
+ */
+
+const { resolveInRoots, isSafeName } = require('./security');
+
+// Specs shared by several routes
+const PROJECT_PATH = { type: 'string', projectPath: true };
+const NAME = { type: 'string', name: true };
+const UPLOAD = { type: 'string', name: true, optional: true };
+
+// Serialized Figma node; the services walk `children` without further checks
+const NODE = { type: 'object', fields: {} };
+NODE.fields.children = { type: 'array', optional: true, items: NODE };
+
+// Uploaded assets by node ID, as the plugin sends them after /upload-image
+const ASSETS = {
+    type: 'object',
+    optional: true,
+    values: {
+        type: 'object',
+        fields: {
+            filename: NAME,
+            name: { type: 'string', optional: true },
+            format: { type: 'string', oneOf: ['png', 'svg'], optional: true },
+        },
+    },
+};
+
+/**
+ * Middleware answering 400 when the body does not match the schema
+ * @param {Object} schema - Field name → spec
+ * @param {Object} security - projectRoots from loadSecurityConfig
+ */
+function validateBody(schema, { projectRoots }) {
+    return (req, res, next) => {
+        if (!req.body || typeof req.body !== 'object' || Array.isArray(req.body)) {
+            return res.status(400).json({ error: 'Request body must be a JSON object.' });
+        }
+        const error = checkFields(req.body, schema, '', projectRoots);
+        if (error) {
+            return res.status(400).json({ error });
+        }
+        next();
+    };
+}
+
+/**
+ * First problem with the fields of an object, or null
+ * @private
+ */
+function checkFields(object, fields, prefix, roots) {
+    for (const key of Object.keys(fields)) {
+        const spec = fields[key];
+        const label = `${prefix}${key}`;
+        const value = object[key];
+
+        if (value === undefined || value === null) {
+            if (spec.optional) continue;
+            return `Missing ${label} in request body.`;
+        }
+        const error = checkValue(value, spec, label, roots);
+        if (error) return error;
+        if (spec.projectPath) object[key] = resolveInRoots(value, roots);
+    }
+    return null;
+}
+
+/**
+ * @private
+ */
+function checkValue(value, spec, label, roots) {
+    if (!hasType(value, spec.type)) {
+        return `${label} must be ${spec.type === 'array' || spec.type === 'object' ? 'an' : 'a'} ${spec.type}.`;
+    }
+    if (spec.oneOf && !spec.oneOf.includes(value)) {
+        return `${label} must be one of: ${spec.oneOf.join(', ')}.`;
+    }
+    if (spec.name && !isSafeName(value)) {
+        return `${label} must be a plain name: letters, digits, "_", "-" and "." only, without "..".`;
+    }
+    if (spec.pattern && !spec.pattern.test(value)) {
+        return `${label} ${spec.message}`;
+    }
+    if (spec.projectPath && !resolveInRoots(value, roots)) {
+        return `${label} must be an absolute path inside one of the allowed project roots: ${roots.join(', ')}.`;
+    }
+    if (spec.fields) {
+        const error = checkFields(value, spec.fields, `${label}.`, roots);
+        if (error) return error;
+    }
+    if (spec.values) {
+        for (const key of Object.keys(value)) {
+            const error = value[key] === null
+                ? `Missing ${label}["${key}"] in request body.`
+                : checkValue(value[key], spec.values, `${label}["${key}"]`, roots);
+            if (error) return error;
+        }
+    }
+    if (spec.items) {
+        for (let idx = 0; idx < value.length; idx++) {
+            const item = value[idx];
+            const error = item === undefined || item === null
+                ? `Missing ${label}[${idx}] in request body.`
+                : checkValue(item, spec.items, `${label}[${idx}]`, roots);
+            if (error) return error;
+        }
+    }
+    return null;
+}
+
+/**
+ * @private
+ */
+function hasType(value, type) {
+    if (type === 'array') return Array.isArray(value);
+    if (type === 'object') return typeof value === 'object' && !Array.isArray(value);
+    if (type === 'integer') return Number.isInteger(value);
+    return typeof value === type;
+}
+
+module.exports = { validateBody, PROJECT_PATH, NAME, UPLOAD, NODE, ASSETS };
@@ -0,0 +1,52 @@
+/**
+ * Scratch copies of generated code written into the project for the Dart / Flutter checks.
+ */
+
+const fs = require('fs');
+const path = require('path');
+
+/**
+ * Remove files in a scratch directory older than maxAge. A check that crashed or was killed
+ * leaves its files behind; anything older than the check's timeout is no longer in use.
+ * @param {string} dir
+ * @param {number} maxAge - Milliseconds
+ * @returns {Promise<string[]>} names of the removed files
+ */
+async function removeStaleFiles(dir, maxAge) {
+    const files = await fs.promises.readdir(dir).catch(() => []);
+    const removed = [];
+    for (const file of files) {
+        const filePath = path.join(dir, file);
+        const stats = await fs.promises.stat(filePath).catch(() => null);
+        if (stats && stats.isFile() && Date.now() - stats.mtimeMs > maxAge) {
+            await fs.promises.rm(filePath, { force: true });
+            removed.push(file);
+        }
+    }
+    return removed;
+}
+
+/**
+ * Remove scratch directories in parent whose names start with prefix and that are older than
+ * maxAge, with everything in them. Each check writes into a directory of its own; one that is
+ * older than the check's timeout was left behind by an interrupted check.
+ * @param {string} parent
+ * @param {string} prefix - e.g. '.max_compute_check'
+ * @param {number} maxAge - Milliseconds
+ * @returns {Promise<string[]>} names of the removed directories
+ */
+async function removeStaleDirs(parent, prefix, maxAge) {
+    const entries = await fs.promises.readdir(parent, { withFileTypes: true }).catch(() => []);
+    const removed = [];
+    for (const entry of entries.filter(dirent => dirent.isDirectory() && dirent.name.startsWith(prefix))) {
+        const dirPath = path.join(parent, entry.name);
+        const stats = await fs.promises.stat(dirPath).catch(() => null);
+        if (stats && Date.now() - stats.mtimeMs > maxAge) {
+            await fs.promises.rm(dirPath, { recursive: true, force: true });
+            removed.push(entry.name);
+        }
+    }
+    return removed;
+}
+
+module.exports = { removeStaleFiles, removeStaleDirs };
@@ -0,0 +1,119 @@
+/**
+ * Who may call the server and where it may write. Each install has a token the plugin sends
+ * as `Authorization: Bearer <token>`, and project paths must lie inside one of the allowed
+ * project roots. Both live in ~/.maxcompute/config.json, which is created on first start.
+ */
+
+const fs = require('fs');
+const os = require('os');
+const path = require('path');
+const crypto = require('crypto');
+
+// Feature folders and file names: one path segment that does not start with a dot
+const SAFE_NAME = /^[A-Za-z0-9_][A-Za-z0-9_.-]*$/;
+
+// `flutter create` project names are Dart package names
+const PACKAGE_NAME = /^[a-z][a-z0-9_]*$/;
+
+/**
+ * Read the install's token and project roots, creating the config file with a new token
+ * and the home directory as the only root when it does not exist yet
+ * @param {Object} options
+ * @param {string} options.configDir - Directory of config.json (default: MAXCOMPUTE_HOME or ~/.maxcompute)
+ * @param {Object} options.env - Environment; MAXCOMPUTE_TOKEN replaces the token and
+ *   MAXCOMPUTE_PROJECT_ROOTS (separated like PATH) adds roots
+ * @returns {{token: string, projectRoots: string[], configFile: string}}
+ */
+function loadSecurityConfig({ env = process.env, configDir = env.MAXCOMPUTE_HOME || path.join(os.homedir(), '.maxcompute') } = {}) {
+    const configFile = path.join(configDir, 'config.json');
+
+    let config = {};
+    if (fs.existsSync(configFile)) {
+        config = JSON.parse(fs.readFileSync(configFile, 'utf8'));
+    }
+    if (!config.token || !Array.isArray(config.projectRoots)) {
+        config = {
+            token: config.token || crypto.randomBytes(32).toString('hex'),
+            projectRoots: Array.isArray(config.projectRoots) ? config.projectRoots : [os.homedir()],
+        };
+        fs.mkdirSync(configDir, { recursive: true });
+        fs.writeFileSync(configFile, `${JSON.stringify(config, null, 2)}\n`, { encoding: 'utf8', mode: 0o600 });
+    }
+
+    const extraRoots = (env.MAXCOMPUTE_PROJECT_ROOTS || '').split(path.delimiter).filter(Boolean);
+    const projectRoots = [...config.projectRoots, ...extraRoots].map(root => realpathOrSelf(path.resolve(root)));
+
+    return { token: env.MAXCOMPUTE_TOKEN || config.token, projectRoots, configFile };
+}
+
+/**
+ * Middleware rejecting requests without the install's token
+ */
+function requireToken({ token, configFile }) {
+    const expected = Buffer.from(token);
+    return (req, res, next) => {
+        const match = /^Bearer (.+)$/.exec(req.get('Authorization') || '');
+        const given = Buffer.from(match ? match[1] : '');
+        if (given.length !== expected.length || !crypto.timingSafeEqual(given, expected)) {
+            return res.status(401).json({ error: `Missing or wrong server token. Copy the token from ${configFile} into the plugin's Project tab.` });
+        }
+        next();
+    };
+}
+
+/**
+ * CORS for the plugin only: its iframe has an opaque origin (sent as "null"), and tools
+ * like curl send none. Other web pages get no CORS headers, so browsers block their requests.
+ */
+function corsOptions() {
+    return {
+        origin: (origin, callback) => callback(null, !origin || origin === 'null'),
+        allowedHeaders: ['Content-Type', 'Authorization'],
+    };
+}
+
+/**
+ * Resolve a project path against the allowed roots. Symlinks are followed for the part of
+ * the path that exists, so a link inside a root cannot point outside it.
+ * @returns {string|null} the resolved path, or null when it is relative or outside every root
+ */
+function resolveInRoots(value, roots) {
+    if (typeof value !== 'string' || !path.isAbsolute(value)) return null;
+
+    let existing = path.resolve(value);
+    const rest = [];
+    while (!fs.existsSync(existing) && path.dirname(existing) !== existing) {
+        rest.unshift(path.basename(existing));
+        existing = path.dirname(existing);
+    }
+    const resolved = path.join(realpathOrSelf(existing), ...rest);
+    return roots.some(root => isInside(resolved, root)) ? resolved : null;
+}
+
+/**
+ * A name that stays one segment below its folder (no separators, no `..`, no leading dot)
+ */
+function isSafeName(value) {
+    return typeof value === 'string' && SAFE_NAME.test(value) && !value.includes('..');
+}
+
+/**
+ * @private
+ */
+function isInside(target, root) {
+    const relative = path.relative(root, target);
+    return relative === '' || (relative.split(path.sep)[0] !== '..' && !path.isAbsolute(relative));
+}
+
+/**
+ * @private
+ */
+function realpathOrSelf(value) {
+    try {
+        return fs.realpathSync(value);
+    } catch (error) {
+        return value;
+    }
+}
+
+module.exports = { PACKAGE_NAME, loadSecurityConfig, requireToken, corsOptions, resolveInRoots, isSafeName, isInside };
@@ -0,0 +1,27 @@
+/**
+ * Setup shared by the test_*.js suites. They are node:test files; run one with
+ * `node test_<name>.js`, or all of them with `npm test`.
+ */
+const fs = require('fs');
+const os = require('os');
+const path = require('path');
+const { after, mock } = require('node:test');
+
+/**
+ * Silence the services' logging so the report only holds the test results
+ */
+function quietConsole() {
+    ['log', 'info', 'warn', 'error'].forEach(method => mock.method(console, method, () => { }));
+}
+
+/**
+ * Temporary directory, removed after the suite's last test
+ * @param {string} name - Part of the directory name, e.g. the suite
+ */
+function tempDir(name) {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), `max-compute-${name}-`));
+    after(() => fs.rmSync(dir, { recursive: true, force: true }));
+    return dir;
+}
+
+module.exports = { quietConsole, tempDir };
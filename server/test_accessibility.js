@@ -0,0 +1,100 @@
+/**
+ * Accessibility tests: designer notes, which nodes are excluded, the Semantics wrappers of
+ * tapped, icon-only and annotated widgets, shared widgets, and the prompt section.
+ * A generated screen with annotations is covered by the fixtures/serialized/settings_header snapshots.
+ *
+ * Usage: node test_accessibility.js
+ */
+const fs = require('fs');
+const path = require('path');
+const assert = require('node:assert');
+const { test } = require('node:test');
+const DeterministicGenerator = require('./src/services/deterministicGenerator');
+const GeminiService = require('./src/services/geminiService');
+const { ProviderRegistry } = require('./src/services/providers');
+const { buildComponentManifest, buildComponentIndex } = require('./src/utils/componentManifest');
+const { parseNotes, semanticsOf, describeAccessibility } = require('./src/utils/accessibility');
+const { quietConsole } = require('./testSupport');
+
+quietConsole();
+
+const generator = new DeterministicGenerator();
+const settings = JSON.parse(fs.readFileSync(path.join(__dirname, 'fixtures', 'serialized', 'settings_header.json'), 'utf8'));
+
+const text = (id, characters) => ({ id, name: 'Text', type: 'TEXT', text: { characters, fontSize: 14 } });
+const box = (id, name, children = [], extra = {}) => ({ id, name, type: 'FRAME', layout: { width: 48, height: 48 }, children, ...extra });
+const screen = children => ({ id: '1:1', name: 'Screen', type: 'FRAME', layout: { width: 375, height: 600, layoutMode: 'VERTICAL' }, children });
+const back = [{ trigger: 'ON_CLICK', action: 'BACK' }];
+
+test('notes are read one per line and other lines are ignored', async () => {
+    assert.deepStrictEqual(
+        parseNotes('Primary call to action.\nlabel: Close menu\nhint: Returns to the list\nheading: 2\ndecorative'),
+        { label: 'Close menu', hint: 'Returns to the list', headingLevel: 2, excluded: true },
+    );
+    assert.deepStrictEqual(parseNotes('heading: 7; decorative: no; label:'), { excluded: false });
+    assert.deepStrictEqual(parseNotes(''), {});
+});
+
+test('decorative guesses only exclude nodes without text, and designers have the last word', async () => {
+    const decorative = { semanticHints: { isDecorative: true } };
+    assert.deepStrictEqual(semanticsOf(box('1:2', 'Divider', [], decorative)), { label: null, hint: null, headingLevel: null, excluded: true });
+    assert.strictEqual(semanticsOf(box('1:3', 'Background', [text('1:4', 'Hello')], decorative)), null);
+    assert.strictEqual(semanticsOf(box('1:5', 'Overlay', [], { ...decorative, accessibility: { excluded: false } })), null);
+    assert.strictEqual(semanticsOf(box('1:6', 'Box')), null);
+});
+
+test('tapped widgets are one button announcement, icon-only ones get a tooltip', async () => {
+    const code = generator.generateCode(screen([
+        box('1:2', 'Close Icon', [], { reactions: back, accessibility: { label: 'Close', hint: 'Closes the sheet' } }),
+        box('1:3', 'Done Button', [text('1:4', 'Done')], { reactions: back }),
+    ]));
+
+    assert.match(code, /Tooltip\(\n\s+message: 'Close',\n\s+excludeFromSemantics: true,\n\s+child: MergeSemantics\(\n\s+child: Semantics\(\n\s+label: 'Close',\n\s+hint: 'Closes the sheet',\n\s+button: true,\n\s+child: GestureDetector\(/);
+    // The button's own text names it, so no label or tooltip is added
+    assert.match(code, /MergeSemantics\(\n\s+child: Semantics\(\n\s+button: true,\n\s+child: GestureDetector\(/);
+    assert.strictEqual(code.match(/Tooltip\(/g).length, 1);
+});
+
+test('annotated widgets that do nothing on tap keep their semantics without a button role', async () => {
+    const code = generator.generateCode(screen([
+        { ...text('1:2', 'Settings'), accessibility: { headingLevel: 2 } },
+        box('1:3', 'Blob', [], { accessibility: { excluded: true, label: 'Ignored' } }),
+    ]));
+    assert.match(code, /Semantics\(\n\s+header: true,\n\s+headingLevel: 2,\n\s+child: Text\(/);
+    assert.match(code, /ExcludeSemantics\(/);
+    assert.ok(!code.includes('Ignored'));
+    assert.ok(!code.includes('button: true'));
+});
+
+test('shared widgets carry their description notes, instances only their own', async () => {
+    const data = box('c:1', 'Icon Button', [], { type: 'COMPONENT', accessibility: { label: 'Close' } });
+    const manifest = buildComponentManifest([{ id: 'c:1', name: 'Icon Button', description: 'Dismisses the sheet.\nlabel: Close', definitions: {}, data }]);
+    const componentIndex = buildComponentIndex(manifest);
+
+    const widget = generator.generateComponent(data, componentIndex.lookup['c:1'], { widgetsImportPath: '' });
+    assert.match(widget, /Semantics\(\n\s+label: 'Close',/);
+
+    const instance = (id, label) => box(id, 'Icon Button', [], { type: 'INSTANCE', metadata: { mainComponentId: 'c:1' }, accessibility: { label } });
+    const code = generator.generateCode(screen([instance('1:2', 'Close'), instance('1:3', 'Share')]), { componentIndex });
+    assert.strictEqual(code.match(/Semantics\(/g).length, 1);
+    assert.match(code, /Semantics\(label: 'Share', child: const IconButton\(\)\)/);
+});
+
+test('the prompt lists the wrapper of each annotated or tapped layer', async () => {
+    const section = describeAccessibility([settings]);
+    assert.match(section, /^## ACCESSIBILITY/);
+    assert.ok(section.includes(`- 40:3 "Back Icon [label: Go back]": \`Tooltip( message: 'Go back', excludeFromSemantics: true, child: MergeSemantics( child: Semantics(label: 'Go back', button: true, child: …)))\``), section);
+    assert.ok(section.includes('- 40:5 "Title H1": `Semantics(header: true, headingLevel: 1, child: …)`'));
+    assert.ok(section.includes('- 40:6 "Divider": `ExcludeSemantics(child: …)`'));
+    assert.ok(section.includes('- 40:8 "Avatar": `Semantics(label: \'Profile photo\', image: true, child: …)`'));
+    // The background holds text, so it is read out
+    assert.ok(!section.includes('40:7'));
+    assert.strictEqual(describeAccessibility([screen([text('1:2', 'Plain')])]), '');
+});
+
+test('GeminiService adds the accessibility section to its prompt', async () => {
+    const service = new GeminiService(new ProviderRegistry({ LLM_PROVIDER: 'fixture' }));
+    const { request } = await service._buildRequest(null, { figmaData: settings });
+    assert.match(request.prompt, /## ACCESSIBILITY\n/);
+    assert.match(request.systemInstruction, /ExcludeSemantics/);
+});
@@ -0,0 +1,224 @@
+/**
+ * Asset persistence tests: uploads are copied into a temp Flutter project,
+ * pubspec.yaml is updated and the asset map reaches the generated code.
+ *
+ * Usage: node test_assets.js
+ */
+const fs = require('fs');
+const path = require('path');
+const assert = require('node:assert');
+const { test } = require('node:test');
+const ProjectService = require('./src/services/projectService');
+const DeterministicGenerator = require('./src/services/deterministicGenerator');
+const { buildAssetInstruction } = require('./src/utils/promptBuilder');
+const { quietConsole, tempDir } = require('./testSupport');
+
+quietConsole();
+
+// 1x1 transparent PNG
+const PNG_BASE64 = 'iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAQAAAC1HAwCAAAAC0lEQVR42mNkYAAAAAYAAjCB0C8AAAAASUVORK5CYII=';
+
+const SVG_HOME = '<svg width="24" height="24" viewBox="0 0 24 24" xmlns="http://www.w3.org/2000/svg"><path d="M3 12L12 3L21 12V21H3V12Z" fill="#111111"/></svg>';
+const SVG_STAR = '<svg width="24" height="24" viewBox="0 0 24 24" xmlns="http://www.w3.org/2000/svg"><path d="M12 2L15 9H22L16 14L18 22L12 17L6 22L8 14L2 9H9L12 2Z" fill="#F5A623"/></svg>';
+
+const PUBSPEC = `name: demo_app
+environment:
+  sdk: ">=3.0.0 <4.0.0"
+
+dependencies:
+  flutter:
+    sdk: flutter
+
+flutter:
+  uses-material-design: true
+`;
+
+const tmpRoot = tempDir('assets');
+const uploadsDir = path.join(tmpRoot, 'uploads');
+const projectPath = path.join(tmpRoot, 'demo_app');
+const projectService = new ProjectService({ uploadsDir });
+
+async function createProject() {
+    fs.rmSync(projectPath, { recursive: true, force: true });
+    fs.mkdirSync(projectPath, { recursive: true });
+    fs.writeFileSync(path.join(projectPath, 'pubspec.yaml'), PUBSPEC, 'utf8');
+}
+
+test('importAssets copies uploads into assets/images and lists the files', async () => {
+    await createProject();
+    const filename = await projectService.saveTempUpload('Hero Image', PNG_BASE64);
+    const { assetMap, files } = await projectService.importAssets(projectPath, {
+        '1:5': { id: '1:5', name: 'Hero Image', filename },
+    });
+
+    assert.ok(/^assets\/images\/Hero_Image_\w+\.png$/.test(assetMap['1:5']), assetMap['1:5']);
+    assert.deepStrictEqual(files, [path.join(projectPath, assetMap['1:5'])]);
+    assert.ok(fs.readFileSync(files[0]).equals(Buffer.from(PNG_BASE64, 'base64')));
+});
+
+test('importAssets registers assets/images/ under the top-level flutter section', async () => {
+    await createProject();
+    const filename = await projectService.saveTempUpload('Avatar', PNG_BASE64);
+    await projectService.importAssets(projectPath, { '2:1': { id: '2:1', name: 'Avatar', filename } });
+
+    const pubspec = fs.readFileSync(path.join(projectPath, 'pubspec.yaml'), 'utf8');
+    assert.ok(pubspec.includes('flutter:\n  assets:\n    - assets/images/\n  uses-material-design: true'), pubspec);
+    assert.ok(pubspec.includes('  flutter:\n    sdk: flutter'), pubspec);
+});
+
+test('importAssets can be repeated for a retried conversion', async () => {
+    await createProject();
+    const filename = await projectService.saveTempUpload('Banner', PNG_BASE64);
+    const assets = { '3:1': { id: '3:1', name: 'Banner', filename } };
+
+    const first = await projectService.importAssets(projectPath, assets);
+    const second = await projectService.importAssets(projectPath, assets);
+
+    assert.deepStrictEqual(second, first);
+    const pubspec = fs.readFileSync(path.join(projectPath, 'pubspec.yaml'), 'utf8');
+    assert.strictEqual(pubspec.split('- assets/images/').length - 1, 1);
+});
+
+test('importAssets skips missing uploads and leaves pubspec untouched', async () => {
+    await createProject();
+    const { assetMap, files } = await projectService.importAssets(projectPath, {
+        '4:1': { id: '4:1', name: 'Gone', filename: 'Gone_1_abc.png' },
+        '4:2': { id: '4:2', name: 'Escape', filename: '../../etc/passwd' },
+    });
+
+    assert.deepStrictEqual(assetMap, {});
+    assert.deepStrictEqual(files, []);
+    assert.strictEqual(fs.readFileSync(path.join(projectPath, 'pubspec.yaml'), 'utf8'), PUBSPEC);
+});
+
+test('importAssets writes SVG icons to assets/icons and dedupes identical content', async () => {
+    await createProject();
+    const home = Buffer.from(SVG_HOME).toString('base64');
+    const star = Buffer.from(SVG_STAR).toString('base64');
+    const first = await projectService.saveTempUpload('icon_home', home, 'svg');
+    const copy = await projectService.saveTempUpload('home_copy', home, 'svg');
+    const other = await projectService.saveTempUpload('icon_home', star, 'svg');
+
+    const { assetMap, files } = await projectService.importAssets(projectPath, {
+        '6:1': { id: '6:1', name: 'icon_home', filename: first, format: 'svg' },
+        '6:2': { id: '6:2', name: 'home_copy', filename: copy, format: 'svg' },
+        '6:3': { id: '6:3', name: 'icon_home', filename: other, format: 'svg' },
+    });
+
+    assert.strictEqual(assetMap['6:1'], 'assets/icons/icon_home.svg');
+    assert.strictEqual(assetMap['6:2'], 'assets/icons/icon_home.svg');
+    assert.ok(/^assets\/icons\/icon_home_[0-9a-f]{8}\.svg$/.test(assetMap['6:3']), assetMap['6:3']);
+    assert.strictEqual(files.length, 2);
+    assert.strictEqual(fs.readdirSync(path.join(projectPath, 'assets', 'icons')).length, 2);
+
+    // A later conversion reuses the icon already in the project
+    const again = await projectService.saveTempUpload('home_again', home, 'svg');
+    const second = await projectService.importAssets(projectPath, {
+        '7:1': { id: '7:1', name: 'home_again', filename: again, format: 'svg' },
+    });
+    assert.strictEqual(second.assetMap['7:1'], 'assets/icons/icon_home.svg');
+});
+
+test('importAssets adds flutter_svg and assets/icons/ to pubspec once', async () => {
+    await createProject();
+    const filename = await projectService.saveTempUpload('logo', Buffer.from(SVG_STAR).toString('base64'), 'svg');
+    const assets = { '8:1': { id: '8:1', name: 'logo', filename, format: 'svg' } };
+
+    await projectService.importAssets(projectPath, assets);
+    await projectService.importAssets(projectPath, assets);
+
+    const pubspec = fs.readFileSync(path.join(projectPath, 'pubspec.yaml'), 'utf8');
+    assert.ok(pubspec.includes('    sdk: flutter\n  flutter_svg: ^2.0.10\n\nflutter:'), pubspec);
+    assert.ok(pubspec.includes('  assets:\n    - assets/icons/\n'), pubspec);
+    assert.ok(!pubspec.includes('assets/images/'), pubspec);
+    assert.strictEqual(pubspec.split('flutter_svg').length - 1, 1);
+});
+
+test('importAssets keeps the paths of an earlier import when asked to', async () => {
+    await createProject();
+    const image = await projectService.saveTempUpload('Hero', PNG_BASE64);
+    const icon = await projectService.saveTempUpload('logo', Buffer.from(SVG_HOME).toString('base64'), 'svg');
+    const other = await projectService.saveTempUpload('Other', PNG_BASE64);
+    const { assetMap, files } = await projectService.importAssets(projectPath, {
+        '9:1': { id: '9:1', name: 'Hero', filename: image },
+        '9:2': { id: '9:2', name: 'logo', filename: icon, format: 'svg' },
+        '9:3': { id: '9:3', name: 'Other', filename: other },
+    }, { '9:1': 'assets/images/Hero_old.png', '9:2': 'assets/icons/logo_old.svg', '9:3': 'assets/../../escape.png' });
+
+    assert.strictEqual(assetMap['9:1'], 'assets/images/Hero_old.png');
+    assert.strictEqual(assetMap['9:2'], 'assets/icons/logo_old.svg');
+    assert.match(assetMap['9:3'], /^assets\/images\/Other_\w+\.png$/, 'paths outside the asset folders are not reused');
+    files.forEach(file => assert.ok(fs.existsSync(file), file));
+    assert.ok(!fs.existsSync(path.join(tmpRoot, 'escape.png')));
+});
+
+test('importAssets is a no-op without a project or assets', async () => {
+    assert.deepStrictEqual(await projectService.importAssets(null, { '1:1': {} }), { assetMap: {}, files: [] });
+    assert.deepStrictEqual(await projectService.importAssets(projectPath, {}), { assetMap: {}, files: [] });
+});
+
+test('deterministic generator emits Image.asset for mapped image fills', async () => {
+    const figmaData = {
+        id: '5:1',
+        name: 'Card',
+        type: 'FRAME',
+        layout: { width: 200, height: 120, layoutMode: 'NONE' },
+        style: {},
+        children: [
+            {
+                id: '5:2',
+                name: 'Photo',
+                type: 'RECTANGLE',
+                layout: { x: 0, y: 0, width: 200, height: 120 },
+                style: { cornerRadius: 12, fills: [{ type: 'IMAGE', scaleMode: 'FIT' }] },
+            },
+            {
+                id: '5:3',
+                name: 'Unmapped',
+                type: 'RECTANGLE',
+                layout: { x: 0, y: 0, width: 40, height: 40 },
+                style: { fills: [{ type: 'IMAGE', scaleMode: 'FILL' }] },
+            },
+        ],
+    };
+
+    const code = new DeterministicGenerator().generateCode(figmaData, {
+        assetMap: { '5:2': 'assets/images/Photo_abc.png' },
+    });
+
+    assert.ok(code.includes("'assets/images/Photo_abc.png'"), code);
+    assert.ok(code.includes('Image.asset('), code);
+    assert.ok(code.includes('fit: BoxFit.contain'), code);
+    assert.ok(code.includes('ClipRRect('), code);
+    assert.ok(code.includes('const Placeholder()'), code);
+});
+
+test('deterministic generator emits SvgPicture.asset for mapped icons', async () => {
+    const figmaData = {
+        id: '9:1',
+        name: 'Icon / Home',
+        type: 'FRAME',
+        layout: { width: 24, height: 24, layoutMode: 'NONE' },
+        style: {},
+        children: [{ id: '9:2', name: 'Vector', type: 'VECTOR', layout: { x: 2, y: 2, width: 20, height: 20 }, style: {} }],
+    };
+
+    const code = new DeterministicGenerator().generateCode(figmaData, {
+        assetMap: { '9:1': 'assets/icons/icon_home.svg' },
+    });
+
+    assert.ok(code.startsWith("import 'package:flutter/material.dart';\nimport 'package:flutter_svg/flutter_svg.dart';\n"), code);
+    assert.ok(code.includes("return SvgPicture.asset(\n      'assets/icons/icon_home.svg',"), code);
+    assert.ok(!code.includes('Stack('), code);
+});
+
+test('asset prompt section maps node IDs to asset paths', async () => {
+    assert.strictEqual(buildAssetInstruction({}), '');
+    const section = buildAssetInstruction({ '5:2': 'assets/images/Photo_abc.png' });
+    assert.ok(section.includes("Node ID `\"5:2\"` maps to `Image.asset('assets/images/Photo_abc.png')`"), section);
+    assert.ok(!section.includes('flutter_svg'), section);
+
+    const withIcon = buildAssetInstruction({ '9:1': 'assets/icons/icon_home.svg' });
+    assert.ok(withIcon.includes("`SvgPicture.asset('assets/icons/icon_home.svg')`"), withIcon);
+    assert.ok(withIcon.includes("import 'package:flutter_svg/flutter_svg.dart';"), withIcon);
+});
@@ -0,0 +1,187 @@
+/**
+ * Headless CLI tests: fixtures/rest/sign_in.json (a GET /v1/files/:key/nodes response) is mapped
+ * onto the plugin's SerializedNode shape and compared against fixtures/rest/__snapshots__/
+ * sign_in.serialized.json, then bin/maxcompute.js converts it and the printed code is compared
+ * against fixtures/rest/__snapshots__/sign_in.dart. The CLI also saves into a temporary project,
+ * replays the fixture LLM provider and reports usage errors.
+ *
+ * Usage: node test_cli.js [--update]
+ */
+const fs = require('fs');
+const path = require('path');
+const assert = require('node:assert');
+const { test } = require('node:test');
+const { spawnSync } = require('child_process');
+const { selectRestNode, fromRestNode } = require('./src/utils/figmaRest');
+const { quietConsole, tempDir } = require('./testSupport');
+
+quietConsole();
+
+const fixturesDir = path.join(__dirname, 'fixtures', 'rest');
+const snapshotsDir = path.join(fixturesDir, '__snapshots__');
+const update = process.argv.includes('--update');
+const cli = path.join(__dirname, 'bin', 'maxcompute.js');
+const input = path.join(fixturesDir, 'sign_in.json');
+const assetsDir = path.join(fixturesDir, 'assets');
+const uploadsDir = path.join(__dirname, 'uploads');
+
+const tmpRoot = tempDir('cli');
+const llmFixturesDir = path.join(tmpRoot, 'llm');
+fs.mkdirSync(llmFixturesDir);
+fs.writeFileSync(path.join(llmFixturesDir, 'default.dart'), '```dart\nimport \'package:flutter/material.dart\';\n\nclass SignInScreen extends StatelessWidget {\n  const SignInScreen({super.key});\n\n  @override\n  Widget build(BuildContext context) {\n    return const Placeholder();\n  }\n}\n```\n', 'utf8');
+
+const newProject = name => {
+    const projectPath = path.join(tmpRoot, name);
+    fs.mkdirSync(path.join(projectPath, 'lib'), { recursive: true });
+    fs.writeFileSync(path.join(projectPath, 'pubspec.yaml'), `name: ${name}\n\nflutter:\n  uses-material-design: true\n`);
+    return projectPath;
+};
+
+const listUploads = () => (fs.existsSync(uploadsDir) ? fs.readdirSync(uploadsDir).sort() : []);
+
+/**
+ * @returns {{status: number, stdout: string, stderr: string}}
+ */
+function run(args, env = {}) {
+    const result = spawnSync(process.execPath, [cli, ...args], {
+        cwd: tmpRoot,
+        encoding: 'utf8',
+        timeout: 60000,
+        env: { ...process.env, LLM_PROVIDER: 'fixture', LLM_FIXTURES_DIR: llmFixturesDir, ...env },
+    });
+    return { status: result.status, stdout: result.stdout, stderr: result.stderr };
+}
+
+function checkSnapshot(snapshotName, content) {
+    const snapshotPath = path.join(snapshotsDir, snapshotName);
+    if (update) {
+        fs.mkdirSync(snapshotsDir, { recursive: true });
+        fs.writeFileSync(snapshotPath, content, 'utf8');
+        return;
+    }
+    assert.ok(fs.existsSync(snapshotPath), `${snapshotName} is missing (run with --update to write it)`);
+    assert.ok(fs.readFileSync(snapshotPath, 'utf8') === content, `output differs from ${snapshotName} (run with --update to accept)`);
+}
+
+test('the frame to convert is picked from the export', () => {
+    const json = JSON.parse(fs.readFileSync(input, 'utf8'));
+    assert.throws(() => selectRestNode(json), /The export holds 2 frames \(1:1 "Sign In", 2:1 "Home"\); choose one by its node ID\./);
+    assert.throws(() => selectRestNode(json, '9:9'), /Node 9:9 is not in the export\./);
+    assert.throws(() => selectRestNode({ name: 'nothing' }), /Not a Figma REST export/);
+
+    assert.strictEqual(selectRestNode(json, '1:1').node.name, 'Sign In');
+    assert.strictEqual(selectRestNode(json.nodes['2:1'].document).node.name, 'Home');
+    // A whole file: its first page holds one frame
+    const file = { document: { id: '0:0', type: 'DOCUMENT', children: [{ id: '0:1', type: 'CANVAS', children: [json.nodes['1:1'].document] }] } };
+    assert.strictEqual(selectRestNode(file).node.id, '1:1');
+});
+
+test('REST nodes map onto the SerializedNode shape', () => {
+    const { node, context } = selectRestNode(JSON.parse(fs.readFileSync(input, 'utf8')), '1:1');
+    const serialized = fromRestNode(node, context, { svgIds: new Set(['1:8']) });
+    const byName = name => serialized.children.find(child => child.name === name);
+
+    assert.strictEqual(serialized.layout.layoutMode, 'VERTICAL');
+    assert.deepStrictEqual([serialized.layout.width, serialized.layout.height], [375, 812]);
+
+    const input_ = byName('Email Input');
+    assert.strictEqual(input_.metadata.componentName, 'State=Default');
+    assert.deepStrictEqual(input_.metadata.variantProperties, { State: 'Default' });
+    assert.deepStrictEqual(input_.accessibility, { label: 'Email address', hint: 'Used to sign in' });
+
+    const button = byName('Sign In Button');
+    assert.strictEqual(button.style.fills[0].type, 'GRADIENT_LINEAR');
+    assert.strictEqual(button.reactions[0].destinationId, '2:1');
+
+    const terms = byName('Terms');
+    assert.ok(terms.text.styledSegments.some(segment => segment.hyperlink && segment.hyperlink.type === 'URL'));
+
+    const icon = byName('Close Icon');
+    assert.strictEqual(icon.children, undefined);
+    assert.deepStrictEqual(icon.layout.constraints, { horizontal: 'MAX', vertical: 'MIN' });
+
+    checkSnapshot('sign_in.serialized.json', `${JSON.stringify(serialized, null, 2)}\n`);
+});
+
+test('deterministic conversion prints the same code every time', () => {
+    const args = ['convert', '--input', input, '--node', '1:1', '--mode', 'deterministic', '--class-name', 'SignInScreen', '--no-validate'];
+    const first = run(args);
+    assert.strictEqual(first.status, 0, first.stderr);
+    assert.strictEqual(run(args).stdout, first.stdout);
+    assert.match(first.stderr, /Converting "Sign In" \(1:1\)/);
+    checkSnapshot('sign_in.dart', first.stdout);
+});
+
+test('conversions are saved into the project with their assets', () => {
+    const projectPath = newProject('shop');
+    const before = listUploads();
+    const args = ['convert', '--input', input, '--node', '1:1', '--mode', 'deterministic', '--assets', assetsDir,
+        '--project', projectPath, '--feature', 'auth', '--out', 'sign_in_screen.dart', '--no-validate'];
+
+    const created = run(args);
+    assert.strictEqual(created.status, 0, created.stderr);
+    assert.strictEqual(created.stdout, '');
+    const filePath = path.join(projectPath, 'lib', 'features', 'auth', 'sign_in_screen.dart');
+    assert.match(created.stderr, new RegExp(`Created: ${filePath}`));
+
+    const code = fs.readFileSync(filePath, 'utf8');
+    assert.match(code, /class SignInScreen extends StatelessWidget/);
+    assert.match(code, /SvgPicture\.asset\(\s*'assets\/icons\/close_icon\.svg'/);
+    assert.match(code, /Image\.asset\(\s*'assets\/images\/hero_image_\w+\.png'/);
+    assert.match(fs.readFileSync(path.join(projectPath, 'pubspec.yaml'), 'utf8'), /flutter_svg:/);
+    // Temp uploads are removed once the assets are in the project
+    assert.deepStrictEqual(listUploads(), before);
+
+    // Hand edits are kept while the design is unchanged, unless --force is given
+    fs.appendFileSync(filePath, '// edited\n');
+    const kept = run(args);
+    assert.strictEqual(kept.status, 0, kept.stderr);
+    assert.match(kept.stderr, /Unchanged: /);
+    assert.match(fs.readFileSync(filePath, 'utf8'), /\/\/ edited/);
+    assert.strictEqual(run([...args, '--force']).status, 0);
+    assert.doesNotMatch(fs.readFileSync(filePath, 'utf8'), /\/\/ edited/);
+});
+
+test('AI conversion sends the frame image and reports the result as JSON', () => {
+    const projectPath = newProject('cart');
+    const before = listUploads();
+    const result = run(['convert', '--input', input, '--node', '1:1', '--image', path.join(fixturesDir, 'sign_in.png'),
+        '--project', projectPath, '--feature', 'auth', '--out', 'sign_in_screen.dart', '--no-validate', '--json']);
+    assert.strictEqual(result.status, 0, result.stderr);
+
+    const output = JSON.parse(result.stdout);
+    assert.match(output.code, /class SignInScreen/);
+    assert.strictEqual(output.estimates[0].className, 'SignInScreen');
+    assert.strictEqual(output.estimates[0].images, 1);
+    assert.strictEqual(output.saved.status, 'created');
+    const saved = fs.readFileSync(output.saved.filePath, 'utf8');
+    assert.match(saved, /^\/\/ source-node: 1:1$/m);
+    assert.match(saved, /return const Placeholder\(\);/);
+    assert.deepStrictEqual(listUploads(), before);
+});
+
+test('usage errors exit with 2 and failures with 1', () => {
+    const cases = [
+        [[], /Missing command\./],
+        [['export'], /Unknown command "export"\./],
+        [['convert'], /Missing --input\./],
+        [['convert', '--input', input, '--mode', 'magic'], /--mode must be ai or deterministic\./],
+        [['convert', '--input', input, '--project', tmpRoot], /--project needs --feature and --out\./],
+        [['convert', '--input', input, '--project', tmpRoot, '--feature', '../x', '--out', 'a.dart'], /must be plain names/],
+        [['convert', '--input', input, '--visual-check'], /--visual-check needs --image\./],
+        [['convert', '--input', input, '--colour'], /Unknown option '--colour'/],
+    ];
+    for (const [args, expected] of cases) {
+        const result = run(args);
+        assert.strictEqual(result.status, 2, args.join(' '));
+        assert.match(result.stderr, expected);
+        assert.match(result.stderr, /Usage: maxcompute convert/);
+    }
+
+    const ambiguous = run(['convert', '--input', input, '--mode', 'deterministic']);
+    assert.strictEqual(ambiguous.status, 1);
+    assert.match(ambiguous.stderr, /^maxcompute: The export holds 2 frames/);
+    assert.strictEqual(run(['convert', '--input', path.join(tmpRoot, 'missing.json')]).status, 1);
+    assert.strictEqual(run(['--help']).status, 0);
+});
+
@@ -0,0 +1,164 @@
+/**
+ * Snapshot tests for the deterministic generator.
+ * Each fixtures/serialized/<name>.json is compared against fixtures/serialized/__snapshots__/<name>.dart
+ * Each fixtures/components/<name>.json (a sync-components payload plus a screen using its instances)
+ * is compared against fixtures/components/__snapshots__/<name>.<widget file> and <name>.screen.dart
+ * Each fixtures/responsive/<name>.json (breakpoint frames of one screen) is compared against
+ * fixtures/responsive/__snapshots__/<name>.dart
+ * Each fixtures/navigation/<name>.json (screens with prototype links) is compared against
+ * fixtures/navigation/__snapshots__/<name>.<screen file> and <name>.app_router.dart
+ * Each fixtures/forms/<name>.json (a stateful screen with inputs) is compared against
+ * fixtures/forms/__snapshots__/<name>.dart, and <name>.<pattern>.dart plus its form state file
+ * for each state management option
+ * Each fixtures/localization/<name>.json (a screen, its feature and the ARB file so far) is compared
+ * against fixtures/localization/__snapshots__/<name>.dart and <name>.app_en.arb
+ *
+ * Usage: node test_deterministic.js [--update]
+ */
+const fs = require('fs');
+const path = require('path');
+const assert = require('node:assert');
+const { test } = require('node:test');
+const DeterministicGenerator = require('./src/services/deterministicGenerator');
+const { buildComponentManifest, buildComponentIndex } = require('./src/utils/componentManifest');
+const RouterService = require('./src/services/routerService');
+const { normalizeBreakpoints } = require('./src/utils/breakpoints');
+const { buildRouteIndex, collectReactions } = require('./src/utils/navigation');
+const { STATE_MANAGEMENT, collectForm, buildFormState } = require('./src/utils/forms');
+const { buildStringIndex, mergeArb } = require('./src/utils/localization');
+const { quietConsole } = require('./testSupport');
+
+const fixturesDir = path.join(__dirname, 'fixtures', 'serialized');
+const snapshotsDir = path.join(fixturesDir, '__snapshots__');
+const componentFixturesDir = path.join(__dirname, 'fixtures', 'components');
+const componentSnapshotsDir = path.join(componentFixturesDir, '__snapshots__');
+const responsiveFixturesDir = path.join(__dirname, 'fixtures', 'responsive');
+const responsiveSnapshotsDir = path.join(responsiveFixturesDir, '__snapshots__');
+const navigationFixturesDir = path.join(__dirname, 'fixtures', 'navigation');
+const navigationSnapshotsDir = path.join(navigationFixturesDir, '__snapshots__');
+const formFixturesDir = path.join(__dirname, 'fixtures', 'forms');
+const formSnapshotsDir = path.join(formFixturesDir, '__snapshots__');
+const localizationFixturesDir = path.join(__dirname, 'fixtures', 'localization');
+const localizationSnapshotsDir = path.join(localizationFixturesDir, '__snapshots__');
+const update = process.argv.includes('--update');
+
+const generator = new DeterministicGenerator();
+const routerService = new RouterService();
+quietConsole();
+
+if (update) {
+    [snapshotsDir, componentSnapshotsDir, responsiveSnapshotsDir, navigationSnapshotsDir, formSnapshotsDir, localizationSnapshotsDir]
+        .forEach(dir => fs.mkdirSync(dir, { recursive: true }));
+}
+
+function checkSnapshot(dir, snapshotName, generate) {
+    test(snapshotName, () => {
+        const snapshotPath = path.join(dir, snapshotName);
+        const code = generate();
+
+        // Same input must always produce the same output
+        assert.ok(generate() === code, 'output is not deterministic');
+
+        if (update) {
+            fs.writeFileSync(snapshotPath, code, 'utf8');
+            return;
+        }
+        assert.ok(fs.existsSync(snapshotPath), 'snapshot is missing (run with --update to write it)');
+        assert.ok(fs.readFileSync(snapshotPath, 'utf8') === code, 'output differs from snapshot (run with --update to accept)');
+    });
+}
+
+const fixtures = fs.readdirSync(fixturesDir).filter(file => file.endsWith('.json')).sort();
+
+for (const file of fixtures) {
+    const name = path.basename(file, '.json');
+    const figmaData = JSON.parse(fs.readFileSync(path.join(fixturesDir, file), 'utf8'));
+
+    for (const widgetType of ['StatelessWidget', 'StatefulWidget']) {
+        const snapshotName = `${name}.${widgetType === 'StatefulWidget' ? 'stateful' : 'stateless'}.dart`;
+        checkSnapshot(snapshotsDir, snapshotName, () => generator.generateCode(figmaData, { widgetType }));
+    }
+}
+
+const componentFixtures = fs.readdirSync(componentFixturesDir).filter(file => file.endsWith('.json')).sort();
+
+for (const file of componentFixtures) {
+    const name = path.basename(file, '.json');
+    const { components, screen } = JSON.parse(fs.readFileSync(path.join(componentFixturesDir, file), 'utf8'));
+    const manifest = buildComponentManifest(components);
+    const componentIndex = buildComponentIndex(manifest);
+
+    for (const entry of manifest.components) {
+        const component = components.find(c => c.id === entry.id);
+        checkSnapshot(componentSnapshotsDir, `${name}.${entry.file}`, () =>
+            generator.generateComponent(component.data, entry, { componentIndex, widgetsImportPath: '' })
+        );
+    }
+    if (screen) {
+        checkSnapshot(componentSnapshotsDir, `${name}.screen.dart`, () =>
+            generator.generateCode(screen, { componentIndex })
+        );
+    }
+}
+
+const responsiveFixtures = fs.readdirSync(responsiveFixturesDir).filter(file => file.endsWith('.json')).sort();
+
+for (const file of responsiveFixtures) {
+    const name = path.basename(file, '.json');
+    const { breakpoints } = JSON.parse(fs.readFileSync(path.join(responsiveFixturesDir, file), 'utf8'));
+    checkSnapshot(responsiveSnapshotsDir, `${name}.dart`, () =>
+        generator.generateResponsive(normalizeBreakpoints(breakpoints), { className: 'ResponsiveScreen' })
+    );
+}
+
+const navigationFixtures = fs.readdirSync(navigationFixturesDir).filter(file => file.endsWith('.json')).sort();
+
+for (const file of navigationFixtures) {
+    const name = path.basename(file, '.json');
+    const { screens } = JSON.parse(fs.readFileSync(path.join(navigationFixturesDir, file), 'utf8'));
+    // Registered as the plugin does after saving the batch: frame ID and name plus the links from /convert
+    const manifest = routerService.mergeScreens(null, screens.map(screen => ({
+        id: screen.data.id,
+        name: screen.data.name,
+        ...screen,
+        navigation: collectReactions(screen.data),
+    })));
+    const routeIndex = buildRouteIndex(manifest);
+
+    for (const screen of screens) {
+        checkSnapshot(navigationSnapshotsDir, `${name}.${screen.fileName}`, () =>
+            generator.generateCode(screen.data, { className: screen.className, routeIndex })
+        );
+    }
+    checkSnapshot(navigationSnapshotsDir, `${name}.app_router.dart`, () => routerService.buildRouterFile(manifest));
+}
+
+const formFixtures = fs.readdirSync(formFixturesDir).filter(file => file.endsWith('.json')).sort();
+
+for (const file of formFixtures) {
+    const name = path.basename(file, '.json');
+    const { className, screen } = JSON.parse(fs.readFileSync(path.join(formFixturesDir, file), 'utf8'));
+    const widgetType = 'StatefulWidget';
+
+    checkSnapshot(formSnapshotsDir, `${name}.dart`, () => generator.generateCode(screen, { widgetType, className }));
+    for (const pattern of Object.keys(STATE_MANAGEMENT)) {
+        checkSnapshot(formSnapshotsDir, `${name}.${pattern}.dart`, () =>
+            generator.generateCode(screen, { widgetType, className, useProvider: pattern })
+        );
+        checkSnapshot(formSnapshotsDir, `${name}.${pattern}_form.dart`, () =>
+            buildFormState(collectForm([screen]), className, pattern).content
+        );
+    }
+}
+
+const localizationFixtures = fs.readdirSync(localizationFixturesDir).filter(file => file.endsWith('.json')).sort();
+
+for (const file of localizationFixtures) {
+    const name = path.basename(file, '.json');
+    const { className, feature, arb, screen } = JSON.parse(fs.readFileSync(path.join(localizationFixturesDir, file), 'utf8'));
+    const stringIndex = () => buildStringIndex([screen], { feature, arb });
+
+    checkSnapshot(localizationSnapshotsDir, `${name}.dart`, () => generator.generateCode(screen, { className, stringIndex: stringIndex() }));
+    checkSnapshot(localizationSnapshotsDir, `${name}.app_en.arb`, () => JSON.stringify(mergeArb(arb, stringIndex().added), null, 2) + '\n');
+}
+
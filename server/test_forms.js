@@ -0,0 +1,177 @@
+/**
+ * Form tests: field and submit button detection from semantic hints, the form state
+ * classes, the prompt section, and companion files during validation.
+ * Generated form screens are covered by the fixtures/forms snapshots.
+ *
+ * Usage: node test_forms.js
+ */
+const fs = require('fs');
+const path = require('path');
+const assert = require('node:assert');
+const { test } = require('node:test');
+const DeterministicGenerator = require('./src/services/deterministicGenerator');
+const GeminiService = require('./src/services/geminiService');
+const ValidationService = require('./src/services/validationService');
+const { ProviderRegistry } = require('./src/services/providers');
+const { stateManagementOf, collectForm, buildFormState, describeForm } = require('./src/utils/forms');
+const { normalizeBreakpoints } = require('./src/utils/breakpoints');
+const { quietConsole, tempDir } = require('./testSupport');
+
+quietConsole();
+
+const tmpRoot = tempDir('forms');
+const generator = new DeterministicGenerator();
+const { className, screen: signup } = JSON.parse(fs.readFileSync(path.join(__dirname, 'fixtures', 'forms', 'signup.json'), 'utf8'));
+
+const text = (id, characters) => ({ id, name: 'Text', type: 'TEXT', text: { characters, fontSize: 14 } });
+const input = (id, name, placeholder) => ({
+    id, name, type: 'FRAME', semanticHints: { likelyRole: 'input', isInteractive: true },
+    children: placeholder ? [text(`${id}t`, placeholder)] : [],
+});
+const button = (id, name, label) => ({ id, name, type: 'FRAME', semanticHints: { likelyRole: 'button' }, children: [text(`${id}t`, label)] });
+const frame = (id, children, width = 375) => ({ id, name: 'Screen', type: 'FRAME', layout: { width, height: 600, layoutMode: 'VERTICAL' }, children });
+
+// Stands in for the Dart SDK: analyze reports relative imports whose file does not exist
+const FAKE_DART = `#!/usr/bin/env node
+const fs = require('fs');
+const path = require('path');
+const [command, ...args] = process.argv.slice(2);
+if (command === 'analyze') {
+    const file = args[args.length - 1];
+    fs.readFileSync(file, 'utf8').split('\\n').forEach((line, index) => {
+        const match = line.match(/^import '(\\w+\\.dart)';/);
+        if (match && !fs.existsSync(path.join(path.dirname(file), match[1]))) {
+            console.log(['ERROR', 'COMPILE_TIME_ERROR', 'URI_DOES_NOT_EXIST', file, index + 1, 8, match[1].length, "Target of URI doesn't exist."].join('|'));
+        }
+    });
+}
+`;
+const fakeDart = path.join(tmpRoot, 'dart');
+fs.writeFileSync(fakeDart, FAKE_DART, { mode: 0o755 });
+
+test('fields get names, kinds and validators from their frames and placeholders', async () => {
+    const form = collectForm([signup]);
+    assert.deepStrictEqual(
+        form.fields.map(field => [field.name, field.kind, field.validator && field.validator.method, field.keyboardType]),
+        [
+            ['name', 'text', '_validateRequired', null],
+            ['email', 'email', '_validateEmail', 'TextInputType.emailAddress'],
+            ['phone', 'phone', '_validatePhone', 'TextInputType.phone'],
+            ['password', 'password', '_validatePassword', null],
+            ['referralCode', 'text', null, null],
+        ],
+    );
+    // "Name Field" wraps its label and the "Input" box; the box is the field
+    assert.deepStrictEqual(form.fields[0].nodeIds, ['60:5']);
+    assert.strictEqual(form.fields[0].hint, 'Jane Doe');
+    assert.strictEqual(form.fields[3].obscureFlag, '_obscurePassword');
+    assert.strictEqual(form.fields[4].optional, true);
+    // "Create account" submits; "Cancel" comes first but is not a submit label
+    assert.deepStrictEqual([...form.submit], ['60:18']);
+});
+
+test('placeholders alone can tell the kind, and generic names fall back to it', async () => {
+    const form = collectForm([frame('1:1', [
+        input('1:2', 'Input', 'you@example.com'),
+        input('1:3', 'Input', '••••••'),
+        input('1:4', 'Text Field', '+44 20 7946 0958'),
+        input('1:5', 'Input', 'Anything'),
+        button('1:6', 'Button', 'Maybe later'),
+    ])]);
+    assert.deepStrictEqual(form.fields.map(field => [field.name, field.kind]), [
+        ['email', 'email'], ['password', 'password'], ['phone', 'phone'], ['field', 'text'],
+    ]);
+    assert.deepStrictEqual([...form.submit], ['1:6'], 'the first button submits when no label matches');
+    assert.strictEqual(collectForm([frame('2:1', [button('2:2', 'Button', 'Go')])]), null);
+});
+
+test('instances of synced components and hidden inputs are not form fields', async () => {
+    const componentIndex = { lookup: { 'c:1': { className: 'SearchBox' } } };
+    const instance = { ...input('1:2', 'Search Input', 'Search'), type: 'INSTANCE', metadata: { mainComponentId: 'c:1' } };
+    const hidden = { ...input('1:3', 'Email Input', 'Email'), visible: false };
+    assert.strictEqual(collectForm([frame('1:1', [instance, hidden])], { componentIndex }), null);
+    assert.strictEqual(collectForm([frame('1:1', [instance])]).fields.length, 1, 'unsynced instances are drawn, so they are fields');
+});
+
+test('only stateful screens become forms', async () => {
+    const stateless = generator.generateCode(signup, { className });
+    assert.ok(!stateless.includes('TextFormField'));
+    assert.ok(!stateless.includes('_formKey'));
+    assert.ok(generator.generateCode(signup, { className, widgetType: 'StatefulWidget' }).includes('TextFormField'));
+});
+
+test('responsive screens share one controller per field across breakpoints', async () => {
+    // The desktop field is wider, so each breakpoint draws its own
+    const layout = (id, width) => frame(id, [
+        { ...input(`${id}a`, 'Email Input', 'you@example.com'), layout: { width, height: 48 } },
+        button(`${id}b`, 'Sign In Button', 'Sign in'),
+    ], width);
+    const code = generator.generateResponsive(normalizeBreakpoints([
+        { name: 'mobile', figmaData: layout('1:1', 343) },
+        { name: 'desktop', figmaData: layout('2:1', 480) },
+    ]), { className: 'Login', widgetType: 'StatefulWidget' });
+
+    assert.strictEqual(code.match(/= TextEditingController\(\)/g).length, 1);
+    assert.strictEqual(code.match(/controller: _emailController/g).length, 2);
+    assert.match(code, /return Form\(\n {6}key: _formKey,\n {6}child: LayoutBuilder\(\n {8}builder: \(context, constraints\) \{/);
+});
+
+test('useProvider picks the state management package', async () => {
+    assert.strictEqual(stateManagementOf(true), 'provider');
+    assert.strictEqual(stateManagementOf('riverpod'), 'riverpod');
+    assert.strictEqual(stateManagementOf('mobx'), null);
+    assert.strictEqual(stateManagementOf(false), null);
+
+    const state = buildFormState(collectForm([signup]), 'SignupScreen', 'bloc');
+    assert.strictEqual(state.fileName, 'signup_screen_form.dart');
+    assert.strictEqual(state.className, 'SignupScreenFormCubit');
+});
+
+test('the prompt describes the form and the state class the model must use', async () => {
+    const roots = [signup];
+    assert.strictEqual(describeForm(roots, { className }), '', 'stateless screens get no form section');
+
+    const plain = describeForm(roots, { className, widgetType: 'StatefulWidget' });
+    assert.match(plain, /^## FORM/);
+    assert.match(plain, /- password \(nodes 60:12\): controller `_passwordController`; hint "••••••••"; validator password \(required, at least 8 characters\); obscured/);
+    assert.match(plain, /- referralCode .*optional, no validator/);
+    assert.ok(!plain.includes('State management'));
+
+    const riverpod = describeForm(roots, { className, widgetType: 'StatefulWidget', useProvider: 'riverpod' });
+    assert.match(riverpod, /import it as 'signup_screen_form\.dart'/);
+    assert.ok(riverpod.includes('await ref.read(signupScreenFormProvider.notifier).submit('));
+    assert.ok(riverpod.includes('class SignupScreenFormNotifier extends Notifier<SignupScreenFormState>'));
+});
+
+test('GeminiService honours useProvider in its instructions', async () => {
+    const service = new GeminiService(new ProviderRegistry({ LLM_PROVIDER: 'fixture' }));
+    const options = { className, widgetType: 'StatefulWidget', figmaData: signup };
+
+    const { request: plain } = await service._buildRequest(null, options);
+    assert.match(plain.systemInstruction, /Keep UI state in the widget \(`setState`\)/);
+    assert.match(plain.prompt, /## FORM/);
+
+    const { request } = await service._buildRequest(null, { ...options, useProvider: 'riverpod' });
+    assert.match(request.systemInstruction, /Manage state with flutter_riverpod/);
+    assert.match(request.systemInstruction, /Start with: `class SignupScreen extends ConsumerStatefulWidget \{`/);
+    assert.match(request.prompt, /State management: flutter_riverpod/);
+});
+
+test('validation writes the form state class next to the code and removes it afterwards', async () => {
+    const projectPath = path.join(tmpRoot, 'app');
+    fs.mkdirSync(path.join(projectPath, '.dart_tool'), { recursive: true });
+    fs.mkdirSync(path.join(projectPath, 'lib', 'features'), { recursive: true });
+    fs.writeFileSync(path.join(projectPath, '.dart_tool', 'package_config.json'), '{}', 'utf8');
+    fs.writeFileSync(path.join(projectPath, 'pubspec.yaml'), 'name: app\n', 'utf8');
+
+    const validationService = new ValidationService({ dartPath: fakeDart });
+    const code = generator.generateCode(signup, { className, widgetType: 'StatefulWidget', useProvider: 'provider' });
+    const companion = buildFormState(collectForm([signup]), className, 'provider');
+
+    const missing = await validationService.validate(code, { projectPath, fileName: 'signup_screen.dart' });
+    assert.deepStrictEqual(missing.diagnostics.map(diagnostic => diagnostic.code), ['URI_DOES_NOT_EXIST']);
+
+    const result = await validationService.validate(code, { projectPath, fileName: 'signup_screen.dart', companions: [companion] });
+    assert.deepStrictEqual(result.diagnostics, []);
+    assert.deepStrictEqual(fs.readdirSync(path.join(projectPath, 'lib', 'features')), []);
+});
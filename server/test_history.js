@@ -0,0 +1,295 @@
+/**
+ * Generation history tests: identical AI requests served from the history, what an entry
+ * records, saves noted on their generation, diffs between generations, rollbacks of a project
+ * file, and pruning. Requests go over HTTP to the app on a free local port; the fixture
+ * provider stands in for the model.
+ *
+ * Usage: node test_history.js
+ */
+const fs = require('fs');
+const path = require('path');
+const http = require('http');
+const assert = require('node:assert');
+const { test, before, after } = require('node:test');
+const { quietConsole, tempDir } = require('./testSupport');
+
+quietConsole();
+
+const tmpRoot = tempDir('history');
+const projectPath = path.join(tmpRoot, 'shop');
+fs.mkdirSync(path.join(projectPath, 'lib'), { recursive: true });
+fs.writeFileSync(path.join(projectPath, 'pubspec.yaml'), 'name: shop\n');
+
+// Two recorded outputs, picked by passing their name as the model
+const llmDir = path.join(tmpRoot, 'llm');
+fs.mkdirSync(llmDir);
+const widget = body => `import 'package:flutter/material.dart';\n\nclass LoginCard extends StatelessWidget {\n  const LoginCard({super.key});\n\n  @override\n  Widget build(BuildContext context) {\n    return ${body};\n  }\n}\n`;
+fs.writeFileSync(path.join(llmDir, 'default.dart'), widget('const Placeholder()'));
+fs.writeFileSync(path.join(llmDir, 'v2.dart'), widget("const Text('Login')"));
+
+// The app reads its config and creates its services when it is loaded
+process.env.MAXCOMPUTE_HOME = path.join(tmpRoot, 'home');
+process.env.MAXCOMPUTE_PROJECT_ROOTS = tmpRoot;
+process.env.LLM_PROVIDER = 'fixture';
+process.env.LLM_FIXTURES_DIR = llmDir;
+delete process.env.MAXCOMPUTE_TOKEN;
+const { app, security, providerRegistry } = require('./src/app');
+const HistoryService = require('./src/services/historyService');
+const ProjectService = require('./src/services/projectService');
+
+const historyDir = path.join(process.env.MAXCOMPUTE_HOME, 'history');
+const uploadsDir = new ProjectService().uploadsDir;
+const figmaData = JSON.parse(fs.readFileSync(path.join(__dirname, 'fixtures', 'serialized', 'login_card.json'), 'utf8'));
+const nodeId = figmaData.id;
+
+// Model calls, counted on the fixture provider the app uses
+let modelCalls = 0;
+const fixture = providerRegistry.get('fixture');
+const generate = fixture.generate.bind(fixture);
+fixture.generate = request => {
+    modelCalls++;
+    return generate(request);
+};
+
+let port = null;
+const uploads = [];
+
+let server;
+before(async () => {
+    server = app.listen(0, '127.0.0.1');
+    await new Promise(resolve => server.once('listening', resolve));
+    port = server.address().port;
+});
+after(() => {
+    server.close();
+    uploads.forEach(filename => fs.rmSync(path.join(uploadsDir, filename), { force: true }));
+});
+
+/**
+ * @returns {Promise<{status: number, body: Object|null}>}
+ */
+function request(endpoint, body) {
+    return new Promise((resolve, reject) => {
+        const req = http.request({
+            host: '127.0.0.1',
+            port,
+            path: endpoint,
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${security.token}` },
+        }, res => {
+            let data = '';
+            res.on('data', chunk => { data += chunk; });
+            res.on('end', () => resolve({ status: res.statusCode, body: data ? JSON.parse(data) : null }));
+        });
+        req.on('error', reject);
+        req.end(JSON.stringify(body));
+    });
+}
+
+// Each click uploads the screenshot again under a new name
+async function upload(data = 'iVBORw0KGgo=') {
+    const res = await request('/upload-image', { name: 'context_login_card', data });
+    uploads.push(res.body.filename);
+    return res.body.filename;
+}
+
+async function convert(options = {}, design = figmaData) {
+    const res = await request('/convert', {
+        figmaData: design,
+        contextImage: await upload(),
+        projectPath,
+        options: { widgetType: 'StatelessWidget', mode: 'ai', validate: false, className: 'LoginCard', ...options },
+    });
+    assert.strictEqual(res.status, 200, JSON.stringify(res.body));
+    return res.body;
+}
+
+const save = (generated, extra = {}) => request('/file/save', {
+    projectPath,
+    featureName: 'auth',
+    fileName: 'login_card.dart',
+    content: generated.code,
+    source: generated.source,
+    historyId: generated.history.id,
+    ...extra,
+});
+
+let first = null;
+let second = null;
+
+test('identical AI requests are served from the history', async () => {
+    first = await convert();
+    assert.deepStrictEqual(first.history, { id: first.history.id, cached: false });
+    assert.strictEqual(modelCalls, 1);
+
+    // New upload names, same design and options
+    const again = await convert();
+    assert.deepStrictEqual(again.history, { id: first.history.id, cached: true });
+    assert.strictEqual(again.code, first.code);
+    assert.deepStrictEqual(again.files, []);
+    assert.strictEqual(modelCalls, 1);
+
+    // Different options, or cache: false, ask the model again
+    second = await convert({ model: 'v2' });
+    assert.strictEqual(second.history.cached, false);
+    assert.match(second.code, /Text\('Login'\)/);
+    const fresh = await convert({ cache: false });
+    assert.notStrictEqual(fresh.history.id, first.history.id);
+    assert.strictEqual(modelCalls, 3);
+
+    // Deterministic output is recorded but always generated again
+    const deterministic = await convert({ mode: 'deterministic' });
+    const repeated = await convert({ mode: 'deterministic' });
+    assert.strictEqual(repeated.history.cached, false);
+    assert.notStrictEqual(repeated.history.id, deterministic.history.id);
+    assert.strictEqual(modelCalls, 3);
+});
+
+test('a history hit brings the project up to date for the reused code', async () => {
+    // Login form with the terms notice below: form state, strings, links and an image
+    const terms = JSON.parse(fs.readFileSync(path.join(__dirname, 'fixtures', 'serialized', 'terms_notice.json'), 'utf8'));
+    const design = { ...figmaData, id: '12:1', name: 'Signup Card', children: [...figmaData.children, terms] };
+    const cartPath = path.join(tmpRoot, 'cart');
+    const createProject = () => {
+        fs.rmSync(cartPath, { recursive: true, force: true });
+        fs.mkdirSync(path.join(cartPath, 'lib'), { recursive: true });
+        fs.writeFileSync(path.join(cartPath, 'pubspec.yaml'), 'name: cart\n');
+    };
+    const convertSignup = async () => {
+        const res = await request('/convert', {
+            figmaData: design,
+            contextImage: await upload(),
+            projectPath: cartPath,
+            assets: { '12:9': { id: '12:9', name: 'hero', filename: await upload(), format: 'png' } },
+            options: { widgetType: 'StatefulWidget', useProvider: 'provider', localize: true, feature: 'auth', mode: 'ai', validate: false, className: 'SignupCard' },
+        });
+        assert.strictEqual(res.status, 200, JSON.stringify(res.body));
+        return res.body;
+    };
+
+    createProject();
+    const generated = await convertSignup();
+    assert.strictEqual(generated.history.cached, false);
+    const calls = modelCalls;
+
+    // The project lost everything the first conversion added
+    createProject();
+    const reused = await convertSignup();
+    assert.deepStrictEqual(reused.history, { id: generated.history.id, cached: true });
+    assert.strictEqual(modelCalls, calls);
+    assert.strictEqual(reused.code, generated.code);
+
+    // The image is copied under the name the reused code refers to
+    assert.deepStrictEqual(reused.assetMap, generated.assetMap);
+    const image = path.join(cartPath, generated.assetMap['12:9']);
+    assert.ok(fs.existsSync(image));
+    assert.ok(reused.files.includes(image));
+
+    const pubspec = fs.readFileSync(path.join(cartPath, 'pubspec.yaml'), 'utf8');
+    ['go_router', 'url_launcher', 'provider', 'flutter_localizations'].forEach(name => assert.match(pubspec, new RegExp(`^  ${name}:`, 'm'), name));
+    assert.match(pubspec, /^    - assets\/images\/$/m);
+
+    const arb = JSON.parse(fs.readFileSync(path.join(cartPath, 'lib', 'l10n', 'app_en.arb'), 'utf8'));
+    assert.ok(generated.localization.added.length > 0);
+    generated.localization.added.forEach(key => assert.ok(key in arb, key));
+    assert.deepStrictEqual(reused.localization.added, generated.localization.added);
+});
+
+test('entries record the model, prompt, options and context image', async () => {
+    const res = await request('/history/entry', { nodeId, id: first.history.id });
+    assert.strictEqual(res.status, 200);
+    const entry = res.body;
+    assert.deepStrictEqual([entry.nodeId, entry.nodeName, entry.mode, entry.provider, entry.model], [nodeId, 'Login Card', 'ai', 'fixture', 'default']);
+    assert.strictEqual(entry.prompts.length, 1);
+    assert.strictEqual(entry.prompts[0].className, 'LoginCard');
+    assert.ok(entry.prompts[0].prompt.includes('Figma Design JSON'));
+    assert.match(entry.prompts[0].systemInstruction, /LoginCard/);
+    assert.strictEqual(entry.options.className, 'LoginCard');
+    assert.deepStrictEqual(entry.design, figmaData);
+    assert.strictEqual(entry.result.code, first.code);
+
+    // The context image outlives the upload
+    assert.strictEqual(entry.contextImages.length, 1);
+    const kept = fs.readFileSync(path.join(historyDir, 'images', entry.contextImages[0]));
+    assert.deepStrictEqual(kept, Buffer.from('iVBORw0KGgo=', 'base64'));
+
+    const list = await request('/history', { nodeId });
+    assert.strictEqual(list.body.entries.length, 5);
+    assert.deepStrictEqual(list.body.entries.map(summary => summary.mode), ['deterministic', 'deterministic', 'ai', 'ai', 'ai']);
+    assert.strictEqual(list.body.entries[4].id, first.history.id);
+    assert.strictEqual(list.body.entries[4].code, undefined);
+    assert.strictEqual(list.body.entries[4].lines, first.code.split('\n').length);
+    assert.deepStrictEqual((await request('/history', { nodeId: '99:99' })).body, { entries: [] });
+});
+
+test('saves are recorded and a file can be rolled back', async () => {
+    const filePath = path.join(fs.realpathSync(projectPath), 'lib', 'features', 'auth', 'login_card.dart');
+    assert.strictEqual((await save(first)).body.status, 'created');
+    assert.strictEqual((await save(second)).body.status, 'updated');
+    assert.match(fs.readFileSync(filePath, 'utf8'), /Text\('Login'\)/);
+
+    const saved = (await request('/history/entry', { nodeId, id: second.history.id })).body.saved;
+    assert.deepStrictEqual(saved.map(({ featureName, fileName, filePath: file, status }) => ({ featureName, fileName, filePath: file, status })),
+        [{ featureName: 'auth', fileName: 'login_card.dart', filePath, status: 'updated' }]);
+
+    const diff = await request('/history/diff', { nodeId, id: first.history.id, against: second.history.id });
+    assert.strictEqual(diff.status, 200);
+    assert.match(diff.body.diff, /^-    return const Placeholder\(\);$/m);
+    assert.match(diff.body.diff, /^\+    return const Text\('Login'\);$/m);
+    assert.deepStrictEqual([diff.body.from.id, diff.body.to.id], [first.history.id, second.history.id]);
+
+    const target = { nodeId, id: first.history.id, projectPath, featureName: 'auth', fileName: 'login_card.dart' };
+    const restored = await request('/history/restore', target);
+    assert.deepStrictEqual([restored.status, restored.body.status], [200, 'updated']);
+    assert.match(fs.readFileSync(filePath, 'utf8'), /return const Placeholder\(\);/);
+    const entry = (await request('/history/entry', { nodeId, id: first.history.id })).body;
+    assert.strictEqual(entry.saved[entry.saved.length - 1].restored, true);
+
+    // Hand edits outside protected regions are kept unless the restore is forced
+    const edited = fs.readFileSync(filePath, 'utf8').replace('const Placeholder()', 'const SizedBox()');
+    fs.writeFileSync(filePath, edited);
+    const conflict = await request('/history/restore', { ...target, id: second.history.id });
+    assert.strictEqual(conflict.body.status, 'conflict');
+    assert.strictEqual(fs.readFileSync(filePath, 'utf8'), edited);
+    assert.match(conflict.body.diff, /Text\('Login'\)/);
+    const forced = await request('/history/restore', { ...target, id: second.history.id, force: true });
+    assert.strictEqual(forced.body.status, 'updated');
+    assert.match(fs.readFileSync(filePath, 'utf8'), /Text\('Login'\)/);
+});
+
+test('unknown generations and bad requests are rejected', async () => {
+    assert.strictEqual((await request('/history/entry', { nodeId, id: 'missing' })).status, 404);
+    assert.strictEqual((await request('/history/diff', { nodeId, id: first.history.id, against: 'missing' })).status, 404);
+    const restore = await request('/history/restore', { nodeId: '99:99', id: first.history.id, projectPath, featureName: 'auth', fileName: 'login_card.dart' });
+    assert.strictEqual(restore.status, 404);
+
+    assert.strictEqual((await request('/history', {})).body.error, 'Missing nodeId in request body.');
+    assert.match((await request('/history/entry', { nodeId, id: '../../config' })).body.error, /^id must be a plain name/);
+    assert.match((await request('/history/restore', { nodeId, id: first.history.id, projectPath: path.join(path.parse(tmpRoot).root, 'outside-roots'), featureName: 'auth', fileName: 'a.dart' })).body.error, /^projectPath must be an absolute path/);
+    assert.match((await request('/convert', { figmaData, options: { mode: 'ai', cache: 'no' } })).body.error, /^options\.cache must be a boolean/);
+});
+
+test('old entries and unused context images are pruned', async () => {
+    const dir = path.join(tmpRoot, 'pruned');
+    const history = new HistoryService(new ProjectService({ uploadsDir }), { historyDir: dir, maxEntries: 2 });
+    const request_ = history.requestKey({ figmaData, options: { mode: 'ai' } });
+    const result = { code: 'class A {}', diagnostics: [] };
+
+    const ids = [];
+    for (const data of ['AAAA', 'BBBB', 'CCCC']) {
+        const contextImage = await upload(data);
+        ids.push((await history.record({ request: request_, body: { figmaData, contextImage, options: { mode: 'ai' } }, result })).id);
+    }
+    assert.deepStrictEqual((await history.list(nodeId)).map(entry => entry.id), [ids[2], ids[1]]);
+    assert.strictEqual(fs.readdirSync(path.join(dir, 'images')).length, 3);
+    await history.cleanup();
+    assert.strictEqual(fs.readdirSync(path.join(dir, 'images')).length, 2);
+
+    // Only error-free AI output answers later requests
+    const failing = { code: 'class {', diagnostics: [{ severity: 'error', message: 'Expected a name' }] };
+    const other = history.requestKey({ figmaData, options: { mode: 'ai', temperature: 0.5 } });
+    await history.record({ request: other, body: { figmaData, options: { mode: 'ai' } }, result: failing });
+    assert.strictEqual(await history.findCached(nodeId, other.key), null);
+    assert.strictEqual((await history.findCached(nodeId, request_.key)).id, ids[2]);
+});
+
@@ -0,0 +1,169 @@
+/**
+ * Grid and wrap tests: which grids GridView can draw, the delegate and Wrap arguments, and
+ * repeated instances built from one item template over a const data list.
+ * A generated screen with both is covered by the fixtures/serialized/product_grid snapshots.
+ *
+ * Usage: node test_layouts.js
+ */
+const assert = require('node:assert');
+const { test } = require('node:test');
+const DeterministicGenerator = require('./src/services/deterministicGenerator');
+const { buildComponentManifest, buildComponentIndex } = require('./src/utils/componentManifest');
+const { normalizeBreakpoints } = require('./src/utils/breakpoints');
+const { uniformGrid } = require('./src/utils/gridLayout');
+const { isRepeated, buildItemTemplate } = require('./src/utils/itemTemplates');
+const { call, str, raw, render } = require('./src/utils/dartBuilder');
+const { quietConsole } = require('./testSupport');
+
+quietConsole();
+
+const generator = new DeterministicGenerator();
+
+const text = (id, characters) => ({ id, name: 'Label', type: 'TEXT', layout: { width: 60, height: 20 }, text: { characters, fontSize: 14 } });
+const cell = (id, row, column, extra = {}) => ({
+    id,
+    name: 'Cell',
+    type: 'FRAME',
+    layout: { width: 100, height: 80, gridRowAnchorIndex: row, gridColumnAnchorIndex: column, gridRowSpan: 1, gridColumnSpan: 1, ...extra },
+    children: [text(`${id}t`, id)],
+});
+const chip = (id, label, componentId = 'c:1') => ({
+    id,
+    name: 'Chip',
+    type: 'INSTANCE',
+    layout: { width: 60, height: 32, layoutMode: 'HORIZONTAL', primaryAxisSizingMode: 'AUTO', counterAxisSizingMode: 'AUTO' },
+    metadata: { mainComponentId: componentId, componentName: 'Chip' },
+    children: [text(`${id}t`, label)],
+});
+const grid = (children, layout = {}) => ({
+    id: '1:2',
+    name: 'Grid',
+    type: 'FRAME',
+    layout: {
+        width: 320,
+        height: 172,
+        layoutMode: 'GRID',
+        gridRowCount: 2,
+        gridColumnCount: 3,
+        gridRowGap: 12,
+        gridColumnGap: 10,
+        gridRowSizes: [{ type: 'FLEX', value: 1 }, { type: 'FLEX', value: 1 }],
+        gridColumnSizes: [{ type: 'FLEX', value: 1 }, { type: 'FLEX', value: 1 }, { type: 'FLEX', value: 1 }],
+        ...layout,
+    },
+    children,
+});
+const wrap = (children, layout = {}) => ({
+    id: '1:3',
+    name: 'Chips',
+    type: 'FRAME',
+    layout: { width: 320, height: 72, layoutMode: 'HORIZONTAL', layoutWrap: 'WRAP', counterAxisSizingMode: 'AUTO', itemSpacing: 8, counterAxisSpacing: 6, ...layout },
+    children,
+});
+const screen = children => ({ id: '1:1', name: 'Screen', type: 'FRAME', layout: { width: 375, height: 600, layoutMode: 'VERTICAL' }, children });
+
+test('GridView draws grids whose cells are filled in reading order without spans', async () => {
+    const cells = [cell('a', 0, 1), cell('b', 0, 0), cell('c', 0, 2)];
+    const result = uniformGrid(grid(cells).layout, cells);
+    assert.deepStrictEqual(result.children.map(child => child.id), ['b', 'a', 'c']);
+    assert.strictEqual(uniformGrid(grid([]).layout, [cell('a', 0, 1), cell('b', 0, 0), cell('c', 1, 0)]), null);
+    assert.deepStrictEqual({ ...result, children: undefined }, { columns: 3, rowGap: 12, columnGap: 10, cellHeight: 80, columnWidth: null, children: undefined });
+
+    assert.strictEqual(uniformGrid(grid([]).layout, [cell('a', 0, 0, { gridColumnSpan: 2 })]), null);
+    assert.strictEqual(uniformGrid(grid([]).layout, [cell('a', 0, 0), cell('b', 0, 2)]), null);
+    const hug = grid([], { gridColumnSizes: [{ type: 'HUG' }, { type: 'HUG' }, { type: 'HUG' }] });
+    assert.strictEqual(uniformGrid(hug.layout, [cell('a', 0, 0)]), null);
+    const mixed = grid([], { gridColumnSizes: [{ type: 'FLEX', value: 2 }, { type: 'FLEX', value: 1 }, { type: 'FLEX', value: 1 }] });
+    assert.strictEqual(uniformGrid(mixed.layout, [cell('a', 0, 0)]), null);
+
+    const fixed = grid([], {
+        gridRowSizes: [{ type: 'FIXED', value: 64 }, { type: 'FIXED', value: 64 }],
+        gridColumnSizes: [{ type: 'FIXED', value: 96 }, { type: 'FIXED', value: 96 }, { type: 'FIXED', value: 96 }],
+    });
+    assert.strictEqual(uniformGrid(fixed.layout, [cell('a', 0, 0)]).cellHeight, 64);
+    assert.strictEqual(uniformGrid(fixed.layout, [cell('a', 0, 0)]).columnWidth, 96);
+});
+
+test('grids become GridView with their delegate; spanning cells keep their positions', async () => {
+    const code = generator.generateCode(screen([grid([cell('a', 0, 0), cell('b', 0, 1)])]));
+    assert.match(code, /GridView\(\n\s+shrinkWrap: true,\n\s+physics: const NeverScrollableScrollPhysics\(\),\n\s+padding: EdgeInsets\.zero,\n\s+gridDelegate: const SliverGridDelegateWithFixedCrossAxisCount\(\n\s+crossAxisCount: 3,\n\s+mainAxisSpacing: 12,\n\s+crossAxisSpacing: 10,\n\s+mainAxisExtent: 80,\n\s+\),\n\s+children: \[/);
+
+    const fixed = grid([cell('a', 0, 0)], { gridColumnSizes: [{ type: 'FIXED', value: 96 }, { type: 'FIXED', value: 96 }, { type: 'FIXED', value: 96 }] });
+    assert.match(generator.generateCode(screen([fixed])), /SliverGridDelegateWithMaxCrossAxisExtent\(\n\s+maxCrossAxisExtent: 96,/);
+
+    const spanning = grid([{ ...cell('a', 0, 0, { gridColumnSpan: 2, x: 0, y: 0 }) }, cell('b', 0, 2, { x: 220, y: 0 })]);
+    const code2 = generator.generateCode(screen([spanning]));
+    assert.ok(!code2.includes('GridView'));
+    assert.match(code2, /Positioned\(\n\s+left: 220,/);
+});
+
+test('wrapped rows become Wrap with spacing, run spacing and alignment', async () => {
+    const code = generator.generateCode(screen([
+        wrap([text('1:4', 'One'), text('1:5', 'Two')], { primaryAxisAlignItems: 'CENTER', counterAxisAlignItems: 'CENTER' }),
+    ]));
+    assert.match(code, /Wrap\(\n\s+spacing: 8,\n\s+runSpacing: 6,\n\s+alignment: WrapAlignment\.center,\n\s+crossAxisAlignment: WrapCrossAlignment\.center,\n\s+children: \[/);
+    assert.ok(!code.includes('Row('));
+});
+
+test('repeated instances share a template over a const list of what differs', async () => {
+    const chips = [chip('2:1', 'Coffee'), chip('2:2', 'Tea'), chip('2:3', "Baker's")];
+    const code = generator.generateCode(screen([wrap(chips)]));
+    assert.match(code, /static const _chipItems = \[\n\s+\(label: 'Coffee'\),\n\s+\(label: 'Tea'\),\n\s+\(label: "Baker's"\),\n\s+\];/);
+    assert.match(code, /for \(final item in _chipItems\)\n\s+Row\(/);
+    assert.match(code, /Text\(item\.label, style: TextStyle\(fontSize: 14\)\)/);
+
+    const cells = chips.map((chip, idx) => ({ ...chip, layout: { ...chip.layout, gridRowAnchorIndex: 0, gridColumnAnchorIndex: idx } }));
+    const gridCode = generator.generateCode(screen([grid(cells)]));
+    assert.match(gridCode, /itemCount: _chipItems\.length,\n\s+itemBuilder: \(context, index\) \{\n\s+final item = _chipItems\[index\];\n\s+return Row\(/);
+});
+
+test('identical items repeat without a list; different ones stay written out', async () => {
+    const same = generator.generateCode(screen([wrap([chip('2:1', 'Tea'), chip('2:2', 'Tea'), chip('2:3', 'Tea')])]));
+    assert.match(same, /children: List\.generate\(\n\s+3,\n\s+\(index\) => Row\(/);
+    assert.ok(!same.includes('static const'));
+
+    // Two items are written out, and so are instances of different components
+    const two = generator.generateCode(screen([wrap([chip('2:1', 'Tea'), chip('2:2', 'Coffee')])]));
+    const mixed = generator.generateCode(screen([wrap([chip('2:1', 'Tea'), chip('2:2', 'Coffee'), chip('2:3', 'Milk', 'c:2')])]));
+    [two, mixed].forEach(code => {
+        assert.ok(!code.includes('static const') && !code.includes('for (final'));
+        assert.match(code, /'Coffee'/);
+    });
+    assert.strictEqual(isRepeated([chip('2:1', 'a'), chip('2:2', 'b'), { ...chip('2:3', 'c'), visible: false }]), false);
+
+    // Values other than literals cannot move into a const list
+    const keyed = [call('Text', {}, [raw('_aKey')]), call('Text', {}, [raw('_bKey')]), call('Text', {}, [raw('_cKey')])];
+    assert.strictEqual(buildItemTemplate(keyed), null);
+    const lifted = buildItemTemplate([call('const Text', {}, [str('a')]), call('const Text', {}, [str('b')]), call('const Text', {}, [str('c')])]);
+    assert.strictEqual(render(lifted.template), 'Text(item.text)');
+});
+
+test('items of synced components pass the differing properties; breakpoints share one list', async () => {
+    const data = { id: 'c:1', name: 'Chip', type: 'COMPONENT', layout: { width: 60, height: 32 }, children: [] };
+    const manifest = buildComponentManifest([{
+        id: 'c:1', name: 'Chip', description: '', data,
+        definitions: { 'Label#1:0': { type: 'TEXT', defaultValue: 'Chip' } },
+    }]);
+    const componentIndex = buildComponentIndex(manifest);
+    const instance = (id, label) => ({ ...chip(id, label), metadata: { mainComponentId: 'c:1', componentProperties: { 'Label#1:0': { type: 'TEXT', value: label } } } });
+    const chips = () => wrap([instance('2:1', 'Coffee'), instance('2:2', 'Tea'), instance('2:3', 'Milk')]);
+
+    const code = generator.generateCode(screen([chips()]), { componentIndex });
+    assert.match(code, /static const _chipItems = \[\n\s+\(label: 'Coffee'\),/);
+    assert.match(code, /for \(final item in _chipItems\)\n\s+AppChip\(label: item\.label\),/);
+
+    const wide = { ...screen([chips()]), layout: { width: 1024, height: 600, layoutMode: 'HORIZONTAL' } };
+    const responsive = generator.generateResponsive(normalizeBreakpoints([
+        { name: 'mobile', figmaData: screen([chips()]) },
+        { name: 'desktop', figmaData: wide },
+    ]), { componentIndex });
+    assert.strictEqual(responsive.match(/static const/g).length, 1);
+
+    // The component itself has no place for the list
+    const widget = generator.generateComponent(
+        { ...data, layout: { width: 320, height: 72, layoutMode: 'HORIZONTAL', layoutWrap: 'WRAP' }, children: [chip('3:1', 'a'), chip('3:2', 'b'), chip('3:3', 'c')] },
+        componentIndex.lookup['c:1'],
+        { widgetsImportPath: '' },
+    );
+    assert.ok(!widget.includes('static const') && !widget.includes('for (final'));
+});
@@ -0,0 +1,224 @@
+/**
+ * Localization tests: ICU placeholders, ARB keys and merging, project setup for
+ * flutter gen-l10n through a fake `flutter` executable, and the AppLocalizations lookups
+ * in generated code and prompts. The generated screen and ARB file are covered by the
+ * fixtures/localization snapshots.
+ *
+ * Usage: node test_localization.js
+ */
+const fs = require('fs');
+const path = require('path');
+const assert = require('node:assert');
+const { test } = require('node:test');
+const DeterministicGenerator = require('./src/services/deterministicGenerator');
+const GeminiService = require('./src/services/geminiService');
+const LocalizationService = require('./src/services/localizationService');
+const ProjectService = require('./src/services/projectService');
+const VisualService = require('./src/services/visualService');
+const { ProviderRegistry } = require('./src/services/providers');
+const { toMessage, buildStringIndex, mergeArb, describeStrings } = require('./src/utils/localization');
+const { normalizeBreakpoints } = require('./src/utils/breakpoints');
+const { quietConsole, tempDir } = require('./testSupport');
+
+quietConsole();
+
+const tmpRoot = tempDir('l10n');
+const generator = new DeterministicGenerator();
+const { feature, arb, screen: dashboard } = JSON.parse(fs.readFileSync(path.join(__dirname, 'fixtures', 'localization', 'dashboard.json'), 'utf8'));
+
+const text = (id, name, characters, extra = {}) => ({ id, name, type: 'TEXT', text: { characters, fontSize: 14 }, ...extra });
+const frame = (id, name, children, role) => ({
+    id, name, type: 'FRAME', layout: { width: 375, height: 600, layoutMode: 'VERTICAL' }, children,
+    ...(role ? { semanticHints: { likelyRole: role } } : {}),
+});
+
+// Stands in for the Flutter SDK: gen-l10n writes the output file and records each run
+const FAKE_FLUTTER = `#!/usr/bin/env node
+const fs = require('fs');
+const [command] = process.argv.slice(2);
+if (command === 'gen-l10n') {
+    fs.appendFileSync('gen-l10n.log', 'run\\n');
+    fs.writeFileSync('lib/l10n/app_localizations.dart', '// generated\\n');
+}
+`;
+const fakeFlutter = path.join(tmpRoot, 'flutter');
+fs.writeFileSync(fakeFlutter, FAKE_FLUTTER, { mode: 0o755 });
+
+function createProject(name) {
+    const projectPath = path.join(tmpRoot, name);
+    fs.mkdirSync(path.join(projectPath, 'lib'), { recursive: true });
+    fs.writeFileSync(path.join(projectPath, 'pubspec.yaml'), [
+        'name: demo_app',
+        'dependencies:',
+        '  flutter:',
+        '    sdk: flutter',
+        '  cupertino_icons: ^1.0.8',
+        '',
+        'flutter:',
+        '  uses-material-design: true',
+        '',
+    ].join('\n'), 'utf8');
+    return projectPath;
+}
+
+const localizationService = new LocalizationService(new ProjectService(), { flutterPath: fakeFlutter });
+const keysOf = index => Object.keys(index.lookup).map(id => `${id} ${index.lookup[id].key}`);
+
+test('numbers and names become ICU placeholders with the design values as examples', async () => {
+    assert.deepStrictEqual(toMessage('Welcome back, Sarah!'), {
+        message: 'Welcome back, {name}!',
+        placeholders: [{ name: 'name', type: 'String', example: 'Sarah', format: null }],
+    });
+    assert.strictEqual(toMessage('Follow @max_compute').message, 'Follow {username}');
+    assert.deepStrictEqual(toMessage('Step 2 of 5, 1,250 points, 12.5% off').placeholders.map(p => [p.name, p.type, p.example, p.format]), [
+        ['count', 'int', '2', null],
+        ['count2', 'int', '5', null],
+        ['count3', 'int', '1,250', 'decimalPattern'],
+        ['amount', 'double', '12.5', 'decimalPattern'],
+    ]);
+    // List markers, versions and words with digits stay as written
+    assert.deepStrictEqual(toMessage('1. Sign up\n2. Verify your 2FA code on v2.4'), { message: '1. Sign up\n2. Verify your 2FA code on v2.4', placeholders: [] });
+});
+
+test('keys combine the feature, the layer name and the role of the frame around the text', async () => {
+    const index = buildStringIndex([frame('1:1', 'Login', [
+        frame('1:2', 'Header', [text('1:3', 'Title', 'Welcome')], 'header'),
+        frame('1:4', 'Sign In Button', [text('1:5', 'Sign in', 'SIGN IN', { text: { characters: 'Sign in', textCase: 'UPPER' } })], 'button'),
+        frame('1:6', 'Auth Button', [text('1:7', 'Auth Forgot Button', 'Forgot password?')], 'button'),
+        text('1:8', 'Footer', 'Welcome'),
+    ])], { feature: 'auth' });
+
+    assert.deepStrictEqual(keysOf(index), [
+        '1:3 authTitleHeader',
+        '1:5 authSignInButton', // default layer name: the words of the text
+        '1:7 authForgotButton', // neither the feature nor the role repeated
+        '1:8 authTitleHeader', // same text, same key
+    ]);
+    assert.deepStrictEqual(index.added.map(entry => entry.message), ['Welcome', 'SIGN IN', 'Forgot password?']);
+    assert.strictEqual(index.added[0].description, 'Login / Title');
+});
+
+test('text already in the ARB file keeps its key, and new keys do not collide with it', async () => {
+    const existing = mergeArb(null, [
+        { key: 'authWelcomeBack', message: 'Welcome back, {name}!', description: 'Login / Title', placeholders: [{ name: 'name', type: 'String', example: 'Ada' }] },
+        { key: 'homeTitle', message: 'Something else', description: 'Home / Title', placeholders: [] },
+    ]);
+    const index = buildStringIndex([frame('2:1', 'Home', [text('2:2', 'Greeting', 'Welcome back, Sarah!'), text('2:3', 'Title', 'Your dashboard')])], { feature: 'home', arb: existing });
+
+    assert.deepStrictEqual(index.lookup['2:2'], { key: 'authWelcomeBack', placeholders: [{ name: 'name', type: 'String', example: 'Sarah' }] });
+    assert.strictEqual(index.lookup['2:3'].key, 'homeTitle2');
+    assert.deepStrictEqual(index.added.map(entry => entry.key), ['homeTitle2']);
+
+    const merged = mergeArb(existing, [...index.added, { key: 'homeTitle', message: 'Changed', description: '', placeholders: [] }]);
+    assert.strictEqual(merged.homeTitle, 'Something else', 'existing messages are never rewritten');
+    assert.deepStrictEqual(merged['@authWelcomeBack'].placeholders, { name: { type: 'String', example: 'Ada' } });
+    assert.deepStrictEqual(Object.keys(merged), ['@@locale', 'authWelcomeBack', '@authWelcomeBack', 'homeTitle', '@homeTitle', 'homeTitle2', '@homeTitle2']);
+});
+
+test('hidden layers, synced instances, text without letters and text with braces stay in the code', async () => {
+    const componentIndex = { lookup: { 'c:1': { className: 'AppButton' } } };
+    const index = buildStringIndex([frame('3:1', 'Screen', [
+        text('3:2', 'Hidden', 'Secret', { visible: false }),
+        { id: '3:3', name: 'Button', type: 'INSTANCE', metadata: { mainComponentId: 'c:1' }, children: [text('3:4', 'Label', 'Pay now')] },
+        text('3:5', 'Price', '$12.99'),
+        text('3:6', 'Template', '{year} Max Compute'),
+        text('3:7', 'Body', 'Shown'),
+    ])], { feature: 'shop', componentIndex });
+    assert.deepStrictEqual(keysOf(index), ['3:7 shopBody']);
+});
+
+test('generated widgets read extracted text through AppLocalizations', async () => {
+    const code = generator.generateCode(dashboard, { className: 'DashboardScreen', stringIndex: buildStringIndex([dashboard], { feature, arb }) });
+    assert.ok(code.includes("import '../../l10n/app_localizations.dart';"));
+    assert.ok(code.includes("AppLocalizations.of(context)!.homeWelcomeBackHeader('Sarah')"));
+    assert.ok(code.includes('AppLocalizations.of(context)!.authSignOutButton'), 'reuses the key from the ARB file');
+    assert.ok(code.includes("'{year} Max Compute'"));
+
+    const plain = generator.generateCode(dashboard, { className: 'DashboardScreen' });
+    assert.ok(!plain.includes('AppLocalizations'));
+});
+
+test('form hints are localized and responsive layouts share keys', async () => {
+    const input = id => ({ ...frame(id, 'Email Input', [text(`${id}t`, 'Placeholder', 'you@example.com')], 'input'), semanticHints: { likelyRole: 'input', isInteractive: true } });
+    const form = frame('4:1', 'Login', [input('4:2')]);
+    const stateful = generator.generateCode(form, { className: 'Login', widgetType: 'StatefulWidget', stringIndex: buildStringIndex([form], { feature: 'auth' }) });
+    assert.ok(stateful.includes('hintText: AppLocalizations.of(context)!.authPlaceholderInput,'));
+
+    const layouts = [frame('5:1', 'Mobile', [text('5:2', 'Title', 'Hello there')]), frame('6:1', 'Desktop', [text('6:2', 'Title', 'Hello there'), text('6:3', 'Note', 'Wide')])];
+    const index = buildStringIndex(layouts, { feature: 'home' });
+    assert.deepStrictEqual(index.added.map(entry => entry.key), ['homeTitle', 'homeNote']);
+    const code = generator.generateResponsive(normalizeBreakpoints([
+        { name: 'mobile', figmaData: layouts[0] },
+        { name: 'desktop', figmaData: layouts[1] },
+    ]), { className: 'Home', stringIndex: index });
+    assert.strictEqual(code.match(/AppLocalizations\.of\(context\)!\.homeTitle\b/g).length, 2);
+});
+
+test('syncStrings writes the ARB file and sets the project up for gen-l10n', async () => {
+    const projectPath = createProject('setup');
+    const result = await localizationService.syncStrings(projectPath, [dashboard], { feature });
+
+    assert.strictEqual(result.file, path.join(projectPath, 'lib', 'l10n', 'app_en.arb'));
+    assert.strictEqual(result.generated, true);
+    assert.deepStrictEqual(result.added.slice(0, 2), ['homeWelcomeBackHeader', 'homeSubtitleHeader']);
+    const written = JSON.parse(fs.readFileSync(result.file, 'utf8'));
+    assert.strictEqual(written['@@locale'], 'en');
+    assert.deepStrictEqual(written['@homeSubtitleHeader'].placeholders, { count: { type: 'int', example: '3' } });
+
+    const pubspec = fs.readFileSync(path.join(projectPath, 'pubspec.yaml'), 'utf8');
+    assert.match(pubspec, /  cupertino_icons: \^1\.0\.8\n  flutter_localizations:\n    sdk: flutter\n  intl: any\n/);
+    assert.match(pubspec, /flutter:\n  generate: true\n  uses-material-design: true/);
+    assert.match(fs.readFileSync(path.join(projectPath, 'l10n.yaml'), 'utf8'), /^arb-dir: lib\/l10n\n/);
+
+    // Nothing new: the ARB file, pubspec.yaml and AppLocalizations are left alone
+    fs.writeFileSync(path.join(projectPath, 'l10n.yaml'), 'arb-dir: custom\n', 'utf8');
+    const again = await localizationService.syncStrings(projectPath, [dashboard], { feature });
+    assert.deepStrictEqual(again.added, []);
+    assert.strictEqual(again.generated, false);
+    assert.strictEqual(fs.readFileSync(path.join(projectPath, 'pubspec.yaml'), 'utf8'), pubspec);
+    assert.strictEqual(fs.readFileSync(path.join(projectPath, 'l10n.yaml'), 'utf8'), 'arb-dir: custom\n');
+    assert.strictEqual(fs.readFileSync(path.join(projectPath, 'gen-l10n.log'), 'utf8'), 'run\n');
+});
+
+test('screens converted side by side all end up in the ARB file', async () => {
+    const projectPath = createProject('batch');
+    const screens = ['Inbox', 'Outbox', 'Drafts'].map((name, idx) => frame(`7:${idx}`, name, [text(`7:${idx}0`, 'Title', `${name} messages`)]));
+    await Promise.all(screens.map(screen => localizationService.syncStrings(projectPath, [screen], { feature: 'mail' })));
+
+    const written = JSON.parse(fs.readFileSync(path.join(projectPath, 'lib', 'l10n', 'app_en.arb'), 'utf8'));
+    assert.deepStrictEqual(['mailTitle', 'mailTitle2', 'mailTitle3'].map(key => written[key]), ['Inbox messages', 'Outbox messages', 'Drafts messages']);
+});
+
+test('an ARB file that is not valid JSON is reported, not overwritten', async () => {
+    const projectPath = createProject('broken');
+    fs.mkdirSync(path.join(projectPath, 'lib', 'l10n'));
+    fs.writeFileSync(path.join(projectPath, 'lib', 'l10n', 'app_en.arb'), '{ "title": ', 'utf8');
+
+    await assert.rejects(localizationService.syncStrings(projectPath, [dashboard], { feature }), /app_en\.arb is not valid JSON/);
+    assert.strictEqual(fs.readFileSync(path.join(projectPath, 'lib', 'l10n', 'app_en.arb'), 'utf8'), '{ "title": ');
+
+    const preview = await localizationService.syncStrings(null, [dashboard], { feature });
+    assert.strictEqual(preview.file, null);
+    assert.strictEqual(preview.index.lookup['70:3'].key, 'homeWelcomeBackHeader');
+});
+
+test('the prompt lists each text layer with its lookup', async () => {
+    assert.strictEqual(describeStrings(null), '');
+    const index = buildStringIndex([dashboard], { feature, arb });
+    const section = describeStrings(index);
+    assert.match(section, /^## LOCALIZATION/);
+    assert.ok(section.includes("- 70:3: `AppLocalizations.of(context)!.homeWelcomeBackHeader('Sarah')`"), section);
+    assert.ok(section.includes('- 70:10#1: `AppLocalizations.of(context)!.homeFaq`'), section);
+
+    const service = new GeminiService(new ProviderRegistry({ LLM_PROVIDER: 'fixture' }));
+    const { request } = await service._buildRequest(null, { figmaData: dashboard, stringIndex: index });
+    assert.ok(request.prompt.includes(section));
+});
+
+test('the golden test harness loads AppLocalizations for localized widgets', async () => {
+    const visualService = new VisualService({ flutterPath: fakeFlutter });
+    const harness = visualService._buildHarness({ packageName: 'demo_app', id: 'v1', className: 'Home', width: 40, height: 20, pixelRatio: 1.5, localized: true });
+    assert.ok(harness.includes("import 'package:demo_app/l10n/app_localizations.dart';"));
+    assert.ok(harness.includes('localizationsDelegates: AppLocalizations.localizationsDelegates,'));
+    assert.ok(!visualService._buildHarness({ packageName: 'demo_app', id: 'v1', className: 'Home', width: 40, height: 20, pixelRatio: 1.5 }).includes('AppLocalizations'));
+});
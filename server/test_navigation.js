@@ -0,0 +1,181 @@
+/**
+ * Navigation tests: the route table written into a temp Flutter project, route names for
+ * prototype links and text links, and the prompt section and design diff for reactions.
+ * Generated screens and app_router.dart are covered by the fixtures/navigation snapshots.
+ *
+ * Usage: node test_navigation.js
+ */
+const fs = require('fs');
+const path = require('path');
+const assert = require('node:assert');
+const { test } = require('node:test');
+const RouterService = require('./src/services/routerService');
+const ProjectService = require('./src/services/projectService');
+const {
+    screenNames, tapReaction, buildRouteIndex, destinationOf, collectTextLinks, linkTarget, describeNavigation,
+} = require('./src/utils/navigation');
+const { diffNodes } = require('./src/utils/nodeDiff');
+const { quietConsole, tempDir } = require('./testSupport');
+
+quietConsole();
+
+const PUBSPEC = `name: demo_app
+
+dependencies:
+  flutter:
+    sdk: flutter
+
+flutter:
+  uses-material-design: true
+`;
+
+const PUSH_LEFT = { type: 'PUSH', direction: 'LEFT', duration: 0.3, easing: { type: 'EASE_OUT' } };
+
+const tmpRoot = tempDir('navigation');
+const routerService = new RouterService(new ProjectService({ uploadsDir: path.join(tmpRoot, 'uploads') }));
+
+function createProject(name) {
+    const projectPath = path.join(tmpRoot, name);
+    fs.mkdirSync(projectPath, { recursive: true });
+    fs.writeFileSync(path.join(projectPath, 'pubspec.yaml'), PUBSPEC, 'utf8');
+    return projectPath;
+}
+
+const screen = (id, name, featureName, fileName, navigation = []) => ({ id, name, featureName, fileName, navigation });
+
+test('frame names become route paths, file names and classes', async () => {
+    assert.deepStrictEqual(screenNames('Login Screen'), { path: '/login-screen', file: 'login_screen.dart', className: 'LoginScreen' });
+    assert.deepStrictEqual(screenNames('CheckoutStep2'), { path: '/checkout-step2', file: 'checkout_step2.dart', className: 'CheckoutStep2' });
+    assert.deepStrictEqual(screenNames('404'), { path: '/screen-404', file: 'screen_404.dart', className: 'Screen404' });
+});
+
+test('only tap links the generator supports are used', async () => {
+    const hover = { trigger: 'ON_HOVER', action: 'NAVIGATE', destinationId: '2:1' };
+    const swap = { trigger: 'ON_CLICK', action: 'SWAP', destinationId: '2:2' };
+    const back = { trigger: 'ON_CLICK', action: 'BACK' };
+    assert.strictEqual(tapReaction({ reactions: [hover, swap, back] }), back);
+    assert.strictEqual(tapReaction({ reactions: [hover, { trigger: 'ON_CLICK', action: 'NAVIGATE', destinationId: null }] }), null);
+    assert.strictEqual(tapReaction({}), null);
+});
+
+test('syncRoutes writes the route table, the manifest and the go_router dependency', async () => {
+    const projectPath = createProject('sync');
+    const { file, manifest } = await routerService.syncRoutes(projectPath, [
+        screen('1:1', 'Home', 'shop', 'home.dart', [{ trigger: 'ON_CLICK', action: 'NAVIGATE', destinationId: '2:1', transition: PUSH_LEFT }]),
+        screen('2:1', 'Login Screen', 'auth', 'login_screen.dart'),
+    ]);
+
+    assert.strictEqual(file, path.join(projectPath, 'lib', 'core', 'router', 'app_router.dart'));
+    const router = fs.readFileSync(file, 'utf8');
+    assert.ok(router.includes("import '../../features/auth/login_screen.dart';"), router);
+    assert.ok(router.includes("initialLocation: '/home'"), router);
+    assert.ok(router.includes("builder: (context, state) => const Home()"), router);
+    assert.ok(router.includes('begin: const Offset(1, 0)'), router);
+
+    const saved = JSON.parse(fs.readFileSync(path.join(projectPath, '.max_compute', 'routes.json'), 'utf8'));
+    assert.deepStrictEqual(saved, manifest);
+    assert.deepStrictEqual(saved.screens.map(entry => [entry.path, entry.className]), [['/home', 'Home'], ['/login-screen', 'LoginScreen']]);
+    assert.ok(fs.readFileSync(path.join(projectPath, 'pubspec.yaml'), 'utf8').includes('  go_router: ^14.2.0'));
+});
+
+test('saving screens again merges them into the existing route table', async () => {
+    const projectPath = createProject('merge');
+    await routerService.syncRoutes(projectPath, [
+        screen('1:1', 'Home', 'shop', 'home.dart'),
+        screen('2:1', 'Login', 'auth', 'login.dart'),
+    ]);
+
+    // Renamed frame keeps its route; another frame saved over login.dart replaces it; a second "Home" gets its own path
+    const { manifest } = await routerService.syncRoutes(projectPath, [
+        screen('1:1', 'Start', 'shop', 'start.dart'),
+        screen('3:1', 'Sign In', 'auth', 'login.dart'),
+        screen('4:1', 'Home', 'admin', 'home.dart'),
+    ]);
+    assert.deepStrictEqual(manifest.screens.map(entry => [entry.id, entry.path, entry.file]), [
+        ['1:1', '/home', 'start.dart'],
+        ['3:1', '/login', 'login.dart'],
+        ['4:1', '/home-2', 'home.dart'],
+    ]);
+
+    const pubspec = fs.readFileSync(path.join(projectPath, 'pubspec.yaml'), 'utf8');
+    assert.strictEqual(pubspec.split('go_router:').length, 2, 'dependency is added once');
+});
+
+test('links resolve through the route manifest, or the destination name when unregistered', async () => {
+    const routeIndex = buildRouteIndex({ version: 1, screens: [{ id: '2:1', path: '/sign-in', feature: 'auth', file: 'sign_in.dart', className: 'SignIn' }] });
+    assert.deepStrictEqual(destinationOf({ destinationId: '2:1', destinationName: 'Login Screen' }, routeIndex), {
+        path: '/sign-in', className: 'SignIn', importPath: '../auth/sign_in.dart',
+    });
+    assert.deepStrictEqual(destinationOf({ destinationId: '9:9', destinationName: 'Cart Sheet' }, routeIndex), {
+        path: '/cart-sheet', className: 'CartSheet', importPath: 'cart_sheet.dart',
+    });
+});
+
+test('prototype links are described for the model', async () => {
+    const figmaData = {
+        id: '1:1',
+        name: 'Home',
+        children: [
+            { id: '1:2', name: 'Sign In', reactions: [{ trigger: 'ON_CLICK', action: 'NAVIGATE', destinationId: '2:1', destinationName: 'Login Screen' }] },
+            { id: '1:3', name: 'Cart', reactions: [{ trigger: 'ON_CLICK', action: 'OVERLAY', destinationId: '3:1', destinationName: 'Cart', overlayPosition: 'BOTTOM_CENTER' }] },
+            { id: '1:4', name: 'Menu', reactions: [{ trigger: 'ON_HOVER', action: 'OVERLAY', destinationId: '4:1', destinationName: 'Menu' }] },
+        ],
+    };
+    const section = describeNavigation([figmaData], null);
+    assert.ok(section.startsWith('## NAVIGATION'), section);
+    assert.ok(section.includes("- Node `1:2` \"Sign In\": on tap call `context.go('/login-screen')`"), section);
+    assert.ok(section.includes('open `Cart` (import \'cart.dart\') with `showModalBottomSheet`'), section);
+    assert.ok(!section.includes('Menu'), section);
+    assert.strictEqual(describeNavigation([{ id: '1:1', name: 'Static' }], null), '');
+});
+
+test('text links resolve to url_launcher calls and screen routes', async () => {
+    const segment = (characters, hyperlink) => ({ characters, hyperlink });
+    const figmaData = {
+        id: '1:1',
+        name: 'Signup',
+        children: [{
+            id: '1:2',
+            name: 'Legal',
+            type: 'TEXT',
+            text: {
+                characters: 'Read the Terms and Privacy Policy',
+                styledSegments: [
+                    segment('Read the '),
+                    segment('Terms', { type: 'URL', value: 'https://example.com/terms' }),
+                    segment(' and '),
+                    segment('Privacy Policy', { type: 'NODE', value: '4:2', destinationId: '4:1', destinationName: 'Privacy' }),
+                ],
+            },
+        }],
+    };
+    const links = collectTextLinks(figmaData);
+    assert.deepStrictEqual(links.map(link => [link.nodeId, link.characters, link.type]), [['1:2', 'Terms', 'URL'], ['1:2', 'Privacy Policy', 'NODE']]);
+    assert.strictEqual(linkTarget({ type: 'NODE', value: '4:2' }, null), null, 'unresolved frame links are dropped');
+
+    const section = describeNavigation([figmaData], null);
+    assert.ok(section.includes('TapGestureRecognizer'), section);
+    assert.ok(section.includes("the span \"Terms\" calls `launchUrl(Uri.parse('https://example.com/terms'))`"), section);
+    assert.ok(section.includes("the span \"Privacy Policy\" calls `context.go('/privacy')`"), section);
+    assert.ok(!section.includes('GestureDetector'), section);
+
+    const projectPath = createProject('links');
+    await routerService.addDependency(projectPath, 'url_launcher');
+    assert.ok(fs.readFileSync(path.join(projectPath, 'pubspec.yaml'), 'utf8').includes('  url_launcher: ^6.3.0'));
+});
+
+test('diffNodes reports changed prototype links', async () => {
+    const before = { id: '1:1', name: 'Home', children: [{ id: '1:2', name: 'Sign In' }] };
+    const after = {
+        id: '1:1',
+        name: 'Home',
+        children: [{ id: '1:2', name: 'Sign In', reactions: [{ trigger: 'ON_CLICK', action: 'NAVIGATE', destinationId: '2:1', destinationName: 'Login' }] }],
+    };
+    assert.deepStrictEqual(diffNodes(before, after), [{
+        nodeId: '1:2',
+        name: 'Sign In',
+        path: 'Home > Sign In',
+        kind: 'interaction',
+        details: [{ property: 'reactions', before: null, after: 'ON_CLICK NAVIGATE → Login' }],
+    }]);
+});
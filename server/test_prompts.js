@@ -0,0 +1,202 @@
+/**
+ * Prompt size tests: the compact wire format of Figma data, token estimates, and frames over
+ * the token budget split into parts that are generated one by one and stitched together.
+ * Generation runs against a stub provider that records each request.
+ *
+ * Usage: node test_prompts.js
+ */
+const fs = require('fs');
+const path = require('path');
+const assert = require('node:assert');
+const { test } = require('node:test');
+const GeminiService = require('./src/services/geminiService');
+const { compactNode, estimateTokens } = require('./src/utils/compactNode');
+const { splitTree, pinnedNodes, stitchParts } = require('./src/utils/promptParts');
+const productGrid = require('./fixtures/serialized/product_grid.json');
+const { quietConsole, tempDir } = require('./testSupport');
+
+quietConsole();
+
+/**
+ * Provider answering every request with an empty class named like the system instruction asks
+ */
+function stubProviders() {
+    const requests = [];
+    const answer = request => {
+        const className = request.systemInstruction.match(/Start with: `class (\w+)/)[1];
+        return `\`\`\`dart\nimport 'package:flutter/material.dart';\n\nclass ${className} extends StatelessWidget {}\n\`\`\``;
+    };
+    const provider = {
+        name: 'stub',
+        generate: async request => {
+            requests.push(request);
+            return answer(request);
+        },
+        stream: async function* (request) {
+            requests.push(request);
+            const output = answer(request);
+            yield output.slice(0, 10);
+            yield output.slice(10);
+        },
+    };
+    return { requests, registry: { defaultProvider: 'stub', get: () => provider, requiresImage: () => false, recorder: () => null } };
+}
+
+const text = (id, characters, extra = {}) => ({
+    id,
+    name: characters,
+    type: 'TEXT',
+    visible: true,
+    opacity: 1,
+    layout: { x: 0, y: 0, width: 200, height: 20, layoutPositioning: 'AUTO', layoutGrow: 0, layoutAlign: 'INHERIT', rotation: 0 },
+    style: { fills: [{ type: 'SOLID', visible: true, opacity: 1, color: { r: 0.1, g: 0.1, b: 0.1 } }] },
+    text: { characters, fontSize: 14, textDecoration: 'NONE', textCase: 'ORIGINAL' },
+    semanticHints: { likelyRole: 'text', isInteractive: false, isDecorative: false, confidence: 0.9 },
+    ...extra,
+});
+const section = (id, name, count) => ({
+    id,
+    name,
+    type: 'FRAME',
+    layout: { x: 0, y: 0, width: 375, height: count * 24, layoutMode: 'VERTICAL', itemSpacing: 4 },
+    children: Array.from({ length: count }, (_, idx) => text(`${id}:${idx}`, `${name} line ${idx + 1} with some more words`)),
+});
+const screen = children => ({ id: '1:1', name: 'Long Screen', type: 'FRAME', layout: { width: 375, height: 2000, layoutMode: 'VERTICAL' }, children });
+
+test('compact format leaves out defaults, plugin-only fields and in-flow positions', async () => {
+    const compact = compactNode(screen([text('2:1', 'Hello')]));
+    assert.deepStrictEqual(compact.children[0], {
+        id: '2:1',
+        name: 'Hello',
+        type: 'TEXT',
+        layout: { width: 200, height: 20 },
+        style: { fills: [{ type: 'SOLID', color: '#1A1A1A' }] },
+        text: { characters: 'Hello', fontSize: 14 },
+        semanticHints: { likelyRole: 'text', isInteractive: false },
+    });
+
+    // Outside auto layout, positions stay; colors that are not opaque keep their alpha
+    const free = compactNode({ ...screen([text('2:1', 'Hi', { effects: [{ type: 'DROP_SHADOW', color: { r: 0, g: 0, b: 0, a: 0.25 }, radius: 8.333 }] })]), layout: { width: 375, height: 600 } });
+    assert.deepStrictEqual(free.children[0].layout, { x: 0, y: 0, width: 200, height: 20 });
+    assert.deepStrictEqual(free.children[0].effects, [{ type: 'DROP_SHADOW', color: '#00000040', radius: 8.33 }]);
+});
+
+test('hidden layers and decorative layers without text are pruned', async () => {
+    const divider = { id: '2:3', name: 'Divider', type: 'RECTANGLE', layout: { width: 375, height: 1 }, semanticHints: { likelyRole: 'divider', isDecorative: true } };
+    const compact = compactNode(screen([
+        text('2:1', 'Shown'),
+        text('2:2', 'Hidden', { visible: false }),
+        divider,
+        { ...divider, id: '2:4', reactions: [{ trigger: 'ON_CLICK', action: 'BACK' }] },
+    ]));
+    assert.deepStrictEqual(compact.children.map(child => child.id), ['2:1', '2:4']);
+});
+
+test('repeated instances only list what differs from an earlier one of the same shape', async () => {
+    const compact = JSON.stringify(compactNode(productGrid));
+    assert.ok(compact.includes('{"id":"50:14","name":"Tag","type":"INSTANCE","sameAs":"50:12","layout":{"width":53},"texts":["Tea"]}'));
+    // The selected tag has another fill, so it is listed in full
+    assert.ok(!compact.includes('"sameAs":"50:10"'));
+
+    const pretty = JSON.stringify(productGrid, null, 2);
+    assert.ok(estimateTokens(compact) < estimateTokens(pretty) * 0.4, `${compact.length} vs ${pretty.length} characters`);
+});
+
+test('frames over the budget are split into parts that fit it', async () => {
+    const tree = screen([section('3', 'Header', 2), section('4', 'Feed', 10), section('5', 'Footer', 8)]);
+    const measure = node => estimateTokens(JSON.stringify(compactNode(node)));
+    const budget = 800;
+    assert.ok(measure(tree) > budget);
+
+    const { root, parts } = splitTree(tree, { budget, measure, names: new Set(['GeneratedWidget']) });
+    assert.deepStrictEqual(parts.map(part => part.className), ['_Feed', '_Footer']);
+    assert.ok(parts.every(part => measure(part.node) <= budget));
+    assert.ok(measure(root) <= budget);
+    assert.deepStrictEqual(root.children[1], { id: '4', name: 'Feed', type: 'FRAME', widget: '_Feed', layout: tree.children[1].layout });
+    // The original tree is left as it was
+    assert.strictEqual(tree.children[1].children.length, 10);
+
+    // Subtrees holding pinned nodes stay in the root
+    const pinned = splitTree(tree, { budget, measure, pinned: new Set(['4:7']) });
+    assert.deepStrictEqual(pinned.parts.map(part => part.className), ['_Footer', '_Header']);
+});
+
+test('form fields and scroll targets are pinned to the screen', async () => {
+    const input = { id: '6:1', name: 'Email Input', type: 'FRAME', layout: { width: 300, height: 48 }, semanticHints: { likelyRole: 'input' }, children: [text('6:2', 'Email')] };
+    const button = { id: '6:3', name: 'Submit', type: 'FRAME', layout: { width: 300, height: 48 }, semanticHints: { likelyRole: 'button' }, children: [text('6:4', 'Submit')] };
+    const link = text('7:1', 'Jump', { reactions: [{ trigger: 'ON_CLICK', action: 'SCROLL_TO', destinationId: '7:2' }] });
+    const tree = screen([{ ...section('6', 'Form', 0), children: [input, button] }, link]);
+
+    assert.deepStrictEqual([...pinnedNodes(tree, { widgetType: 'StatefulWidget' })].sort(), ['6:1', '6:3', '7:1', '7:2']);
+    assert.deepStrictEqual([...pinnedNodes(tree)].sort(), ['7:1', '7:2']);
+});
+
+test('generation reports the estimated size of each request before sending it', async () => {
+    const { requests, registry } = stubProviders();
+    const service = new GeminiService(registry);
+    const estimates = [];
+    const code = await service.generateCodeFromImage(null, { figmaData: productGrid, onEstimate: estimate => estimates.push({ ...estimate, sent: requests.length }) });
+
+    assert.strictEqual(requests.length, 1);
+    assert.ok(!requests[0].prompt.includes('"visualContext"') && requests[0].prompt.includes('"sameAs"'));
+    assert.strictEqual(estimates.length, 1);
+    const [estimate] = estimates;
+    assert.strictEqual(estimate.sent, 0);
+    assert.strictEqual(estimate.className, 'GeneratedWidget');
+    assert.strictEqual(estimate.tokens, estimateTokens(requests[0].systemInstruction) + estimateTokens(requests[0].prompt));
+    assert.ok(estimate.figmaTokens < estimate.uncompactedTokens * 0.4);
+    assert.match(code, /^import 'package:flutter\/material\.dart';\n\nclass GeneratedWidget/);
+});
+
+test('large frames are generated part by part and stitched into one file', async () => {
+    const { requests, registry } = stubProviders();
+    const service = new GeminiService(registry);
+    const figmaData = screen([section('3', 'Header', 2), section('4', 'Feed', 10), section('5', 'Footer', 8)]);
+    const estimates = [];
+    const options = { figmaData, widgetType: 'StatefulWidget', tokenBudget: 800, onEstimate: estimate => estimates.push(estimate) };
+    const code = await service.generateCodeFromImage(null, options);
+
+    assert.deepStrictEqual(estimates.map(estimate => estimate.className), ['_Feed', '_Footer', 'GeneratedWidget']);
+    assert.match(requests[0].systemInstruction, /Start with: `class _Feed extends StatelessWidget \{`/);
+    assert.match(requests[0].prompt, /PART OF A LARGER SCREEN/);
+    assert.ok(!requests[0].prompt.includes('Footer line'));
+    assert.match(requests[2].systemInstruction, /Start with: `class GeneratedWidget extends StatefulWidget \{`/);
+    assert.match(requests[2].prompt, /"Feed" \(4\) → `const _Feed\(\)`/);
+    assert.ok(!requests[2].prompt.includes('Feed line'));
+
+    assert.strictEqual(code.match(/^import /gm).length, 1);
+    assert.deepStrictEqual(code.match(/^class \w+/gm), ['class GeneratedWidget', 'class _Feed', 'class _Footer']);
+
+    // Streaming yields every part and returns the same file
+    const stub = stubProviders();
+    const stream = new GeminiService(stub.registry).streamCodeFromImage(null, options);
+    let streamed = '';
+    let result = await stream.next();
+    while (!result.done) {
+        streamed += result.value;
+        result = await stream.next();
+    }
+    assert.strictEqual(result.value, code);
+    assert.strictEqual(streamed.match(/```dart/g).length, 3);
+});
+
+test('context images are read from the uploads directory the service is given', async () => {
+    const uploadsDir = tempDir('prompts');
+    fs.writeFileSync(path.join(uploadsDir, 'context_screen.png'), 'png bytes');
+    const { requests, registry } = stubProviders();
+    const service = new GeminiService(registry, { uploadsDir });
+
+    await service.generateCodeFromImage('context_screen.png', { figmaData: screen([]) });
+    assert.deepStrictEqual(requests[0].images, [{ mimeType: 'image/png', data: Buffer.from('png bytes').toString('base64') }]);
+    await assert.rejects(service.generateCodeFromImage('other_screen.png', { figmaData: screen([]) }), /Failed to load context image/);
+});
+
+test('responsive screens and focused regeneration are sent whole', async () => {
+    const { requests, registry } = stubProviders();
+    const service = new GeminiService(registry);
+    const figmaData = screen([section('4', 'Feed', 10), section('5', 'Footer', 8)]);
+    await service.generateCodeFromImage(null, { figmaData, tokenBudget: 800, changes: [{ nodeId: '4:1', path: 'Feed/Feed line 2', kind: 'removed' }], previousCode: 'class GeneratedWidget {}' });
+    assert.strictEqual(requests.length, 1);
+
+    assert.strictEqual(stitchParts('class A {}', []), 'class A {}');
+});
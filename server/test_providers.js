@@ -0,0 +1,197 @@
+/**
+ * LLM provider tests: fixture replay and recording, the OpenAI-compatible client
+ * against a local stub server, the provider registry and GeminiService on top of it.
+ *
+ * Usage: node test_providers.js
+ */
+const fs = require('fs');
+const path = require('path');
+const http = require('http');
+const assert = require('node:assert');
+const { test, before, after } = require('node:test');
+const GeminiService = require('./src/services/geminiService');
+const { ProviderRegistry, OpenAICompatibleProvider, FixtureProvider } = require('./src/services/providers');
+const { quietConsole, tempDir } = require('./testSupport');
+
+quietConsole();
+
+const tmpRoot = tempDir('providers');
+const fixturesDir = path.join(tmpRoot, 'llm');
+fs.mkdirSync(fixturesDir);
+fs.writeFileSync(path.join(fixturesDir, 'default.dart'), 'class DefaultWidget {}\n', 'utf8');
+fs.writeFileSync(path.join(fixturesDir, 'login.dart'), '```dart\nclass Login {}\n```\n', 'utf8');
+
+const collect = async iterator => {
+    let text = '';
+    for await (const chunk of iterator) text += chunk;
+    return text;
+};
+
+// Stub chat completions server; records the last request body
+let lastRequest = null;
+const server = http.createServer((req, res) => {
+    let body = '';
+    req.on('data', chunk => (body += chunk));
+    req.on('end', () => {
+        lastRequest = { headers: req.headers, body: JSON.parse(body) };
+        const { model, stream } = lastRequest.body;
+
+        if (model === 'broken') {
+            res.writeHead(500);
+            res.end('model crashed');
+        } else if (model === 'slow') {
+            setTimeout(() => res.end(), 1000);
+        } else if (stream) {
+            res.writeHead(200, { 'Content-Type': 'text/event-stream' });
+            ['class ', 'Streamed', ' {}'].forEach(content => {
+                res.write(`data: ${JSON.stringify({ choices: [{ delta: { content } }] })}\n\n`);
+            });
+            res.end('data: [DONE]\n\n');
+        } else {
+            res.writeHead(200, { 'Content-Type': 'application/json' });
+            res.end(JSON.stringify({ choices: [{ message: { content: 'class Local {}' } }] }));
+        }
+    });
+});
+
+let baseUrl;
+before(async () => {
+    await new Promise(resolve => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${server.address().port}`;
+});
+after(() => {
+    server.closeAllConnections();
+    server.close();
+});
+
+const request = (overrides = {}) => ({
+    systemInstruction: 'You write Flutter.',
+    prompt: 'Build a login screen.',
+    images: [{ mimeType: 'image/png', data: 'AAAA' }],
+    temperature: 0.2,
+    ...overrides,
+});
+
+test('fixture provider falls back from prompt hash to model name to default', async () => {
+    const provider = new FixtureProvider({ fixturesDir });
+    assert.strictEqual(await provider.generate(request()), 'class DefaultWidget {}\n');
+    assert.strictEqual(await provider.generate(request({ model: 'login' })), '```dart\nclass Login {}\n```\n');
+
+    await provider.record(request(), 'class Recorded {}\n');
+    assert.strictEqual(await provider.generate(request({ model: 'login' })), 'class Recorded {}\n');
+    assert.strictEqual(await collect(provider.stream(request())), 'class Recorded {}\n');
+
+    const empty = new FixtureProvider({ fixturesDir: path.join(tmpRoot, 'missing') });
+    await assert.rejects(empty.generate(request()), /No fixture found/);
+});
+
+test('OpenAI-compatible provider sends a multimodal chat completion', async () => {
+    const provider = new OpenAICompatibleProvider({ baseUrl: `${baseUrl}/v1/`, apiKey: 'secret', defaultModel: 'llava' });
+    assert.strictEqual(await provider.generate(request()), 'class Local {}');
+
+    const { headers, body } = lastRequest;
+    assert.strictEqual(headers.authorization, 'Bearer secret');
+    assert.strictEqual(body.model, 'llava');
+    assert.strictEqual(body.temperature, 0.2);
+    assert.strictEqual(body.stream, false);
+    assert.deepStrictEqual(body.messages[0], { role: 'system', content: 'You write Flutter.' });
+    assert.deepStrictEqual(body.messages[1].content[1], { type: 'image_url', image_url: { url: 'data:image/png;base64,AAAA' } });
+});
+
+test('OpenAI-compatible provider streams server-sent deltas', async () => {
+    const provider = new OpenAICompatibleProvider({ baseUrl: `${baseUrl}/v1` });
+    assert.strictEqual(await collect(provider.stream(request({ model: 'qwen2.5-vl' }))), 'class Streamed {}');
+    assert.strictEqual(lastRequest.body.stream, true);
+    assert.strictEqual(lastRequest.headers.authorization, undefined);
+});
+
+test('OpenAI-compatible provider reports HTTP errors, timeouts and cancellation', async () => {
+    const provider = new OpenAICompatibleProvider({ baseUrl: `${baseUrl}/v1` });
+    await assert.rejects(provider.generate(request({ model: 'broken' })), /openai request failed \(500\): model crashed/);
+    await assert.rejects(provider.generate(request({ model: 'slow', timeout: 100 })), /openai request timed out after 0.1s/);
+
+    const controller = new AbortController();
+    setTimeout(() => controller.abort(), 50);
+    await assert.rejects(provider.generate(request({ model: 'slow', signal: controller.signal })), /openai request was cancelled/);
+});
+
+test('registry reports unknown and unconfigured providers', async () => {
+    const registry = new ProviderRegistry({});
+    assert.strictEqual(registry.defaultProvider, 'gemini');
+    assert.strictEqual(registry.configurationError('gemini'), 'GEMINI_API_KEY missing.');
+    assert.throws(() => registry.get('gemini'), /GEMINI_API_KEY missing/);
+    assert.throws(() => registry.get('claude'), /Unknown LLM provider "claude"/);
+    assert.deepStrictEqual(registry.list().map(p => [p.name, p.configured, p.defaultModel]), [
+        ['gemini', false, null],
+        ['openai', true, 'llava'],
+        ['fixture', true, 'default'],
+    ]);
+});
+
+test('GeminiService runs prompts through the selected provider', async () => {
+    const registry = new ProviderRegistry({ LLM_PROVIDER: 'fixture', LLM_FIXTURES_DIR: fixturesDir });
+    const service = new GeminiService(registry);
+
+    // Fixture replay needs no context image; code fences are stripped as for real output
+    const code = await service.generateCodeFromImage(null, { model: 'login', temperature: 0 });
+    assert.strictEqual(code, 'class Login {}');
+    await assert.rejects(service.generateCodeFromImage(null, { provider: 'openai' }), /Context image is required/);
+});
+
+test('responsive requests send one screenshot and Figma tree per breakpoint', async () => {
+    const service = new GeminiService(new ProviderRegistry({ LLM_FIXTURES_DIR: fixturesDir }));
+    service._loadImage = async filename => `data-${filename}`;
+    const breakpoints = [
+        { name: 'mobile', minWidth: 0, figmaData: { id: '1:1', layout: { width: 375 } }, contextImage: 'mobile.png' },
+        { name: 'desktop', minWidth: 1024, figmaData: { id: '2:1', layout: { width: 1440 } }, contextImage: 'desktop.png' },
+    ];
+
+    const { request } = await service._buildRequest(null, { provider: 'openai', breakpoints, figmaData: { id: 'ignored' } });
+    assert.deepStrictEqual(request.images.map(image => image.data), ['data-mobile.png', 'data-desktop.png']);
+    assert.match(request.prompt, /### RESPONSIVE LAYOUT/);
+    assert.match(request.prompt, /1\. \*\*mobile\*\* — applies from 0px wide; designed at 375px/);
+    assert.match(request.prompt, /constraints\.maxWidth >= 1024 → desktop, otherwise mobile/);
+    assert.ok(!request.prompt.includes('## FIGMA DESIGN DATA'));
+    assert.ok(!request.prompt.includes('"ignored"'));
+
+    breakpoints[1].contextImage = null;
+    await assert.rejects(service._buildRequest(null, { provider: 'openai', breakpoints }), /Context image is required/);
+});
+
+test('GeminiService streams raw chunks and returns the cleaned code', async () => {
+    const service = new GeminiService(new ProviderRegistry({ LLM_FIXTURES_DIR: fixturesDir }));
+    const stream = service.streamCodeFromImage(null, { provider: 'fixture', model: 'login' });
+
+    const chunks = [];
+    let result = await stream.next();
+    while (!result.done) {
+        chunks.push(result.value);
+        result = await stream.next();
+    }
+    assert.deepStrictEqual(chunks, ['```dart\n', 'class Login {}\n', '```\n']);
+    assert.strictEqual(result.value, 'class Login {}');
+});
+
+test('aborting a stream cancels the upstream request', async () => {
+    const service = new GeminiService(new ProviderRegistry({ OPENAI_BASE_URL: `${baseUrl}/v1` }));
+    service._loadImage = async () => 'AAAA';
+    const controller = new AbortController();
+    setTimeout(() => controller.abort(), 50);
+
+    const stream = service.streamCodeFromImage('context.png', { provider: 'openai', model: 'slow', signal: controller.signal });
+    await assert.rejects(stream.next(), /openai request was cancelled/);
+});
+
+test('real provider output is recorded for replay when LLM_RECORD_FIXTURES is set', async () => {
+    const recordDir = path.join(tmpRoot, 'recorded');
+    const registry = new ProviderRegistry({ LLM_RECORD_FIXTURES: '1', LLM_FIXTURES_DIR: recordDir, OPENAI_BASE_URL: `${baseUrl}/v1` });
+    const service = new GeminiService(registry);
+    service._loadImage = async () => 'AAAA';
+
+    assert.strictEqual(await service.generateCodeFromImage('context.png', { provider: 'openai' }), 'class Local {}');
+    const replay = new GeminiService(new ProviderRegistry({ LLM_FIXTURES_DIR: recordDir }));
+    replay._loadImage = async () => 'AAAA';
+    const replayed = await replay.generateCodeFromImage('context.png', { provider: 'fixture' });
+    assert.strictEqual(replayed, 'class Local {}');
+    assert.strictEqual(fs.readdirSync(recordDir).length, 1);
+});
@@ -0,0 +1,189 @@
+/**
+ * Incremental regeneration tests: generated-file headers, protected regions,
+ * hand-edit detection and the .new.dart fallback, against a temp project directory;
+ * plus the design diff that drives focused regeneration.
+ *
+ * Usage: node test_regeneration.js
+ */
+const fs = require('fs');
+const path = require('path');
+const assert = require('node:assert');
+const { test } = require('node:test');
+const ProjectService = require('./src/services/projectService');
+const { parseGeneratedFile, extractGeneratedCode, hasUserEdits } = require('./src/utils/generatedFile');
+const { hashNode } = require('./src/utils/hash');
+const { unifiedDiff } = require('./src/utils/lineDiff');
+const { diffNodes, describeChanges } = require('./src/utils/nodeDiff');
+const { buildChangeInstruction } = require('./src/utils/promptBuilder');
+const { quietConsole, tempDir } = require('./testSupport');
+
+quietConsole();
+
+const screen = text => `import 'package:flutter/material.dart';
+
+class LoginScreen extends StatelessWidget {
+  const LoginScreen({super.key});
+
+  @override
+  Widget build(BuildContext context) {
+    return Text('${text}');
+  }
+}
+`;
+
+const tmpRoot = tempDir('regen');
+const projectService = new ProjectService({ uploadsDir: path.join(tmpRoot, 'uploads') });
+const filePath = path.join(tmpRoot, 'lib', 'features', 'auth', 'login_screen.dart');
+const conflictPath = path.join(tmpRoot, 'lib', 'features', 'auth', 'login_screen.new.dart');
+
+const save = (code, hash, options = {}) => projectService.saveGeneratedFile(
+    tmpRoot, 'auth', 'login_screen.dart', code, { source: { nodeId: '1:2', hash }, ...options }
+);
+const edit = (from, to) => fs.writeFileSync(filePath, fs.readFileSync(filePath, 'utf8').replace(from, to), 'utf8');
+
+test('hashNode ignores key order and the context image filename', async () => {
+    const a = { id: '1:2', name: 'Login', layout: { width: 10, height: 20 }, contextImageFilename: 'a.png' };
+    const b = { layout: { height: 20, width: 10 }, name: 'Login', id: '1:2', contextImageFilename: 'b.png' };
+    assert.strictEqual(hashNode(a), hashNode(b));
+    assert.notStrictEqual(hashNode(a), hashNode({ ...a, name: 'Signup' }));
+});
+
+test('new files get a header and empty protected regions', async () => {
+    const result = await save(screen('Hello'), 'design-1');
+    assert.strictEqual(result.status, 'created');
+
+    const content = fs.readFileSync(filePath, 'utf8');
+    const { header, regions } = parseGeneratedFile(content);
+    assert.strictEqual(header.sourceNode, '1:2');
+    assert.strictEqual(header.sourceHash, 'design-1');
+    assert.deepStrictEqual(regions, {});
+    assert.ok(content.includes("import 'package:flutter/material.dart';\n\n// BEGIN PROTECTED imports\n// END PROTECTED imports\n"), content);
+    assert.ok(content.includes('  }\n\n  // BEGIN PROTECTED members\n  // END PROTECTED members\n}\n'), content);
+    assert.strictEqual(hasUserEdits(content), false);
+});
+
+test('code inside protected regions survives regeneration', async () => {
+    edit('// END PROTECTED imports', "import 'login_controller.dart';\n// END PROTECTED imports");
+    edit('  // END PROTECTED members', '  void onSubmit() {}\n  // END PROTECTED members');
+
+    const result = await save(screen('Welcome'), 'design-2');
+    assert.strictEqual(result.status, 'updated');
+
+    const content = fs.readFileSync(filePath, 'utf8');
+    assert.ok(content.includes("Text('Welcome')"), content);
+    assert.ok(content.includes("// BEGIN PROTECTED imports\nimport 'login_controller.dart';\n// END PROTECTED imports"), content);
+    assert.ok(content.includes('  // BEGIN PROTECTED members\n  void onSubmit() {}\n  // END PROTECTED members'), content);
+    assert.strictEqual(parseGeneratedFile(content).header.sourceHash, 'design-2');
+    assert.strictEqual(hasUserEdits(content), false);
+});
+
+test('edits outside protected regions are kept and the new output goes to .new.dart', async () => {
+    edit("return Text('Welcome');", "return const Text('Welcome back');");
+    const edited = fs.readFileSync(filePath, 'utf8');
+
+    const result = await save(screen('Sign in'), 'design-3');
+    assert.strictEqual(result.status, 'conflict');
+    assert.strictEqual(result.conflictPath, conflictPath);
+    assert.strictEqual(fs.readFileSync(filePath, 'utf8'), edited);
+
+    const regenerated = fs.readFileSync(conflictPath, 'utf8');
+    assert.ok(regenerated.includes("Text('Sign in')"), regenerated);
+    assert.ok(regenerated.includes('  void onSubmit() {}'), regenerated);
+    assert.ok(result.diff.includes("-    return const Text('Welcome back');\n+    return Text('Sign in');"), result.diff);
+});
+
+test('hand-edited files are left alone when the design did not change', async () => {
+    const result = await save(screen('Welcome'), 'design-2');
+    assert.strictEqual(result.status, 'unchanged');
+});
+
+test('force overwrites hand edits and removes the .new.dart file', async () => {
+    const result = await save(screen('Sign in'), 'design-3', { force: true });
+    assert.strictEqual(result.status, 'updated');
+    assert.ok(fs.readFileSync(filePath, 'utf8').includes("return Text('Sign in');"));
+    assert.ok(!fs.existsSync(conflictPath));
+});
+
+test('files without a header count as hand-written', async () => {
+    fs.writeFileSync(filePath, screen('Custom'), 'utf8');
+    const result = await save(screen('Sign in'), 'design-3');
+    assert.strictEqual(result.status, 'conflict');
+    assert.strictEqual(fs.readFileSync(filePath, 'utf8'), screen('Custom'));
+});
+
+test('unifiedDiff reports hunks with line numbers', async () => {
+    assert.strictEqual(unifiedDiff('a\nb\nc', 'a\nb\nc'), '');
+    const diff = unifiedDiff('a\nb\nc\nd\ne\nf\ng', 'a\nB\nc\nd\ne\nF\ng', { oldName: 'old', newName: 'new', context: 1 });
+    assert.strictEqual(diff, '--- old\n+++ new\n@@ -1,3 +1,3 @@\n a\n-b\n+B\n c\n@@ -5,3 +5,3 @@\n e\n-f\n+F\n g\n');
+});
+
+test('saved files read back as the generator output', async () => {
+    await save(screen('Sign in'), 'design-3', { force: true });
+    edit('  // END PROTECTED members', '  void onReset() {}\n  // END PROTECTED members');
+    assert.strictEqual(extractGeneratedCode(fs.readFileSync(filePath, 'utf8')), screen('Sign in'));
+    assert.strictEqual(await projectService.readGeneratedCode(tmpRoot, 'auth', 'login_screen.dart'), screen('Sign in'));
+    assert.strictEqual(await projectService.readGeneratedCode(tmpRoot, 'auth', 'missing.dart'), null);
+});
+
+const frame = (overrides = {}) => ({
+    id: '1:1',
+    name: 'Login',
+    type: 'FRAME',
+    layout: { width: 375, height: 812, x: 0, y: 0, layoutMode: 'VERTICAL', itemSpacing: 8, padding: { top: 16, right: 16, bottom: 16, left: 16 } },
+    style: { fills: [{ type: 'SOLID', color: { r: 1, g: 1, b: 1 } }], cornerRadius: 0, effects: [] },
+    children: [
+        { id: '1:2', name: 'Title', type: 'TEXT', layout: { width: 200, height: 24, x: 16, y: 16 }, text: { characters: 'Sign in', fontSize: 20 } },
+        { id: '1:3', name: 'Button', type: 'FRAME', layout: { width: 343, height: 48, x: 16, y: 48 }, style: { cornerRadius: 8 } },
+    ],
+    ...overrides,
+});
+
+test('diffNodes reports nothing for an unchanged design', async () => {
+    assert.deepStrictEqual(diffNodes(frame(), frame()), []);
+});
+
+test('diffNodes reports layout, style, text and child changes by node ID', async () => {
+    const previous = frame();
+    const current = frame();
+    current.layout = { ...current.layout, itemSpacing: 12, padding: { top: 24, right: 16, bottom: 24, left: 16 } };
+    current.style = { ...current.style, fills: [{ type: 'SOLID', color: { r: 0.2, g: 0.4, b: 1 } }] };
+    current.children = [
+        { ...previous.children[1], style: { cornerRadius: 24 }, layout: { ...previous.children[1].layout, y: 60 } },
+        { ...previous.children[0], text: { characters: 'Welcome back', fontSize: 20.0001 } },
+        { id: '1:4', name: 'Forgot password', type: 'TEXT', layout: { width: 100, height: 16, x: 0, y: 0 } },
+    ];
+    const withoutTitle = frame({ children: [previous.children[1]] });
+
+    const changes = diffNodes(previous, current);
+    const byKind = kind => changes.filter(change => change.kind === kind);
+
+    const [layout] = byKind('layout');
+    assert.strictEqual(layout.nodeId, '1:1');
+    assert.deepStrictEqual(layout.details, [
+        { property: 'padding', before: '16 16 16 16', after: '24 16 24 16' },
+        { property: 'itemSpacing', before: 8, after: 12 },
+    ]);
+    assert.deepStrictEqual(byKind('style').map(change => [change.path, change.details]), [
+        ['Login', [{ property: 'fills', before: '#FFFFFF', after: '#3366FF' }]],
+        ['Login > Button', [{ property: 'cornerRadius', before: 8, after: 24 }]],
+    ]);
+    assert.deepStrictEqual(byKind('text')[0].details, [{ property: 'characters', before: 'Sign in', after: 'Welcome back' }]);
+    assert.deepStrictEqual(byKind('added').map(change => change.nodeId), ['1:4']);
+    assert.deepStrictEqual(byKind('reordered')[0].details[0], { property: 'children', before: 'Title, Button', after: 'Button, Title' });
+    // Children of an auto-layout frame are placed by the layout, so their x/y is not a change
+    assert.ok(!changes.some(change => change.nodeId === '1:3' && change.kind === 'layout'));
+
+    assert.deepStrictEqual(diffNodes(previous, withoutTitle).map(change => [change.nodeId, change.kind]), [['1:2', 'removed']]);
+});
+
+test('the change list becomes a focused regeneration prompt', async () => {
+    const current = frame();
+    current.children = [{ ...current.children[0], text: { characters: 'Welcome back', fontSize: 20 } }, current.children[1]];
+    const changes = diffNodes(frame(), current);
+
+    assert.strictEqual(describeChanges(changes), '- `1:2` Login > Title: text — characters "Sign in" → "Welcome back"');
+    const prompt = buildChangeInstruction(changes, screen('Sign in'));
+    assert.ok(prompt.includes('### FOCUSED REGENERATION'), prompt);
+    assert.ok(prompt.includes(`\`\`\`dart\n${screen('Sign in')}\n\`\`\``), prompt);
+    assert.strictEqual(buildChangeInstruction([], screen('Sign in')), '');
+});
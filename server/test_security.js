@@ -0,0 +1,204 @@
+/**
+ * API hardening tests: the per-install token, CORS for the plugin only, project paths outside
+ * the allowed roots, feature and file names that leave their folder, `flutter create` without
+ * a shell, and request schemas. Requests go over HTTP to the app on a free local port.
+ *
+ * Usage: node test_security.js
+ */
+const fs = require('fs');
+const os = require('os');
+const path = require('path');
+const http = require('http');
+const assert = require('node:assert');
+const { test, before, after } = require('node:test');
+const { quietConsole, tempDir } = require('./testSupport');
+
+quietConsole();
+
+const tmpRoot = tempDir('security');
+const projectsRoot = path.join(tmpRoot, 'projects');
+const outside = path.join(tmpRoot, 'outside');
+const projectPath = path.join(projectsRoot, 'shop');
+fs.mkdirSync(path.join(projectPath, 'lib', 'features'), { recursive: true });
+fs.writeFileSync(path.join(projectPath, 'pubspec.yaml'), 'name: shop\n');
+fs.mkdirSync(outside, { recursive: true });
+fs.writeFileSync(path.join(outside, 'pubspec.yaml'), 'name: outside\n');
+fs.symlinkSync(outside, path.join(projectsRoot, 'link'));
+
+// The app reads its config when it is loaded
+process.env.MAXCOMPUTE_HOME = path.join(tmpRoot, 'home');
+process.env.MAXCOMPUTE_PROJECT_ROOTS = projectsRoot;
+delete process.env.MAXCOMPUTE_TOKEN;
+const { app, security } = require('./src/app');
+const { loadSecurityConfig } = require('./src/utils/security');
+const ProjectService = require('./src/services/projectService');
+
+let port = null;
+
+let server;
+before(async () => {
+    server = app.listen(0, '127.0.0.1');
+    await new Promise(resolve => server.once('listening', resolve));
+    port = server.address().port;
+});
+after(() => server.close());
+
+/**
+ * @returns {Promise<{status: number, headers: Object, body: Object|null}>}
+ */
+function request(endpoint, body, { token = security.token, method = 'POST', headers = {} } = {}) {
+    return new Promise((resolve, reject) => {
+        const payload = body === undefined ? '' : JSON.stringify(body);
+        const req = http.request({
+            host: '127.0.0.1',
+            port,
+            path: endpoint,
+            method,
+            headers: {
+                'Content-Type': 'application/json',
+                ...(token ? { Authorization: `Bearer ${token}` } : {}),
+                ...headers,
+            },
+        }, res => {
+            let data = '';
+            res.on('data', chunk => { data += chunk; });
+            res.on('end', () => resolve({ status: res.statusCode, headers: res.headers, body: data ? JSON.parse(data) : null }));
+        });
+        req.on('error', reject);
+        req.end(payload);
+    });
+}
+
+test('the config file is created once with a private token', async () => {
+    const config = JSON.parse(fs.readFileSync(security.configFile, 'utf8'));
+    assert.match(config.token, /^[0-9a-f]{64}$/);
+    assert.strictEqual(config.token, security.token);
+    assert.deepStrictEqual(config.projectRoots, [os.homedir()]);
+    assert.strictEqual(fs.statSync(security.configFile).mode & 0o777, 0o600);
+    assert.ok(security.projectRoots.includes(fs.realpathSync(projectsRoot)));
+
+    const again = loadSecurityConfig({ env: { MAXCOMPUTE_HOME: process.env.MAXCOMPUTE_HOME } });
+    assert.strictEqual(again.token, security.token);
+    const overridden = loadSecurityConfig({ env: { MAXCOMPUTE_HOME: process.env.MAXCOMPUTE_HOME, MAXCOMPUTE_TOKEN: 'from-env' } });
+    assert.strictEqual(overridden.token, 'from-env');
+});
+
+test('requests without the token are rejected', async () => {
+    const missing = await request('/providers', {}, { token: null });
+    assert.strictEqual(missing.status, 401);
+    assert.ok(missing.body.error.includes(security.configFile));
+
+    assert.strictEqual((await request('/providers', {}, { token: 'wrong' })).status, 401);
+    assert.strictEqual((await request('/file/save', {}, { token: `${security.token}0` })).status, 401);
+    assert.strictEqual((await request('/providers', {})).status, 200);
+});
+
+test('only the plugin iframe gets CORS headers', async () => {
+    const preflight = origin => request('/file/save', undefined, {
+        method: 'OPTIONS',
+        token: null,
+        headers: { Origin: origin, 'Access-Control-Request-Method': 'POST', 'Access-Control-Request-Headers': 'authorization,content-type' },
+    });
+
+    const plugin = await preflight('null');
+    assert.strictEqual(plugin.headers['access-control-allow-origin'], 'null');
+    assert.match(plugin.headers['access-control-allow-headers'], /Authorization/);
+
+    const page = await preflight('https://example.com');
+    assert.strictEqual(page.headers['access-control-allow-origin'], undefined);
+});
+
+test('project paths outside the allowed roots are rejected', async () => {
+    const inside = await request('/project/validate', { path: projectPath });
+    assert.deepStrictEqual([inside.status, inside.body], [200, { isValid: true }]);
+
+    for (const rejected of [outside, path.join(projectsRoot, '..', 'outside'), path.join(projectsRoot, 'link'), 'projects/shop', '']) {
+        const res = await request('/project/validate', { path: rejected });
+        assert.strictEqual(res.status, 400, rejected);
+        assert.match(res.body.error, /^path must be an absolute path inside one of the allowed project roots/);
+    }
+    // Through a symlink that leaves the root, nothing is written
+    const res = await request('/project/feature', { projectPath: path.join(projectsRoot, 'link'), featureName: 'home' });
+    assert.strictEqual(res.status, 400);
+    assert.ok(!fs.existsSync(path.join(outside, 'lib')));
+});
+
+test('feature and file names cannot leave their folder', async () => {
+    const save = (featureName, fileName) => request('/file/save', { projectPath, featureName, fileName, content: 'class A {}' });
+
+    for (const [featureName, fileName] of [['../../../outside', 'a.dart'], ['auth', '../../../../outside/a.dart'], ['auth/nested', 'a.dart'], ['..', 'a.dart'], ['auth', '.hidden.dart'], ['auth', '..\\a.dart']]) {
+        const res = await save(featureName, fileName);
+        assert.strictEqual(res.status, 400, `${featureName}/${fileName}`);
+    }
+    assert.strictEqual((await request('/project/feature', { projectPath, featureName: '../escape' })).status, 400);
+    assert.deepStrictEqual(fs.readdirSync(outside), ['pubspec.yaml']);
+    assert.ok(!fs.existsSync(path.join(projectPath, 'lib', 'escape')));
+
+    const saved = await save('auth', 'login_screen.dart');
+    assert.strictEqual(saved.status, 200);
+    assert.strictEqual(saved.body.filePath, path.join(fs.realpathSync(projectPath), 'lib', 'features', 'auth', 'login_screen.dart'));
+
+    // The service checks names too, for callers other than the routes
+    const projectService = new ProjectService({ uploadsDir: path.join(tmpRoot, 'uploads') });
+    await assert.rejects(projectService.saveGeneratedFile(projectPath, 'auth', '../../../x.dart', 'class A {}'), /Invalid feature or file name/);
+    await assert.rejects(projectService.createFeature(projectPath, '../../x'), /Invalid feature or file name/);
+});
+
+test('flutter create gets the project name as one argument, without a shell', async () => {
+    const res = await request('/project/create', { parentPath: projectsRoot, projectName: 'app; touch pwned' });
+    assert.strictEqual(res.status, 400);
+    assert.match(res.body.error, /projectName must be a Dart package name/);
+    assert.strictEqual((await request('/project/create', { parentPath: outside, projectName: 'app' })).status, 400);
+
+    // Stand-in flutter that records its arguments and creates the project folder
+    const flutterPath = path.join(tmpRoot, 'flutter');
+    fs.writeFileSync(flutterPath, `#!${process.execPath}\nconst fs = require('fs');\nfs.writeFileSync('args.json', JSON.stringify(process.argv.slice(2)));\nfs.mkdirSync(process.argv[3]);\n`, { mode: 0o755 });
+    const projectService = new ProjectService({ uploadsDir: path.join(tmpRoot, 'uploads'), flutterPath });
+
+    await assert.rejects(projectService.createProject(projectsRoot, '$(touch pwned)'), /Invalid project name/);
+    const fullPath = await projectService.createProject(projectsRoot, 'cart_app');
+    assert.strictEqual(fullPath, path.join(projectsRoot, 'cart_app'));
+    assert.deepStrictEqual(JSON.parse(fs.readFileSync(path.join(projectsRoot, 'args.json'), 'utf8')), ['create', 'cart_app']);
+    assert.ok(fs.existsSync(path.join(fullPath, 'lib', 'features')));
+    assert.ok(!fs.existsSync(path.join(projectsRoot, 'pwned')));
+});
+
+test('request bodies are checked against each route schema', async () => {
+    const cases = [
+        ['/file/save', { projectPath, featureName: 'auth', fileName: 'a.dart', content: 42 }, 'content must be a string.'],
+        ['/file/save', { projectPath, featureName: 'auth', fileName: 'a.dart', content: '', force: 'yes' }, 'force must be a boolean.'],
+        ['/project/feature', { projectPath }, 'Missing featureName in request body.'],
+        ['/project/theme', { projectPath, tokens: [] }, 'tokens must be an object.'],
+        ['/project/components', { projectPath, components: 'all' }, 'components must be an array.'],
+        ['/project/routes', { projectPath, screens: [{ id: '1:1', featureName: 'home', fileName: '../main.dart' }] }, /^screens\[0\]\.fileName must be a plain name/],
+        ['/upload-image', { name: 'logo', data: 'AA==', format: 'exe' }, 'format must be one of: png, svg.'],
+        ['/diff', { previous: {} }, 'Missing current in request body.'],
+        ['/log', { message: { text: 'hi' } }, 'message must be a string.'],
+        ['/convert', { figmaData: {}, contextImage: '../../index.js', options: { mode: 'deterministic' } }, /^contextImage must be a plain name/],
+        ['/convert', { figmaData: {}, projectPath: outside, options: { mode: 'deterministic' } }, /^projectPath must be an absolute path/],
+        ['/convert/stream', { figmaData: {}, regenerate: { featureName: 'auth', fileName: '../../x.dart' }, options: { mode: 'deterministic' } }, /^regenerate\.fileName must be a plain name/],
+        ['/convert', { breakpoints: [{ name: 'mobile', figmaData: {}, contextImage: '/etc/passwd' }], options: { mode: 'deterministic' } }, /^breakpoints\[0\]\.contextImage must be a plain name/],
+        ['/convert', { figmaData: {}, assets: { '1:2': null }, options: { mode: 'deterministic' } }, 'Missing assets["1:2"] in request body.'],
+        ['/convert', { figmaData: {}, assets: { '1:2': { filename: '../../.env' } }, options: { mode: 'deterministic' } }, /^assets\["1:2"\]\.filename must be a plain name/],
+        ['/convert', { figmaData: {}, assets: { '1:2': { filename: 'a.png', format: 'gif' } }, options: { mode: 'deterministic' } }, 'assets["1:2"].format must be one of: png, svg.'],
+        ['/convert', { figmaData: { children: [null] }, options: { mode: 'deterministic' } }, 'Missing figmaData.children[0] in request body.'],
+        ['/convert', { figmaData: { children: [{ children: 'x' }] }, options: { mode: 'deterministic' } }, 'figmaData.children[0].children must be an array.'],
+        ['/diff', { previous: {}, current: { children: 'x' } }, 'current.children must be an array.'],
+        ['/project/components', { projectPath, components: [{}] }, 'Missing components[0].id in request body.'],
+        ['/project/components', { projectPath, components: [{ id: '1:1', name: 'Button', data: [] }] }, 'components[0].data must be an object.'],
+        ['/project/components', { projectPath, components: [], assets: { '1:2': 'logo.png' } }, 'assets["1:2"] must be an object.'],
+        ['/providers', [], 'Request body must be a JSON object.'],
+    ];
+    for (const [endpoint, body, expected] of cases) {
+        const res = await request(endpoint, body);
+        assert.strictEqual(res.status, 400, `${endpoint} ${JSON.stringify(body)}`);
+        if (expected instanceof RegExp) assert.match(res.body.error, expected);
+        else assert.strictEqual(res.body.error, expected);
+    }
+
+    const uploaded = await request('/upload-image', { name: '../logo', data: 'AA==' });
+    assert.strictEqual(uploaded.status, 200);
+    assert.match(uploaded.body.filename, /^___logo_\d+_\w+\.png$/);
+    fs.rmSync(path.join(__dirname, 'uploads', uploaded.body.filename));
+});
+
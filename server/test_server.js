@@ -1,4 +1,8 @@
 const http = require('http');
+const { loadSecurityConfig } = require('./src/utils/security');
+
+// Same token the running server reads (~/.maxcompute/config.json or MAXCOMPUTE_TOKEN)
+const { token } = loadSecurityConfig();
 
 const mockFigmaData = {
     id: "1:2",
@@ -30,13 +34,14 @@ const mockFigmaData = {
 const data = JSON.stringify({ figmaData: mockFigmaData });
 
 const options = {
-    hostname: 'localhost',
+    hostname: '127.0.0.1',
     port: 3000,
     path: '/convert',
     method: 'POST',
     headers: {
         'Content-Type': 'application/json',
-        'Content-Length': data.length
+        'Content-Length': data.length,
+        'Authorization': `Bearer ${token}`
     }
 };
 
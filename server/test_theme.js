@@ -0,0 +1,158 @@
+/**
+ * Design token tests: Dart names for styles and variables, alias resolution, the theme files
+ * written by ThemeService and the prompt section. fixtures/tokens/<name>.json (an extract-tokens
+ * payload) is written into a temporary project and each file is compared against
+ * fixtures/tokens/__snapshots__/<name>.<file>.
+ *
+ * Usage: node test_theme.js [--update]
+ */
+const fs = require('fs');
+const path = require('path');
+const assert = require('node:assert');
+const { test } = require('node:test');
+const ThemeService = require('./src/services/themeService');
+const { toIdentifier, buildTokenIndex, describeTokens } = require('./src/utils/designTokens');
+const { quietConsole, tempDir } = require('./testSupport');
+
+quietConsole();
+
+const fixturesDir = path.join(__dirname, 'fixtures', 'tokens');
+const snapshotsDir = path.join(fixturesDir, '__snapshots__');
+const update = process.argv.includes('--update');
+const tmpRoot = tempDir('theme');
+const themeService = new ThemeService();
+const brand = JSON.parse(fs.readFileSync(path.join(fixturesDir, 'brand.json'), 'utf8'));
+
+function checkSnapshot(snapshotName, content) {
+    const snapshotPath = path.join(snapshotsDir, snapshotName);
+    if (update) {
+        fs.mkdirSync(snapshotsDir, { recursive: true });
+        fs.writeFileSync(snapshotPath, content, 'utf8');
+        return;
+    }
+    assert.ok(fs.existsSync(snapshotPath), `${snapshotName} is missing (run with --update to write it)`);
+    assert.ok(fs.readFileSync(snapshotPath, 'utf8') === content, `output differs from ${snapshotName} (run with --update to accept)`);
+}
+
+test('style names become unique Dart identifiers', () => {
+    const used = new Set();
+    assert.strictEqual(toIdentifier('Brand/Primary 500', used), 'brandPrimary500');
+    assert.strictEqual(toIdentifier('Brand / Primary 500', used), 'brandPrimary5002');
+    assert.strictEqual(toIdentifier('brand-primary-500', used), 'brandPrimary5003');
+    assert.strictEqual(toIdentifier('default', used), 'defaultToken');
+    assert.strictEqual(toIdentifier('Switch', used), 'switchToken');
+    assert.strictEqual(toIdentifier('500', used, 'color'), 'color500');
+    assert.strictEqual(toIdentifier('🙂', used, 'color'), 'color');
+    assert.strictEqual(toIdentifier('Dark', new Set(), 'mode', 'Mode'), 'dark');
+    assert.strictEqual(toIdentifier('new', new Set(), 'mode', 'Mode'), 'newMode');
+});
+
+test('the token index resolves aliases and maps IDs to Dart references', () => {
+    const index = buildTokenIndex(brand);
+
+    assert.deepStrictEqual(index.colors.map(token => token.name), [
+        'brandPrimary500', 'brandPrimary5002', 'defaultToken', 'color500',
+        'surface', 'onSurface', 'accent', 'gray900', 'ink', 'white',
+    ]);
+    assert.deepStrictEqual(index.gradients.map(token => token.name), ['heroGradient']);
+    assert.deepStrictEqual(index.shadows.map(token => token.name), ['elevationCard']);
+    assert.deepStrictEqual(index.modes, ['Light', 'Dark']);
+
+    // The first visible paint of a style counts
+    assert.deepStrictEqual(index.colors[2].color, { r: 0.5, g: 0.5, b: 0.5 });
+
+    // Alias chains across collections end at a value; a missing target falls back to the default mode
+    const onSurface = index.colors.find(token => token.name === 'onSurface');
+    assert.deepStrictEqual(onSurface.modes, { Light: { r: 0.1, g: 0.1, b: 0.12, a: 1 }, Dark: { r: 1, g: 1, b: 1, a: 1 } });
+    const accent = index.colors.find(token => token.name === 'accent');
+    assert.deepStrictEqual(accent.modes.Dark, accent.color);
+
+    assert.deepStrictEqual(index.lookup['S:primary'], { kind: 'color', ref: 'AppColors.brandPrimary500' });
+    assert.deepStrictEqual(index.lookup['S:hero'], { kind: 'gradient', ref: 'AppColors.heroGradient' });
+    assert.deepStrictEqual(index.lookup['V:surface'], { kind: 'color', ref: 'AppColorTokens.of(context).surface' });
+    assert.deepStrictEqual(index.lookup['V:white'], { kind: 'color', ref: 'AppColors.white' });
+    assert.deepStrictEqual(index.lookup['T:body-large'], { kind: 'textStyle', ref: 'AppTextStyles.bodyLarge' });
+    assert.deepStrictEqual(index.lookup['E:card'], { kind: 'shadow', ref: 'AppShadows.elevationCard' });
+
+    // Hidden paints, inner shadows, self-references and non-color variables are left out
+    ['S:hidden', 'E:inner', 'V:loop', 'V:spacing'].forEach(id => assert.strictEqual(index.lookup[id], undefined, id));
+});
+
+test('alias chains are followed at most ten steps', () => {
+    const chain = length => Array.from({ length }, (_, i) => ({
+        id: `V:${i}`,
+        name: `Step ${i}`,
+        resolvedType: 'COLOR',
+        valuesByMode: { m: i === length - 1 ? { r: 1, g: 0, b: 0, a: 1 } : { type: 'VARIABLE_ALIAS', id: `V:${i + 1}` } },
+    }));
+    const indexOf = variables => buildTokenIndex({ variableCollections: [{ defaultModeId: 'm', modes: [{ modeId: 'm', name: 'Value' }], variables }] });
+
+    assert.ok(indexOf(chain(11)).lookup['V:0'], 'ten aliases resolve');
+    assert.strictEqual(indexOf(chain(13)).lookup['V:0'], undefined, 'longer chains are dropped');
+    assert.ok(indexOf(chain(13)).lookup['V:2']);
+});
+
+test('theme files match the snapshots', async () => {
+    const projectPath = path.join(tmpRoot, 'brand');
+    const { files } = await themeService.writeTheme(projectPath, brand);
+
+    assert.deepStrictEqual(files.map(file => path.relative(projectPath, file)), [
+        'lib/core/theme/app_colors.dart',
+        'lib/core/theme/app_text_styles.dart',
+        'lib/core/theme/app_shadows.dart',
+        'lib/core/theme/app_theme.dart',
+    ]);
+    files.forEach(file => checkSnapshot(`brand.${path.basename(file)}`, fs.readFileSync(file, 'utf8')));
+});
+
+test('mode-aware colors get a ThemeExtension and one ThemeData per mode', () => {
+    const index = buildTokenIndex(brand);
+    const colors = themeService.buildColorsFile(index);
+    assert.match(colors, /class AppColorTokens extends ThemeExtension<AppColorTokens> \{/);
+    assert.match(colors, /static const AppColorTokens light = AppColorTokens\(/);
+    assert.match(colors, /static const AppColorTokens dark = AppColorTokens\(/);
+    assert.match(colors, /onSurface: Color\.lerp\(onSurface, other\.onSurface, t\)!,/);
+    assert.doesNotMatch(colors, /final Color white;/, 'single-mode variables stay on AppColors');
+
+    const theme = themeService.buildThemeFile(index);
+    assert.match(theme, /static ThemeData light\(\) => _build\(Brightness\.light, AppColorTokens\.light\);/);
+    assert.match(theme, /static ThemeData dark\(\) => _build\(Brightness\.dark, AppColorTokens\.dark\);/);
+    assert.match(theme, /extensions: <ThemeExtension<dynamic>>\[colorTokens\]/);
+});
+
+test('text styles fill the first matching TextTheme slot', () => {
+    const theme = themeService.buildThemeFile(buildTokenIndex(brand));
+    const slots = [...theme.matchAll(/(\w+): AppTextStyles\.(\w+)/g)].map(match => `${match[1]}=${match[2]}`);
+    assert.deepStrictEqual(slots, [
+        'headlineLarge=heading1',
+        'bodyLarge=bodyLarge',
+        'bodyMedium=bodyRegular',
+        'labelLarge=labelLink',
+        'labelSmall=caption',
+    ]);
+});
+
+test('the theme file only imports the token files it uses', () => {
+    const imports = tokens => [...themeService.buildThemeFile(buildTokenIndex(tokens)).matchAll(/^import '(\w+\.dart)';$/gm)].map(match => match[1]);
+
+    assert.deepStrictEqual(imports(brand), ['app_colors.dart', 'app_text_styles.dart']);
+    assert.deepStrictEqual(imports({ textStyles: brand.textStyles }), ['app_text_styles.dart']);
+    assert.deepStrictEqual(imports({ paintStyles: brand.paintStyles.slice(0, 1) }), ['app_colors.dart']);
+    assert.deepStrictEqual(imports({ variableCollections: brand.variableCollections.slice(0, 1) }), ['app_colors.dart']);
+
+    const empty = themeService.buildThemeFile(buildTokenIndex(null));
+    assert.deepStrictEqual(imports({}), []);
+    assert.match(empty, /seedColor: Colors\.blue/);
+    assert.match(empty, /static ThemeData light\(\) => _build\(Brightness\.light\);/);
+    assert.doesNotMatch(empty, /textTheme|extensions/);
+});
+
+test('the prompt lists every token ID with its Dart reference', () => {
+    const prompt = describeTokens(buildTokenIndex(brand));
+    assert.match(prompt, /^## DESIGN TOKENS\n/);
+    assert.ok(prompt.includes('- `S:primary` (color) → `AppColors.brandPrimary500`'), prompt);
+    assert.ok(prompt.includes('- `V:on-surface` (color) → `AppColorTokens.of(context).onSurface`'), prompt);
+    assert.ok(prompt.includes('- `T:caption` (textStyle) → `AppTextStyles.caption`'), prompt);
+    assert.ok(prompt.includes("import '../../core/theme/app_colors.dart';"), prompt);
+    assert.strictEqual(describeTokens(buildTokenIndex({})), '');
+});
@@ -0,0 +1,219 @@
+/**
+ * Validation tests: the built-in Dart syntax check, dart format / analyze through a fake
+ * `dart` executable, and the repair loop.
+ *
+ * Usage: node test_validation.js
+ */
+const fs = require('fs');
+const path = require('path');
+const assert = require('node:assert');
+const { test } = require('node:test');
+const ValidationService = require('./src/services/validationService');
+const ProjectService = require('./src/services/projectService');
+const { checkDartSyntax, pubspecDependencies } = require('./src/utils/dartSyntax');
+const { quietConsole, tempDir } = require('./testSupport');
+
+quietConsole();
+
+const tmpRoot = tempDir('validation');
+
+const VALID = `import 'package:flutter/material.dart';
+
+class LoginScreen extends StatelessWidget {
+  const LoginScreen({super.key});
+
+  @override
+  Widget build(BuildContext context) {
+    // Brackets in comments and strings are ignored: ) ] }
+    return Text('Hello \${name.toUpperCase()} (world) {', style: const TextStyle(fontSize: 16));
+  }
+}
+`;
+
+// Stands in for the Dart SDK: format collapses blank lines, analyze reports every line containing BROKEN
+const FAKE_DART = `#!/usr/bin/env node
+const fs = require('fs');
+const [command, ...args] = process.argv.slice(2);
+if (command === '--version') {
+    console.log('Dart SDK version: 3.5.0 (fake)');
+} else if (command === 'format') {
+    const file = args[0];
+    const source = fs.readFileSync(file, 'utf8');
+    if (source.includes('BROKEN')) process.exit(65);
+    fs.writeFileSync(file, source.replace(/\\n{3,}/g, '\\n\\n'));
+} else if (command === 'analyze') {
+    const file = args[args.length - 1];
+    fs.readFileSync(file, 'utf8').split('\\n').forEach((line, index) => {
+        const column = line.indexOf('BROKEN');
+        if (column !== -1) console.log(['ERROR', 'SYNTACTIC_ERROR', 'EXPECTED_TOKEN', file, index + 1, column + 1, 6, "Expected ';' after this."].join('|'));
+    });
+    console.log(['INFO', 'LINT', 'prefer_const_constructors', '/elsewhere/other.dart', 1, 1, 1, 'Not this file.'].join('|'));
+    process.exit(3);
+}
+`;
+
+function createProject(name, { resolved = true } = {}) {
+    const projectPath = path.join(tmpRoot, name);
+    fs.mkdirSync(path.join(projectPath, 'lib', 'features'), { recursive: true });
+    fs.writeFileSync(path.join(projectPath, 'pubspec.yaml'), 'name: app\ndependencies:\n  flutter:\n    sdk: flutter\n  google_fonts: ^6.0.0\ndev_dependencies:\n  flutter_test:\n    sdk: flutter\n', 'utf8');
+    if (resolved) {
+        fs.mkdirSync(path.join(projectPath, '.dart_tool'));
+        fs.writeFileSync(path.join(projectPath, '.dart_tool', 'package_config.json'), '{}', 'utf8');
+    }
+    return projectPath;
+}
+
+const fakeDart = path.join(tmpRoot, 'dart');
+fs.writeFileSync(fakeDart, FAKE_DART, { mode: 0o755 });
+
+test('built-in check accepts valid code', () => {
+    assert.deepStrictEqual(checkDartSyntax(VALID), []);
+});
+
+test('built-in check reports unbalanced brackets and unterminated strings without cascading', () => {
+    const unbalanced = checkDartSyntax(VALID.replace("const TextStyle(fontSize: 16));", "const TextStyle(fontSize: 16);"));
+    assert.deepStrictEqual(unbalanced.map(d => [d.line, d.code]), [[10, 'EXPECTED_TOKEN']]);
+    assert.strictEqual(unbalanced[0].severity, 'error');
+    assert.match(unbalanced[0].message, /Expected '\)' to close '\(' from line 9, found '}'/);
+
+    const unterminated = checkDartSyntax("final a = 'abc;\nfinal b = [1, 2];\n/* never closed");
+    assert.deepStrictEqual(unterminated.map(d => [d.line, d.column, d.code]), [
+        [1, 11, 'UNTERMINATED_STRING_LITERAL'],
+        [3, 1, 'UNTERMINATED_MULTI_LINE_COMMENT'],
+    ]);
+});
+
+test('built-in check reports fences, missing imports and packages missing from pubspec', () => {
+    const code = "```dart\nimport 'package:flutter_svg/flutter_svg.dart';\n\nclass Logo extends StatelessWidget {\n  Widget build(BuildContext context) => GoogleFonts.inter();\n}\n```";
+    const dependencies = pubspecDependencies(fs.readFileSync(path.join(createProject('pubspec-only', { resolved: false }), 'pubspec.yaml'), 'utf8'));
+    assert.deepStrictEqual(dependencies, ['app', 'flutter', 'google_fonts', 'flutter_test']);
+
+    const diagnostics = checkDartSyntax(code, { dependencies });
+    assert.deepStrictEqual(diagnostics.map(d => [d.line, d.code]), [
+        [1, 'MARKDOWN_FENCE'],
+        [2, 'URI_DOES_NOT_EXIST'],
+        [4, 'UNDEFINED_IDENTIFIER'],
+        [5, 'UNDEFINED_IDENTIFIER'],
+    ]);
+    assert.match(diagnostics[3].message, /'GoogleFonts' is used without importing 'package:google_fonts\/google_fonts.dart'/);
+});
+
+test('built-in check accepts imports of the project itself', () => {
+    const dependencies = pubspecDependencies("name: 'my_app'\ndescription: A shop.\ndependencies:\n  flutter:\n    sdk: flutter\n");
+    assert.deepStrictEqual(dependencies, ['my_app', 'flutter']);
+
+    const code = "import 'package:flutter/material.dart';\nimport 'package:my_app/core/theme/app_colors.dart';\nimport 'package:other_app/main.dart';\n";
+    assert.deepStrictEqual(checkDartSyntax(code, { dependencies }).map(d => [d.line, d.code]), [[3, 'URI_DOES_NOT_EXIST']]);
+});
+
+test('falls back to the built-in check without an SDK or resolved packages', async () => {
+    const missingSdk = new ValidationService({ dartPath: path.join(tmpRoot, 'no-such-dart') });
+    const result = await missingSdk.validate('class A {', { projectPath: createProject('no-sdk') });
+    assert.strictEqual(result.tool, 'builtin');
+    assert.deepStrictEqual(result.diagnostics.map(d => d.code), ['EXPECTED_TOKEN']);
+
+    const unresolved = new ValidationService({ dartPath: fakeDart });
+    assert.strictEqual((await unresolved.validate(VALID, { projectPath: createProject('unresolved', { resolved: false }) })).tool, 'builtin');
+    assert.strictEqual((await unresolved.validate(VALID, {})).tool, 'builtin');
+});
+
+test('formats and analyzes inside the project with the Dart SDK', async () => {
+    const projectPath = createProject('sdk');
+    const service = new ValidationService({ dartPath: fakeDart });
+
+    const formatted = await service.validate('class A {}\n\n\n\nclass B {}\n', { projectPath, fileName: 'home.dart' });
+    assert.deepStrictEqual(formatted, { code: 'class A {}\n\nclass B {}\n', diagnostics: [], tool: 'dart' });
+
+    const broken = await service.validate('class A {\n  int x = 1 BROKEN\n}\n', { projectPath, fileName: 'home.dart' });
+    assert.strictEqual(broken.code, 'class A {\n  int x = 1 BROKEN\n}\n', 'unformattable code is returned as is');
+    assert.deepStrictEqual(broken.diagnostics, [
+        { severity: 'error', line: 2, column: 13, code: 'EXPECTED_TOKEN', message: "Expected ';' after this." },
+    ]);
+
+    // The scratch copy is removed again
+    assert.deepStrictEqual(fs.readdirSync(path.join(projectPath, 'lib', 'features')), []);
+});
+
+test('scratch copies are not features and interrupted checks are cleaned up', async () => {
+    const projectPath = createProject('interrupted');
+    const featuresDir = path.join(projectPath, 'lib', 'features');
+    const hourAgo = new Date(Date.now() - 60 * 60 * 1000);
+    fs.mkdirSync(path.join(featuresDir, 'auth'));
+    for (const dir of ['.max_compute_check', '.max_compute_check_1_stale', '.max_compute_check_2_running']) {
+        fs.mkdirSync(path.join(featuresDir, dir));
+        fs.writeFileSync(path.join(featuresDir, dir, 'home.dart'), 'class A {}\n', 'utf8');
+        if (dir !== '.max_compute_check_2_running') fs.utimesSync(path.join(featuresDir, dir), hourAgo, hourAgo);
+    }
+
+    assert.deepStrictEqual(await new ProjectService().getFeatures(projectPath), ['auth']);
+
+    await new ValidationService({ dartPath: fakeDart, timeout: 60 * 1000 }).validate(VALID, { projectPath, fileName: 'home.dart' });
+    assert.deepStrictEqual(fs.readdirSync(featuresDir).sort(), ['.max_compute_check_2_running', 'auth']);
+});
+
+test('concurrent checks each analyze against their own companions', async () => {
+    // Reports the companion next to the analyzed file, as the analyzer would see it
+    const companionDart = path.join(tmpRoot, 'dart-companion');
+    fs.writeFileSync(companionDart, `#!/usr/bin/env node
+const fs = require('fs');
+const path = require('path');
+const [command, ...args] = process.argv.slice(2);
+if (command === 'analyze') {
+    const file = args[args.length - 1];
+    const state = fs.readFileSync(path.join(path.dirname(file), 'home_state.dart'), 'utf8').trim();
+    console.log(['INFO', 'LINT', 'companion', file, 1, 1, 1, state].join('|'));
+}
+`, { mode: 0o755 });
+    const projectPath = createProject('concurrent');
+    const service = new ValidationService({ dartPath: companionDart });
+    const check = version => service.validate(VALID, { projectPath, fileName: 'home.dart', companions: [{ fileName: 'home_state.dart', content: `// ${version}\n` }] });
+
+    const results = await Promise.all([check('first'), check('second')]);
+    assert.deepStrictEqual(results.map(result => result.diagnostics.map(diagnostic => diagnostic.message)), [['// first'], ['// second']]);
+    assert.deepStrictEqual(fs.readdirSync(path.join(projectPath, 'lib', 'features')), []);
+});
+
+test('repair loop sends errors back until the code is clean', async () => {
+    const service = new ValidationService({ dartPath: fakeDart });
+    const calls = [];
+    const progress = [];
+    const repair = async (code, errors) => {
+        calls.push(errors.map(e => e.line));
+        return code.replace('BROKEN', calls.length === 1 ? ';\n  int y = 2 BROKEN' : ';');
+    };
+
+    const result = await service.validateAndRepair('class A {\n  int x = 1 BROKEN\n}\n', {
+        projectPath: createProject('repair'),
+        repair,
+        onProgress: message => progress.push(message),
+    });
+
+    assert.deepStrictEqual(calls, [[2], [3]]);
+    assert.deepStrictEqual(progress, ['Repairing 1 error(s), round 1/2...', 'Repairing 1 error(s), round 2/2...']);
+    assert.strictEqual(result.repairRounds, 2);
+    assert.deepStrictEqual(result.diagnostics, []);
+    assert.strictEqual(result.code, 'class A {\n  int x = 1 ;\n  int y = 2 ;\n}\n');
+});
+
+test('repair loop stops after the configured rounds and skips clean or deterministic code', async () => {
+    const service = new ValidationService({ dartPath: fakeDart });
+    const projectPath = createProject('bounded');
+    let calls = 0;
+    const stubborn = async code => {
+        calls++;
+        return code;
+    };
+
+    const exhausted = await service.validateAndRepair('int x = 1 BROKEN', { projectPath, repair: stubborn, maxRounds: 1 });
+    assert.strictEqual(calls, 1);
+    assert.strictEqual(exhausted.repairRounds, 1);
+    assert.strictEqual(exhausted.diagnostics.length, 1);
+
+    const clean = await service.validateAndRepair(VALID, { projectPath, repair: stubborn });
+    assert.strictEqual(clean.repairRounds, 0);
+
+    const unrepaired = await service.validateAndRepair('int x = 1 BROKEN', { projectPath });
+    assert.strictEqual(unrepaired.repairRounds, 0);
+    assert.strictEqual(unrepaired.diagnostics.length, 1);
+    assert.strictEqual(calls, 1);
+});
@@ -0,0 +1,238 @@
+/**
+ * Visual check tests: the PNG codec, the pixel diff, golden rendering through a fake
+ * `flutter` executable, and the refinement loop.
+ *
+ * Usage: node test_visual.js
+ */
+const fs = require('fs');
+const path = require('path');
+const assert = require('node:assert');
+const { test } = require('node:test');
+const VisualService = require('./src/services/visualService');
+const { decodePng, encodePng } = require('./src/utils/png');
+const { compareImages } = require('./src/utils/imageDiff');
+const { buildRefineInstruction } = require('./src/utils/promptBuilder');
+const { quietConsole, tempDir } = require('./testSupport');
+
+quietConsole();
+
+const tmpRoot = tempDir('visual');
+const uploadsDir = path.join(tmpRoot, 'uploads');
+fs.mkdirSync(uploadsDir);
+
+// Frame of 40x20 logical pixels, exported at 1.5x like the plugin's context image
+const FRAME = { width: 40, height: 20 };
+const BLUE = [24, 160, 251, 255];
+const WHITE = [255, 255, 255, 255];
+
+/**
+ * RGBA image filled with `background`, with the left half in `left` (if given)
+ */
+function image(width, height, background, left = null) {
+    const data = Buffer.alloc(width * height * 4);
+    for (let i = 0; i < width * height; i++) {
+        const pixel = left && (i % width) < width / 2 ? left : background;
+        data.set(pixel, i * 4);
+    }
+    return { width, height, data };
+}
+
+// Stands in for the Flutter SDK: `test` renders the widget as white, with a blue left half
+// when its source or its home_state.dart companion contains BLUE_BOX, and writes no golden when
+// the source contains CRASH
+const FAKE_FLUTTER = `#!/usr/bin/env node
+const fs = require('fs');
+const path = require('path');
+const { encodePng } = require(${JSON.stringify(path.join(__dirname, 'src', 'utils', 'png'))});
+const [command, ...args] = process.argv.slice(2);
+if (command === '--version') {
+    console.log('Flutter 3.24.0 (fake)');
+} else if (command === 'test') {
+    const testFile = args[args.length - 1];
+    const harness = fs.readFileSync(testFile, 'utf8');
+    const widgetPath = harness.match(/import 'package:\\w+\\/(features\\/.*?)';/)[1];
+    const source = fs.readFileSync(path.join('lib', widgetPath), 'utf8');
+    const companion = path.join('lib', path.dirname(widgetPath), 'home_state.dart');
+    const state = fs.existsSync(companion) ? fs.readFileSync(companion, 'utf8') : '';
+    if (source.includes('CRASH')) {
+        console.error('Error: The method CRASH was not found.');
+        process.exit(1);
+    }
+    const [width, height] = harness.match(/Size\\(([\\d.]+), ([\\d.]+)\\)/).slice(1).map(Number);
+    const golden = harness.match(/matchesGoldenFile\\('(.*?)'\\)/)[1];
+    const data = Buffer.alloc(width * height * 4, 255);
+    if (source.includes('BLUE_BOX') || state.includes('BLUE_BOX')) {
+        for (let i = 0; i < width * height; i++) if (i % width < width / 2) data.set([24, 160, 251, 255], i * 4);
+    }
+    fs.writeFileSync(path.join(path.dirname(testFile), golden), encodePng({ width, height, data }));
+}
+`;
+
+const fakeFlutter = path.join(tmpRoot, 'flutter');
+fs.writeFileSync(fakeFlutter, FAKE_FLUTTER, { mode: 0o755 });
+
+function createProject(name, { resolved = true } = {}) {
+    const projectPath = path.join(tmpRoot, name);
+    fs.mkdirSync(path.join(projectPath, 'lib', 'features'), { recursive: true });
+    fs.writeFileSync(path.join(projectPath, 'pubspec.yaml'), 'name: demo_app\ndependencies:\n  flutter:\n    sdk: flutter\n', 'utf8');
+    if (resolved) {
+        fs.mkdirSync(path.join(projectPath, '.dart_tool'));
+        fs.writeFileSync(path.join(projectPath, '.dart_tool', 'package_config.json'), '{}', 'utf8');
+    }
+    return projectPath;
+}
+
+function uploadContextImage(name, picture) {
+    fs.writeFileSync(path.join(uploadsDir, name), encodePng(picture));
+    return name;
+}
+
+const widget = body => `import 'package:flutter/material.dart';
+
+class OfferCard extends StatelessWidget {
+  const OfferCard({super.key});
+
+  @override
+  Widget build(BuildContext context) {
+    return ${body};
+  }
+}
+`;
+
+const visualService = new VisualService({ flutterPath: fakeFlutter, uploadsDir });
+
+test('PNG images survive an encode and decode round trip', async () => {
+    const picture = image(5, 3, [10, 20, 30, 128], BLUE);
+    const decoded = decodePng(encodePng(picture));
+    assert.strictEqual(decoded.width, 5);
+    assert.strictEqual(decoded.height, 3);
+    assert.ok(decoded.data.equals(picture.data));
+    assert.throws(() => decodePng(Buffer.from('GIF89a')), /Not a PNG image/);
+});
+
+test('compareImages scores matching pixels and marks differences in the heatmap', async () => {
+    const expected = image(16, 8, WHITE, BLUE);
+    assert.strictEqual(compareImages(expected, image(16, 8, WHITE, BLUE)).similarity, 1);
+
+    const result = compareImages(expected, image(16, 8, WHITE));
+    assert.strictEqual(result.similarity, 0.5);
+    assert.strictEqual(result.mismatchedPixels, 64);
+    assert.strictEqual(result.sizeMatches, true);
+    assert.deepStrictEqual(result.regions[0], { x: 0, y: 0, width: 2, height: 1, mismatch: 1 });
+    assert.strictEqual(result.heatmap.data[0], 255, 'differences are red');
+    assert.ok(result.heatmap.data[4 * 15 + 1] > 200, 'matching pixels are faded');
+});
+
+test('compareImages scales a rendering of a different size and blends transparency over white', async () => {
+    const result = compareImages(image(16, 8, WHITE, BLUE), image(32, 16, [0, 0, 0, 0], BLUE));
+    assert.strictEqual(result.sizeMatches, false);
+    assert.strictEqual(result.similarity, 1);
+});
+
+test('verify reports why the check cannot run', async () => {
+    const contextImage = uploadContextImage('skip.png', image(60, 30, WHITE));
+    const code = widget('const SizedBox()');
+
+    assert.match((await visualService.verify(code, { contextImage, ...FRAME })).skipped, /No Flutter project/);
+    const unresolved = createProject('unresolved', { resolved: false });
+    assert.match((await visualService.verify(code, { projectPath: unresolved, contextImage, ...FRAME })).skipped, /flutter pub get/);
+
+    const noSdk = new VisualService({ flutterPath: path.join(tmpRoot, 'missing-flutter'), uploadsDir });
+    const projectPath = createProject('no-sdk');
+    assert.match((await noSdk.verify(code, { projectPath, contextImage, ...FRAME })).skipped, /Flutter SDK not found/);
+});
+
+test('verify renders the widget at the frame size and cleans up the harness', async () => {
+    const projectPath = createProject('render');
+    const contextImage = uploadContextImage('render.png', image(60, 30, WHITE, BLUE));
+
+    const result = await visualService.verify(widget('const ColoredBox(color: BLUE_BOX)'), { projectPath, contextImage, ...FRAME });
+    assert.strictEqual(result.similarity, 1);
+    assert.strictEqual(result.sizeMatches, true);
+    assert.deepStrictEqual(decodePng(Buffer.from(result.heatmap, 'base64')).width, 60);
+
+    const different = await visualService.verify(widget('const SizedBox()'), { projectPath, contextImage, ...FRAME });
+    assert.strictEqual(different.similarity, 0.5);
+    assert.deepStrictEqual(different.regions[0], { x: 0, y: 0, width: 5, height: 3, mismatch: 1 }, 'regions are in logical pixels');
+
+    assert.deepStrictEqual(fs.readdirSync(path.join(projectPath, 'lib', 'features')), []);
+    assert.ok(!fs.existsSync(path.join(projectPath, 'test', '.max_compute_visual')));
+});
+
+test('files of an interrupted rendering are removed by the next one', async () => {
+    const projectPath = createProject('interrupted');
+    const contextImage = uploadContextImage('interrupted.png', image(60, 30, WHITE, BLUE));
+    const leftovers = [
+        path.join(projectPath, 'lib', 'features', '.max_compute_visual_1', 'visual_1.dart'),
+        path.join(projectPath, 'test', '.max_compute_visual', 'visual_1_test.dart'),
+    ];
+    const hourAgo = new Date(Date.now() - 60 * 60 * 1000);
+    for (const file of leftovers) {
+        fs.mkdirSync(path.dirname(file), { recursive: true });
+        fs.writeFileSync(file, '// interrupted\n', 'utf8');
+        fs.utimesSync(file, hourAgo, hourAgo);
+        fs.utimesSync(path.dirname(file), hourAgo, hourAgo);
+    }
+
+    const service = new VisualService({ flutterPath: fakeFlutter, uploadsDir, timeout: 60 * 1000 });
+    assert.strictEqual((await service.verify(widget('const ColoredBox(color: BLUE_BOX)'), { projectPath, contextImage, ...FRAME })).similarity, 1);
+    assert.deepStrictEqual(fs.readdirSync(path.join(projectPath, 'lib', 'features')), []);
+    assert.ok(!fs.existsSync(path.join(projectPath, 'test', '.max_compute_visual')));
+});
+
+test('concurrent renderings each use their own companions', async () => {
+    const projectPath = createProject('concurrent');
+    const contextImage = uploadContextImage('concurrent.png', image(60, 30, WHITE, BLUE));
+    const render = state => visualService.verify(widget('const SizedBox()'), {
+        projectPath, contextImage, ...FRAME, companions: [{ fileName: 'home_state.dart', content: state }],
+    });
+
+    const results = await Promise.all([render('// BLUE_BOX\n'), render('// plain\n')]);
+    assert.deepStrictEqual(results.map(result => result.similarity), [1, 0.5]);
+    assert.deepStrictEqual(fs.readdirSync(path.join(projectPath, 'lib', 'features')), []);
+});
+
+test('verify reports rendering failures without throwing', async () => {
+    const projectPath = createProject('crash');
+    const contextImage = uploadContextImage('crash.png', image(60, 30, WHITE));
+    const result = await visualService.verify(widget('CRASH()'), { projectPath, contextImage, ...FRAME });
+    assert.match(result.skipped, /Rendering failed: Error: The method CRASH was not found\./);
+});
+
+test('verifyAndRefine keeps refined code only when it looks closer to the design', async () => {
+    const projectPath = createProject('refine');
+    const contextImage = uploadContextImage('refine.png', image(60, 30, WHITE, BLUE));
+    const frame = { projectPath, contextImage, ...FRAME };
+
+    const seen = [];
+    const improved = await visualService.verifyAndRefine(widget('const SizedBox()'), {
+        ...frame,
+        maxRounds: 2,
+        refine: async (code, visual) => {
+            seen.push(visual.similarity);
+            return widget('const ColoredBox(color: BLUE_BOX)');
+        },
+    });
+    assert.deepStrictEqual(seen, [0.5]);
+    assert.ok(improved.code.includes('BLUE_BOX'));
+    assert.strictEqual(improved.visual.similarity, 1);
+    assert.strictEqual(improved.visual.refineRounds, 1);
+
+    const worse = await visualService.verifyAndRefine(widget('const SizedBox()'), {
+        ...frame,
+        maxRounds: 2,
+        refine: async () => widget('CRASH()'),
+    });
+    assert.ok(!worse.code.includes('CRASH'));
+    assert.strictEqual(worse.visual.similarity, 0.5);
+
+    const unrefined = await visualService.verifyAndRefine(widget('const SizedBox()'), { ...frame, refine: async () => { throw new Error('not called'); } });
+    assert.strictEqual(unrefined.visual.refineRounds, 0, 'no rounds unless asked for');
+});
+
+test('the refinement prompt lists the score and where the differences are', async () => {
+    const prompt = buildRefineInstruction('class OfferCard {}', { similarity: 0.8125, regions: [{ x: 0, y: 0, width: 5, height: 3, mismatch: 1 }] });
+    assert.ok(prompt.includes('81.3% of pixels match'), prompt);
+    assert.ok(prompt.includes('- x 0–5, y 0–3: 100% of pixels differ'), prompt);
+    assert.ok(prompt.includes('```dart\nclass OfferCard {}\n```'), prompt);
+});